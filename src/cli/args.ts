@@ -0,0 +1,497 @@
+/**
+ * 命令行参数
+ *
+ * 转换选项的参数由选项结构描述生成：顶层选项对应 `--<选项名>`，对象选项的字段对应
+ * `--<选项名>-<字段名>`（均为短横线形式），字段本身是设置对象时继续展开（如
+ * `--encryption-permissions-print`），布尔值可用 `--no-<选项名>` 关闭。
+ * 可选结构中的内容（如首页页眉页脚）通过 `--config` 指定的配置文件设置。
+ *
+ * @packageDocumentation
+ */
+
+import { OPTION_DESCRIPTORS } from '../core/capabilities';
+import { buildOptionsSchema } from '../core/options-schema';
+import type { PDFConversionOptions, PDFEngineKind, PDFOptionCategory, PDFOptionsSchema } from '../types';
+
+/**
+ * 命令行选项
+ */
+export interface CliOptions {
+  /** 输入的卡片文件路径或通配模式 */
+  inputs: string[];
+  /** 输出目录或文件 */
+  output?: string;
+  /** 并行转换数 */
+  jobs: number;
+  /** JSON 报告路径，`-` 表示标准输出 */
+  report?: string;
+  /** 是否在卡片变化时重新导出 */
+  watch: boolean;
+  /** 是否只输出错误 */
+  quiet: boolean;
+  /** 渲染引擎 */
+  engine: PDFEngineKind;
+  /** 插件配置文件 */
+  configPath?: string;
+  /** 转换选项 */
+  conversion: PDFConversionOptions;
+  /** 显示帮助 */
+  help: boolean;
+  /** 显示版本 */
+  version: boolean;
+}
+
+/**
+ * 命令行用法错误
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * 参数值类型
+ * @internal
+ */
+type FlagKind = 'boolean' | 'string' | 'number' | 'list' | 'json' | 'file';
+
+/**
+ * 转换选项参数
+ * @internal
+ */
+interface OptionFlag {
+  /** 参数名（不含 `--`） */
+  flag: string;
+  /** 值类型 */
+  kind: FlagKind;
+  /** 顶层选项名 */
+  option: keyof PDFConversionOptions;
+  /** 对象选项中的字段路径 */
+  path?: string[];
+  /** 说明 */
+  title: string;
+  /** 可选值 */
+  values?: Array<string | number | boolean>;
+  /** 所属类别 */
+  category?: PDFOptionCategory;
+  /** 布尔参数只能关闭（如 `--no-header-footer-first-page`） */
+  negatedOnly?: boolean;
+}
+
+/**
+ * 不提供命令行参数的选项
+ * @internal
+ */
+const EXCLUDED_OPTIONS: ReadonlySet<string> = new Set(['outputPath']);
+
+/**
+ * 默认并行转换数
+ * @internal
+ */
+const DEFAULT_JOBS = 2;
+
+/**
+ * 类别名称
+ * @internal
+ */
+const CATEGORY_TITLES: Readonly<Record<PDFOptionCategory, string>> = {
+  page: '页面设置',
+  'cover-toc': '封面目录',
+  output: '输出控制',
+  render: '渲染控制',
+};
+
+/**
+ * 由选项结构描述生成的转换选项参数
+ * @internal
+ */
+const OPTION_FLAGS: ReadonlyMap<string, OptionFlag> = buildOptionFlags(buildOptionsSchema(OPTION_DESCRIPTORS));
+
+/**
+ * 解析命令行参数
+ *
+ * @param argv - 参数（不含 node 与脚本路径）
+ * @throws CliUsageError 参数无效时
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    inputs: [],
+    jobs: DEFAULT_JOBS,
+    watch: false,
+    quiet: false,
+    engine: 'auto',
+    conversion: {},
+    help: false,
+    version: false,
+  };
+  const fields = new Map<keyof PDFConversionOptions, Record<string, unknown>>();
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === '--') {
+      options.inputs.push(...argv.slice(index + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      options.inputs.push(arg);
+      continue;
+    }
+
+    const [name, inline] = splitArg(arg);
+    const next = (): string => {
+      if (inline !== undefined) {
+        return inline;
+      }
+      const value = argv[index + 1];
+      if (value === undefined || (value.startsWith('--') && value.length > 2)) {
+        throw new CliUsageError(`参数 ${name} 需要一个值`);
+      }
+      index++;
+      return value;
+    };
+
+    switch (name) {
+      case '-h':
+      case '--help':
+        options.help = true;
+        continue;
+      case '-v':
+      case '--version':
+        options.version = true;
+        continue;
+      case '-o':
+      case '--output':
+        options.output = next();
+        continue;
+      case '-j':
+      case '--jobs':
+        options.jobs = parseInteger(name, next());
+        continue;
+      case '-w':
+      case '--watch':
+        options.watch = true;
+        continue;
+      case '-q':
+      case '--quiet':
+        options.quiet = true;
+        continue;
+      case '--report':
+        options.report = next();
+        continue;
+      case '--config':
+        options.configPath = next();
+        continue;
+      case '--engine': {
+        const engine = next();
+        if (engine !== 'auto' && engine !== 'puppeteer' && engine !== 'playwright') {
+          throw new CliUsageError(`不支持的渲染引擎: ${engine}，支持: auto, puppeteer, playwright`);
+        }
+        options.engine = engine;
+        continue;
+      }
+    }
+
+    const negated = name.startsWith('--no-');
+    const spec = OPTION_FLAGS.get(negated ? name.slice(5) : name.slice(2));
+    if (!spec || (negated && spec.kind !== 'boolean')) {
+      throw new CliUsageError(`未知参数: ${name}`);
+    }
+    let value: unknown;
+    if (spec.kind === 'boolean') {
+      value = inline === undefined ? !negated : parseBoolean(name, inline);
+      if (spec.negatedOnly && value !== false) {
+        throw new CliUsageError(`参数 --${spec.flag} 只能关闭，请使用 --no-${spec.flag}`);
+      }
+    } else {
+      value = parseValue(spec, next());
+    }
+
+    if (spec.path === undefined) {
+      (options.conversion as Record<string, unknown>)[spec.option] = value;
+      continue;
+    }
+    const record = fields.get(spec.option) ?? {};
+    let parent = record;
+    for (const key of spec.path.slice(0, -1)) {
+      parent = (parent[key] ??= {}) as Record<string, unknown>;
+    }
+    const key = spec.path[spec.path.length - 1]!;
+    const current = parent[key];
+    if (spec.kind === 'list' && Array.isArray(current)) {
+      current.push(...(value as string[]));
+    } else {
+      parent[key] = value;
+    }
+    fields.set(spec.option, record);
+  }
+
+  // 字段参数优先：同时指定 `--toc` 与 `--toc-max-depth` 时使用对象形式
+  for (const [option, record] of fields) {
+    (options.conversion as Record<string, unknown>)[option] = record;
+  }
+
+  if (!Number.isInteger(options.jobs) || options.jobs < 1) {
+    throw new CliUsageError(`并行转换数需为正整数: ${options.jobs}`);
+  }
+  if (!options.help && !options.version && options.inputs.length === 0) {
+    throw new CliUsageError('请指定至少一个卡片文件');
+  }
+  return options;
+}
+
+/**
+ * 生成帮助信息
+ *
+ * @param command - 命令名
+ */
+export function formatHelp(command = 'cardto-pdf'): string {
+  const lines = [
+    `用法: ${command} [选项] <卡片文件或通配模式...>`,
+    '',
+    '示例:',
+    `  ${command} card.card`,
+    `  ${command} "cards/**/*.card" -o dist/pdf -j 4 --report report.json`,
+    `  ${command} poster.card -o poster.pdf --fit-to-single-page`,
+    '',
+    '通用选项:',
+    '  -o, --output <路径>       输出目录；只有一个输入时可为 .pdf 文件。默认输出到卡片所在目录',
+    `  -j, --jobs <数量>         并行转换数，默认 ${DEFAULT_JOBS}`,
+    '  -w, --watch               卡片文件变化时重新导出',
+    '      --report <路径>       写入 JSON 报告，- 表示标准输出',
+    '      --config <路径>       插件配置文件（按类别组织的 JSON）',
+    '      --engine <引擎>       渲染引擎: auto、puppeteer、playwright',
+    '  -q, --quiet               只输出错误',
+    '  -h, --help                显示帮助',
+    '  -v, --version             显示版本',
+  ];
+
+  for (const [category, title] of Object.entries(CATEGORY_TITLES)) {
+    const specs = Array.from(OPTION_FLAGS.values()).filter((spec) => spec.category === category);
+    if (specs.length === 0) {
+      continue;
+    }
+    lines.push('', `${title}:`);
+    for (const spec of specs) {
+      const values = spec.values ? `（${spec.values.join('、')}）` : '';
+      lines.push(`  ${padColumn(formatFlag(spec), 40)} ${spec.title}${values}`);
+    }
+  }
+  lines.push(
+    '',
+    '同时指定布尔参数与其字段参数（如 --toc 与 --toc-max-depth）时，以字段参数组成的对象为准。',
+    '更深层的选项（如 headerFooter.firstPage 的内容）请写入 --config 指定的配置文件。'
+  );
+  return lines.join('\n');
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 由选项结构描述生成参数表
+ * @internal
+ */
+function buildOptionFlags(schema: PDFOptionsSchema): Map<string, OptionFlag> {
+  const flags = new Map<string, OptionFlag>();
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    if (EXCLUDED_OPTIONS.has(name)) {
+      continue;
+    }
+    const option = name as keyof PDFConversionOptions;
+    const category = property['x-category'];
+    const kind = kindOf(property);
+    if (kind) {
+      const flag = toKebab(name);
+      flags.set(flag, { flag, kind, option, title: property.title ?? name, values: enumOf(property), category });
+    }
+
+    const settings = [property, ...(property.anyOf ?? [])].find((item) => item.properties);
+    addFieldFlags(flags, settings, { flag: toKebab(name), option, path: [], category });
+  }
+  return flags;
+}
+
+/**
+ * 为对象选项的字段生成参数，字段本身是设置对象时逐级展开
+ * @internal
+ */
+function addFieldFlags(
+  flags: Map<string, OptionFlag>,
+  settings: PDFOptionsSchema | undefined,
+  parent: { flag: string; option: keyof PDFConversionOptions; path: string[]; category?: PDFOptionCategory }
+): void {
+  for (const [field, child] of Object.entries(settings?.properties ?? {})) {
+    const flag = `${parent.flag}-${toKebab(field)}`;
+    const path = [...parent.path, field];
+    const kind = kindOf(child);
+    if (!kind) {
+      addFieldFlags(flags, child, { ...parent, flag, path });
+      continue;
+    }
+    flags.set(flag, {
+      flag,
+      kind,
+      option: parent.option,
+      path,
+      title: child.title ?? field,
+      values: enumOf(child),
+      category: parent.category,
+      negatedOnly: kind === 'boolean' && isFalseOnly(child),
+    });
+  }
+}
+
+/**
+ * 判断布尔值只能为 false（如 `headerFooter.firstPage`）
+ * @internal
+ */
+function isFalseOnly(schema: PDFOptionsSchema): boolean {
+  const branch = (schema.anyOf ?? [schema]).find((item) => item.type === 'boolean');
+  return branch?.enum?.length === 1 && branch.enum[0] === false;
+}
+
+/**
+ * 判断选项的参数值类型；只能以对象字段设置的选项返回 undefined
+ * @internal
+ */
+function kindOf(schema: PDFOptionsSchema): FlagKind | undefined {
+  const branches = schema.anyOf ?? [schema];
+  const types = branches.flatMap((branch) =>
+    branch.type === undefined ? [] : Array.isArray(branch.type) ? branch.type : [branch.type]
+  );
+  if (types.includes('boolean')) {
+    return 'boolean';
+  }
+  if (branches.some((branch) => branch.properties?.data?.format === 'binary')) {
+    return 'file';
+  }
+  if (types.includes('string')) {
+    return 'string';
+  }
+  if (types.includes('number') || types.includes('integer')) {
+    return 'number';
+  }
+  if (types.includes('array')) {
+    return 'list';
+  }
+  if (types.includes('object') && !branches.some((branch) => branch.properties)) {
+    return 'json';
+  }
+  return undefined;
+}
+
+/**
+ * 读取可选值
+ * @internal
+ */
+function enumOf(schema: PDFOptionsSchema): Array<string | number | boolean> | undefined {
+  return schema.enum ?? schema.anyOf?.find((branch) => branch.enum && branch.type !== 'boolean')?.enum;
+}
+
+/**
+ * 转换参数值
+ * @internal
+ */
+function parseValue(spec: OptionFlag, value: string): unknown {
+  switch (spec.kind) {
+    case 'number': {
+      const number = Number(value);
+      if (value.trim() === '' || !Number.isFinite(number)) {
+        throw new CliUsageError(`参数 --${spec.flag} 需要数字: ${value}`);
+      }
+      return number;
+    }
+    case 'list':
+      return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw new CliUsageError(`参数 --${spec.flag} 需要 JSON: ${value}`);
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * 解析布尔参数值
+ * @internal
+ */
+function parseBoolean(name: string, value: string): boolean {
+  if (value === 'true') {
+    return true;
+  }
+  if (value === 'false') {
+    return false;
+  }
+  throw new CliUsageError(`参数 ${name} 的值需为 true 或 false: ${value}`);
+}
+
+/**
+ * 解析整数参数值
+ * @internal
+ */
+function parseInteger(name: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    throw new CliUsageError(`参数 ${name} 需要整数: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * 拆分 `--name=value` 形式的参数
+ * @internal
+ */
+function splitArg(arg: string): [string, string | undefined] {
+  const separator = arg.indexOf('=');
+  return arg.startsWith('--') && separator > 0 ? [arg.slice(0, separator), arg.slice(separator + 1)] : [arg, undefined];
+}
+
+/**
+ * 生成帮助中的参数写法
+ * @internal
+ */
+function formatFlag(spec: OptionFlag): string {
+  switch (spec.kind) {
+    case 'boolean':
+      return spec.negatedOnly ? `--no-${spec.flag}` : `--[no-]${spec.flag}`;
+    case 'number':
+      return `--${spec.flag} <数字>`;
+    case 'list':
+      return `--${spec.flag} <a,b,...>`;
+    case 'json':
+      return `--${spec.flag} <JSON>`;
+    case 'file':
+      return `--${spec.flag} <文件或 data URL>`;
+    default:
+      return `--${spec.flag} <值>`;
+  }
+}
+
+/**
+ * 按终端显示宽度补齐到指定列宽，全角字符按两列计算
+ * @internal
+ */
+function padColumn(text: string, width: number): string {
+  const columns = Array.from(text).reduce((sum, char) => sum + (/[\u1100-\uffff]/.test(char) ? 2 : 1), 0);
+  return text + ' '.repeat(Math.max(width - columns, 1));
+}
+
+/**
+ * 驼峰名转短横线形式
+ * @internal
+ */
+function toKebab(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+    .toLowerCase();
+}
@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+/**
+ * cardto-pdf 命令行入口
+ *
+ * @packageDocumentation
+ */
+
+import { main } from './run';
+
+void main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,276 @@
+/**
+ * 命令行输入与输出路径
+ *
+ * 输入可以是卡片文件、目录（查找其中的 .card 文件）或通配模式（支持 `*`、`?`、`**` 与 `[...]`）。
+ * 输出到目录时保留卡片相对于输入根目录的路径，未指定输出时 PDF 写在卡片旁边。
+ *
+ * @packageDocumentation
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliUsageError } from './args';
+import { mimeTypeOf } from '../html/resources';
+
+/**
+ * 卡片文件扩展名
+ */
+export const CARD_EXTENSION = '.card';
+
+/**
+ * 遍历时跳过的目录
+ * @internal
+ */
+const IGNORED_DIRS: ReadonlySet<string> = new Set(['node_modules']);
+
+/**
+ * 输入的卡片文件
+ */
+export interface CardInput {
+  /** 卡片文件绝对路径 */
+  path: string;
+  /** 输入根目录，用于计算输出的相对路径 */
+  base: string;
+}
+
+/**
+ * 输入的监听位置
+ */
+export interface WatchRoot {
+  /** 监听的目录 */
+  dir: string;
+  /** 是否包含子目录 */
+  recursive: boolean;
+  /** 判断变化的文件是否属于输入 */
+  matches(file: string): boolean;
+}
+
+/**
+ * 展开后的输入
+ */
+export interface ResolvedInputs {
+  /** 卡片文件，按路径排序 */
+  cards: CardInput[];
+  /** 监听位置 */
+  roots: WatchRoot[];
+}
+
+/**
+ * 展开输入的卡片路径与通配模式
+ *
+ * @param patterns - 命令行中的输入
+ * @param cwd - 当前目录
+ * @throws CliUsageError 输入不存在或通配模式没有匹配到卡片时
+ */
+export async function resolveInputs(patterns: string[], cwd = process.cwd()): Promise<ResolvedInputs> {
+  const cards = new Map<string, CardInput>();
+  const roots: WatchRoot[] = [];
+
+  for (const pattern of patterns) {
+    const normalized = pattern.split(path.sep).join('/');
+    if (!hasMagic(normalized)) {
+      const target = path.resolve(cwd, pattern);
+      const stat = await fs.promises.stat(target).catch(() => undefined);
+      if (!stat) {
+        throw new CliUsageError(`输入不存在: ${pattern}`);
+      }
+      if (stat.isDirectory()) {
+        for (const file of await walk(target, true)) {
+          if (isCard(file)) {
+            addCard(cards, file, target);
+          }
+        }
+        roots.push({ dir: target, recursive: true, matches: isCard });
+      } else {
+        addCard(cards, target, path.dirname(target));
+        roots.push({ dir: path.dirname(target), recursive: false, matches: (file) => file === target });
+      }
+      continue;
+    }
+
+    const [staticPart, dynamicPart] = splitPattern(normalized);
+    const base = path.resolve(cwd, staticPart || '.');
+    const matcher = globToRegExp(dynamicPart);
+    const recursive = dynamicPart.includes('**') || dynamicPart.includes('/');
+    const matches = (file: string): boolean =>
+      isCard(file) && matcher.test(path.relative(base, file).split(path.sep).join('/'));
+
+    const found = (await walk(base, recursive)).filter(matches);
+    if (found.length === 0) {
+      throw new CliUsageError(`没有匹配的卡片文件: ${pattern}`);
+    }
+    for (const file of found) {
+      addCard(cards, file, base);
+    }
+    roots.push({ dir: base, recursive, matches });
+  }
+
+  return {
+    cards: Array.from(cards.values()).sort((a, b) => a.path.localeCompare(b.path)),
+    roots,
+  };
+}
+
+/**
+ * 计算各卡片的输出路径
+ *
+ * @param cards - 卡片文件
+ * @param output - 输出目录或 .pdf 文件；未指定时输出到卡片所在目录
+ * @param cwd - 当前目录
+ * @returns 卡片路径到输出路径的映射
+ * @throws CliUsageError 多个输入指定了单个输出文件，或多张卡片的输出路径相同时
+ */
+export function planOutputs(cards: CardInput[], output?: string, cwd = process.cwd()): Map<string, string> {
+  const outputs = new Map<string, string>();
+  const owners = new Map<string, string>();
+  const toFile = output !== undefined && path.extname(output).toLowerCase() === '.pdf';
+
+  if (toFile && cards.length > 1) {
+    throw new CliUsageError(`有 ${cards.length} 张卡片，输出需为目录而不是文件: ${output}`);
+  }
+
+  for (const card of cards) {
+    let target: string;
+    if (output === undefined) {
+      target = replaceExtension(card.path);
+    } else if (toFile) {
+      target = path.resolve(cwd, output);
+    } else {
+      target = path.join(path.resolve(cwd, output), replaceExtension(path.relative(card.base, card.path)));
+    }
+
+    const owner = owners.get(target);
+    if (owner !== undefined) {
+      throw new CliUsageError(`卡片 ${owner} 与 ${card.path} 的输出路径相同: ${target}`);
+    }
+    owners.set(target, card.path);
+    outputs.set(card.path, target);
+  }
+  return outputs;
+}
+
+/**
+ * 将文件路径或 data URL 读取为水印图片
+ *
+ * @param value - 命令行中的值
+ * @param cwd - 当前目录
+ * @returns data URL 原样返回，文件读取为图片数据
+ * @throws CliUsageError 文件无法读取时
+ */
+export async function readImageArg(
+  value: string,
+  cwd = process.cwd()
+): Promise<string | { contentType: string; data: Uint8Array }> {
+  if (value.startsWith('data:')) {
+    return value;
+  }
+  const file = path.resolve(cwd, value);
+  try {
+    const data = await fs.promises.readFile(file);
+    return { contentType: mimeTypeOf(file), data: new Uint8Array(data) };
+  } catch (error) {
+    throw new CliUsageError(`图片读取失败 (${value}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 记录卡片，重复的路径保留第一次出现时的根目录
+ * @internal
+ */
+function addCard(cards: Map<string, CardInput>, file: string, base: string): void {
+  if (!cards.has(file)) {
+    cards.set(file, { path: file, base });
+  }
+}
+
+/**
+ * 判断是否为卡片文件
+ * @internal
+ */
+function isCard(file: string): boolean {
+  return path.extname(file).toLowerCase() === CARD_EXTENSION;
+}
+
+/**
+ * 将扩展名替换为 .pdf
+ * @internal
+ */
+function replaceExtension(file: string): string {
+  return file.slice(0, file.length - path.extname(file).length) + '.pdf';
+}
+
+/**
+ * 列出目录中的文件，跳过隐藏目录与 node_modules
+ * @internal
+ */
+async function walk(dir: string, recursive: boolean): Promise<string[]> {
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive && !entry.name.startsWith('.') && !IGNORED_DIRS.has(entry.name)) {
+        files.push(...(await walk(full, true)));
+      }
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+/**
+ * 判断路径中是否含有通配符
+ * @internal
+ */
+function hasMagic(pattern: string): boolean {
+  return /[*?[]/.test(pattern);
+}
+
+/**
+ * 拆分通配模式中不含通配符的目录前缀
+ * @internal
+ */
+function splitPattern(pattern: string): [string, string] {
+  const segments = pattern.split('/');
+  const index = segments.findIndex(hasMagic);
+  return [segments.slice(0, index).join('/') || (pattern.startsWith('/') ? '/' : ''), segments.slice(index).join('/')];
+}
+
+/**
+ * 将通配模式转换为正则表达式
+ * @internal
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '*') {
+      if (pattern[index + 1] === '*') {
+        const slash = pattern[index + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        index += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', index + 1);
+      if (end < 0) {
+        source += '\\[';
+        continue;
+      }
+      const body = pattern.slice(index + 1, end).replace(/\\/g, '\\\\');
+      source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+      index = end;
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,156 @@
+/**
+ * 命令行进度显示
+ *
+ * 进度写入标准错误，避免与输出到标准输出的 JSON 报告混在一起。
+ * 终端中以单行状态显示正在转换的卡片与 `onProgress` 报告的进度，每张卡片完成时输出一行结果；
+ * 非终端环境只输出完成结果。
+ *
+ * @packageDocumentation
+ */
+
+import type { PDFProgressInfo } from '../types';
+
+/**
+ * 进度显示
+ */
+export class ProgressDisplay {
+  /** 输出流 */
+  private readonly _stream: NodeJS.WriteStream;
+
+  /** 是否只输出错误 */
+  private readonly _quiet: boolean;
+
+  /** 是否刷新状态行 */
+  private readonly _interactive: boolean;
+
+  /** 正在转换的卡片及其进度 */
+  private readonly _active = new Map<string, PDFProgressInfo | undefined>();
+
+  /** 本轮卡片总数 */
+  private _total = 0;
+
+  /** 本轮已完成数 */
+  private _done = 0;
+
+  /** 是否显示着状态行 */
+  private _hasLine = false;
+
+  /**
+   * @param stream - 输出流
+   * @param quiet - 是否只输出错误
+   */
+  constructor(stream: NodeJS.WriteStream = process.stderr, quiet = false) {
+    this._stream = stream;
+    this._quiet = quiet;
+    this._interactive = !quiet && stream.isTTY === true;
+  }
+
+  /**
+   * 开始一轮转换
+   *
+   * @param total - 卡片总数
+   */
+  begin(total: number): void {
+    this._total = total;
+    this._done = 0;
+    this._active.clear();
+  }
+
+  /**
+   * 卡片开始转换
+   *
+   * @param name - 显示名称
+   */
+  start(name: string): void {
+    this._active.set(name, undefined);
+    this._render();
+  }
+
+  /**
+   * 更新卡片进度
+   *
+   * @param name - 显示名称
+   * @param info - `onProgress` 报告的进度
+   */
+  update(name: string, info: PDFProgressInfo): void {
+    if (this._active.has(name)) {
+      this._active.set(name, info);
+      this._render();
+    }
+  }
+
+  /**
+   * 卡片转换结束
+   *
+   * @param name - 显示名称
+   * @param success - 是否成功
+   * @param detail - 附加说明（输出路径或错误信息）
+   */
+  finish(name: string, success: boolean, detail: string): void {
+    this._active.delete(name);
+    this._done++;
+    if (success && this._quiet) {
+      this._render();
+      return;
+    }
+    this._print(`${success ? '✓' : '✗'} ${name} ${success ? '→' : ':'} ${detail}`);
+  }
+
+  /**
+   * 输出一行信息
+   *
+   * @param message - 信息
+   * @param important - 是否在只输出错误时也显示
+   */
+  log(message: string, important = false): void {
+    if (!this._quiet || important) {
+      this._print(message);
+    }
+  }
+
+  /**
+   * 清除状态行
+   */
+  clear(): void {
+    if (this._interactive && this._hasLine) {
+      this._stream.write('\r\x1b[2K');
+      this._hasLine = false;
+    }
+  }
+
+  // ============================================================================
+  // 内部工具
+  // ============================================================================
+
+  /**
+   * 输出一行并重绘状态行
+   * @internal
+   */
+  private _print(line: string): void {
+    this.clear();
+    this._stream.write(`${line}\n`);
+    this._render();
+  }
+
+  /**
+   * 重绘状态行
+   * @internal
+   */
+  private _render(): void {
+    if (!this._interactive) {
+      return;
+    }
+    this.clear();
+    const first = this._active.entries().next();
+    if (first.done) {
+      return;
+    }
+    const [name, info] = first.value;
+    const others = this._active.size > 1 ? ` 等 ${this._active.size} 张` : '';
+    const progress = info ? ` ${Math.round(info.percent)}%${info.currentStep ? ` ${info.currentStep}` : ''}` : '';
+    const columns = this._stream.columns ?? 80;
+    const line = `[${this._done}/${this._total}] ${name}${others}${progress}`.slice(0, Math.max(columns - 1, 10));
+    this._stream.write(line);
+    this._hasLine = true;
+  }
+}
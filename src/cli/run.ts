@@ -0,0 +1,490 @@
+/**
+ * 命令行执行
+ *
+ * 按输入展开卡片文件，以指定的并行数调用 {@link CardtoPDFPlugin.convert}，
+ * 输出进度与 JSON 报告，并按第一个失败的错误码设置退出码。监听模式下卡片变化时重新导出。
+ * 收到 SIGINT 或 SIGTERM 时取消进行中的转换、销毁插件并删除未完成的输出文件。
+ *
+ * @packageDocumentation
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CliUsageError, formatHelp, parseCliArgs } from './args';
+import type { CliOptions } from './args';
+import { planOutputs, readImageArg, resolveInputs } from './inputs';
+import type { CardInput, WatchRoot } from './inputs';
+import { ProgressDisplay } from './progress';
+import { createPlugin } from '../plugin';
+import type { CardtoPDFPlugin } from '../plugin';
+import { PDFConversionError, toErrorInfo } from '../core/errors';
+import { PDFErrorCode } from '../types';
+import type { PDFConversionOptions, PDFConversionResult, PDFErrorDetails } from '../types';
+
+/**
+ * 退出码
+ *
+ * @remarks 转换错误的退出码为 `10 + 错误码序号`，如 `CONV-PDF-003` 对应 13
+ */
+export const ExitCode = {
+  /** 全部成功 */
+  SUCCESS: 0,
+  /** 未分类的错误 */
+  FAILURE: 1,
+  /** 命令行用法错误 */
+  USAGE: 2,
+  /** 被中断（SIGINT） */
+  INTERRUPTED: 130,
+  /** 被终止（SIGTERM） */
+  TERMINATED: 143,
+} as const;
+
+/**
+ * 单张卡片的报告
+ */
+export interface CliReportEntry {
+  /** 卡片文件 */
+  input: string;
+  /** 输出文件 */
+  output: string;
+  /** 是否成功 */
+  success: boolean;
+  /** 任务ID */
+  taskId: string;
+  /** 页数 */
+  pageCount?: number;
+  /** 文件大小（字节） */
+  fileSize?: number;
+  /** 转换耗时（毫秒） */
+  duration?: number;
+  /** 警告 */
+  warnings?: string[];
+  /** 错误 */
+  error?: {
+    code: string;
+    message: string;
+    details?: PDFErrorDetails;
+    retryable?: boolean;
+  };
+}
+
+/**
+ * JSON 报告
+ */
+export interface CliReport {
+  /** 生成时间（ISO 8601） */
+  generatedAt: string;
+  /** 卡片总数 */
+  total: number;
+  /** 成功数 */
+  succeeded: number;
+  /** 失败数 */
+  failed: number;
+  /** 总耗时（毫秒） */
+  duration: number;
+  /** 退出码 */
+  exitCode: number;
+  /** 各卡片的结果，按卡片路径排序 */
+  results: CliReportEntry[];
+}
+
+/**
+ * 按错误码计算退出码
+ *
+ * @param code - 转换错误码
+ */
+export function exitCodeOf(code: string | undefined): number {
+  const match = code === undefined ? null : /^CONV-PDF-(\d+)$/.exec(code);
+  return match ? 10 + Number(match[1]) : ExitCode.FAILURE;
+}
+
+/**
+ * 执行命令
+ *
+ * @param argv - 参数（不含 node 与脚本路径）
+ * @returns 退出码；监听模式在收到终止信号后返回
+ */
+export async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    return reportFatal(error);
+  }
+  if (options.help) {
+    process.stdout.write(`${formatHelp()}\n`);
+    return ExitCode.SUCCESS;
+  }
+
+  const plugin = createPlugin({
+    engine: options.engine,
+    browser: { maxConcurrency: options.jobs },
+    configPath: options.configPath && path.resolve(options.configPath),
+  });
+  if (options.version) {
+    process.stdout.write(`${plugin.getMetadata().version}\n`);
+    return ExitCode.SUCCESS;
+  }
+
+  let removeSignalHandlers: (() => void) | undefined;
+  try {
+    await plugin.initialize();
+    await loadImages(options.conversion);
+    // 只指定部分 --margin-* 时，其余边距沿用插件配置或外观配置中的默认边距
+    if (options.conversion.margin) {
+      options.conversion.margin = { ...plugin.getDefaultOptions().margin, ...options.conversion.margin };
+    }
+    const validation = plugin.validateOptions(options.conversion);
+    if (!validation.valid) {
+      const issue = validation.issues?.[0];
+      throw new PDFConversionError(issue?.code ?? PDFErrorCode.INVALID_OPTION, (validation.errors ?? []).join('\n'));
+    }
+
+    const runner = new CliRunner(plugin, options);
+    removeSignalHandlers = onTerminationSignal((signal) => void runner.terminate(signal));
+    for (const warning of validation.warnings ?? []) {
+      runner.progress.log(`警告: ${warning}`);
+    }
+    const { cards, roots } = await resolveInputs(options.inputs);
+    const exitCode = await Promise.race([runner.run(cards), runner.terminated]);
+    if (!options.watch || runner.terminating) {
+      return exitCode;
+    }
+    return await runner.watch(roots);
+  } catch (error) {
+    return reportFatal(error);
+  } finally {
+    removeSignalHandlers?.();
+    await plugin.destroy();
+  }
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 监听模式下合并文件变化的等待时间（毫秒）
+ * @internal
+ */
+const WATCH_DEBOUNCE = 300;
+
+/**
+ * 批量转换与监听
+ * @internal
+ */
+class CliRunner {
+  /** 进度显示 */
+  readonly progress: ProgressDisplay;
+
+  /** 插件实例 */
+  private readonly _plugin: CardtoPDFPlugin;
+
+  /** 命令行选项 */
+  private readonly _options: CliOptions;
+
+  /** 各卡片的最新结果 */
+  private readonly _entries = new Map<string, CliReportEntry>();
+
+  /** 开始时间 */
+  private readonly _startTime = Date.now();
+
+  /** 取消全部转换的控制器 */
+  private readonly _abort = new AbortController();
+
+  /** 进行中的转换：卡片文件 → 输出路径与开始时间 */
+  private readonly _active = new Map<string, { output: string; startedAt: number }>();
+
+  /** 终止完成通知 */
+  private readonly _terminated: Promise<number>;
+  private _resolveTerminated!: (exitCode: number) => void;
+
+  constructor(plugin: CardtoPDFPlugin, options: CliOptions) {
+    this._plugin = plugin;
+    this._options = options;
+    this.progress = new ProgressDisplay(process.stderr, options.quiet);
+    this._terminated = new Promise((resolve) => {
+      this._resolveTerminated = resolve;
+    });
+  }
+
+  /** 是否已收到终止信号 */
+  get terminating(): boolean {
+    return this._abort.signal.aborted;
+  }
+
+  /** 终止清理完成后兑现，值为信号对应的退出码 */
+  get terminated(): Promise<number> {
+    return this._terminated;
+  }
+
+  /**
+   * 终止执行
+   *
+   * 取消进行中的转换并销毁插件，再删除尚未完成的卡片在本次转换中写入的输出文件；
+   * 转换开始前已存在且未被改写的文件保留。重复调用时不再处理。
+   *
+   * @param signal - 收到的信号
+   */
+  async terminate(signal: NodeJS.Signals): Promise<void> {
+    if (this.terminating) {
+      return;
+    }
+    this._abort.abort();
+    const active = Array.from(this._active.values());
+    this.progress.clear();
+    this.progress.log(`收到 ${signal}，正在取消 ${active.length} 个进行中的转换`, true);
+
+    await this._plugin.destroy().catch(() => undefined);
+    await Promise.all(active.map(({ output, startedAt }) => removePartialOutput(output, startedAt)));
+    this._resolveTerminated(signal === 'SIGTERM' ? ExitCode.TERMINATED : ExitCode.INTERRUPTED);
+  }
+
+  /**
+   * 转换一批卡片
+   *
+   * @returns 本批中第一个失败的退出码，全部成功时为 0
+   */
+  async run(cards: CardInput[]): Promise<number> {
+    const outputs = planOutputs(cards, this._options.output);
+    this.progress.begin(cards.length);
+
+    const queue = [...cards];
+    const results = new Map<string, CliReportEntry>();
+    const worker = async (): Promise<void> => {
+      for (let card = queue.shift(); card && !this.terminating; card = queue.shift()) {
+        const output = outputs.get(card.path);
+        if (output !== undefined) {
+          results.set(card.path, await this._convert(card, output));
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this._options.jobs, cards.length) }, worker));
+    if (this.terminating) {
+      return this._terminated;
+    }
+    this.progress.clear();
+
+    const failed = cards.map((card) => results.get(card.path)).find((entry) => entry && !entry.success);
+    const exitCode = failed ? exitCodeOf(failed.error?.code) : ExitCode.SUCCESS;
+    if (cards.length > 1) {
+      const succeeded = cards.length - Array.from(results.values()).filter((entry) => !entry.success).length;
+      this.progress.log(`完成 ${succeeded}/${cards.length}`, succeeded < cards.length);
+    }
+    await this._writeReport(exitCode);
+    return exitCode;
+  }
+
+  /**
+   * 监听卡片变化并重新导出，直到收到终止信号
+   *
+   * @returns 终止时的退出码
+   */
+  watch(roots: WatchRoot[]): Promise<number> {
+    const timers = new Map<string, NodeJS.Timeout>();
+    const pending = new Map<string, string>();
+    let running: Promise<unknown> = Promise.resolve();
+
+    const flush = (): void => {
+      const batch = Array.from(pending, ([file, base]) => ({ path: file, base }))
+        .filter((card) => fs.existsSync(card.path))
+        .sort((a, b) => a.path.localeCompare(b.path));
+      pending.clear();
+      if (batch.length > 0) {
+        running = running.then(() => this.run(batch).catch((error: unknown) => reportFatal(error)));
+      }
+    };
+
+    const watchers = roots.map((root) =>
+      fs.watch(root.dir, { recursive: root.recursive }, (_event, filename) => {
+        if (!filename) {
+          return;
+        }
+        const file = path.join(root.dir, filename.toString());
+        if (!root.matches(file)) {
+          return;
+        }
+        clearTimeout(timers.get(file));
+        timers.set(
+          file,
+          setTimeout(() => {
+            timers.delete(file);
+            pending.set(file, root.dir);
+            flush();
+          }, WATCH_DEBOUNCE)
+        );
+      })
+    );
+    this.progress.log('正在监听卡片变化，按 Ctrl+C 退出');
+
+    return this._terminated.then(async (exitCode) => {
+      for (const watcher of watchers) {
+        watcher.close();
+      }
+      for (const timer of timers.values()) {
+        clearTimeout(timer);
+      }
+      await running;
+      return exitCode;
+    });
+  }
+
+  /**
+   * 转换一张卡片
+   */
+  private async _convert(card: CardInput, output: string): Promise<CliReportEntry> {
+    const name = path.relative(process.cwd(), card.path) || card.path;
+    this.progress.start(name);
+    this._active.set(card.path, { output, startedAt: Date.now() });
+
+    let result: PDFConversionResult;
+    try {
+      result = await this._plugin.convert(
+        { type: 'path', path: card.path, fileType: 'card' },
+        {
+          ...this._options.conversion,
+          outputPath: output,
+          onProgress: (info) => this.progress.update(name, info),
+          signal: this._abort.signal,
+        }
+      );
+    } catch (error) {
+      result = { success: false, taskId: '', error: toErrorInfo(error) };
+    } finally {
+      this._active.delete(card.path);
+    }
+
+    const entry: CliReportEntry = {
+      input: card.path,
+      output,
+      success: result.success,
+      taskId: result.taskId,
+      pageCount: result.pageCount,
+      fileSize: result.fileSize,
+      duration: result.duration,
+      warnings: result.warnings,
+      error: result.error && {
+        code: result.error.code,
+        message: result.error.message,
+        details: result.error.details,
+        retryable: result.error.retryable,
+      },
+    };
+    if (this.terminating) {
+      return entry;
+    }
+    this._entries.set(card.path, entry);
+
+    const relativeOutput = path.relative(process.cwd(), output) || output;
+    this.progress.finish(
+      name,
+      entry.success,
+      entry.success ? relativeOutput : `[${entry.error?.code ?? '未知错误'}] ${entry.error?.message ?? ''}`
+    );
+    for (const warning of entry.warnings ?? []) {
+      this.progress.log(`  警告: ${warning}`);
+    }
+    return entry;
+  }
+
+  /**
+   * 写入 JSON 报告
+   */
+  private async _writeReport(exitCode: number): Promise<void> {
+    const target = this._options.report;
+    if (target === undefined) {
+      return;
+    }
+    const results = Array.from(this._entries.values()).sort((a, b) => a.input.localeCompare(b.input));
+    const succeeded = results.filter((entry) => entry.success).length;
+    const report: CliReport = {
+      generatedAt: new Date().toISOString(),
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      duration: Date.now() - this._startTime,
+      exitCode,
+      results,
+    };
+    const text = `${JSON.stringify(report, null, 2)}\n`;
+
+    if (target === '-') {
+      process.stdout.write(text);
+      return;
+    }
+    const file = path.resolve(target);
+    try {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, text, 'utf8');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.progress.log(`报告写入失败 (${file}): ${message}`, true);
+    }
+  }
+}
+
+/**
+ * 读取以文件路径指定的水印图片
+ * @internal
+ */
+async function loadImages(options: PDFConversionOptions): Promise<void> {
+  const image = options.watermark?.image;
+  if (typeof image === 'string' && options.watermark) {
+    options.watermark.image = await readImageArg(image);
+  }
+}
+
+/**
+ * 删除指定时间之后写入的输出文件
+ * @internal
+ */
+async function removePartialOutput(output: string, since: number): Promise<void> {
+  const stats = await fs.promises.stat(output).catch(() => undefined);
+  if (stats && stats.mtimeMs >= since) {
+    await fs.promises.rm(output, { force: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * 在收到 SIGINT 或 SIGTERM 时调用处理函数
+ *
+ * 只处理第一个信号，清理期间再次收到信号时按系统默认行为立即退出
+ *
+ * @returns 移除信号处理的函数
+ * @internal
+ */
+function onTerminationSignal(handler: (signal: NodeJS.Signals) => void): () => void {
+  const signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+  const listener = (signal: NodeJS.Signals): void => {
+    for (const name of signals) {
+      process.removeListener(name, listener);
+    }
+    handler(signal);
+  };
+  for (const signal of signals) {
+    process.on(signal, listener);
+  }
+  return () => {
+    for (const signal of signals) {
+      process.removeListener(signal, listener);
+    }
+  };
+}
+
+/**
+ * 输出错误并返回对应的退出码
+ * @internal
+ */
+function reportFatal(error: unknown): number {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof CliUsageError) {
+    process.stderr.write(`错误: ${message}\n运行 cardto-pdf --help 查看用法\n`);
+    return ExitCode.USAGE;
+  }
+  if (error instanceof PDFConversionError) {
+    process.stderr.write(`错误 [${error.code}]: ${message}\n`);
+    return exitCodeOf(error.code);
+  }
+  process.stderr.write(`错误: ${message}\n`);
+  return ExitCode.FAILURE;
+}
@@ -0,0 +1,366 @@
+/**
+ * 浏览器池
+ *
+ * 在多次转换之间复用同一个无头浏览器实例，避免每次转换都启动 Chromium。
+ * 每次租用创建独立的页面并在归还时关闭，保证转换之间互不影响；
+ * 并发租用数量受上限约束，超出的请求排队等待。
+ * 浏览器空闲超时后自动关闭，崩溃或断开后在下一次租用时重新启动。
+ * 关闭时放弃排队中的请求，并等待已租出的页面归还后再关闭浏览器。
+ *
+ * 浏览器的启动、连接和建页由 {@link BrowserDriver} 完成，
+ * 池本身与具体的浏览器自动化库无关。
+ *
+ * @packageDocumentation
+ */
+
+import type { PDFBrowserPoolOptions } from '../types';
+
+/**
+ * 浏览器驱动
+ *
+ * 封装具体浏览器自动化库（Puppeteer、Playwright 等）的浏览器操作
+ */
+export interface BrowserDriver<TBrowser, TPage> {
+  /** 启动浏览器，或连接 `endpoint` 指定的已运行浏览器 */
+  launch(options: BrowserLaunchOptions): Promise<TBrowser>;
+  /** 浏览器是否仍然可用 */
+  isConnected(browser: TBrowser): boolean;
+  /** 注册浏览器断开回调 */
+  onDisconnected(browser: TBrowser, callback: () => void): void;
+  /** 创建页面 */
+  newPage(browser: TBrowser): Promise<TPage>;
+  /** 关闭页面 */
+  closePage(page: TPage): Promise<void>;
+  /** 关闭自行启动的浏览器，或断开已连接的浏览器 */
+  closeBrowser(browser: TBrowser, connected: boolean): Promise<void>;
+}
+
+/**
+ * 浏览器启动参数
+ */
+export interface BrowserLaunchOptions {
+  /** 启动参数 */
+  args: string[];
+  /** 可执行文件路径 */
+  executablePath?: string;
+  /** 已运行浏览器的连接地址 */
+  endpoint?: string;
+}
+
+/**
+ * 默认浏览器启动参数
+ * @internal
+ */
+const DEFAULT_LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-gpu',
+];
+
+/**
+ * 默认最大并发页面数
+ * @internal
+ */
+const DEFAULT_MAX_CONCURRENCY = 2;
+
+/**
+ * 默认空闲关闭时间（毫秒）
+ * @internal
+ */
+const DEFAULT_IDLE_TIMEOUT = 30000;
+
+/**
+ * 排队等待并发名额的请求
+ * @internal
+ */
+interface SlotWaiter {
+  /** 分配名额 */
+  grant(): void;
+  /** 放弃等待 */
+  reject(error: Error): void;
+}
+
+/**
+ * 页面租约
+ */
+export interface PageLease<TPage> {
+  /** 租用的页面 */
+  page: TPage;
+  /** 归还页面（关闭页面并释放并发名额） */
+  release(): Promise<void>;
+}
+
+/**
+ * 浏览器池
+ */
+export class BrowserPool<TBrowser, TPage> {
+  /** 浏览器驱动 */
+  private readonly _driver: BrowserDriver<TBrowser, TPage>;
+
+  /** 池配置 */
+  private readonly _options: Required<Omit<PDFBrowserPoolOptions, 'browserWSEndpoint' | 'executablePath'>> &
+    Pick<PDFBrowserPoolOptions, 'browserWSEndpoint' | 'executablePath'>;
+
+  /** 当前浏览器（启动中时为 Promise） */
+  private _browser: Promise<TBrowser> | undefined;
+
+  /** 正在使用的页面数 */
+  private _active = 0;
+
+  /** 等待并发名额的请求 */
+  private readonly _waiters: SlotWaiter[] = [];
+
+  /** 等待所有页面归还的回调 */
+  private readonly _drainWaiters: Array<() => void> = [];
+
+  /** 正在进行的关闭 */
+  private _closing: Promise<void> | undefined;
+
+  /** 空闲关闭计时器 */
+  private _idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(driver: BrowserDriver<TBrowser, TPage>, options: PDFBrowserPoolOptions = {}) {
+    this._driver = driver;
+    this._options = {
+      maxConcurrency: Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY),
+      idleTimeout: options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT,
+      launchArgs: options.launchArgs ?? DEFAULT_LAUNCH_ARGS,
+      executablePath: options.executablePath,
+      browserWSEndpoint: options.browserWSEndpoint,
+    };
+  }
+
+  /** 正在使用的页面数 */
+  get activeCount(): number {
+    return this._active;
+  }
+
+  /** 排队等待的请求数 */
+  get pendingCount(): number {
+    return this._waiters.length;
+  }
+
+  /**
+   * 租用一个页面
+   *
+   * @remarks 浏览器池正在关闭时，等关闭完成后重新启动浏览器再租用
+   * @param signal - 取消信号，排队期间触发时放弃等待
+   * @throws 浏览器不可用、等待被取消或排队期间浏览器池被关闭时抛出错误
+   */
+  async acquire(signal?: AbortSignal): Promise<PageLease<TPage>> {
+    if (this._closing) {
+      await this._closing;
+    }
+    await this._acquireSlot(signal);
+    this._clearIdleTimer();
+
+    let page: TPage;
+    try {
+      const browser = await this._getBrowser();
+      page = await this._driver.newPage(browser);
+    } catch (error) {
+      this._releaseSlot();
+      throw error;
+    }
+
+    let released = false;
+    return {
+      page,
+      release: async () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        try {
+          await this._driver.closePage(page);
+        } catch {
+          // 浏览器已断开时页面无法关闭，忽略
+        } finally {
+          this._releaseSlot();
+        }
+      },
+    };
+  }
+
+  /**
+   * 关闭浏览器
+   *
+   * 排队中的租用请求立即以错误结束；已租出的页面归还后才关闭浏览器，
+   * 返回的 Promise 在浏览器关闭后兑现。
+   *
+   * @remarks 通过 `browserWSEndpoint` 连接的外部浏览器只断开连接，不会被关闭
+   */
+  close(): Promise<void> {
+    if (!this._closing) {
+      this._closing = this._close().finally(() => {
+        this._closing = undefined;
+      });
+    }
+    return this._closing;
+  }
+
+  // ========== 私有方法 ==========
+
+  /**
+   * 执行关闭
+   * @internal
+   */
+  private async _close(): Promise<void> {
+    this._clearIdleTimer();
+    for (const waiter of this._waiters.splice(0)) {
+      waiter.reject(new Error('浏览器池已关闭'));
+    }
+    if (this._active > 0) {
+      await new Promise<void>((resolve) => this._drainWaiters.push(resolve));
+    }
+
+    const pending = this._browser;
+    this._browser = undefined;
+    if (!pending) {
+      return;
+    }
+
+    try {
+      await this._driver.closeBrowser(await pending, Boolean(this._options.browserWSEndpoint));
+    } catch {
+      // 启动失败或已断开，无需处理
+    }
+  }
+
+  /**
+   * 获取可用浏览器，未启动或已断开时重新启动
+   * @internal
+   */
+  private async _getBrowser(): Promise<TBrowser> {
+    if (this._browser) {
+      const browser = await this._browser.catch(() => undefined);
+      if (browser !== undefined && this._driver.isConnected(browser)) {
+        return browser;
+      }
+      this._browser = undefined;
+    }
+
+    const launching = this._launch();
+    this._browser = launching;
+    launching.catch(() => {
+      if (this._browser === launching) {
+        this._browser = undefined;
+      }
+    });
+    return launching;
+  }
+
+  /**
+   * 启动或连接浏览器
+   * @internal
+   */
+  private async _launch(): Promise<TBrowser> {
+    const browser = await this._driver.launch({
+      args: this._options.launchArgs,
+      executablePath: this._options.executablePath,
+      endpoint: this._options.browserWSEndpoint,
+    });
+
+    // 崩溃或被外部关闭时丢弃实例，下一次租用重新启动
+    this._driver.onDisconnected(browser, () => {
+      void this._browser?.then((current) => {
+        if (current === browser) {
+          this._browser = undefined;
+        }
+      });
+    });
+
+    return browser;
+  }
+
+  /**
+   * 获取并发名额
+   * @internal
+   */
+  private _acquireSlot(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new Error('等待浏览器时任务已取消'));
+    }
+    if (this._active < this._options.maxConcurrency) {
+      this._active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        const index = this._waiters.indexOf(waiter);
+        if (index !== -1) {
+          this._waiters.splice(index, 1);
+        }
+        reject(new Error('等待浏览器时任务已取消'));
+      };
+      const waiter: SlotWaiter = {
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this._active++;
+          resolve();
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      this._waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 释放并发名额，无人使用时通知等待中的关闭或开始空闲计时
+   * @internal
+   */
+  private _releaseSlot(): void {
+    this._active--;
+    const next = this._waiters.shift();
+    if (next) {
+      next.grant();
+      return;
+    }
+    if (this._active > 0) {
+      return;
+    }
+    if (this._drainWaiters.length > 0) {
+      for (const resolve of this._drainWaiters.splice(0)) {
+        resolve();
+      }
+    } else {
+      this._scheduleIdleClose();
+    }
+  }
+
+  /**
+   * 安排空闲关闭
+   * @internal
+   */
+  private _scheduleIdleClose(): void {
+    this._clearIdleTimer();
+    if (this._options.idleTimeout <= 0 || !this._browser) {
+      return;
+    }
+    this._idleTimer = setTimeout(() => {
+      this._idleTimer = undefined;
+      if (this._active === 0) {
+        void this.close();
+      }
+    }, this._options.idleTimeout);
+    // 空闲计时不应阻止进程退出
+    this._idleTimer.unref?.();
+  }
+
+  /**
+   * 清除空闲计时器
+   * @internal
+   */
+  private _clearIdleTimer(): void {
+    if (this._idleTimer) {
+      clearTimeout(this._idleTimer);
+      this._idleTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * 转换能力声明
+ *
+ * 向文件转换接口模块声明插件支持的转换选项，并提供协议版本兼容性判断
+ *
+ * @packageDocumentation
+ */
+
+import { PAGE_FORMATS, PAGE_ORIENTATIONS } from './options-schema';
+import type { PDFOptionDescriptor, PDFProtocolVersionRange } from '../types';
+
+/**
+ * 支持的转换选项
+ *
+ * @remarks 进度回调、任务ID、取消信号等运行时参数不属于转换能力，不在此声明
+ */
+export const OPTION_DESCRIPTORS: ReadonlyArray<PDFOptionDescriptor> = [
+  // 页面设置
+  { name: 'format', category: 'page', type: 'string', enum: PAGE_FORMATS },
+  { name: 'orientation', category: 'page', type: 'string', enum: PAGE_ORIENTATIONS },
+  { name: 'margin', category: 'page', type: 'object' },
+  { name: 'width', category: 'page', type: 'string' },
+  { name: 'height', category: 'page', type: 'string' },
+  { name: 'scale', category: 'page', type: 'number' },
+  { name: 'preferCSSPageSize', category: 'page', type: 'boolean' },
+  { name: 'fitToSinglePage', category: 'page', type: 'boolean' },
+  { name: 'displayHeaderFooter', category: 'page', type: 'boolean' },
+  { name: 'headerTemplate', category: 'page', type: 'string' },
+  { name: 'footerTemplate', category: 'page', type: 'string' },
+  { name: 'headerFooter', category: 'page', type: 'boolean | object' },
+  { name: 'pagination', category: 'page', type: 'boolean | object' },
+
+  // 封面目录
+  { name: 'cover', category: 'cover-toc', type: 'boolean | object' },
+  { name: 'toc', category: 'cover-toc', type: 'boolean | object' },
+  { name: 'generateOutline', category: 'cover-toc', type: 'boolean' },
+
+  // 输出控制
+  { name: 'outputPath', category: 'output', type: 'string' },
+  { name: 'metadata', category: 'output', type: 'boolean | object' },
+  { name: 'conformance', category: 'output', type: 'string', enum: ['pdfa-2b', 'pdfa-3b'] },
+  { name: 'encryption', category: 'output', type: 'object' },
+  { name: 'imageCompression', category: 'output', type: 'string | object', enum: ['screen', 'print', 'archive'] },
+  { name: 'watermark', category: 'output', type: 'object' },
+
+  // 渲染控制
+  { name: 'printBackground', category: 'render', type: 'boolean' },
+  { name: 'themeId', category: 'render', type: 'string' },
+  { name: 'appearanceProfileId', category: 'render', type: 'string' },
+  { name: 'appearanceOverrides', category: 'render', type: 'object' },
+  { name: 'network', category: 'render', type: 'object' },
+  { name: 'onRenderError', category: 'render', type: 'string', enum: ['skip', 'placeholder', 'abort'] },
+  { name: 'pageLoad', category: 'render', type: 'object' },
+];
+
+/**
+ * 判断协议版本是否在支持范围内
+ *
+ * @param version - 宿主协议版本（semver，忽略预发布标签）
+ * @param range - 插件支持的版本范围，`min` 包含、`max` 不包含
+ */
+export function isProtocolVersionSupported(version: string, range: PDFProtocolVersionRange): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return false;
+  }
+  const min = parseVersion(range.min);
+  const max = parseVersion(range.max);
+  return (
+    (!min || compareVersions(parsed, min) >= 0) &&
+    (!max || compareVersions(parsed, max) < 0)
+  );
+}
+
+/**
+ * 解析 semver 版本号
+ * @internal
+ */
+function parseVersion(version: string): [number, number, number] | undefined {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(version.trim());
+  if (!match) {
+    return undefined;
+  }
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+/**
+ * 比较两个版本号
+ * @internal
+ */
+function compareVersions(a: [number, number, number], b: [number, number, number]): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) {
+      return a[i]! - b[i]!;
+    }
+  }
+  return 0;
+}
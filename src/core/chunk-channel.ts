@@ -0,0 +1,169 @@
+/**
+ * 数据块通道
+ *
+ * 连接转换流程（生产者）与流的消费者：生产者写入 PDF 数据块，消费者按需读取。
+ * 未读取的数据达到缓冲上限时生产者暂停，消费者停止读取时通知转换流程取消。
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * 有界数据块通道
+ */
+export class ChunkChannel implements AsyncIterable<Uint8Array> {
+  /** 待读取的数据块 */
+  private readonly _queue: Uint8Array[] = [];
+
+  /** 待读取的字节数 */
+  private _queuedBytes = 0;
+
+  /** 缓冲上限（字节） */
+  private readonly _highWaterMark: number;
+
+  /** 消费者停止读取时的回调 */
+  private readonly _onCancel: () => void;
+
+  /** 生产者是否已结束 */
+  private _ended = false;
+
+  /** 生产者失败原因 */
+  private _error: unknown;
+
+  /** 消费者是否已停止读取 */
+  private _cancelled = false;
+
+  /** 等待数据的消费者 */
+  private _wakeConsumer?: () => void;
+
+  /** 等待缓冲腾空的生产者 */
+  private _wakeProducer?: () => void;
+
+  /**
+   * @param highWaterMark - 缓冲上限（字节）
+   * @param onCancel - 消费者停止读取时调用
+   */
+  constructor(highWaterMark: number, onCancel: () => void) {
+    this._highWaterMark = highWaterMark;
+    this._onCancel = onCancel;
+  }
+
+  /** 消费者是否已停止读取 */
+  get cancelled(): boolean {
+    return this._cancelled;
+  }
+
+  /**
+   * 写入数据块，缓冲已满时等待消费者读取
+   *
+   * @returns 消费者已停止读取时返回 false，数据被丢弃
+   */
+  async write(chunk: Uint8Array): Promise<boolean> {
+    if (this._cancelled || this._ended) {
+      return false;
+    }
+    if (chunk.byteLength > 0) {
+      this._queue.push(chunk);
+      this._queuedBytes += chunk.byteLength;
+      this._notifyConsumer();
+    }
+    while (this._queuedBytes >= this._highWaterMark && !this._cancelled) {
+      await new Promise<void>((resolve) => {
+        this._wakeProducer = resolve;
+      });
+    }
+    return !this._cancelled;
+  }
+
+  /**
+   * 正常结束，消费者读完剩余数据后结束
+   */
+  end(): void {
+    this._ended = true;
+    this._notifyConsumer();
+  }
+
+  /**
+   * 以错误结束，消费者读完剩余数据后收到该错误
+   */
+  fail(error: unknown): void {
+    if (this._ended) {
+      return;
+    }
+    this._error = error;
+    this._ended = true;
+    this._notifyConsumer();
+  }
+
+  /**
+   * 消费者停止读取：丢弃缓冲数据并通知生产者
+   */
+  cancel(): void {
+    if (this._cancelled) {
+      return;
+    }
+    this._cancelled = true;
+    this._queue.length = 0;
+    this._queuedBytes = 0;
+    this._notifyProducer();
+    if (!this._ended) {
+      this._onCancel();
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<Uint8Array> {
+    return {
+      next: () => this._next(),
+      return: async () => {
+        this.cancel();
+        return { done: true, value: undefined };
+      },
+    };
+  }
+
+  /**
+   * 读取下一个数据块
+   * @internal
+   */
+  private async _next(): Promise<IteratorResult<Uint8Array>> {
+    while (this._queue.length === 0) {
+      if (this._cancelled) {
+        return { done: true, value: undefined };
+      }
+      if (this._ended) {
+        if (this._error !== undefined) {
+          throw this._error;
+        }
+        return { done: true, value: undefined };
+      }
+      await new Promise<void>((resolve) => {
+        this._wakeConsumer = resolve;
+      });
+    }
+    const chunk = this._queue.shift()!;
+    this._queuedBytes -= chunk.byteLength;
+    if (this._queuedBytes < this._highWaterMark) {
+      this._notifyProducer();
+    }
+    return { done: false, value: chunk };
+  }
+
+  /**
+   * 唤醒等待数据的消费者
+   * @internal
+   */
+  private _notifyConsumer(): void {
+    const wake = this._wakeConsumer;
+    this._wakeConsumer = undefined;
+    wake?.();
+  }
+
+  /**
+   * 唤醒等待缓冲腾空的生产者
+   * @internal
+   */
+  private _notifyProducer(): void {
+    const wake = this._wakeProducer;
+    this._wakeProducer = undefined;
+    wake?.();
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * 插件配置
+ *
+ * 插件配置是位于出厂默认值与单次转换选项之间的一层默认值，按转换能力声明中的类别组织。
+ * 配置文件只保存与出厂默认值不同的选项，格式与 {@link PDFPluginConfig} 相同。
+ *
+ * @packageDocumentation
+ */
+
+import { OPTION_DESCRIPTORS } from './capabilities';
+import { FileWriteError, PDFConversionError } from './errors';
+import { PDFErrorCode } from '../types';
+import type { PDFConfigurableOptions, PDFOptionCategory, PDFPluginConfig, PDFValidationIssue } from '../types';
+
+/**
+ * 配置类别
+ */
+export const CONFIG_CATEGORIES: ReadonlyArray<PDFOptionCategory> = ['page', 'cover-toc', 'output', 'render'];
+
+/**
+ * 只能在单次转换中指定的选项
+ * @internal
+ */
+const RUNTIME_OPTIONS: ReadonlySet<string> = new Set(['outputPath', 'onProgress', 'taskId', 'signal']);
+
+/**
+ * 可配置选项及其类别
+ * @internal
+ */
+const OPTION_CATEGORIES: ReadonlyMap<string, PDFOptionCategory> = new Map(
+  OPTION_DESCRIPTORS.filter((descriptor) => !RUNTIME_OPTIONS.has(descriptor.name)).map((descriptor) => [
+    descriptor.name,
+    descriptor.category,
+  ])
+);
+
+/**
+ * 按类别组织配置
+ *
+ * @param options - 配置项，值为 undefined 的选项被忽略
+ * @returns 各类别齐全的配置，选项值为副本
+ */
+export function groupConfig(options: PDFConfigurableOptions): PDFPluginConfig {
+  const config = Object.fromEntries(CONFIG_CATEGORIES.map((category) => [category, {}])) as PDFPluginConfig;
+  for (const [name, value] of Object.entries(options)) {
+    const category = OPTION_CATEGORIES.get(name);
+    if (category && value !== undefined) {
+      (config[category] as Record<string, unknown>)[name] = cloneValue(value);
+    }
+  }
+  return config;
+}
+
+/**
+ * 检查配置项名称
+ *
+ * @param options - 配置更新
+ * @returns 未知选项与只能在单次转换中指定的选项
+ */
+export function checkConfigKeys(options: object): PDFValidationIssue[] {
+  return Object.keys(options)
+    .filter((name) => !OPTION_CATEGORIES.has(name))
+    .map((name) => ({
+      code: PDFErrorCode.INVALID_CONFIG,
+      message: RUNTIME_OPTIONS.has(name) ? `选项 ${name} 只能在单次转换中指定` : `未知的配置项: ${name}`,
+      option: name,
+      field: name,
+    }));
+}
+
+/**
+ * 检查配置能否写入配置文件
+ *
+ * @param options - 配置项
+ * @returns 包含二进制数据的选项
+ */
+export function checkPersistable(options: PDFConfigurableOptions): PDFValidationIssue[] {
+  return Object.entries(options)
+    .filter(([, value]) => containsBinary(value))
+    .map(([name]) => ({
+      code: PDFErrorCode.INVALID_CONFIG,
+      message: `选项 ${name} 包含二进制数据，无法写入配置文件，请改用 data URL`,
+      option: name,
+      field: name,
+    }));
+}
+
+/**
+ * 合并配置更新
+ *
+ * @param current - 当前配置项
+ * @param update - 配置更新，值为 undefined 的选项恢复出厂默认值
+ * @returns 新的配置项；不修改 `current`
+ */
+export function applyConfigUpdate(
+  current: PDFConfigurableOptions,
+  update: PDFConfigurableOptions
+): PDFConfigurableOptions {
+  const next: Record<string, unknown> = { ...current };
+  for (const [name, value] of Object.entries(update)) {
+    if (value === undefined) {
+      delete next[name];
+    } else {
+      next[name] = cloneValue(value);
+    }
+  }
+  return next as PDFConfigurableOptions;
+}
+
+/**
+ * 复制配置项
+ *
+ * @param options - 配置项
+ * @returns 深拷贝的配置项，值为 undefined 的选项被去除
+ */
+export function cloneConfig(options: PDFConfigurableOptions): PDFConfigurableOptions {
+  return applyConfigUpdate({}, options);
+}
+
+/**
+ * 读取配置文件
+ *
+ * @param path - 配置文件路径
+ * @returns 展开后的配置项，文件不存在时返回 undefined
+ * @throws PDFConversionError 文件无法读取或不是按类别组织的 JSON 对象时
+ */
+export async function readConfigFile(path: string): Promise<PDFConfigurableOptions | undefined> {
+  const fs = await import('fs');
+
+  let text: string;
+  try {
+    text = await fs.promises.readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as { code?: unknown }).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new PDFConversionError(
+      PDFErrorCode.INVALID_CONFIG,
+      `配置文件读取失败 (${path}): ${error instanceof Error ? error.message : String(error)}`,
+      { details: { option: 'configPath', path }, cause: error }
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new PDFConversionError(PDFErrorCode.INVALID_CONFIG, `配置文件不是有效的 JSON (${path})`, {
+      details: { option: 'configPath', path },
+      cause: error,
+    });
+  }
+  if (!isPlainObject(parsed)) {
+    throw new PDFConversionError(PDFErrorCode.INVALID_CONFIG, `配置文件的内容需为对象 (${path})`, {
+      details: { option: 'configPath', path },
+    });
+  }
+
+  const options: Record<string, unknown> = {};
+  for (const [category, group] of Object.entries(parsed)) {
+    if (!CONFIG_CATEGORIES.includes(category as PDFOptionCategory) || !isPlainObject(group)) {
+      throw new PDFConversionError(
+        PDFErrorCode.INVALID_CONFIG,
+        `配置文件中的 ${category} 不是有效的配置类别，可选值: ${CONFIG_CATEGORIES.join(', ')}`,
+        { details: { option: 'configPath', path } }
+      );
+    }
+    Object.assign(options, group);
+  }
+  return options as PDFConfigurableOptions;
+}
+
+/**
+ * 写入配置文件
+ *
+ * @param path - 配置文件路径
+ * @param options - 与出厂默认值不同的配置项；为空时删除配置文件
+ * @throws FileWriteError 写入失败时
+ */
+export async function writeConfigFile(path: string, options: PDFConfigurableOptions): Promise<void> {
+  const fs = await import('fs');
+  const { dirname } = await import('path');
+
+  try {
+    if (Object.keys(options).length === 0) {
+      await fs.promises.rm(path, { force: true });
+      return;
+    }
+    await fs.promises.mkdir(dirname(path), { recursive: true });
+    await fs.promises.writeFile(path, `${JSON.stringify(groupConfig(options), null, 2)}\n`, 'utf8');
+  } catch (error) {
+    throw new FileWriteError(path, error, 'configPath');
+  }
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 复制选项值，避免调用方修改已保存的配置
+ * @internal
+ */
+function cloneValue<T>(value: T): T {
+  if (value instanceof Uint8Array) {
+    return value.slice() as T;
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(cloneValue) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneValue(item)])) as T;
+  }
+  return value;
+}
+
+/**
+ * 检查值中是否包含二进制数据
+ * @internal
+ */
+function containsBinary(value: unknown): boolean {
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some(containsBinary);
+  }
+  return isPlainObject(value) && Object.values(value).some(containsBinary);
+}
+
+/**
+ * 判断是否为普通对象
+ * @internal
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
@@ -0,0 +1,180 @@
+/**
+ * 转换错误
+ *
+ * 流水线各阶段抛出带错误码的错误，转换结果中的 `error` 由这些错误生成：
+ * `code` 对应 {@link PDFErrorCode}，`details` 给出相关的选项、文件或超时时间，
+ * `retryable` 表示相同输入重试后可能成功（如超时、浏览器启动失败）。
+ *
+ * @packageDocumentation
+ */
+
+import { PDFErrorCode } from '../types';
+import type { PDFErrorCodeType, PDFErrorDetails, PDFErrorInfo } from '../types';
+
+/**
+ * 可重试的文件系统错误码
+ * @internal
+ */
+const RETRYABLE_SYSTEM_CODES: ReadonlySet<string> = new Set(['EBUSY', 'EAGAIN', 'EMFILE', 'ENFILE', 'ETIMEDOUT']);
+
+/**
+ * 转换错误基类
+ */
+export class PDFConversionError extends Error {
+  /** 错误码 */
+  readonly code: PDFErrorCodeType;
+
+  /** 结构化详情 */
+  readonly details?: PDFErrorDetails;
+
+  /** 重试后是否可能成功 */
+  readonly retryable: boolean;
+
+  /** 原始错误 */
+  readonly cause?: unknown;
+
+  constructor(
+    code: PDFErrorCodeType,
+    message: string,
+    options: { details?: PDFErrorDetails; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'PDFConversionError';
+    this.code = code;
+    this.details = options.details;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * 浏览器自动化库未安装
+ */
+export class EngineNotInstalledError extends PDFConversionError {
+  /**
+   * @param engine - 引擎名称（`puppeteer`、`playwright` 或 `auto`）
+   */
+  constructor(engine: string, cause?: unknown) {
+    const hint = engine === 'playwright' ? 'playwright' : 'puppeteer';
+    const subject = engine === 'auto' ? 'puppeteer 或 playwright' : engine;
+    super(PDFErrorCode.PUPPETEER_NOT_INSTALLED, `需要安装 ${subject} 才能生成 PDF。请运行: npm install ${hint}`, {
+      details: { engine },
+      cause,
+    });
+    this.name = 'EngineNotInstalledError';
+  }
+}
+
+/**
+ * 浏览器启动或连接失败
+ */
+export class BrowserLaunchError extends PDFConversionError {
+  /**
+   * @param engine - 引擎名称
+   * @param cause - 原始错误
+   */
+  constructor(engine: string, cause?: unknown) {
+    super(PDFErrorCode.BROWSER_LAUNCH_FAILED, `浏览器启动失败: ${messageOf(cause)}`, {
+      details: { engine },
+      retryable: true,
+      cause,
+    });
+    this.name = 'BrowserLaunchError';
+  }
+}
+
+/**
+ * 页面加载超时
+ */
+export class PageLoadTimeoutError extends PDFConversionError {
+  /**
+   * @param timeout - 单次加载的超时时间（毫秒）
+   * @param attempts - 已尝试次数
+   * @param cause - 最后一次的原始错误
+   */
+  constructor(timeout: number, attempts: number, cause?: unknown) {
+    super(
+      PDFErrorCode.PAGE_LOAD_TIMEOUT,
+      `页面加载超时（${timeout} 毫秒${attempts > 1 ? `，已尝试 ${attempts} 次` : ''}）`,
+      { details: { timeout, attempts }, retryable: true, cause }
+    );
+    this.name = 'PageLoadTimeoutError';
+  }
+}
+
+/**
+ * 输出文件写入失败
+ */
+export class FileWriteError extends PDFConversionError {
+  /**
+   * @param path - 输出路径
+   * @param cause - 原始错误
+   * @param option - 指定该路径的选项
+   */
+  constructor(path: string, cause?: unknown, option = 'outputPath') {
+    const systemCode = systemCodeOf(cause);
+    super(PDFErrorCode.FILE_WRITE_FAILED, `文件写入失败 (${path}): ${messageOf(cause)}`, {
+      details: { option, path, systemCode },
+      retryable: systemCode !== undefined && RETRYABLE_SYSTEM_CODES.has(systemCode),
+      cause,
+    });
+    this.name = 'FileWriteError';
+  }
+}
+
+/**
+ * 判断是否为浏览器自动化库的超时错误
+ *
+ * @remarks Puppeteer 与 Playwright 的超时错误均以 `TimeoutError` 命名
+ */
+export function isTimeoutError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'TimeoutError';
+}
+
+/**
+ * 将异常转换为结果中的错误信息
+ *
+ * @param error - 捕获的异常
+ * @param fallbackCode - 未分类异常使用的错误码
+ */
+export function toErrorInfo(
+  error: unknown,
+  fallbackCode: PDFErrorCodeType = PDFErrorCode.PDF_GENERATION_FAILED
+): PDFErrorInfo {
+  if (error instanceof PDFConversionError) {
+    return {
+      code: error.code as never,
+      message: error.message,
+      cause: error,
+      details: error.details,
+      retryable: error.retryable,
+    };
+  }
+  return {
+    code: fallbackCode as never,
+    message: error instanceof Error ? error.message : 'PDF 生成过程发生未知错误',
+    cause: error instanceof Error ? error : undefined,
+    retryable: false,
+  };
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 读取错误信息
+ * @internal
+ */
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error ?? '未知错误');
+}
+
+/**
+ * 读取 Node.js 系统错误码
+ * @internal
+ */
+function systemCodeOf(error: unknown): string | undefined {
+  const code = (error as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' ? code : undefined;
+}
@@ -0,0 +1,299 @@
+/**
+ * 网络隔离
+ *
+ * 页面从虚拟源加载，卡片文件由插件直接响应；外部请求按策略阻止或由插件代为获取，
+ * 被阻止或加载失败的资源以占位内容代替，并记录在转换结果中。
+ *
+ * @packageDocumentation
+ */
+
+import { mimeTypeOf, normalizePath } from '../html/resources';
+import type {
+  PDFBlockedReason,
+  PDFBlockedRequest,
+  PDFNetworkOptions,
+  PDFPlaceholderImage,
+  PDFResourceRequest,
+  PDFResourceResponse,
+} from '../types';
+
+/**
+ * 虚拟源，`.invalid` 顶级域名保证不会与真实地址冲突
+ */
+export const VIRTUAL_ORIGIN = 'https://card.chips.invalid';
+
+/**
+ * 卡片入口地址
+ */
+export const ENTRY_URL = `${VIRTUAL_ORIGIN}/index.html`;
+
+/**
+ * 获取外部资源的默认超时时间（毫秒）
+ * @internal
+ */
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+/**
+ * 代为获取外部资源时最多跟随的重定向次数
+ * @internal
+ */
+const MAX_REDIRECTS = 10;
+
+/**
+ * 内置占位图：浅灰底色与对角线
+ * @internal
+ */
+const DEFAULT_PLACEHOLDER: PDFPlaceholderImage = {
+  contentType: 'image/svg+xml',
+  data:
+    '<svg xmlns="http://www.w3.org/2000/svg" width="160" height="120" viewBox="0 0 160 120">' +
+    '<rect width="160" height="120" fill="#f0f0f0" stroke="#c8c8c8" stroke-width="2"/>' +
+    '<path d="M0 0L160 120M160 0L0 120" stroke="#c8c8c8" stroke-width="2"/></svg>',
+};
+
+/**
+ * 无需拦截的地址协议
+ * @internal
+ */
+const PASSTHROUGH_PROTOCOLS = new Set(['data:', 'blob:', 'about:']);
+
+/**
+ * 判断地址是否在允许列表中
+ *
+ * @param url - 请求地址
+ * @param allowlist - 允许列表，支持完整源、URL 前缀、主机名和 `*.` 子域名通配
+ */
+export function matchesAllowlist(url: URL, allowlist: readonly string[]): boolean {
+  const host = url.hostname.toLowerCase();
+  return allowlist.some((entry) => {
+    const pattern = entry.trim();
+    if (!pattern) {
+      return false;
+    }
+    if (pattern.startsWith('*.')) {
+      const domain = pattern.slice(2).toLowerCase();
+      return host === domain || host.endsWith(`.${domain}`);
+    }
+    if (!pattern.includes('://')) {
+      return host === pattern.toLowerCase();
+    }
+    try {
+      // 只写源时规范化为 `origin/`，匹配该源下的全部地址
+      return url.href.startsWith(new URL(pattern).href);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * 页面请求拦截器
+ *
+ * @example
+ * ```typescript
+ * const interceptor = new ResourceInterceptor(html, files, options.network);
+ * await page.interceptRequests(interceptor.handle);
+ * await page.goto(ENTRY_URL, { timeout: 30000 });
+ * ```
+ */
+export class ResourceInterceptor {
+  /** 入口页面内容 */
+  private readonly _entryHtml: string;
+
+  /** 卡片文件 */
+  private readonly _files: Map<string, string | Uint8Array>;
+
+  /** 网络选项 */
+  private readonly _options: PDFNetworkOptions;
+
+  /** 被拦截的请求，按地址与原因去重 */
+  private readonly _blocked = new Map<string, PDFBlockedRequest>();
+
+  /**
+   * @param entryHtml - 入口页面内容（已完成资源内联与封面插入）
+   * @param files - 卡片文件，按相对路径从虚拟源提供
+   * @param options - 网络选项
+   */
+  constructor(entryHtml: string, files: Map<string, string | Uint8Array>, options: PDFNetworkOptions = {}) {
+    this._entryHtml = entryHtml;
+    this._files = files;
+    this._options = options;
+  }
+
+  /** 被拦截的请求 */
+  get blocked(): PDFBlockedRequest[] {
+    return Array.from(this._blocked.values());
+  }
+
+  /**
+   * 处理一个请求
+   * @remarks 以箭头函数定义，可直接作为回调传给 `interceptRequests`
+   */
+  readonly handle = async (request: PDFResourceRequest): Promise<PDFResourceResponse> => {
+    let url: URL;
+    try {
+      url = new URL(request.url);
+    } catch {
+      return this._reject(request, 'blocked');
+    }
+
+    if (PASSTHROUGH_PROTOCOLS.has(url.protocol)) {
+      return { action: 'continue' };
+    }
+    if (url.origin === VIRTUAL_ORIGIN) {
+      return this._serveFile(request, url);
+    }
+    if ((url.protocol !== 'http:' && url.protocol !== 'https:') || !this._isAllowed(url)) {
+      return this._reject(request, 'blocked');
+    }
+    // 只代为获取读取类请求，其他方法交给浏览器
+    if (request.method !== 'GET') {
+      return { action: 'continue' };
+    }
+    return this._fetchExternal(request);
+  };
+
+  /**
+   * 从卡片文件响应虚拟源上的请求
+   * @internal
+   */
+  private _serveFile(request: PDFResourceRequest, url: URL): PDFResourceResponse {
+    if (url.href === ENTRY_URL && request.isNavigation) {
+      return {
+        action: 'fulfill',
+        status: 200,
+        contentType: 'text/html; charset=utf-8',
+        body: new TextEncoder().encode(this._entryHtml),
+      };
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(url.pathname.slice(1));
+    } catch {
+      pathname = url.pathname.slice(1);
+    }
+    const path = normalizePath(pathname);
+    const content = path === undefined ? undefined : this._files.get(path);
+    if (content === undefined) {
+      return this._reject(request, 'not-found');
+    }
+    return {
+      action: 'fulfill',
+      status: 200,
+      contentType: mimeTypeOf(path!),
+      body: typeof content === 'string' ? new TextEncoder().encode(content) : content,
+    };
+  }
+
+  /**
+   * 判断外部地址是否允许访问
+   * @internal
+   */
+  private _isAllowed(url: URL): boolean {
+    if ((this._options.externalRequests ?? 'block') === 'allow') {
+      return true;
+    }
+    return matchesAllowlist(url, this._options.allowlist ?? []);
+  }
+
+  /**
+   * 代为获取允许的外部资源，失败时以占位内容代替
+   *
+   * @remarks 重定向逐跳处理，每个目标地址都要重新通过策略检查，被拒绝的一跳按其地址记录
+   * @internal
+   */
+  private async _fetchExternal(request: PDFResourceRequest): Promise<PDFResourceResponse> {
+    if (typeof fetch !== 'function') {
+      return { action: 'continue' };
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(),
+      this._options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT
+    );
+    try {
+      let url = new URL(request.url);
+      for (let redirects = 0; ; redirects++) {
+        const response = await fetch(url, { signal: controller.signal, redirect: 'manual' });
+        const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+        if (location !== null) {
+          await response.body?.cancel();
+          const target = new URL(location, url);
+          if ((target.protocol !== 'http:' && target.protocol !== 'https:') || !this._isAllowed(target)) {
+            return this._reject(request, 'blocked', target.href);
+          }
+          if (redirects >= MAX_REDIRECTS) {
+            return this._reject(request, 'failed');
+          }
+          url = target;
+          continue;
+        }
+        if (!response.ok) {
+          return this._reject(request, 'failed');
+        }
+        return {
+          action: 'fulfill',
+          status: response.status,
+          contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+          body: new Uint8Array(await response.arrayBuffer()),
+          // 虚拟源跨域加载字体等资源时需要 CORS 响应头
+          headers: { 'Access-Control-Allow-Origin': '*' },
+        };
+      }
+    } catch {
+      return this._reject(request, 'failed');
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * 记录被拦截的请求并返回占位内容
+   *
+   * @remarks 图片使用占位图，样式表和脚本返回空内容，其他资源直接中止
+   * @param url - 记录的地址，重定向被拒绝时为目标地址
+   * @internal
+   */
+  private _reject(request: PDFResourceRequest, reason: PDFBlockedReason, url = request.url): PDFResourceResponse {
+    const response = this._placeholderFor(request);
+    const key = `${reason} ${url}`;
+    if (!this._blocked.has(key)) {
+      this._blocked.set(key, {
+        url,
+        resourceType: request.resourceType,
+        reason,
+        placeholder: response.action === 'fulfill',
+      });
+    }
+    return response;
+  }
+
+  /**
+   * 按资源类型生成占位响应
+   * @internal
+   */
+  private _placeholderFor(request: PDFResourceRequest): PDFResourceResponse {
+    const option = this._options.placeholder ?? true;
+    if (option === false || request.isNavigation) {
+      return { action: 'abort' };
+    }
+    switch (request.resourceType) {
+      case 'image': {
+        const image = option === true ? DEFAULT_PLACEHOLDER : option;
+        return {
+          action: 'fulfill',
+          status: 200,
+          contentType: image.contentType,
+          body: typeof image.data === 'string' ? new TextEncoder().encode(image.data) : image.data,
+        };
+      }
+      case 'stylesheet':
+        return { action: 'fulfill', status: 200, contentType: 'text/css', body: new Uint8Array(0) };
+      case 'script':
+        return { action: 'fulfill', status: 200, contentType: 'application/javascript', body: new Uint8Array(0) };
+      default:
+        return { action: 'abort' };
+    }
+  }
+}
@@ -0,0 +1,732 @@
+/**
+ * 转换选项结构描述
+ *
+ * 以 JSON Schema 描述所有转换选项的类型、可选值、格式与取值范围。宿主按其生成导出界面，
+ * `validateOptions` 按同一份描述检查选项结构，界面与校验规则不会出现偏差；
+ * 选项之间的冲突、密码强度等无法用结构描述的规则仍由插件单独检查。
+ *
+ * @packageDocumentation
+ */
+
+import { HEADER_FOOTER_PRESETS } from '../html/header-footer';
+import { IMAGE_PROFILES } from '../html/images';
+import { DEFAULT_RENDER_ERROR_POLICY, RENDER_ERROR_POLICIES } from '../html/render-errors';
+import { PAGE_RANGES_PATTERN, WATERMARK_POSITIONS } from '../html/watermark';
+import { PDFA_IDENTIFICATION } from '../pdf/pdfa';
+import { PDFErrorCode } from '../types';
+import type {
+  PageFormat,
+  PageOrientation,
+  PDFConversionOptions,
+  PDFErrorCodeType,
+  PDFOptionDescriptor,
+  PDFOptionsSchema,
+  PDFSchemaLocale,
+  PDFSchemaType,
+  PDFValidationIssue,
+} from '../types';
+
+/**
+ * 支持的页面格式
+ */
+export const PAGE_FORMATS: ReadonlyArray<PageFormat> = ['a4', 'a5', 'a3', 'letter', 'legal', 'tabloid'];
+
+/**
+ * 支持的页面方向
+ */
+export const PAGE_ORIENTATIONS: ReadonlyArray<PageOrientation> = ['portrait', 'landscape'];
+
+/**
+ * CSS 长度格式（页边距、纸张尺寸），必须带单位，只有 0 可以省略单位
+ */
+export const LENGTH_PATTERN = '^(0|\\d+(\\.\\d+)?(mm|cm|in|px))$';
+
+/**
+ * 缩放比例范围（与 Chromium 打印接口一致）
+ * @internal
+ */
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 2;
+
+/**
+ * 图片压缩分辨率范围
+ * @internal
+ */
+const MIN_IMAGE_DPI = 36;
+const MAX_IMAGE_DPI = 2400;
+
+/**
+ * 支持的结构描述语言
+ */
+export const SCHEMA_LOCALES: ReadonlyArray<PDFSchemaLocale> = ['zh-CN', 'en-US'];
+
+/**
+ * 各选项结构错误对应的错误码，未列出的选项使用 `INVALID_OPTION`
+ * @internal
+ */
+const OPTION_ERROR_CODES: Readonly<Partial<Record<keyof PDFConversionOptions, PDFErrorCodeType>>> = {
+  format: PDFErrorCode.INVALID_FORMAT,
+  margin: PDFErrorCode.INVALID_MARGIN,
+  width: PDFErrorCode.INVALID_PAGE_SIZE,
+  height: PDFErrorCode.INVALID_PAGE_SIZE,
+  scale: PDFErrorCode.INVALID_SCALE,
+};
+
+/**
+ * 不在结构描述中、但允许出现在选项里的运行时参数
+ * @internal
+ */
+const RUNTIME_OPTIONS: ReadonlySet<string> = new Set(['onProgress', 'taskId', 'signal']);
+
+/**
+ * 值类型的中文名称，用于错误信息
+ * @internal
+ */
+const TYPE_NAMES: Readonly<Record<PDFSchemaType, string>> = {
+  string: '字符串',
+  number: '数字',
+  integer: '整数',
+  boolean: '布尔值',
+  object: '对象',
+  array: '数组',
+};
+
+// ============================================================================
+// 结构定义
+// ============================================================================
+
+/**
+ * 中文与英文标签
+ * @internal
+ */
+type Label = readonly [zh: string, en: string];
+
+/**
+ * 带多语言标签的结构定义
+ * @internal
+ */
+interface SchemaDefinition
+  extends Omit<PDFOptionsSchema, '$schema' | 'title' | 'description' | 'items' | 'properties' | 'anyOf'> {
+  title?: Label;
+  description?: Label;
+  items?: SchemaDefinition;
+  properties?: Record<string, SchemaDefinition>;
+  anyOf?: SchemaDefinition[];
+}
+
+/**
+ * 一条结构错误
+ * @internal
+ */
+interface SchemaError {
+  /** 出错字段的完整路径 */
+  field: string;
+  /** 错误信息 */
+  message: string;
+}
+
+/**
+ * 字符串
+ * @internal
+ */
+function text(title: Label, extra: Partial<SchemaDefinition> = {}): SchemaDefinition {
+  return { type: 'string', title, ...extra };
+}
+
+/**
+ * 布尔值
+ * @internal
+ */
+function flag(title: Label, extra: Partial<SchemaDefinition> = {}): SchemaDefinition {
+  return { type: 'boolean', title, ...extra };
+}
+
+/**
+ * 可选值
+ * @internal
+ */
+function choice(title: Label, values: readonly string[], extra: Partial<SchemaDefinition> = {}): SchemaDefinition {
+  return { type: 'string', title, enum: [...values], ...extra };
+}
+
+/**
+ * CSS 长度
+ * @internal
+ */
+function length(title: Label, examples: string[]): SchemaDefinition {
+  return { type: 'string', title, pattern: LENGTH_PATTERN, examples };
+}
+
+/**
+ * 对象，默认不允许未声明的字段
+ * @internal
+ */
+function object(
+  title: Label,
+  properties: Record<string, SchemaDefinition>,
+  extra: Partial<SchemaDefinition> = {}
+): SchemaDefinition {
+  return { type: 'object', title, properties, additionalProperties: false, ...extra };
+}
+
+/**
+ * 布尔值或设置对象
+ * @internal
+ */
+function toggle(title: Label, settings: SchemaDefinition, extra: Partial<SchemaDefinition> = {}): SchemaDefinition {
+  return { title, anyOf: [{ type: 'boolean' }, settings], ...extra };
+}
+
+/**
+ * 页眉或页脚内容：预设、三栏文本或 HTML 模板
+ * @internal
+ */
+function headerFooterContent([zh, en]: Label): SchemaDefinition {
+  return {
+    title: [zh, en],
+    anyOf: [
+      choice([`${zh}预设`, `${en} preset`], Object.keys(HEADER_FOOTER_PRESETS)),
+      object([`${zh}三栏文本`, `${en} slots`], {
+        left: text([`${zh}左侧文本`, `${en} left text`]),
+        center: text([`${zh}居中文本`, `${en} center text`]),
+        right: text([`${zh}右侧文本`, `${en} right text`]),
+      }),
+      object([`${zh}模板`, `${en} template`], { template: text([`${zh}模板`, `${en} template`]) }, {
+        required: ['template'],
+      }),
+    ],
+  };
+}
+
+/**
+ * 一组页眉页脚
+ * @internal
+ */
+function headerFooterVariant([zh, en]: Label): SchemaDefinition {
+  return object([`${zh}页眉页脚`, `${en} header and footer`], {
+    header: headerFooterContent([`${zh}页眉`, `${en} header`]),
+    footer: headerFooterContent([`${zh}页脚`, `${en} footer`]),
+  });
+}
+
+/**
+ * 图片 MIME 类型
+ * @internal
+ */
+const IMAGE_CONTENT_TYPE: SchemaDefinition = text(['图片 MIME 类型', 'Image MIME type'], {
+  pattern: '^image/',
+  examples: ['image/png', 'image/svg+xml'],
+});
+
+/**
+ * 顶层选项定义，按选项类别排列
+ * @internal
+ */
+const OPTION_DEFINITIONS: Readonly<Partial<Record<keyof PDFConversionOptions, SchemaDefinition>>> = {
+  // 页面设置
+  format: choice(['页面格式', 'Page format'], PAGE_FORMATS),
+  orientation: choice(['页面方向', 'Orientation'], PAGE_ORIENTATIONS),
+  margin: object(['页边距', 'Margins'], {
+    top: length(['上边距', 'Top margin'], ['15mm', '1in', '20px']),
+    right: length(['右边距', 'Right margin'], ['15mm', '1in', '20px']),
+    bottom: length(['下边距', 'Bottom margin'], ['15mm', '1in', '20px']),
+    left: length(['左边距', 'Left margin'], ['15mm', '1in', '20px']),
+  }),
+  width: {
+    ...length(['纸张宽度', 'Page width'], ['210mm', '8.5in']),
+    description: ['需与纸张高度同时指定，指定后覆盖页面格式和方向', 'Requires page height; overrides format and orientation'],
+  },
+  height: {
+    ...length(['纸张高度', 'Page height'], ['297mm', '11in']),
+    description: ['需与纸张宽度同时指定', 'Requires page width'],
+  },
+  scale: { type: 'number', title: ['缩放比例', 'Scale'], minimum: MIN_SCALE, maximum: MAX_SCALE, default: 1 },
+  preferCSSPageSize: flag(['优先使用 CSS 页面尺寸', 'Prefer CSS page size'], {
+    description: ['优先使用卡片 CSS 中 @page 声明的尺寸', 'Use the @page size declared by the card CSS'],
+    default: false,
+  }),
+  fitToSinglePage: flag(['单页输出', 'Fit to single page'], {
+    description: ['将整张卡片输出为一页，高度按内容计算', 'Output the whole card as one page sized to its content'],
+    default: false,
+  }),
+  displayHeaderFooter: flag(['显示页眉页脚', 'Display header and footer']),
+  headerTemplate: text(['页眉模板', 'Header template']),
+  footerTemplate: text(['页脚模板', 'Footer template']),
+  headerFooter: toggle(
+    ['页眉页脚', 'Header and footer'],
+    object(['页眉页脚设置', 'Header and footer settings'], {
+      header: headerFooterContent(['页眉', 'Header']),
+      footer: headerFooterContent(['页脚', 'Footer']),
+      firstPage: {
+        title: ['首页页眉页脚', 'First page header and footer'],
+        anyOf: [{ type: 'boolean', enum: [false] }, headerFooterVariant(['首页', 'First page'])],
+      },
+      evenPages: headerFooterVariant(['偶数页', 'Even page']),
+      fontSize: text(['页眉页脚字号', 'Header and footer font size'], {
+        pattern: '^\\d+(\\.\\d+)?(pt|px|mm|cm|in)$',
+        examples: ['9pt'],
+      }),
+    }),
+    { description: ['预设、三栏文本或 HTML 模板', 'Preset, three-slot text or HTML template'] }
+  ),
+  pagination: toggle(
+    ['分页控制', 'Pagination'],
+    object(['分页控制设置', 'Pagination settings'], {
+      baseCardNewPage: flag(['基础卡片从新页开始', 'Start base cards on a new page']),
+      avoidBreakInside: flag(['避免在基础卡片内分页', 'Avoid breaks inside base cards']),
+      keepHeadingsWithNext: flag(['标题与后文同页', 'Keep headings with next']),
+      orphans: { type: 'integer', title: ['孤行控制行数', 'Orphans'], minimum: 1 },
+      widows: { type: 'integer', title: ['寡行控制行数', 'Widows'], minimum: 1 },
+    })
+  ),
+
+  // 封面目录
+  cover: toggle(
+    ['封面', 'Cover'],
+    object(['封面设置', 'Cover settings'], {
+      enabled: flag(['生成封面', 'Enabled']),
+      template: text(['封面模板', 'Cover template']),
+      title: text(['封面标题', 'Cover title']),
+      subtitle: text(['封面副标题', 'Cover subtitle']),
+      showMetadata: flag(['显示元信息', 'Show metadata']),
+    })
+  ),
+  toc: toggle(
+    ['目录', 'Table of contents'],
+    object(['目录设置', 'Table of contents settings'], {
+      enabled: flag(['生成目录', 'Enabled']),
+      title: text(['目录标题', 'Title']),
+      maxDepth: { type: 'integer', title: ['目录层级', 'Maximum heading level'], minimum: 1, maximum: 6 },
+      includeBaseCards: flag(['包含基础卡片', 'Include base cards']),
+      includeHeadings: flag(['包含标题', 'Include headings']),
+    })
+  ),
+  generateOutline: flag(['生成书签', 'Generate outline']),
+
+  // 输出控制
+  outputPath: text(['输出路径', 'Output path']),
+  metadata: toggle(
+    ['文档元数据', 'Document metadata'],
+    object(['文档元数据设置', 'Document metadata settings'], {
+      title: text(['文档标题', 'Title']),
+      author: text(['文档作者', 'Author']),
+      subject: text(['文档主题', 'Subject']),
+      keywords: { type: 'array', title: ['文档关键词', 'Keywords'], items: text(['文档关键词', 'Keyword']) },
+      language: text(['文档语言', 'Language'], { examples: ['zh-CN'] }),
+      creator: text(['创建工具', 'Creator']),
+      producer: text(['生成器', 'Producer']),
+      creationDate: text(['创建时间', 'Creation date'], { format: 'date-time' }),
+      modificationDate: text(['修改时间', 'Modification date'], { format: 'date-time' }),
+    })
+  ),
+  conformance: choice(['归档符合性级别', 'Conformance level'], Object.keys(PDFA_IDENTIFICATION)),
+  encryption: object(['加密', 'Encryption'], {
+    userPassword: text(['打开密码', 'User password']),
+    ownerPassword: text(['权限密码', 'Owner password']),
+    algorithm: choice(['加密算法', 'Algorithm'], ['aes-128', 'aes-256'], { default: 'aes-256' }),
+    permissions: object(['文档权限', 'Permissions'], {
+      print: flag(['允许打印', 'Allow printing']),
+      copy: flag(['允许复制', 'Allow copying']),
+      modify: flag(['允许修改', 'Allow modifying']),
+      annotate: flag(['允许注释', 'Allow annotating']),
+    }),
+  }),
+  imageCompression: {
+    title: ['图片压缩', 'Image compression'],
+    anyOf: [
+      choice(['图片压缩预设', 'Image compression profile'], Object.keys(IMAGE_PROFILES)),
+      object(['图片压缩设置', 'Image compression settings'], {
+        profile: choice(['图片压缩预设', 'Profile'], Object.keys(IMAGE_PROFILES)),
+        maxDpi: {
+          type: 'number',
+          title: ['图片分辨率', 'Maximum DPI'],
+          minimum: MIN_IMAGE_DPI,
+          maximum: MAX_IMAGE_DPI,
+        },
+        jpegQuality: { type: 'number', title: ['JPEG 质量', 'JPEG quality'], exclusiveMinimum: 0, maximum: 1 },
+        targetFileSize: {
+          type: 'integer',
+          title: ['目标文件大小（字节）', 'Target file size (bytes)'],
+          exclusiveMinimum: 0,
+        },
+      }),
+    ],
+  },
+  watermark: object(['水印', 'Watermark'], {
+    text: text(['水印文字', 'Text']),
+    image: {
+      title: ['水印图片', 'Image'],
+      anyOf: [
+        text(['水印图片 data URL', 'Image data URL'], { pattern: '^data:image/[\\w.+-]+[;,]' }),
+        object(
+          ['水印图片数据', 'Image data'],
+          {
+            contentType: IMAGE_CONTENT_TYPE,
+            data: text(['图片数据', 'Data'], { format: 'binary' }),
+          },
+          { required: ['contentType', 'data'] }
+        ),
+      ],
+    },
+    imageWidth: text(['水印图片宽度', 'Image width'], { examples: ['50mm'] }),
+    fontFamily: text(['水印字体', 'Font family']),
+    fontSize: text(['水印字号', 'Font size'], { examples: ['64pt'] }),
+    fontWeight: { type: ['string', 'number'], title: ['水印字重', 'Font weight'] },
+    color: text(['水印颜色', 'Color']),
+    opacity: { type: 'number', title: ['水印不透明度', 'Opacity'], exclusiveMinimum: 0, maximum: 1 },
+    rotation: { type: 'number', title: ['水印旋转角度', 'Rotation'] },
+    position: choice(['水印位置', 'Position'], WATERMARK_POSITIONS),
+    pages: text(['水印页码范围', 'Pages'], { pattern: PAGE_RANGES_PATTERN, examples: ['1-3, 5, 8-'] }),
+    layer: choice(['水印图层', 'Layer'], ['foreground', 'background']),
+    selectable: flag(['水印文字可选中', 'Selectable text']),
+  }),
+
+  // 渲染控制
+  printBackground: flag(['打印背景', 'Print background']),
+  themeId: text(['主题 ID', 'Theme ID']),
+  appearanceProfileId: text(['外观配置 ID', 'Appearance profile ID']),
+  appearanceOverrides: { type: 'object', title: ['外观参数覆盖', 'Appearance overrides'] },
+  network: object(['网络隔离', 'Network isolation'], {
+    externalRequests: choice(['外部请求策略', 'External requests'], ['block', 'allow'], { default: 'block' }),
+    allowlist: {
+      type: 'array',
+      title: ['允许列表', 'Allowlist'],
+      items: text(['允许列表地址', 'Allowlist entry'], { pattern: '\\S' }),
+    },
+    placeholder: toggle(
+      ['占位图', 'Placeholder image'],
+      object(
+        ['占位图设置', 'Placeholder image settings'],
+        { contentType: IMAGE_CONTENT_TYPE, data: text(['占位图数据', 'Data']) },
+        { required: ['contentType', 'data'] }
+      )
+    ),
+    requestTimeout: {
+      type: 'integer',
+      title: ['外部资源超时时间（毫秒）', 'Request timeout (ms)'],
+      exclusiveMinimum: 0,
+    },
+  }),
+  onRenderError: choice(['渲染失败处理方式', 'On render error'], RENDER_ERROR_POLICIES, {
+    default: DEFAULT_RENDER_ERROR_POLICY,
+  }),
+  pageLoad: object(['页面加载', 'Page load'], {
+    timeout: { type: 'integer', title: ['页面加载超时时间（毫秒）', 'Timeout (ms)'], exclusiveMinimum: 0 },
+    retries: { type: 'integer', title: ['页面加载重试次数', 'Retries'], minimum: 0 },
+    retryDelay: { type: 'integer', title: ['页面加载重试间隔（毫秒）', 'Retry delay (ms)'], minimum: 0 },
+  }),
+};
+
+// ============================================================================
+// 公开接口
+// ============================================================================
+
+/**
+ * 生成转换选项的 JSON Schema
+ *
+ * @remarks 能力声明的选项枚举取自本模块，因此由调用方传入能力声明，避免两个模块相互引用
+ * @param descriptors - 能力声明中的选项，决定属性的顺序与分类
+ * @param locale - 标签与说明使用的语言
+ * @param defaults - 顶层选项的默认值
+ */
+export function buildOptionsSchema(
+  descriptors: ReadonlyArray<PDFOptionDescriptor>,
+  locale: PDFSchemaLocale = 'zh-CN',
+  defaults: PDFConversionOptions = {}
+): PDFOptionsSchema {
+  const index = locale === 'en-US' ? 1 : 0;
+  const properties: Record<string, PDFOptionsSchema> = {};
+  for (const descriptor of descriptors) {
+    const definition = OPTION_DEFINITIONS[descriptor.name];
+    if (!definition) {
+      continue;
+    }
+    const schema: PDFOptionsSchema = { ...localize(definition, index), 'x-category': descriptor.category };
+    const value = defaults[descriptor.name];
+    if (value !== undefined) {
+      schema.default = value;
+    }
+    properties[descriptor.name] = schema;
+  }
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: index === 1 ? 'PDF conversion options' : 'PDF 转换选项',
+    type: 'object',
+    properties,
+  };
+}
+
+/**
+ * 按结构描述检查转换选项
+ *
+ * @remarks 未声明的选项和字段视为错误；进度回调、任务ID等运行时参数不在检查范围内
+ * @param options - 转换选项
+ * @returns 每个结构错误及其错误码、顶层选项名和出错字段的完整路径
+ */
+export function validateOptionsSchema(options: PDFConversionOptions): PDFValidationIssue[] {
+  const issues: PDFValidationIssue[] = [];
+  for (const [name, value] of Object.entries(options)) {
+    if (value === undefined || RUNTIME_OPTIONS.has(name)) {
+      continue;
+    }
+    const definition = OPTION_DEFINITIONS[name as keyof PDFConversionOptions];
+    if (!definition) {
+      issues.push({ code: PDFErrorCode.INVALID_OPTION, message: `不支持的选项: ${name}`, option: name, field: name });
+      continue;
+    }
+    const errors: SchemaError[] = [];
+    checkValue(value, definition, definition.title?.[0] ?? name, name, errors);
+    const code = OPTION_ERROR_CODES[name as keyof PDFConversionOptions] ?? PDFErrorCode.INVALID_OPTION;
+    for (const { field, message } of errors) {
+      issues.push({ code, message, option: name, field });
+    }
+  }
+  return issues;
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 将结构定义转换为指定语言的 JSON Schema
+ * @internal
+ */
+function localize(definition: SchemaDefinition, index: number): PDFOptionsSchema {
+  const { title, description, items, properties, anyOf, ...rest } = definition;
+  const schema: PDFOptionsSchema = { ...rest };
+  if (title) {
+    schema.title = title[index];
+  }
+  if (description) {
+    schema.description = description[index];
+  }
+  if (items) {
+    schema.items = localize(items, index);
+  }
+  if (properties) {
+    schema.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, child]) => [key, localize(child, index)])
+    );
+  }
+  if (anyOf) {
+    schema.anyOf = anyOf.map((branch) => localize(branch, index));
+  }
+  return schema;
+}
+
+/**
+ * 按结构定义检查一个值，错误追加到 `errors`
+ *
+ * @param field - 值所在字段的完整路径，数组元素沿用数组的路径
+ * @internal
+ */
+function checkValue(
+  value: unknown,
+  definition: SchemaDefinition,
+  label: string,
+  field: string,
+  errors: SchemaError[]
+): void {
+  const fail = (message: string): void => {
+    errors.push({ field, message });
+  };
+  if (definition.anyOf) {
+    checkAnyOf(value, definition.anyOf, label, field, errors);
+    return;
+  }
+
+  const types = typesOf(definition);
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    fail(
+      typeof value === 'number' && Number.isFinite(value) && types.includes('integer')
+        ? rangeMessage(value, definition, label)
+        : `${label}必须为${describeTypes(types)}`
+    );
+    return;
+  }
+  if (definition.format === 'binary' && !(value instanceof Uint8Array)) {
+    fail(`${label}必须为 Uint8Array`);
+    return;
+  }
+  if (definition.enum && !definition.enum.includes(value as string)) {
+    fail(`不支持的${label}: ${describeValue(value)}，支持: ${definition.enum.join(', ')}`);
+    return;
+  }
+
+  if (typeof value === 'string' && definition.pattern && !new RegExp(definition.pattern).test(value)) {
+    const examples = definition.examples?.map((example) => `'${String(example)}'`).join(', ');
+    fail(`无效的${label}: ${value}${examples ? `，示例: ${examples}` : ''}`);
+  }
+  if (typeof value === 'number' && !inRange(value, definition)) {
+    fail(rangeMessage(value, definition, label));
+  }
+  if (Array.isArray(value) && definition.items) {
+    for (const item of value) {
+      checkValue(item, definition.items, definition.items.title?.[0] ?? label, field, errors);
+    }
+  }
+  if (isObject(value)) {
+    const record = value as Record<string, unknown>;
+    for (const key of definition.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push({ field: `${field}.${key}`, message: `${label}缺少 ${key}` });
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const child = definition.properties?.[key];
+      if (child) {
+        if (item !== undefined) {
+          checkValue(item, child, child.title?.[0] ?? key, `${field}.${key}`, errors);
+        }
+      } else if (definition.additionalProperties === false) {
+        errors.push({ field: `${field}.${key}`, message: `${label}中不支持的字段: ${key}` });
+      }
+    }
+  }
+}
+
+/**
+ * 检查可选结构：满足任一结构即通过，否则报告与值类型相符且最接近的结构中的错误
+ * @internal
+ */
+function checkAnyOf(
+  value: unknown,
+  branches: SchemaDefinition[],
+  label: string,
+  field: string,
+  errors: SchemaError[]
+): void {
+  const candidates: Array<{ branch: SchemaDefinition; errors: SchemaError[] }> = [];
+  for (const branch of branches) {
+    const branchErrors: SchemaError[] = [];
+    checkValue(value, branch, branch.title?.[0] ?? label, field, branchErrors);
+    if (branchErrors.length === 0) {
+      return;
+    }
+    const types = typesOf(branch);
+    if (types.length === 0 || types.some((type) => matchesLooseType(value, type))) {
+      candidates.push({ branch, errors: branchErrors });
+    }
+  }
+
+  if (candidates.length === 0) {
+    errors.push({ field, message: `${label}必须为${describeTypes(branches.flatMap(typesOf))}` });
+    return;
+  }
+  // 必需字段齐全的对象结构优先，缺少必需字段的结构最后，同级中取错误最少的结构
+  const record = isObject(value) ? (value as Record<string, unknown>) : {};
+  const score = (candidate: { branch: SchemaDefinition; errors: SchemaError[] }): number => {
+    const { required } = candidate.branch;
+    if (!required) {
+      return 500 + candidate.errors.length;
+    }
+    return (required.every((key) => record[key] !== undefined) ? 0 : 1000) + candidate.errors.length;
+  };
+  const best = candidates.reduce((current, candidate) => (score(candidate) < score(current) ? candidate : current));
+  errors.push(...best.errors);
+}
+
+/**
+ * 结构定义允许的值类型
+ * @internal
+ */
+function typesOf(definition: SchemaDefinition): PDFSchemaType[] {
+  if (definition.type === undefined) {
+    return [];
+  }
+  return Array.isArray(definition.type) ? definition.type : [definition.type];
+}
+
+/**
+ * 判断值是否为指定类型
+ *
+ * @remarks 日期与 `Uint8Array` 分别按其 JSON 与 OpenAPI 表示视为字符串
+ * @internal
+ */
+function matchesType(value: unknown, type: PDFSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' || value instanceof Date || value instanceof Uint8Array;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+  }
+}
+
+/**
+ * 判断值是否为指定类型，整数类型接受任意数字
+ * @internal
+ */
+function matchesLooseType(value: unknown, type: PDFSchemaType): boolean {
+  return type === 'integer' ? typeof value === 'number' : matchesType(value, type);
+}
+
+/**
+ * 判断数字是否在取值范围内
+ * @internal
+ */
+function inRange(value: number, definition: SchemaDefinition): boolean {
+  return (
+    (definition.minimum === undefined || value >= definition.minimum) &&
+    (definition.exclusiveMinimum === undefined || value > definition.exclusiveMinimum) &&
+    (definition.maximum === undefined || value <= definition.maximum)
+  );
+}
+
+/**
+ * 生成超出取值范围的错误信息
+ * @internal
+ */
+function rangeMessage(value: number, definition: SchemaDefinition, label: string): string {
+  const { minimum, exclusiveMinimum, maximum } = definition;
+  const integer = typesOf(definition).includes('integer');
+  let rule: string;
+  if (integer && maximum === undefined && (minimum === 1 || exclusiveMinimum === 0)) {
+    rule = '需为正整数';
+  } else if (integer && maximum === undefined && minimum === 0) {
+    rule = '需为非负整数';
+  } else if (maximum === undefined) {
+    rule = minimum === undefined ? `需大于 ${exclusiveMinimum}` : `需不小于 ${minimum}`;
+  } else {
+    rule = `取值范围 ${minimum ?? exclusiveMinimum ?? ''}-${maximum}${integer ? '（整数）' : ''}`;
+  }
+  return `无效的${label}: ${value}，${rule}`;
+}
+
+/**
+ * 描述允许的值类型
+ * @internal
+ */
+function describeTypes(types: PDFSchemaType[]): string {
+  return Array.from(new Set(types.map((type) => TYPE_NAMES[type]))).join('或');
+}
+
+/**
+ * 描述错误信息中的值
+ * @internal
+ */
+function describeValue(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value).slice(0, 60) : String(value);
+}
+
+/**
+ * 判断是否为对象（不含数组、日期与二进制数据）
+ * @internal
+ */
+function isObject(value: unknown): boolean {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof Uint8Array)
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * 转换任务管理
+ *
+ * 记录每个转换任务的状态与进度，支持按任务 ID 查询和取消。
+ * 取消采用协作方式：转换流程在安全检查点调用 `throwIfCancelled`，
+ * 由流程自身完成浏览器关闭和临时文件清理后再进入 `cancelled` 状态。
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  PDFConversionResult,
+  PDFConversionStatus,
+  PDFProgressInfo,
+  PDFTaskCancelResult,
+  PDFTaskStatus,
+} from '../types';
+
+/**
+ * 已结束任务的最大保留数量
+ * @internal
+ */
+const MAX_FINISHED_TASKS = 100;
+
+/**
+ * 任务结束状态
+ * @internal
+ */
+const FINAL_STATUSES: ReadonlySet<PDFConversionStatus> = new Set(['completed', 'failed', 'cancelled']);
+
+/**
+ * 任务已取消错误
+ *
+ * 在安全检查点抛出，由转换流程捕获后转换为取消结果
+ */
+export class TaskCancelledError extends Error {
+  /** 被取消的任务ID */
+  readonly taskId: string;
+
+  constructor(taskId: string) {
+    super(`任务已取消: ${taskId}`);
+    this.name = 'TaskCancelledError';
+    this.taskId = taskId;
+  }
+}
+
+/**
+ * 转换任务
+ */
+export class ConversionTask {
+  /** 任务ID */
+  readonly taskId: string;
+
+  /** 任务状态快照 */
+  private _status: PDFTaskStatus;
+
+  /** 取消控制器 */
+  private readonly _controller = new AbortController();
+
+  /** 任务结束通知 */
+  private readonly _done: Promise<void>;
+  private _resolveDone!: () => void;
+
+  constructor(taskId: string, externalSignal?: AbortSignal) {
+    const now = Date.now();
+    this.taskId = taskId;
+    this._status = {
+      taskId,
+      status: 'pending',
+      percent: 0,
+      startedAt: now,
+      updatedAt: now,
+    };
+    this._done = new Promise((resolve) => {
+      this._resolveDone = resolve;
+    });
+
+    if (externalSignal) {
+      if (externalSignal.aborted) {
+        this._controller.abort();
+      } else {
+        externalSignal.addEventListener('abort', () => this._controller.abort(), { once: true });
+      }
+    }
+  }
+
+  /** 任务取消信号，可传递给支持 AbortSignal 的底层操作 */
+  get signal(): AbortSignal {
+    return this._controller.signal;
+  }
+
+  /** 是否已请求取消 */
+  get cancelRequested(): boolean {
+    return this._controller.signal.aborted;
+  }
+
+  /** 是否已结束 */
+  get finished(): boolean {
+    return FINAL_STATUSES.has(this._status.status);
+  }
+
+  /** 任务结束时兑现的 Promise */
+  get done(): Promise<void> {
+    return this._done;
+  }
+
+  /**
+   * 获取状态快照
+   */
+  snapshot(): PDFTaskStatus {
+    return { ...this._status };
+  }
+
+  /**
+   * 更新进度
+   */
+  update(progress: Omit<PDFProgressInfo, 'taskId'>): void {
+    if (this.finished) {
+      return;
+    }
+    this._status = {
+      ...this._status,
+      status: progress.status,
+      percent: progress.percent,
+      currentStep: progress.currentStep,
+      bytesWritten: progress.bytesWritten,
+      totalBytes: progress.totalBytes,
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * 请求取消
+   */
+  requestCancel(): void {
+    this._controller.abort();
+  }
+
+  /**
+   * 安全检查点：已请求取消时抛出 TaskCancelledError
+   */
+  throwIfCancelled(): void {
+    if (this.cancelRequested) {
+      throw new TaskCancelledError(this.taskId);
+    }
+  }
+
+  /**
+   * 记录最终结果并结束任务
+   */
+  finish(result: PDFConversionResult, status: PDFConversionStatus): void {
+    const now = Date.now();
+    this._status = {
+      ...this._status,
+      status,
+      percent: status === 'completed' ? 100 : this._status.percent,
+      updatedAt: now,
+      finishedAt: now,
+      result,
+    };
+    this._resolveDone();
+  }
+}
+
+/**
+ * 任务管理器
+ */
+export class TaskManager {
+  /** 任务表（按创建顺序） */
+  private readonly _tasks = new Map<string, ConversionTask>();
+
+  /**
+   * 创建并登记任务
+   *
+   * @param taskId - 任务ID
+   * @param signal - 调用方传入的取消信号
+   * @throws 任务 ID 已被进行中的任务占用时抛出错误
+   */
+  create(taskId: string, signal?: AbortSignal): ConversionTask {
+    const existing = this._tasks.get(taskId);
+    if (existing && !existing.finished) {
+      throw new Error(`任务ID已被占用: ${taskId}`);
+    }
+    this._tasks.delete(taskId);
+
+    const task = new ConversionTask(taskId, signal);
+    this._tasks.set(taskId, task);
+    this._evictFinished();
+    return task;
+  }
+
+  /**
+   * 获取任务
+   */
+  get(taskId: string): ConversionTask | undefined {
+    return this._tasks.get(taskId);
+  }
+
+  /**
+   * 获取所有进行中的任务
+   */
+  active(): ConversionTask[] {
+    return [...this._tasks.values()].filter((task) => !task.finished);
+  }
+
+  /**
+   * 取消任务并等待其在安全检查点停止
+   *
+   * @param taskId - 任务ID
+   */
+  async cancel(taskId: string): Promise<PDFTaskCancelResult> {
+    const task = this._tasks.get(taskId);
+    if (!task) {
+      return { taskId, cancelled: false, message: '任务不存在或已过期' };
+    }
+    if (task.finished) {
+      const { status } = task.snapshot();
+      return { taskId, cancelled: false, status, message: `任务已结束，当前状态: ${status}` };
+    }
+
+    task.requestCancel();
+    await task.done;
+
+    const { status } = task.snapshot();
+    return status === 'cancelled'
+      ? { taskId, cancelled: true, status, message: '任务已取消' }
+      : { taskId, cancelled: false, status, message: `任务在取消前已结束，当前状态: ${status}` };
+  }
+
+  /**
+   * 淘汰超出保留数量的已结束任务
+   * @internal
+   */
+  private _evictFinished(): void {
+    const finished = [...this._tasks.values()].filter((task) => task.finished);
+    for (const task of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_TASKS))) {
+      this._tasks.delete(task.taskId);
+    }
+  }
+}
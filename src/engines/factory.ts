@@ -0,0 +1,100 @@
+/**
+ * 渲染引擎选择
+ *
+ * @packageDocumentation
+ */
+
+import { EngineNotInstalledError, PDFConversionError } from '../core/errors';
+import { PDFErrorCode } from '../types';
+import type { PDFBrowserPoolOptions, PDFEngineKind, PDFRenderEngine, PDFRenderPage } from '../types';
+import { PlaywrightRenderEngine } from './playwright';
+import { PuppeteerRenderEngine } from './puppeteer';
+
+/**
+ * 创建内置渲染引擎
+ *
+ * @param kind - 引擎类型，`auto` 在首次使用时优先选择已安装的 Puppeteer，其次 Playwright
+ * @param options - 浏览器池选项
+ */
+export function createRenderEngine(
+  kind: PDFEngineKind,
+  options?: PDFBrowserPoolOptions
+): PDFRenderEngine {
+  switch (kind) {
+    case 'puppeteer':
+      return new PuppeteerRenderEngine(options);
+    case 'playwright':
+      return new PlaywrightRenderEngine(options);
+    case 'auto':
+      return new AutoRenderEngine(options);
+    default:
+      throw new PDFConversionError(
+        PDFErrorCode.INVALID_OPTION,
+        `不支持的渲染引擎: ${String(kind)}，支持: auto, puppeteer, playwright`,
+        { details: { option: 'engine', field: 'engine' } }
+      );
+  }
+}
+
+/**
+ * 自动选择的渲染引擎
+ *
+ * 首次打开页面时探测已安装的浏览器自动化库并创建对应引擎
+ * @internal
+ */
+class AutoRenderEngine implements PDFRenderEngine {
+  /** 池选项 */
+  private readonly _options: PDFBrowserPoolOptions | undefined;
+
+  /** 实际使用的引擎 */
+  private _engine: Promise<PDFRenderEngine> | undefined;
+
+  constructor(options?: PDFBrowserPoolOptions) {
+    this._options = options;
+  }
+
+  get name(): string {
+    return 'auto';
+  }
+
+  async openPage(options?: { signal?: AbortSignal }): Promise<PDFRenderPage> {
+    this._engine ??= this._detect();
+    const engine = await this._engine.catch((error: unknown) => {
+      this._engine = undefined;
+      throw error;
+    });
+    return engine.openPage(options);
+  }
+
+  async close(): Promise<void> {
+    const engine = await this._engine?.catch(() => undefined);
+    await engine?.close();
+  }
+
+  /**
+   * 探测可用的浏览器自动化库
+   * @internal
+   */
+  private async _detect(): Promise<PDFRenderEngine> {
+    if (await canImport(() => import('puppeteer'))) {
+      return new PuppeteerRenderEngine(this._options);
+    }
+    if (await canImport(() => import('playwright'))) {
+      return new PlaywrightRenderEngine(this._options);
+    }
+    throw new EngineNotInstalledError('auto');
+  }
+}
+
+/**
+ * 判断模块能否导入
+ * @internal
+ */
+async function canImport(load: () => Promise<unknown>): Promise<boolean> {
+  try {
+    await load();
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Playwright（Chromium）渲染引擎
+ *
+ * @packageDocumentation
+ */
+
+import type { Browser, Page } from 'playwright';
+import { BrowserPool } from '../core/browser-pool';
+import type { BrowserDriver, PageLease } from '../core/browser-pool';
+import { BrowserLaunchError, EngineNotInstalledError } from '../core/errors';
+import type {
+  PDFBrowserPoolOptions,
+  PDFRenderEngine,
+  PDFRenderOptions,
+  PDFRenderPage,
+  PDFResourceRequest,
+  PDFResourceResponse,
+} from '../types';
+
+/**
+ * Playwright 浏览器驱动
+ *
+ * 连接已运行浏览器时使用 CDP 协议，与 Puppeteer 引擎的 `browserWSEndpoint` 含义一致
+ * @internal
+ */
+const PLAYWRIGHT_DRIVER: BrowserDriver<Browser, Page> = {
+  async launch(options) {
+    let playwright: typeof import('playwright');
+    try {
+      playwright = await import('playwright');
+    } catch (error) {
+      throw new EngineNotInstalledError('playwright', error);
+    }
+
+    try {
+      return await (options.endpoint
+        ? playwright.chromium.connectOverCDP(options.endpoint)
+        : playwright.chromium.launch({
+            headless: true,
+            executablePath: options.executablePath,
+            args: options.args,
+          }));
+    } catch (error) {
+      throw new BrowserLaunchError('playwright', error);
+    }
+  },
+  isConnected: (browser) => browser.isConnected(),
+  onDisconnected: (browser, callback) => {
+    browser.once('disconnected', callback);
+  },
+  newPage: (browser) => browser.newPage(),
+  async closePage(page) {
+    if (!page.isClosed()) {
+      // newPage 为每个页面创建独立的浏览器上下文，一并关闭
+      await page.context().close();
+    }
+  },
+  async closeBrowser(browser) {
+    // 通过 CDP 连接的浏览器调用 close 只会断开连接
+    await browser.close();
+  },
+};
+
+/**
+ * Playwright（Chromium）渲染引擎
+ *
+ * @example
+ * ```typescript
+ * const plugin = createPlugin({
+ *   engine: new PlaywrightRenderEngine({ maxConcurrency: 4 }),
+ * });
+ * ```
+ */
+export class PlaywrightRenderEngine implements PDFRenderEngine {
+  /** 引擎名称 */
+  readonly name = 'playwright';
+
+  /** 浏览器池 */
+  private readonly _pool: BrowserPool<Browser, Page>;
+
+  /**
+   * @param options - 浏览器池选项
+   */
+  constructor(options?: PDFBrowserPoolOptions) {
+    this._pool = new BrowserPool(PLAYWRIGHT_DRIVER, options);
+  }
+
+  async openPage(options: { signal?: AbortSignal } = {}): Promise<PDFRenderPage> {
+    return new PlaywrightRenderPage(await this._pool.acquire(options.signal));
+  }
+
+  close(): Promise<void> {
+    return this._pool.close();
+  }
+}
+
+/**
+ * Playwright 引擎页面
+ * @internal
+ */
+class PlaywrightRenderPage implements PDFRenderPage {
+  /** 页面租约 */
+  private readonly _lease: PageLease<Page>;
+
+  constructor(lease: PageLease<Page>) {
+    this._lease = lease;
+  }
+
+  async setViewport(size: { width: number; height: number }): Promise<void> {
+    await this._lease.page.setViewportSize(size);
+  }
+
+  async setContent(html: string, options: { timeout: number }): Promise<void> {
+    await this._lease.page.setContent(html, {
+      waitUntil: 'networkidle',
+      timeout: options.timeout,
+    });
+  }
+
+  async interceptRequests(
+    handler: (request: PDFResourceRequest) => Promise<PDFResourceResponse>
+  ): Promise<void> {
+    await this._lease.page.route('**/*', async (route) => {
+      const request = route.request();
+      try {
+        const response = await handler({
+          url: request.url(),
+          method: request.method(),
+          resourceType: request.resourceType(),
+          isNavigation: request.isNavigationRequest(),
+        });
+        switch (response.action) {
+          case 'fulfill':
+            await route.fulfill({
+              status: response.status,
+              contentType: response.contentType,
+              headers: response.headers,
+              body: Buffer.from(response.body.buffer, response.body.byteOffset, response.body.byteLength),
+            });
+            break;
+          case 'abort':
+            await route.abort('blockedbyclient');
+            break;
+          default:
+            await route.continue();
+        }
+      } catch {
+        // 页面已关闭时响应会失败，无需处理
+      }
+    });
+  }
+
+  async goto(url: string, options: { timeout: number }): Promise<void> {
+    await this._lease.page.goto(url, {
+      waitUntil: 'networkidle',
+      timeout: options.timeout,
+    });
+  }
+
+  evaluate<TArg, TResult>(fn: (arg: TArg) => TResult, arg: TArg): Promise<Awaited<TResult>> {
+    return this._lease.page.evaluate(fn as (arg: unknown) => TResult, arg) as Promise<Awaited<TResult>>;
+  }
+
+  async emulatePrintMedia(): Promise<void> {
+    await this._lease.page.emulateMedia({ media: 'print' });
+  }
+
+  async pdf(options: PDFRenderOptions): Promise<Uint8Array> {
+    // Playwright 的纸张格式名称与 Puppeteer 一致但首字母大写
+    const format = options.format
+      ? options.format.charAt(0) + options.format.slice(1).toLowerCase()
+      : undefined;
+    return new Uint8Array(await this._lease.page.pdf({ ...options, format }));
+  }
+
+  close(): Promise<void> {
+    return this._lease.release();
+  }
+}
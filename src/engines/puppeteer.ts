@@ -0,0 +1,179 @@
+/**
+ * Puppeteer 渲染引擎
+ *
+ * @packageDocumentation
+ */
+
+import type { Browser, Page } from 'puppeteer';
+import { BrowserPool } from '../core/browser-pool';
+import type { BrowserDriver, PageLease } from '../core/browser-pool';
+import { BrowserLaunchError, EngineNotInstalledError } from '../core/errors';
+import type {
+  PDFBrowserPoolOptions,
+  PDFRenderEngine,
+  PDFRenderOptions,
+  PDFRenderPage,
+  PDFResourceRequest,
+  PDFResourceResponse,
+} from '../types';
+
+/**
+ * Puppeteer 浏览器驱动
+ * @internal
+ */
+const PUPPETEER_DRIVER: BrowserDriver<Browser, Page> = {
+  async launch(options) {
+    let puppeteer: typeof import('puppeteer');
+    try {
+      puppeteer = await import('puppeteer');
+    } catch (error) {
+      throw new EngineNotInstalledError('puppeteer', error);
+    }
+
+    try {
+      return await (options.endpoint
+        ? puppeteer.connect({ browserWSEndpoint: options.endpoint })
+        : puppeteer.launch({
+            headless: true,
+            executablePath: options.executablePath,
+            args: options.args,
+          }));
+    } catch (error) {
+      throw new BrowserLaunchError('puppeteer', error);
+    }
+  },
+  isConnected: (browser) => browser.isConnected(),
+  onDisconnected: (browser, callback) => {
+    browser.once('disconnected', callback);
+  },
+  newPage: (browser) => browser.newPage(),
+  async closePage(page) {
+    if (!page.isClosed()) {
+      await page.close();
+    }
+  },
+  async closeBrowser(browser, connected) {
+    if (connected) {
+      browser.disconnect();
+    } else {
+      await browser.close();
+    }
+  },
+};
+
+/**
+ * Puppeteer 渲染引擎
+ *
+ * @example
+ * ```typescript
+ * const plugin = createPlugin({
+ *   engine: new PuppeteerRenderEngine({ maxConcurrency: 4 }),
+ * });
+ * ```
+ */
+export class PuppeteerRenderEngine implements PDFRenderEngine {
+  /** 引擎名称 */
+  readonly name = 'puppeteer';
+
+  /** 浏览器池 */
+  private readonly _pool: BrowserPool<Browser, Page>;
+
+  /**
+   * @param options - 浏览器池选项
+   */
+  constructor(options?: PDFBrowserPoolOptions) {
+    this._pool = new BrowserPool(PUPPETEER_DRIVER, options);
+  }
+
+  async openPage(options: { signal?: AbortSignal } = {}): Promise<PDFRenderPage> {
+    return new PuppeteerRenderPage(await this._pool.acquire(options.signal));
+  }
+
+  close(): Promise<void> {
+    return this._pool.close();
+  }
+}
+
+/**
+ * Puppeteer 引擎页面
+ * @internal
+ */
+class PuppeteerRenderPage implements PDFRenderPage {
+  /** 页面租约 */
+  private readonly _lease: PageLease<Page>;
+
+  constructor(lease: PageLease<Page>) {
+    this._lease = lease;
+  }
+
+  async setViewport(size: { width: number; height: number }): Promise<void> {
+    await this._lease.page.setViewport(size);
+  }
+
+  async setContent(html: string, options: { timeout: number }): Promise<void> {
+    await this._lease.page.setContent(html, {
+      waitUntil: 'networkidle0',
+      timeout: options.timeout,
+    });
+  }
+
+  async interceptRequests(
+    handler: (request: PDFResourceRequest) => Promise<PDFResourceResponse>
+  ): Promise<void> {
+    const page = this._lease.page;
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      handler({
+        url: request.url(),
+        method: request.method(),
+        resourceType: request.resourceType(),
+        isNavigation: request.isNavigationRequest(),
+      })
+        .then((response) => {
+          switch (response.action) {
+            case 'fulfill':
+              return request.respond({
+                status: response.status,
+                contentType: response.contentType,
+                headers: response.headers,
+                body: Buffer.from(response.body.buffer, response.body.byteOffset, response.body.byteLength),
+              });
+            case 'abort':
+              return request.abort('blockedbyclient');
+            default:
+              return request.continue();
+          }
+        })
+        // 页面已关闭时响应会失败，无需处理
+        .catch(() => undefined);
+    });
+  }
+
+  async goto(url: string, options: { timeout: number }): Promise<void> {
+    await this._lease.page.goto(url, {
+      waitUntil: 'networkidle0',
+      timeout: options.timeout,
+    });
+  }
+
+  evaluate<TArg, TResult>(fn: (arg: TArg) => TResult, arg: TArg): Promise<Awaited<TResult>> {
+    return this._lease.page.evaluate(fn as (arg: unknown) => TResult, arg) as Promise<Awaited<TResult>>;
+  }
+
+  async emulatePrintMedia(): Promise<void> {
+    await this._lease.page.emulateMediaType('print');
+  }
+
+  async pdf(options: PDFRenderOptions): Promise<Uint8Array> {
+    return new Uint8Array(await this._lease.page.pdf(options));
+  }
+
+  async pdfStream(options: PDFRenderOptions): Promise<AsyncIterable<Uint8Array>> {
+    // Puppeteer 21 返回 Node.js Readable，22 起返回 Web ReadableStream，两者都可异步迭代
+    return (await this._lease.page.createPDFStream(options)) as AsyncIterable<Uint8Array>;
+  }
+
+  close(): Promise<void> {
+    return this._lease.release();
+  }
+}
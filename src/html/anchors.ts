@@ -0,0 +1,180 @@
+/**
+ * 文档锚点收集
+ *
+ * 在浏览器页面中按文档顺序收集基础卡片与标题，并为其分配可被链接定位的 ID。
+ * 目录页与 PDF 书签都基于这里收集的锚点生成。
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * 基础卡片容器选择器
+ *
+ * @remarks 与 CardtoHTMLPlugin 输出的基础卡片容器属性保持一致
+ */
+export const BASE_CARD_SELECTOR = '[data-base-card-id], [data-base-card], .chips-base-card';
+
+/**
+ * 插件分配的锚点 ID 前缀
+ * @internal
+ */
+export const ANCHOR_ID_PREFIX = 'chips-pdf-anchor-';
+
+/**
+ * 文档锚点
+ */
+export interface DocumentAnchor {
+  /** 锚点元素 ID */
+  id: string;
+  /** 显示标题 */
+  title: string;
+  /** 层级（从 1 开始） */
+  level: number;
+  /** 锚点类型 */
+  kind: 'base-card' | 'heading';
+}
+
+/**
+ * 锚点收集参数
+ */
+export interface CollectAnchorsArgs {
+  /** 基础卡片选择器 */
+  baseCardSelector: string;
+  /** 是否收集基础卡片 */
+  includeBaseCards: boolean;
+  /** 是否收集标题 */
+  includeHeadings: boolean;
+  /** 收集的最大层级，按加上基础卡片偏移后的层级比较 */
+  maxLevel: number;
+  /** 插件生成节点的标记属性，带有该属性的子树会被跳过 */
+  generatedAttribute: string;
+  /** 分配 ID 时使用的前缀 */
+  idPrefix: string;
+}
+
+/**
+ * 在页面中收集文档锚点
+ *
+ * @remarks
+ * 该函数通过 `page.evaluate` 在浏览器中执行，不能引用模块作用域内的其他变量。
+ * 元素没有 ID 时直接分配 ID；已有 ID 但不是 ASCII 安全字符时，
+ * 在元素开头插入空的定位节点，避免浏览器对非 ASCII 目标名的编码差异。
+ * 基础卡片占第 1 级，其中的标题层级依次后移一级，超过 `maxLevel` 的标题不收集。
+ * 重复调用会复用已分配的 ID，因此目录和书签可以按各自的参数分别收集。
+ */
+export function collectDocumentAnchors(args: CollectAnchorsArgs): DocumentAnchor[] {
+  const headingSelector = Array.from(
+    { length: Math.min(6, Math.max(1, args.maxLevel)) },
+    (_, i) => `h${i + 1}`
+  ).join(', ');
+  const selectors: string[] = [];
+  if (args.includeBaseCards) {
+    selectors.push(args.baseCardSelector);
+  }
+  if (args.includeHeadings) {
+    selectors.push(headingSelector);
+  }
+  if (selectors.length === 0) {
+    return [];
+  }
+
+  const anchors: DocumentAnchor[] = [];
+  const titleHeadings = new Set<Element>();
+  let counter = 0;
+
+  const ensureId = (element: Element): string => {
+    if (element.id && /^[A-Za-z][\w-]*$/.test(element.id)) {
+      return element.id;
+    }
+    const firstChild = element.firstElementChild;
+    if (firstChild?.tagName === 'SPAN' && firstChild.id.startsWith(args.idPrefix)) {
+      return firstChild.id;
+    }
+    let id = `${args.idPrefix}${++counter}`;
+    while (document.getElementById(id)) {
+      id = `${args.idPrefix}${++counter}`;
+    }
+    if (!element.id) {
+      element.id = id;
+    } else {
+      const marker = document.createElement('span');
+      marker.id = id;
+      element.insertBefore(marker, element.firstChild);
+    }
+    return id;
+  };
+
+  const textOf = (element: Element): string => (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+  let baseCardIndex = 0;
+  for (const element of Array.from(document.querySelectorAll(selectors.join(', ')))) {
+    if (element.closest(`[${args.generatedAttribute}]`)) {
+      continue;
+    }
+
+    const baseCard = args.includeBaseCards ? element.closest(args.baseCardSelector) : null;
+
+    if (args.includeBaseCards && element.matches(args.baseCardSelector)) {
+      // 嵌套的基础卡片只收集最外层
+      if (element.parentElement?.closest(args.baseCardSelector)) {
+        continue;
+      }
+      baseCardIndex++;
+      const heading = args.includeHeadings ? element.querySelector(headingSelector) : null;
+      const explicitTitle =
+        element.getAttribute('data-base-card-title') ??
+        element.getAttribute('data-title') ??
+        element.getAttribute('aria-label');
+      let title = explicitTitle?.trim() ?? '';
+      if (!title && heading) {
+        title = textOf(heading);
+        titleHeadings.add(heading);
+      }
+      anchors.push({
+        id: ensureId(element),
+        title: title || `基础卡片 ${baseCardIndex}`,
+        level: 1,
+        kind: 'base-card',
+      });
+      continue;
+    }
+
+    const title = textOf(element);
+    if (titleHeadings.has(element) || !title) {
+      continue;
+    }
+    const level = Number(element.tagName.slice(1)) + (baseCard ? 1 : 0);
+    if (level > args.maxLevel) {
+      continue;
+    }
+    anchors.push({
+      id: ensureId(element),
+      title,
+      level,
+      kind: 'heading',
+    });
+  }
+
+  return anchors;
+}
+
+/**
+ * 挂载指向锚点的隐藏链接
+ *
+ * @remarks
+ * 该函数通过 `page.evaluate` 在浏览器中执行。
+ * Chromium 只为被文档内链接引用的元素写入 PDF 命名目标，
+ * 未生成目录时需要这组链接才能读取锚点位置。链接容器脱离文档流且尺寸为零，不影响排版。
+ */
+export function mountAnchorLinks(args: { ids: string[]; generatedAttribute: string }): void {
+  const nav = document.createElement('nav');
+  nav.setAttribute(args.generatedAttribute, 'anchor-links');
+  nav.setAttribute('aria-hidden', 'true');
+  nav.style.cssText = 'position:absolute;top:0;left:0;width:0;height:0;overflow:hidden;';
+  for (const id of args.ids) {
+    const link = document.createElement('a');
+    link.href = `#${id}`;
+    nav.appendChild(link);
+  }
+  document.body.appendChild(nav);
+}
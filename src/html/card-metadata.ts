@@ -0,0 +1,233 @@
+/**
+ * 卡片元数据提取
+ *
+ * 从 CardtoHTMLPlugin 生成的 index.html 中读取卡片元数据。
+ * 优先读取页面内嵌的 CHIPS_CARD_CONFIG 配置，缺失字段再回退到
+ * `<title>`、`<meta>` 与 `<html lang>`。
+ *
+ * @packageDocumentation
+ */
+
+import type { CardMetadata } from '../types';
+
+/**
+ * 未能识别卡片名称时使用的默认名称
+ * @internal
+ */
+const FALLBACK_CARD_NAME = '未命名卡片';
+
+/**
+ * 从 HTML 中提取卡片元数据
+ *
+ * @param html - index.html 内容
+ * @returns 卡片元数据
+ */
+export function extractCardMetadata(html: string): CardMetadata {
+  const config = readCardConfig(html);
+  const meta = asRecord(config?.['metadata']) ?? asRecord(asRecord(config?.['card'])?.['metadata']) ?? config ?? {};
+
+  const keywords = readMetaTag(html, 'keywords');
+  const tags = readTags(meta['tags']) ?? (keywords ? splitKeywords(keywords) : undefined);
+
+  return {
+    cardId: readString(meta, 'card_id', 'cardId', 'id'),
+    name: readString(meta, 'name', 'title') ?? readTitle(html) ?? FALLBACK_CARD_NAME,
+    description: readString(meta, 'description', 'summary') ?? readMetaTag(html, 'description'),
+    author: readString(meta, 'author', 'creator') ?? readMetaTag(html, 'author'),
+    createdAt:
+      readString(meta, 'created_at', 'createdAt', 'create_time') ?? readMetaTag(html, 'chips:created'),
+    modifiedAt:
+      readString(meta, 'modified_at', 'modifiedAt', 'update_time') ?? readMetaTag(html, 'chips:modified'),
+    tags: tags && tags.length > 0 ? tags : undefined,
+    language: readString(meta, 'language', 'locale') ?? readHtmlLang(html),
+  };
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 读取页面内嵌的 CHIPS_CARD_CONFIG
+ *
+ * 支持两种形式：
+ * - `<script type="application/json" id="chips-card-config">{...}</script>`
+ * - `window.CHIPS_CARD_CONFIG = {...};`
+ * @internal
+ */
+function readCardConfig(html: string): Record<string, unknown> | undefined {
+  const scriptRegex = /<script([^>]*)>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = scriptRegex.exec(html)) !== null) {
+    const attributes = match[1] ?? '';
+    const body = match[2] ?? '';
+
+    if (/id=["']chips[-_]card[-_]config["']/i.test(attributes)) {
+      const parsed = parseJson(body.trim());
+      if (parsed) {
+        return parsed;
+      }
+    }
+
+    const assignment = /CHIPS_CARD_CONFIG\s*=\s*/.exec(body);
+    if (assignment) {
+      const literal = sliceJsonObject(body, assignment.index + assignment[0].length);
+      const parsed = literal ? parseJson(literal) : undefined;
+      if (parsed) {
+        return parsed;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * 从指定位置截取一个完整的 JSON 对象字面量
+ * @internal
+ */
+function sliceJsonObject(source: string, start: number): string | undefined {
+  if (source[start] !== '{') {
+    return undefined;
+  }
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return source.slice(start, i + 1);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 安全解析 JSON 对象
+ * @internal
+ */
+function parseJson(text: string): Record<string, unknown> | undefined {
+  try {
+    return asRecord(JSON.parse(text));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 判断并转换为普通对象
+ * @internal
+ */
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * 按候选键名读取第一个非空字符串或数值
+ * @internal
+ */
+function readString(record: Record<string, unknown>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return String(value);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 读取标签列表，兼容嵌套数组形式的分层标签
+ * @internal
+ */
+function readTags(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const tags = value
+    .flat(Infinity)
+    .filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '')
+    .map((tag) => tag.trim());
+  return [...new Set(tags)];
+}
+
+/**
+ * 拆分 keywords 元信息
+ * @internal
+ */
+function splitKeywords(keywords: string): string[] {
+  return keywords
+    .split(/[,，]/)
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 读取 `<title>` 内容
+ * @internal
+ */
+function readTitle(html: string): string | undefined {
+  const match = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+  const title = match?.[1] ? decodeEntities(match[1]).trim() : '';
+  return title || undefined;
+}
+
+/**
+ * 读取 `<meta name="...">` 内容
+ * @internal
+ */
+function readMetaTag(html: string, name: string): string | undefined {
+  const tagRegex = /<meta\b[^>]*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = tagRegex.exec(html)) !== null) {
+    const tag = match[0];
+    const tagName = /\bname=["']([^"']*)["']/i.exec(tag)?.[1];
+    if (tagName?.toLowerCase() === name) {
+      const content = /\bcontent=["']([^"']*)["']/i.exec(tag)?.[1];
+      return content ? decodeEntities(content).trim() || undefined : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 读取 `<html lang>` 属性
+ * @internal
+ */
+function readHtmlLang(html: string): string | undefined {
+  return /<html\b[^>]*\blang=["']([^"']+)["']/i.exec(html)?.[1];
+}
+
+/**
+ * 解码常见 HTML 实体
+ * @internal
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,194 @@
+/**
+ * 封面页生成
+ *
+ * 根据卡片元数据与外观配置生成 PDF 第一页的封面。
+ * 封面插入在卡片内容之前并强制分页，样式通过主题 CSS 变量跟随当前主题。
+ *
+ * @packageDocumentation
+ */
+
+import type { ConversionAppearanceProfile } from '@chips/cardto-html-plugin';
+import type { CardMetadata, PDFCoverOptions } from '../types';
+import type { PageBox } from '../utils/page-geometry';
+import { escapeHtml, formatDateTime, renderTemplate } from './template';
+
+/**
+ * 插件生成的页面片段标记属性
+ *
+ * @remarks 目录、书签等需要扫描卡片内容的模块据此跳过插件自身插入的节点
+ */
+export const GENERATED_ATTRIBUTE = 'data-chips-pdf-generated';
+
+/**
+ * 封面生成上下文
+ */
+export interface CoverContext {
+  /** 卡片元数据 */
+  metadata: CardMetadata;
+  /** 已解析的外观配置 */
+  appearance: ConversionAppearanceProfile;
+  /** 页面盒尺寸 */
+  pageBox: PageBox;
+  /** 导出时间 */
+  exportedAt: Date;
+}
+
+/**
+ * 规范化封面选项
+ *
+ * @param cover - 用户传入的 `cover` 选项
+ * @returns 启用时返回封面选项对象，禁用时返回 undefined
+ */
+export function normalizeCoverOptions(
+  cover: boolean | PDFCoverOptions | undefined
+): PDFCoverOptions | undefined {
+  if (cover === undefined || cover === false) {
+    return undefined;
+  }
+  if (cover === true) {
+    return {};
+  }
+  return cover.enabled === false ? undefined : cover;
+}
+
+/**
+ * 生成封面页 HTML 片段（包含样式）
+ *
+ * @remarks
+ * 自定义模板可使用以下占位符：`{{title}}`、`{{subtitle}}`、`{{description}}`、
+ * `{{author}}`、`{{createdAt}}`、`{{modifiedAt}}`、`{{tags}}`、`{{cardId}}`、`{{exportedAt}}`。
+ *
+ * @param options - 封面选项
+ * @param context - 生成上下文
+ */
+export function buildCoverPage(options: PDFCoverOptions, context: CoverContext): string {
+  const { metadata } = context;
+  const tokens: Record<string, string | undefined> = {
+    title: options.title ?? metadata.name,
+    subtitle: options.subtitle,
+    description: metadata.description,
+    author: metadata.author,
+    createdAt: formatDateTime(metadata.createdAt),
+    modifiedAt: formatDateTime(metadata.modifiedAt),
+    tags: metadata.tags?.join(', '),
+    cardId: metadata.cardId,
+    exportedAt: formatDateTime(context.exportedAt.getTime()),
+  };
+
+  const content = options.template
+    ? renderTemplate(options.template, tokens)
+    : renderDefaultCover(tokens, options.showMetadata !== false);
+
+  return (
+    `<style type="text/css">\n${buildCoverStyles(context.pageBox)}\n</style>\n` +
+    `<section class="chips-pdf-cover" ${GENERATED_ATTRIBUTE}="cover" ` +
+    `data-appearance="${escapeHtml(context.appearance.id)}">\n${content}\n</section>`
+  );
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 元信息展示项
+ * @internal
+ */
+const COVER_META_FIELDS: ReadonlyArray<[token: string, label: string]> = [
+  ['author', '作者'],
+  ['createdAt', '创建时间'],
+  ['modifiedAt', '修改时间'],
+  ['tags', '标签'],
+  ['exportedAt', '导出时间'],
+];
+
+/**
+ * 渲染默认封面内容
+ * @internal
+ */
+function renderDefaultCover(
+  tokens: Record<string, string | undefined>,
+  showMetadata: boolean
+): string {
+  const parts = [`<h1 class="chips-pdf-cover__title">${escapeHtml(tokens['title'] ?? '')}</h1>`];
+
+  if (tokens['subtitle']) {
+    parts.push(`<p class="chips-pdf-cover__subtitle">${escapeHtml(tokens['subtitle'])}</p>`);
+  }
+  if (tokens['description']) {
+    parts.push(`<p class="chips-pdf-cover__description">${escapeHtml(tokens['description'])}</p>`);
+  }
+
+  if (showMetadata) {
+    const rows = COVER_META_FIELDS.filter(([token]) => tokens[token])
+      .map(
+        ([token, label]) =>
+          `<div class="chips-pdf-cover__meta-row"><dt>${label}</dt><dd>${escapeHtml(tokens[token]!)}</dd></div>`
+      )
+      .join('\n');
+    if (rows) {
+      parts.push(`<dl class="chips-pdf-cover__meta">\n${rows}\n</dl>`);
+    }
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * 生成封面样式
+ *
+ * 封面高度取页面内容区高度并预留 1px，避免舍入误差导致封面溢出到第二页
+ * @internal
+ */
+function buildCoverStyles(pageBox: PageBox): string {
+  return `
+.chips-pdf-cover {
+  box-sizing: border-box;
+  height: calc(${pageBox.contentHeight.toFixed(2)}mm - 1px);
+  display: flex;
+  flex-direction: column;
+  justify-content: center;
+  gap: 12mm;
+  padding: 0 8%;
+  overflow: hidden;
+  break-after: page;
+  page-break-after: always;
+  color: var(--chips-color-text, inherit);
+  font-family: var(--chips-font-family, inherit);
+  background: var(--chips-color-background, transparent);
+}
+.chips-pdf-cover__title {
+  margin: 0;
+  font-size: 28pt;
+  line-height: 1.3;
+  color: var(--chips-color-primary, inherit);
+}
+.chips-pdf-cover__subtitle {
+  margin: 0;
+  font-size: 16pt;
+  color: var(--chips-color-text-secondary, inherit);
+}
+.chips-pdf-cover__description {
+  margin: 0;
+  font-size: 11pt;
+  line-height: 1.6;
+}
+.chips-pdf-cover__meta {
+  margin: 0;
+  padding-top: 6mm;
+  border-top: 1px solid var(--chips-color-border, currentColor);
+  font-size: 10pt;
+}
+.chips-pdf-cover__meta-row {
+  display: flex;
+  gap: 4mm;
+  margin: 1.5mm 0;
+}
+.chips-pdf-cover__meta-row dt {
+  min-width: 22mm;
+  color: var(--chips-color-text-secondary, inherit);
+}
+.chips-pdf-cover__meta-row dd {
+  margin: 0;
+}`.trim();
+}
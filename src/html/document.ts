@@ -0,0 +1,50 @@
+/**
+ * HTML 文档拼装工具
+ *
+ * 在 CardtoHTMLPlugin 生成的完整 HTML 文档中定位 `<head>` 与 `<body>`，
+ * 插入插件生成的样式和页面片段
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * 在 `<head>` 末尾追加内容
+ *
+ * @param html - 完整 HTML 文档
+ * @param fragment - 要追加的 HTML 片段
+ */
+export function appendToHead(html: string, fragment: string): string {
+  if (/<\/head>/i.test(html)) {
+    return html.replace(/<\/head>/i, `${fragment}\n</head>`);
+  }
+  return prependToBody(html, fragment);
+}
+
+/**
+ * 在 `<body>` 开头插入内容
+ *
+ * @param html - 完整 HTML 文档
+ * @param fragment - 要插入的 HTML 片段
+ */
+export function prependToBody(html: string, fragment: string): string {
+  const bodyOpen = /<body\b[^>]*>/i.exec(html);
+  if (!bodyOpen) {
+    return `${fragment}\n${html}`;
+  }
+  const insertAt = bodyOpen.index + bodyOpen[0].length;
+  return `${html.slice(0, insertAt)}\n${fragment}${html.slice(insertAt)}`;
+}
+
+/**
+ * 在 `<body>` 末尾追加内容
+ *
+ * @param html - 完整 HTML 文档
+ * @param fragment - 要追加的 HTML 片段
+ */
+export function appendToBody(html: string, fragment: string): string {
+  const bodyClose = html.toLowerCase().lastIndexOf('</body>');
+  if (bodyClose === -1) {
+    return `${html}\n${fragment}`;
+  }
+  return `${html.slice(0, bodyClose)}${fragment}\n${html.slice(bodyClose)}`;
+}
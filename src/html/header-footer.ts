@@ -0,0 +1,359 @@
+/**
+ * 页眉页脚
+ *
+ * 将预设、三栏文本或自定义模板展开为浏览器打印接口使用的页眉页脚模板。
+ * 页眉页脚在独立的上下文中渲染，无法读取卡片的主题样式，
+ * 因此字体与颜色从已加载的卡片页面中读取后写入内联样式。
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  CardMetadata,
+  PDFConversionOptions,
+  PDFHeaderFooterContent,
+  PDFHeaderFooterPreset,
+  PDFHeaderFooterSlots,
+  PDFHeaderFooterVariant,
+  PageMargin,
+} from '../types';
+import { escapeCssValue, escapeHtml, formatDateTime, renderTemplate } from './template';
+
+/**
+ * 预设对应的三栏文本
+ */
+export const HEADER_FOOTER_PRESETS: Readonly<Record<PDFHeaderFooterPreset, PDFHeaderFooterSlots>> = {
+  'page-number': { center: '{{pageNumber}}' },
+  'page-x-of-y': { center: '第 {{pageNumber}} 页 / 共 {{totalPages}} 页' },
+  title: { left: '{{title}}' },
+  'title-date': { left: '{{title}}', right: '{{exportDate}}' },
+  'title-page': { left: '{{title}}', right: '{{pageNumber}} / {{totalPages}}' },
+  none: {},
+};
+
+/**
+ * 默认字号
+ * @internal
+ */
+const DEFAULT_FONT_SIZE = '9pt';
+
+/**
+ * 卡片未定义主题颜色时的文字颜色
+ */
+export const DEFAULT_HEADER_FOOTER_COLOR = '#666666';
+
+/**
+ * 空模板；浏览器在模板为空字符串时会输出默认的日期与标题
+ * @internal
+ */
+const EMPTY_TEMPLATE = '<span></span>';
+
+/**
+ * 由浏览器在每页填充的占位符
+ * @internal
+ */
+const PAGE_TOKEN_PATTERN = /\{\{\{?\s*(pageNumber|totalPages)\s*\}?\}\}/g;
+
+/**
+ * 页眉页脚模板中不允许的元素
+ * @internal
+ */
+const BLOCKED_ELEMENTS = [
+  'script',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'link',
+  'meta',
+  'base',
+  'form',
+  'input',
+  'button',
+  'textarea',
+  'select',
+];
+
+/**
+ * 补全默认值的页眉页脚设置
+ */
+export interface ResolvedHeaderFooter {
+  /** 默认（奇数页）页眉页脚 */
+  defaults: Required<PDFHeaderFooterVariant>;
+  /** 首页页眉页脚；false 表示首页不显示 */
+  firstPage?: Required<PDFHeaderFooterVariant> | false;
+  /** 偶数页页眉页脚 */
+  evenPages?: Required<PDFHeaderFooterVariant>;
+  /** 字号 */
+  fontSize: string;
+}
+
+/**
+ * 从卡片页面读取的主题样式
+ */
+export interface HeaderFooterTheme {
+  /** 字体 */
+  fontFamily: string;
+  /** 文字颜色 */
+  color: string;
+}
+
+/**
+ * 页眉页脚模板生成上下文
+ */
+export interface HeaderFooterContext {
+  /** 卡片元数据 */
+  metadata: CardMetadata;
+  /** 导出时间 */
+  exportedAt: Date;
+  /** 主题样式 */
+  theme: HeaderFooterTheme;
+  /** 页边距，页眉页脚左右与正文对齐 */
+  margin: PageMargin;
+  /** 字号 */
+  fontSize: string;
+}
+
+/**
+ * 浏览器打印接口使用的一组页眉页脚模板
+ */
+export interface HeaderFooterLayer {
+  headerTemplate: string;
+  footerTemplate: string;
+}
+
+/**
+ * 模板安全检查结果
+ */
+export interface SanitizedTemplate {
+  /** 移除不安全内容后的模板 */
+  html: string;
+  /** 发现的问题 */
+  issues: string[];
+}
+
+/**
+ * 规范化页眉页脚选项
+ *
+ * @remarks 未指定 `headerFooter` 时按 `displayHeaderFooter`、`headerTemplate` 和 `footerTemplate` 生成设置，
+ * 两个模板都未提供时页脚显示「第 X 页 / 共 Y 页」
+ * @returns 启用时返回补全默认值的设置，未启用时返回 undefined
+ */
+export function resolveHeaderFooter(options: PDFConversionOptions): ResolvedHeaderFooter | undefined {
+  const option = options.headerFooter;
+  if (option === undefined) {
+    if (!options.displayHeaderFooter) {
+      return undefined;
+    }
+    const { headerTemplate, footerTemplate } = options;
+    return {
+      defaults: {
+        header: headerTemplate ? { template: headerTemplate } : 'none',
+        footer: footerTemplate ? { template: footerTemplate } : headerTemplate ? 'none' : 'page-x-of-y',
+      },
+      fontSize: DEFAULT_FONT_SIZE,
+    };
+  }
+  if (option === false) {
+    return undefined;
+  }
+
+  const settings = option === true ? {} : option;
+  const defaults = {
+    header: settings.header ?? 'none',
+    footer: settings.footer ?? 'page-x-of-y',
+  };
+  const inherit = (variant: PDFHeaderFooterVariant): Required<PDFHeaderFooterVariant> => ({
+    header: variant.header ?? defaults.header,
+    footer: variant.footer ?? defaults.footer,
+  });
+  return {
+    defaults,
+    firstPage:
+      settings.firstPage === undefined ? undefined : settings.firstPage && inherit(settings.firstPage),
+    evenPages: settings.evenPages && inherit(settings.evenPages),
+    fontSize: settings.fontSize ?? DEFAULT_FONT_SIZE,
+  };
+}
+
+/**
+ * 生成一组页眉页脚模板
+ *
+ * @param variant - 页眉页脚内容
+ * @param context - 生成上下文
+ */
+export function buildHeaderFooterLayer(
+  variant: Required<PDFHeaderFooterVariant>,
+  context: HeaderFooterContext
+): HeaderFooterLayer {
+  return {
+    headerTemplate: buildTemplate(variant.header, 'header', context),
+    footerTemplate: buildTemplate(variant.footer, 'footer', context),
+  };
+}
+
+/**
+ * 移除页眉页脚模板中的不安全内容
+ *
+ * @remarks
+ * 移除脚本、内嵌框架、表单控件等元素，事件处理属性和 `javascript:` 地址；
+ * 外部资源在页眉页脚中不会加载，只报告不移除。
+ */
+export function sanitizeHeaderFooterTemplate(template: string): SanitizedTemplate {
+  const issues = new Set<string>();
+  const names = BLOCKED_ELEMENTS.join('|');
+  const paired = new RegExp(`<(${names})\\b[^>]*>[\\s\\S]*?<\\/\\1\\s*>`, 'gi');
+  const single = new RegExp(`<\\/?(${names})\\b[^>]*>`, 'gi');
+  const handler = /\s+on[a-z]+\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/gi;
+  const scriptUrl = /\s+(?:href|src|xlink:href|action|formaction)\s*=\s*(?:"\s*javascript:[^"]*"|'\s*javascript:[^']*'|javascript:[^\s>]*)/gi;
+
+  let html = template;
+  let previous: string;
+  // 反复处理直到结果稳定，避免拆开的标签在移除后重新拼合
+  do {
+    previous = html;
+    html = html
+      .replace(paired, (_, name: string) => {
+        issues.add(`已移除 <${name.toLowerCase()}> 元素`);
+        return '';
+      })
+      .replace(single, (_, name: string) => {
+        issues.add(`已移除 <${name.toLowerCase()}> 元素`);
+        return '';
+      })
+      .replace(handler, () => {
+        issues.add('已移除事件处理属性');
+        return '';
+      })
+      .replace(scriptUrl, () => {
+        issues.add('已移除 javascript: 地址');
+        return '';
+      });
+  } while (html !== previous);
+
+  if (/\b(?:src|href)\s*=\s*["']?\s*(?:https?:)?\/\//i.test(html) || /url\(\s*["']?\s*(?:https?:)?\/\//i.test(html)) {
+    issues.add('页眉页脚中的外部资源不会加载，请改用 data URL');
+  }
+  return { html, issues: Array.from(issues) };
+}
+
+/**
+ * 读取卡片页面的主题字体与颜色
+ *
+ * @remarks 该函数通过 `page.evaluate` 在浏览器中执行，不能引用模块作用域内的其他变量
+ * @param fallbackColor - 主题未定义颜色时使用的颜色
+ */
+export function readHeaderFooterTheme(fallbackColor: string): HeaderFooterTheme {
+  const style = getComputedStyle(document.body ?? document.documentElement);
+  const read = (name: string): string => style.getPropertyValue(name).trim();
+  return {
+    fontFamily: read('--chips-font-family') || style.fontFamily,
+    color: read('--chips-color-text-secondary') || read('--chips-color-text') || fallbackColor,
+  };
+}
+
+/**
+ * 生成叠加页眉页脚用的空白文档
+ *
+ * @param pageCount - 页数
+ */
+export function buildBlankPages(pageCount: number): string {
+  const pages = Array.from({ length: pageCount }, () => '<div class="page"></div>').join('');
+  return (
+    '<!DOCTYPE html><html><head><meta charset="utf-8"><style>' +
+    'html,body{margin:0;background:transparent}' +
+    '.page{height:1px;break-after:page}.page:last-child{break-after:auto}' +
+    `</style></head><body>${pages}</body></html>`
+  );
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 生成页眉或页脚模板
+ * @internal
+ */
+function buildTemplate(
+  content: PDFHeaderFooterContent,
+  position: 'header' | 'footer',
+  context: HeaderFooterContext
+): string {
+  if (content === 'none') {
+    return EMPTY_TEMPLATE;
+  }
+
+  const tokens = buildTokens(context);
+  let body: string;
+  if (typeof content === 'string') {
+    body = renderSlots(HEADER_FOOTER_PRESETS[content], tokens);
+  } else if ('template' in content) {
+    body = sanitizeHeaderFooterTemplate(expandTokens(content.template, tokens)).html;
+  } else {
+    body = renderSlots(content, tokens);
+  }
+
+  const style = [
+    'box-sizing:border-box',
+    'width:100%',
+    `padding:${position === 'header' ? '4mm' : '0'} ${escapeCssValue(context.margin.right ?? '0')} ` +
+      `${position === 'footer' ? '4mm' : '0'} ${escapeCssValue(context.margin.left ?? '0')}`,
+    `font-size:${escapeCssValue(context.fontSize)}`,
+    `font-family:${escapeCssValue(context.theme.fontFamily)}`,
+    `color:${escapeCssValue(context.theme.color)}`,
+    '-webkit-print-color-adjust:exact',
+  ].join(';');
+  return `<div style="${escapeHtml(style)}">${body}</div>`;
+}
+
+/**
+ * 渲染三栏文本
+ * @internal
+ */
+function renderSlots(slots: PDFHeaderFooterSlots, tokens: Record<string, string | undefined>): string {
+  const cell = (text: string | undefined, align: string): string => {
+    // 文本按纯文本处理：先转义，再统一按转义方式展开占位符
+    const safe = escapeHtml(text ?? '').replace(/\{\{\{/g, '{{').replace(/\}\}\}/g, '}}');
+    return `<span style="flex:1;text-align:${align};white-space:nowrap;overflow:hidden;text-overflow:ellipsis">${expandTokens(safe, tokens)}</span>`;
+  };
+  return (
+    '<div style="display:flex;align-items:center;gap:4mm">' +
+    cell(slots.left, 'left') +
+    cell(slots.center, 'center') +
+    cell(slots.right, 'right') +
+    '</div>'
+  );
+}
+
+/**
+ * 生成占位符取值
+ * @internal
+ */
+function buildTokens(context: HeaderFooterContext): Record<string, string | undefined> {
+  const { metadata, exportedAt } = context;
+  const exportedAtText = formatDateTime(exportedAt.getTime());
+  return {
+    title: metadata.name,
+    author: metadata.author,
+    description: metadata.description,
+    tags: metadata.tags?.join(', '),
+    cardId: metadata.cardId,
+    createdAt: formatDateTime(metadata.createdAt),
+    modifiedAt: formatDateTime(metadata.modifiedAt),
+    exportedAt: exportedAtText,
+    exportDate: exportedAtText.slice(0, 10),
+  };
+}
+
+/**
+ * 展开占位符；页码与总页数替换为浏览器在每页填充的元素
+ * @internal
+ */
+function expandTokens(template: string, tokens: Record<string, string | undefined>): string {
+  return renderTemplate(
+    template.replace(PAGE_TOKEN_PATTERN, (_, name: string) => `<span class="${name}"></span>`),
+    tokens
+  );
+}
@@ -0,0 +1,282 @@
+/**
+ * 图片压缩
+ *
+ * 在浏览器页面中按图片的打印尺寸降采样并重新编码内联的位图图片，
+ * 控制输出 PDF 的体积。预设与目标文件大小的降级策略也在这里定义。
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  PDFImageCompressionOptions,
+  PDFImageCompressionReport,
+  PDFImageProfile,
+} from '../types';
+
+/**
+ * 图片压缩预设参数
+ */
+export const IMAGE_PROFILES: Readonly<Record<PDFImageProfile, { maxDpi: number; jpegQuality: number }>> = {
+  screen: { maxDpi: 96, jpegQuality: 0.6 },
+  print: { maxDpi: 300, jpegQuality: 0.85 },
+  archive: { maxDpi: 600, jpegQuality: 0.95 },
+};
+
+/**
+ * 未指定预设时使用的预设
+ * @internal
+ */
+const DEFAULT_IMAGE_PROFILE: PDFImageProfile = 'print';
+
+/**
+ * 逐步降级时的最低分辨率
+ * @internal
+ */
+const MIN_REDUCED_DPI = 72;
+
+/**
+ * 逐步降级时的最低 JPEG 质量
+ * @internal
+ */
+const MIN_REDUCED_QUALITY = 0.3;
+
+/**
+ * 超出目标文件大小时的最大降级次数
+ */
+export const TARGET_SIZE_ATTEMPTS = 4;
+
+/**
+ * 已由插件替换图片来源的标记属性，值为图片原有的固有宽度
+ * @internal
+ */
+export const OPTIMIZED_IMAGE_ATTRIBUTE = 'data-chips-pdf-optimized';
+
+/**
+ * 补全默认值的图片压缩设置
+ */
+export interface ResolvedImageCompression {
+  /** 预设 */
+  profile: PDFImageProfile;
+  /** 最大分辨率 */
+  maxDpi: number;
+  /** JPEG 质量 */
+  jpegQuality: number;
+  /** 目标文件大小（字节） */
+  targetFileSize?: number;
+}
+
+/**
+ * 页面内图片压缩参数
+ */
+export interface OptimizeImagesArgs {
+  /** 最大分辨率 */
+  maxDpi: number;
+  /** JPEG 质量 */
+  jpegQuality: number;
+  /** 页面缩放比例（打印时 CSS 像素的实际尺寸随之缩放） */
+  scale: number;
+  /** 标记属性 */
+  markerAttribute: string;
+}
+
+/**
+ * 页面内图片压缩结果
+ */
+export interface ImageOptimizationSummary {
+  /** 检查的位图图片数量 */
+  images: number;
+  /** 重新编码的图片数量 */
+  optimized: number;
+  /** 原始数据大小（字节） */
+  originalBytes: number;
+  /** 处理后的数据大小（字节） */
+  optimizedBytes: number;
+}
+
+/**
+ * 规范化图片压缩选项
+ *
+ * @param option - 用户传入的 `imageCompression` 选项
+ * @returns 启用时返回补全默认值的设置，未启用时返回 undefined
+ */
+export function resolveImageCompression(
+  option: PDFImageProfile | PDFImageCompressionOptions | undefined
+): ResolvedImageCompression | undefined {
+  if (option === undefined) {
+    return undefined;
+  }
+  const options = typeof option === 'string' ? { profile: option } : option;
+  const profile = options.profile ?? DEFAULT_IMAGE_PROFILE;
+  return {
+    profile,
+    maxDpi: options.maxDpi ?? IMAGE_PROFILES[profile].maxDpi,
+    jpegQuality: options.jpegQuality ?? IMAGE_PROFILES[profile].jpegQuality,
+    targetFileSize: options.targetFileSize,
+  };
+}
+
+/**
+ * 降低一级图片压缩设置（用于逼近目标文件大小）
+ *
+ * @returns 降级后的设置；已到最低分辨率和质量时返回 undefined
+ */
+export function reduceImageCompression(
+  settings: ResolvedImageCompression
+): ResolvedImageCompression | undefined {
+  const maxDpi = Math.max(MIN_REDUCED_DPI, Math.round(settings.maxDpi * 0.75));
+  const jpegQuality = Math.max(MIN_REDUCED_QUALITY, Math.round((settings.jpegQuality - 0.15) * 100) / 100);
+  if (maxDpi >= settings.maxDpi && jpegQuality >= settings.jpegQuality) {
+    return undefined;
+  }
+  return {
+    ...settings,
+    maxDpi: Math.min(maxDpi, settings.maxDpi),
+    jpegQuality: Math.min(jpegQuality, settings.jpegQuality),
+  };
+}
+
+/**
+ * 生成图片压缩报告
+ *
+ * @param settings - 最终使用的压缩设置
+ * @param summaries - 各页面的压缩结果（多卡片合并时每张卡片一份）
+ * @param fileSize - 输出文件大小，用于判断是否达到目标
+ */
+export function createCompressionReport(
+  settings: ResolvedImageCompression,
+  summaries: ImageOptimizationSummary[],
+  fileSize: number
+): PDFImageCompressionReport {
+  const total = summaries.reduce(
+    (sum, item) => ({
+      images: sum.images + item.images,
+      optimized: sum.optimized + item.optimized,
+      originalBytes: sum.originalBytes + item.originalBytes,
+      optimizedBytes: sum.optimizedBytes + item.optimizedBytes,
+    }),
+    { images: 0, optimized: 0, originalBytes: 0, optimizedBytes: 0 }
+  );
+  return {
+    profile: settings.profile,
+    maxDpi: settings.maxDpi,
+    jpegQuality: settings.jpegQuality,
+    images: total.images,
+    optimizedImages: total.optimized,
+    originalBytes: total.originalBytes,
+    compressedBytes: total.optimizedBytes,
+    bytesSaved: total.originalBytes - total.optimizedBytes,
+    targetFileSize: settings.targetFileSize,
+    targetMet: settings.targetFileSize === undefined ? undefined : fileSize <= settings.targetFileSize,
+  };
+}
+
+/**
+ * 在页面中压缩内联的位图图片
+ *
+ * @remarks
+ * 该函数通过 `page.evaluate` 在浏览器中执行，不能引用模块作用域内的其他变量。
+ * 只处理 `<img>` 中以 data URL 内联的 PNG、JPEG、WebP 和 BMP 图片；SVG、GIF、
+ * CSS 背景图以及自带 `srcset` 或位于 `<picture>` 中的响应式图片保持原样。
+ * 图片按当前显示尺寸和最大分辨率降采样，不含透明像素时编码为 JPEG，否则编码为 PNG，
+ * 结果不比原图小时保留原图。新图片通过带密度描述符的 `srcset` 挂载，固有尺寸不变，
+ * 不影响排版；`src` 始终保留原图，因此可以用更低的设置重复调用。
+ */
+export async function optimizeDocumentImages(args: OptimizeImagesArgs): Promise<ImageOptimizationSummary> {
+  const summary: ImageOptimizationSummary = { images: 0, optimized: 0, originalBytes: 0, optimizedBytes: 0 };
+  const pixelsPerCssPixel = (args.maxDpi / 96) * args.scale;
+
+  const byteLength = (url: string): number => {
+    const comma = url.indexOf(',');
+    const payload = url.slice(comma + 1);
+    if (/;base64$/i.test(url.slice(0, comma))) {
+      const padding = payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0;
+      return Math.floor((payload.replace(/\s/g, '').length * 3) / 4) - padding;
+    }
+    try {
+      return decodeURIComponent(payload).length;
+    } catch {
+      return payload.length;
+    }
+  };
+
+  const hasTransparency = (data: Uint8ClampedArray): boolean => {
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i]! < 255) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  for (const img of Array.from(document.images)) {
+    const src = img.getAttribute('src') ?? '';
+    const optimized = img.hasAttribute(args.markerAttribute);
+    if (
+      !/^data:image\/(png|jpe?g|webp|bmp)[;,]/i.test(src) ||
+      (!optimized && img.hasAttribute('srcset')) ||
+      img.parentElement?.tagName === 'PICTURE'
+    ) {
+      continue;
+    }
+    const rect = img.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      continue;
+    }
+
+    const source = new Image();
+    source.src = src;
+    try {
+      await source.decode();
+    } catch {
+      continue;
+    }
+    const intrinsicWidth = optimized ? Number(img.getAttribute(args.markerAttribute)) : img.naturalWidth;
+    if (!source.naturalWidth || !source.naturalHeight || !intrinsicWidth) {
+      continue;
+    }
+
+    const originalBytes = byteLength(src);
+    summary.images++;
+    summary.originalBytes += originalBytes;
+
+    const factor = Math.min(
+      1,
+      (rect.width * pixelsPerCssPixel) / source.naturalWidth,
+      (rect.height * pixelsPerCssPixel) / source.naturalHeight
+    );
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(source.naturalWidth * factor));
+    canvas.height = Math.max(1, Math.round(source.naturalHeight * factor));
+    const context = canvas.getContext('2d');
+    let encoded: string | undefined;
+    if (context) {
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(source, 0, 0, canvas.width, canvas.height);
+      const opaque =
+        /^data:image\/jpe?g/i.test(src) ||
+        !hasTransparency(context.getImageData(0, 0, canvas.width, canvas.height).data);
+      encoded = opaque ? canvas.toDataURL('image/jpeg', args.jpegQuality) : canvas.toDataURL('image/png');
+    }
+
+    if (!encoded || byteLength(encoded) >= originalBytes) {
+      // 重新编码没有收益，恢复原图
+      if (optimized) {
+        img.removeAttribute('srcset');
+        img.removeAttribute(args.markerAttribute);
+        await img.decode().catch(() => undefined);
+      }
+      summary.optimizedBytes += originalBytes;
+      continue;
+    }
+
+    img.setAttribute(args.markerAttribute, String(intrinsicWidth));
+    img.removeAttribute('sizes');
+    img.loading = 'eager';
+    img.srcset = `${encoded} ${canvas.width / intrinsicWidth}x`;
+    await img.decode().catch(() => undefined);
+    summary.optimized++;
+    summary.optimizedBytes += byteLength(encoded);
+  }
+
+  return summary;
+}
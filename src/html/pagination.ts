@@ -0,0 +1,180 @@
+/**
+ * 分页控制
+ *
+ * 生成控制基础卡片、标题与段落分页位置的打印样式，并检查排版后仍跨页的基础卡片：
+ * 在每张基础卡片的开头和结尾插入不占排版空间的定位节点，生成 PDF 后按两者所在页判断是否被截断。
+ *
+ * @packageDocumentation
+ */
+
+import type { PDFPaginationOptions, PDFSplitBaseCard } from '../types';
+import type { PDFAnchorPosition } from '../pdf/destinations';
+
+/**
+ * 分页控制默认值
+ * @internal
+ */
+const PAGINATION_DEFAULTS: Required<PDFPaginationOptions> = {
+  baseCardNewPage: false,
+  avoidBreakInside: true,
+  keepHeadingsWithNext: true,
+  orphans: 2,
+  widows: 2,
+};
+
+/**
+ * 避免在内部分页的内容元素
+ * @internal
+ */
+const ATOMIC_CONTENT_SELECTOR = 'img, svg, canvas, video, figure, pre, tr, blockquote';
+
+/**
+ * 基础卡片边界定位节点 ID 前缀
+ * @internal
+ */
+export const BOUNDARY_ID_PREFIX = 'chips-pdf-boundary-';
+
+/**
+ * 基础卡片边界
+ */
+export interface BaseCardBoundary {
+  /** 序号（从 1 开始） */
+  index: number;
+  /** 基础卡片 ID */
+  id?: string;
+  /** 标题 */
+  title: string;
+  /** 开头定位节点 ID */
+  startId: string;
+  /** 结尾定位节点 ID */
+  endId: string;
+}
+
+/**
+ * 边界标记参数
+ */
+export interface MarkBoundariesArgs {
+  /** 基础卡片选择器 */
+  baseCardSelector: string;
+  /** 插件生成节点的标记属性，带有该属性的子树会被跳过 */
+  generatedAttribute: string;
+  /** 定位节点 ID 前缀 */
+  idPrefix: string;
+}
+
+/**
+ * 规范化分页控制选项
+ *
+ * @param option - 用户传入的 `pagination` 选项
+ * @returns 启用时返回补全默认值的选项，未启用时返回 undefined
+ */
+export function resolvePagination(
+  option: boolean | PDFPaginationOptions | undefined
+): Required<PDFPaginationOptions> | undefined {
+  if (option === undefined || option === false) {
+    return undefined;
+  }
+  return { ...PAGINATION_DEFAULTS, ...(option === true ? {} : option) };
+}
+
+/**
+ * 生成分页控制样式
+ *
+ * @param options - 分页控制选项
+ * @param baseCardSelector - 基础卡片选择器
+ */
+export function buildPaginationStyles(options: Required<PDFPaginationOptions>, baseCardSelector: string): string {
+  const baseCard = `:is(${baseCardSelector})`;
+  const rules = [`html { orphans: ${options.orphans}; widows: ${options.widows}; }`];
+
+  if (options.baseCardNewPage) {
+    // 只作用于最外层基础卡片；文档开头的强制分页不会产生空白页
+    rules.push(`${baseCard}:not(${baseCard} *) { break-before: page; page-break-before: always; }`);
+  }
+  if (options.avoidBreakInside) {
+    rules.push(
+      `${baseCard}, ${ATOMIC_CONTENT_SELECTOR} { break-inside: avoid; page-break-inside: avoid; }`
+    );
+  }
+  if (options.keepHeadingsWithNext) {
+    rules.push(
+      'h1, h2, h3, h4, h5, h6 { break-after: avoid; page-break-after: avoid; break-inside: avoid; }'
+    );
+  }
+
+  return `<style type="text/css" media="print">\n${rules.join('\n')}\n</style>`;
+}
+
+/**
+ * 在每张最外层基础卡片的开头和结尾插入定位节点
+ *
+ * @remarks
+ * 该函数通过 `page.evaluate` 在浏览器中执行，不能引用模块作用域内的其他变量。
+ * 定位节点不占据排版空间；需要配合指向它们的链接，浏览器才会写入命名目标。
+ */
+export function markBaseCardBoundaries(args: MarkBoundariesArgs): BaseCardBoundary[] {
+  const boundaries: BaseCardBoundary[] = [];
+  const createMarker = (id: string): HTMLElement => {
+    const marker = document.createElement('div');
+    marker.id = id;
+    marker.setAttribute(args.generatedAttribute, 'boundary');
+    // 浏览器不一定为零尺寸的盒写入命名目标：保留 1px 高度，再以负外边距抵消
+    marker.style.cssText = 'display:block;height:1px;margin:0 0 -1px;padding:0;border:0;overflow:hidden;';
+    return marker;
+  };
+
+  let index = 0;
+  for (const element of Array.from(document.querySelectorAll(args.baseCardSelector))) {
+    if (element.closest(`[${args.generatedAttribute}]`) || element.parentElement?.closest(args.baseCardSelector)) {
+      continue;
+    }
+    index++;
+    const startId = `${args.idPrefix}${index}-start`;
+    const endId = `${args.idPrefix}${index}-end`;
+    element.insertBefore(createMarker(startId), element.firstChild);
+    element.appendChild(createMarker(endId));
+
+    const heading = element.querySelector('h1, h2, h3, h4, h5, h6');
+    const title =
+      element.getAttribute('data-base-card-title') ??
+      element.getAttribute('data-title') ??
+      element.getAttribute('aria-label') ??
+      heading?.textContent?.replace(/\s+/g, ' ');
+    boundaries.push({
+      index,
+      id: element.getAttribute('data-base-card-id') ?? undefined,
+      title: title?.trim() || `基础卡片 ${index}`,
+      startId,
+      endId,
+    });
+  }
+  return boundaries;
+}
+
+/**
+ * 找出起止定位节点不在同一页的基础卡片
+ *
+ * @param boundaries - 基础卡片边界
+ * @param positions - PDF 中的命名目标位置
+ */
+export function findSplitBaseCards(
+  boundaries: BaseCardBoundary[],
+  positions: ReadonlyMap<string, PDFAnchorPosition>
+): PDFSplitBaseCard[] {
+  const split: PDFSplitBaseCard[] = [];
+  for (const boundary of boundaries) {
+    const start = positions.get(boundary.startId);
+    const end = positions.get(boundary.endId);
+    if (!start || !end || start.pageIndex === end.pageIndex) {
+      continue;
+    }
+    split.push({
+      index: boundary.index,
+      id: boundary.id,
+      title: boundary.title,
+      startPage: start.pageIndex + 1,
+      endPage: end.pageIndex + 1,
+    });
+  }
+  return split;
+}
@@ -0,0 +1,178 @@
+/**
+ * 基础卡片渲染失败处理
+ *
+ * 单张基础卡片渲染失败时，CardtoHTMLPlugin 输出带错误标记的卡片节点而不是中止整张卡片的转换。
+ * 页面载入后按 `onRenderError` 移除这些基础卡片、以提示框代替其内容，或中止转换。
+ *
+ * @packageDocumentation
+ */
+
+import { PDFConversionError } from '../core/errors';
+import { PDFErrorCode } from '../types';
+import type { PDFRenderErrorPolicy } from '../types';
+
+/**
+ * 渲染失败标记选择器；基础卡片本身或其内容中出现时视为渲染失败
+ */
+export const RENDER_ERROR_SELECTOR =
+  '[data-render-error], [data-base-card-error], .chips-base-card--error, .chips-render-error';
+
+/**
+ * 默认处理方式
+ */
+export const DEFAULT_RENDER_ERROR_POLICY: PDFRenderErrorPolicy = 'abort';
+
+/**
+ * 支持的处理方式
+ */
+export const RENDER_ERROR_POLICIES: ReadonlyArray<PDFRenderErrorPolicy> = ['skip', 'placeholder', 'abort'];
+
+/**
+ * 渲染失败的基础卡片
+ */
+export interface FailedBaseCard {
+  /** 序号（从 1 开始，按文档顺序） */
+  index: number;
+  /** 基础卡片 ID */
+  id?: string;
+  /** 标题 */
+  title: string;
+  /** 错误信息 */
+  message?: string;
+}
+
+/**
+ * 页面内检查参数
+ */
+export interface RenderErrorArgs {
+  /** 基础卡片选择器 */
+  baseCardSelector: string;
+  /** 渲染失败标记选择器 */
+  errorSelector: string;
+  /** 插件生成节点的标记属性，带有该属性的子树会被跳过 */
+  generatedAttribute: string;
+  /** 处理方式 */
+  policy: PDFRenderErrorPolicy;
+}
+
+/**
+ * 页面内检查结果
+ */
+export interface RenderErrorScan {
+  /** 基础卡片总数 */
+  total: number;
+  /** 渲染失败的基础卡片 */
+  failed: FailedBaseCard[];
+}
+
+/**
+ * 基础卡片渲染失败错误（`onRenderError: 'abort'`）
+ */
+export class BaseCardRenderError extends PDFConversionError {
+  /** 渲染失败的基础卡片 */
+  readonly failures: FailedBaseCard[];
+
+  constructor(failures: FailedBaseCard[]) {
+    super(
+      PDFErrorCode.RENDER_FAILED,
+      `${failures.length} 张基础卡片渲染失败：${failures.map(describeFailure).join('；')}`,
+      { details: { option: 'onRenderError', baseCards: failures } }
+    );
+    this.name = 'BaseCardRenderError';
+    this.failures = failures;
+  }
+}
+
+/**
+ * 生成渲染失败的警告信息
+ *
+ * @param failure - 渲染失败的基础卡片
+ * @param policy - 已采用的处理方式
+ */
+export function formatRenderFailure(failure: FailedBaseCard, policy: PDFRenderErrorPolicy): string {
+  const action = policy === 'skip' ? '已跳过' : '已以提示框代替';
+  return `基础卡片${describeFailure(failure)}渲染失败，${action}`;
+}
+
+/**
+ * 查找渲染失败的基础卡片并按处理方式修改页面
+ *
+ * @remarks
+ * 该函数通过 `page.evaluate` 在浏览器中执行，不能引用模块作用域内的其他变量。
+ * 失败标记归属于最近的外层基础卡片；`abort` 时不修改页面。
+ */
+export function applyRenderErrorPolicy(args: RenderErrorArgs): RenderErrorScan {
+  const cards = Array.from(document.querySelectorAll<HTMLElement>(args.baseCardSelector)).filter(
+    (element) => !element.closest(`[${args.generatedAttribute}]`)
+  );
+  const failed: Array<{ element: HTMLElement; card: FailedBaseCard }> = [];
+
+  cards.forEach((element, position) => {
+    const marker = element.matches(args.errorSelector)
+      ? element
+      : Array.from(element.querySelectorAll<HTMLElement>(args.errorSelector)).find(
+          (item) => item.closest(args.baseCardSelector) === element
+        );
+    if (!marker) {
+      return;
+    }
+    const heading = element.querySelector('h1, h2, h3, h4, h5, h6');
+    const title =
+      element.getAttribute('data-base-card-title') ??
+      element.getAttribute('data-title') ??
+      element.getAttribute('aria-label') ??
+      heading?.textContent?.replace(/\s+/g, ' ');
+    const message =
+      marker.getAttribute('data-render-error') ||
+      marker.getAttribute('data-base-card-error') ||
+      marker.textContent?.replace(/\s+/g, ' ').trim().slice(0, 200);
+    failed.push({
+      element,
+      card: {
+        index: position + 1,
+        id: element.getAttribute('data-base-card-id') ?? undefined,
+        title: title?.trim() || `基础卡片 ${position + 1}`,
+        message: message || undefined,
+      },
+    });
+  });
+
+  if (args.policy === 'skip') {
+    for (const { element } of failed) {
+      element.remove();
+    }
+  } else if (args.policy === 'placeholder') {
+    for (const { element, card } of failed) {
+      const box = document.createElement('div');
+      box.setAttribute(args.generatedAttribute, 'render-error');
+      box.style.cssText =
+        'box-sizing:border-box;margin:8px 0;padding:16px;border:1px dashed #c8c8c8;border-radius:4px;' +
+        'background:#f5f5f5;color:#666666;font-size:12px;line-height:1.5;text-align:center;' +
+        '-webkit-print-color-adjust:exact;print-color-adjust:exact;';
+      const title = document.createElement('div');
+      title.textContent = `「${card.title}」渲染失败`;
+      box.appendChild(title);
+      if (card.message) {
+        const detail = document.createElement('div');
+        detail.style.cssText = 'margin-top:4px;font-size:10px;color:#999999;word-break:break-all;';
+        detail.textContent = card.message;
+        box.appendChild(detail);
+      }
+      element.replaceChildren(box);
+    }
+  }
+
+  return { total: cards.length, failed: failed.map((item) => item.card) };
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 描述一张渲染失败的基础卡片
+ * @internal
+ */
+function describeFailure(failure: FailedBaseCard): string {
+  return `「${failure.title}」${failure.message ? `（${failure.message}）` : ''}`;
+}
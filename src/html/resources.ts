@@ -0,0 +1,896 @@
+/**
+ * 资源解析与内联
+ *
+ * 扫描 CardtoHTMLPlugin 生成的 HTML 与 CSS，按完整相对路径在输出文件表中查找每个引用，
+ * 并把找到的文件内联为 data URL（样式表内联为 `<style>`）。覆盖的引用包括：
+ *
+ * - HTML 属性：`src`、`srcset`、`poster`、`<link href>`、SVG `<image href>`、`<object data>`、
+ *   `background` 及 `style` 属性中的 CSS
+ * - CSS：`url()`（图片、字体等）与 `@import`（递归处理被导入的样式表）
+ * - 卡片配置（CHIPS_CARD_CONFIG）中资源类字段的路径值
+ *
+ * 协议地址（`http:`、`data:` 等）和页内锚点保持原样，找不到文件的相对引用会被报告。
+ *
+ * @packageDocumentation
+ */
+
+import type { PDFUnresolvedResource } from '../types';
+
+/**
+ * 资源解析结果
+ */
+export interface ResourceResolution {
+  /** 内联资源后的 HTML */
+  html: string;
+  /** 未能解析的引用 */
+  unresolved: PDFUnresolvedResource[];
+  /** 已内联的文件数（同一文件多次引用只计一次） */
+  inlined: number;
+}
+
+/**
+ * 解析并内联 HTML 引用的资源
+ *
+ * @param html - 入口 HTML 内容
+ * @param files - CardtoHTMLPlugin 输出的文件表（键为相对路径）
+ * @param entryPath - 入口 HTML 的路径，相对引用以其所在目录为基准
+ */
+export function resolveDocumentResources(
+  html: string,
+  files: Map<string, string | Uint8Array>,
+  entryPath = 'index.html'
+): ResourceResolution {
+  const resolver = new ResourceResolver(files);
+  const result = resolver.rewriteHtml(html, normalizePath(entryPath) ?? entryPath);
+  return { html: result, unresolved: resolver.unresolved, inlined: resolver.inlined.size };
+}
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/**
+ * 需要解析的 HTML 属性及其适用的元素
+ * @internal
+ */
+const URL_ATTRIBUTES: Readonly<Record<string, ReadonlySet<string>>> = {
+  src: new Set(['img', 'source', 'video', 'audio', 'track', 'embed', 'input', 'script']),
+  poster: new Set(['video']),
+  href: new Set(['link', 'image', 'feimage']),
+  'xlink:href': new Set(['image', 'feimage']),
+  data: new Set(['object']),
+  background: new Set(['body', 'table', 'td', 'th']),
+};
+
+/**
+ * 引用资源文件的 `<link rel>` 取值（其余如 `canonical` 指向页面而不是资源）
+ * @internal
+ */
+const RESOURCE_LINK_RELS: ReadonlySet<string> = new Set([
+  'stylesheet',
+  'icon',
+  'shortcut',
+  'apple-touch-icon',
+  'preload',
+  'prefetch',
+  'modulepreload',
+]);
+
+/**
+ * 内容不按 HTML 解析的元素
+ * @internal
+ */
+const RAW_TEXT_ELEMENTS: ReadonlySet<string> = new Set(['script', 'style', 'textarea', 'title']);
+
+/**
+ * 卡片配置中视为资源路径的字段名
+ * @internal
+ */
+const CONFIG_RESOURCE_KEY = /(src|url|href|path|file|image|img|icon|cover|poster|thumbnail|avatar|background|font|audio|video|media)/i;
+
+/**
+ * 卡片配置中视为文件路径的值（带扩展名）
+ * @internal
+ */
+const CONFIG_PATH_VALUE = /^[^\s"'<>]+\.[A-Za-z0-9]{2,5}(?:[?#].*)?$/;
+
+/**
+ * `@import` 的最大嵌套深度
+ * @internal
+ */
+const MAX_IMPORT_DEPTH = 16;
+
+/**
+ * 扩展名到 MIME 类型的映射
+ * @internal
+ */
+const MIME_TYPES: Readonly<Record<string, string>> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  bmp: 'image/bmp',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  eot: 'application/vnd.ms-fontobject',
+  css: 'text/css',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  json: 'application/json',
+  txt: 'text/plain',
+  vtt: 'text/vtt',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  ogv: 'video/ogg',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  pdf: 'application/pdf',
+};
+
+// ============================================================================
+// 解析器
+// ============================================================================
+
+/**
+ * 解析得到的 HTML 属性
+ * @internal
+ */
+interface ParsedAttribute {
+  /** 小写属性名 */
+  name: string;
+  /** 解码实体后的值，无值属性为空 */
+  value?: string;
+  /** 属性在标签文本中的起止位置 */
+  start: number;
+  end: number;
+}
+
+/**
+ * 资源解析器，缓存已编码的文件并收集未解析的引用
+ * @internal
+ */
+class ResourceResolver {
+  /** 未能解析的引用 */
+  readonly unresolved: PDFUnresolvedResource[] = [];
+
+  /** 已内联的文件（规范化路径） */
+  readonly inlined = new Set<string>();
+
+  /** 规范化路径到文件内容的映射 */
+  private readonly _files = new Map<string, string | Uint8Array>();
+
+  /** 已生成的 data URL */
+  private readonly _dataUrls = new Map<string, string>();
+
+  /** 已处理的样式表 */
+  private readonly _stylesheets = new Map<string, string>();
+
+  /** 正在处理的样式表（用于检测循环导入） */
+  private readonly _importing = new Set<string>();
+
+  /** 已报告的引用，避免重复 */
+  private readonly _reported = new Set<string>();
+
+  constructor(files: Map<string, string | Uint8Array>) {
+    for (const [path, content] of files) {
+      const normalized = normalizePath(path);
+      if (normalized !== undefined && !this._files.has(normalized)) {
+        this._files.set(normalized, content);
+      }
+    }
+  }
+
+  /**
+   * 改写 HTML 中的资源引用
+   *
+   * @param html - HTML 内容
+   * @param filePath - HTML 文件路径
+   */
+  rewriteHtml(html: string, filePath: string): string {
+    const output: string[] = [];
+    let cursor = 0;
+
+    while (cursor < html.length) {
+      const open = html.indexOf('<', cursor);
+      if (open === -1) {
+        output.push(html.slice(cursor));
+        break;
+      }
+      output.push(html.slice(cursor, open));
+
+      // 注释、DOCTYPE 与处理指令原样保留
+      if (html.startsWith('<!--', open)) {
+        const close = html.indexOf('-->', open + 4);
+        const end = close === -1 ? html.length : close + 3;
+        output.push(html.slice(open, end));
+        cursor = end;
+        continue;
+      }
+      if (html[open + 1] === '!' || html[open + 1] === '?' || html[open + 1] === '/') {
+        const close = html.indexOf('>', open);
+        const end = close === -1 ? html.length : close + 1;
+        output.push(html.slice(open, end));
+        cursor = end;
+        continue;
+      }
+
+      const nameMatch = /^<([A-Za-z][\w:-]*)/.exec(html.slice(open, open + 64));
+      if (!nameMatch) {
+        output.push('<');
+        cursor = open + 1;
+        continue;
+      }
+
+      const tagName = nameMatch[1]!.toLowerCase();
+      const { attributes, end, selfClosing } = parseTag(html, open + nameMatch[0].length);
+      const tag = html.slice(open, end);
+      cursor = end;
+
+      if (!RAW_TEXT_ELEMENTS.has(tagName) || selfClosing) {
+        output.push(this._rewriteTag(tag, tagName, attributes, open, filePath));
+        continue;
+      }
+
+      // 原始文本元素：定位结束标签，按元素类型处理内容
+      const closeMatch = new RegExp(`</${tagName}\\s*>`, 'i').exec(html.slice(end));
+      const contentEnd = closeMatch ? end + closeMatch.index : html.length;
+      const content = html.slice(end, contentEnd);
+      if (tagName === 'style') {
+        output.push(tag, escapeStyleContent(this.rewriteCss(content, filePath, 0)));
+      } else if (tagName === 'script') {
+        output.push(this._rewriteTag(tag, tagName, attributes, open, filePath));
+        output.push(isCardConfigScript(attributes, content) ? this._rewriteConfig(content, filePath) : content);
+      } else {
+        output.push(tag, content);
+      }
+      cursor = contentEnd;
+    }
+
+    return output.join('');
+  }
+
+  /**
+   * 改写 CSS 中的 `url()` 与 `@import`
+   *
+   * @param css - CSS 内容
+   * @param filePath - CSS 所在文件（内联样式为所属 HTML 文件）
+   * @param depth - `@import` 嵌套深度
+   */
+  rewriteCss(css: string, filePath: string, depth: number): string {
+    const output: string[] = [];
+    let cursor = 0;
+    let copied = 0;
+
+    while (cursor < css.length) {
+      const char = css[cursor]!;
+
+      if (char === '/' && css[cursor + 1] === '*') {
+        const close = css.indexOf('*/', cursor + 2);
+        cursor = close === -1 ? css.length : close + 2;
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        cursor = skipCssString(css, cursor);
+        continue;
+      }
+
+      if (char === '@' && /^@import\b/i.test(css.slice(cursor, cursor + 8))) {
+        const statementEnd = findStatementEnd(css, cursor + 7);
+        const statement = css.slice(cursor, statementEnd);
+        const rewritten = this._rewriteImport(statement, filePath, depth);
+        if (rewritten !== statement) {
+          output.push(css.slice(copied, cursor), rewritten);
+          copied = statementEnd;
+        }
+        cursor = statementEnd;
+        continue;
+      }
+
+      if ((char === 'u' || char === 'U') && /^url\(/i.test(css.slice(cursor, cursor + 4)) && !isIdentChar(css[cursor - 1])) {
+        const token = readUrlToken(css, cursor);
+        if (token) {
+          const dataUrl = this._resolveReference(token.url, filePath, 'url()');
+          if (dataUrl) {
+            output.push(css.slice(copied, cursor), `url("${dataUrl}")`);
+            copied = token.end;
+          }
+          cursor = token.end;
+          continue;
+        }
+      }
+
+      cursor++;
+    }
+
+    output.push(css.slice(copied));
+    return output.join('');
+  }
+
+  /**
+   * 改写单个标签的资源属性
+   * @internal
+   */
+  private _rewriteTag(
+    tag: string,
+    tagName: string,
+    attributes: ParsedAttribute[],
+    tagOffset: number,
+    filePath: string
+  ): string {
+    // 样式表内联为 <style>，保留媒体查询；不引用资源的 <link> 原样保留
+    if (tagName === 'link') {
+      const stylesheet = this._inlineStylesheet(attributes, filePath);
+      if (stylesheet !== undefined) {
+        return stylesheet;
+      }
+      const rel = attributes.find((item) => item.name === 'rel')?.value ?? '';
+      if (!rel.toLowerCase().split(/\s+/).some((item) => RESOURCE_LINK_RELS.has(item))) {
+        return tag;
+      }
+    }
+
+    const replacements: Array<{ start: number; end: number; text: string }> = [];
+    for (const attribute of attributes) {
+      if (attribute.value === undefined) {
+        continue;
+      }
+      const value = this._rewriteAttribute(tagName, attribute.name, attribute.value, filePath);
+      if (value !== undefined && value !== attribute.value) {
+        replacements.push({
+          start: attribute.start - tagOffset,
+          end: attribute.end - tagOffset,
+          text: `${attribute.name}="${escapeAttribute(value)}"`,
+        });
+      }
+    }
+
+    let result = tag;
+    for (const { start, end, text } of replacements.reverse()) {
+      result = result.slice(0, start) + text + result.slice(end);
+    }
+    return result;
+  }
+
+  /**
+   * 改写属性值，无需改写时返回 undefined
+   * @internal
+   */
+  private _rewriteAttribute(tagName: string, name: string, value: string, filePath: string): string | undefined {
+    if (name === 'style') {
+      return this.rewriteCss(value, filePath, 0);
+    }
+    if (name === 'srcset' && (tagName === 'img' || tagName === 'source')) {
+      return this._rewriteSrcset(value, `${tagName}[srcset]`, filePath);
+    }
+    if (!URL_ATTRIBUTES[name]?.has(tagName)) {
+      return undefined;
+    }
+    return this._resolveReference(value.trim(), filePath, `${tagName}[${name}]`);
+  }
+
+  /**
+   * 改写 srcset 中的每个候选地址
+   * @internal
+   */
+  private _rewriteSrcset(value: string, location: string, filePath: string): string {
+    return parseSrcset(value)
+      .map(({ url, descriptor }) => {
+        const resolved = this._resolveReference(url, filePath, location) ?? url;
+        return descriptor ? `${resolved} ${descriptor}` : resolved;
+      })
+      .join(', ');
+  }
+
+  /**
+   * 将 `<link rel="stylesheet">` 替换为 `<style>`
+   *
+   * @returns 替换后的标签；不是样式表或无法解析时返回 undefined
+   * @internal
+   */
+  private _inlineStylesheet(attributes: ParsedAttribute[], filePath: string): string | undefined {
+    const attribute = (name: string): string | undefined => attributes.find((item) => item.name === name)?.value;
+    const rel = (attribute('rel') ?? '').toLowerCase().split(/\s+/);
+    const href = attribute('href')?.trim();
+    if (!rel.includes('stylesheet') || rel.includes('alternate') || !href || isExternalReference(href)) {
+      return undefined;
+    }
+
+    const target = this._lookup(href, filePath);
+    if (!target) {
+      this._report(href, filePath, 'link[href]');
+      return undefined;
+    }
+    const css = this._loadStylesheet(target, 0);
+    if (css === undefined) {
+      return undefined;
+    }
+    this.inlined.add(target);
+    const media = attribute('media');
+    const mediaAttribute = media && media.trim() !== 'all' ? ` media="${escapeAttribute(media)}"` : '';
+    return `<style type="text/css"${mediaAttribute}>\n${escapeStyleContent(css)}\n</style>`;
+  }
+
+  /**
+   * 改写 `@import` 语句：被导入的样式表递归处理后以 data URL 引用，保留媒体、layer 等条件
+   * @internal
+   */
+  private _rewriteImport(statement: string, filePath: string, depth: number): string {
+    const match = /^@import\s*(?:url\(\s*(["']?)([^"')]*)\1\s*\)|(["'])((?:\\.|(?!\3)[^\\])*)\3)/i.exec(statement);
+    if (!match) {
+      return statement;
+    }
+    const href = (match[2] ?? match[4] ?? '').trim();
+    if (!href || isExternalReference(href)) {
+      return statement;
+    }
+
+    const target = this._lookup(href, filePath);
+    if (!target) {
+      this._report(href, filePath, '@import');
+      return statement;
+    }
+    if (depth >= MAX_IMPORT_DEPTH || this._importing.has(target)) {
+      return statement;
+    }
+    const css = this._loadStylesheet(target, depth + 1);
+    if (css === undefined) {
+      return statement;
+    }
+    this.inlined.add(target);
+    return `@import url("${toDataUrl(target, css)}")${statement.slice(match[0].length)}`;
+  }
+
+  /**
+   * 读取并处理样式表（结果按路径缓存）
+   * @internal
+   */
+  private _loadStylesheet(path: string, depth: number): string | undefined {
+    const cached = this._stylesheets.get(path);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const content = this._files.get(path);
+    if (content === undefined) {
+      return undefined;
+    }
+    this._importing.add(path);
+    try {
+      const css = this.rewriteCss(typeof content === 'string' ? content : decodeUtf8(content), path, depth);
+      this._stylesheets.set(path, css);
+      return css;
+    } finally {
+      this._importing.delete(path);
+    }
+  }
+
+  /**
+   * 改写卡片配置中资源类字段的路径值
+   *
+   * @remarks 只处理字段名像资源（如 `src`、`image`、`cover`）且值带扩展名的字符串，
+   * 与文件名恰好相同的普通文本不会被替换
+   * @internal
+   */
+  private _rewriteConfig(content: string, filePath: string): string {
+    let currentKey = '';
+    return content.replace(/"((?:[^"\\]|\\.)*)"(\s*:)?/g, (literal: string, body: string, colon?: string) => {
+      let value: string;
+      try {
+        value = JSON.parse(`"${body}"`) as string;
+      } catch {
+        return literal;
+      }
+      if (colon) {
+        currentKey = value;
+        return literal;
+      }
+      if (!CONFIG_RESOURCE_KEY.test(currentKey) || !CONFIG_PATH_VALUE.test(value) || isExternalReference(value)) {
+        return literal;
+      }
+      const dataUrl = this._resolveReference(value, filePath, 'config');
+      return dataUrl ? JSON.stringify(dataUrl) : literal;
+    });
+  }
+
+  /**
+   * 解析单个引用
+   *
+   * @returns 文件对应的 data URL；协议地址、锚点或找不到文件时返回 undefined（后者会被报告）
+   * @internal
+   */
+  private _resolveReference(reference: string, filePath: string, location: string): string | undefined {
+    if (!reference || isExternalReference(reference)) {
+      return undefined;
+    }
+    const target = this._lookup(reference, filePath);
+    if (!target) {
+      this._report(reference, filePath, location);
+      return undefined;
+    }
+
+    const fragment = /#.*$/.exec(reference)?.[0] ?? '';
+    let dataUrl = this._dataUrls.get(target);
+    if (dataUrl === undefined) {
+      const content = this._files.get(target)!;
+      dataUrl = /\.css$/i.test(target)
+        ? toDataUrl(target, this._loadStylesheet(target, 0) ?? '')
+        : toDataUrl(target, content);
+      this._dataUrls.set(target, dataUrl);
+      this.inlined.add(target);
+    }
+    return dataUrl + fragment;
+  }
+
+  /**
+   * 按完整相对路径查找文件
+   *
+   * @returns 文件表中的规范化路径，找不到时返回 undefined
+   * @internal
+   */
+  private _lookup(reference: string, filePath: string): string | undefined {
+    const path = reference.replace(/[?#].*$/, '');
+    let decoded = path;
+    try {
+      decoded = decodeURI(path);
+    } catch {
+      // 保留无法解码的原始路径
+    }
+    const baseDir = filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/') + 1) : '';
+    for (const candidate of new Set([decoded, path])) {
+      const resolved = normalizePath(candidate.startsWith('/') ? candidate : baseDir + candidate);
+      if (resolved !== undefined && this._files.has(resolved)) {
+        return resolved;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 记录未解析的引用
+   * @internal
+   */
+  private _report(reference: string, file: string, location: string): void {
+    const key = `${file}\n${location}\n${reference}`;
+    if (!this._reported.has(key)) {
+      this._reported.add(key);
+      this.unresolved.push({ reference, file, location });
+    }
+  }
+}
+
+// ============================================================================
+// HTML 工具
+// ============================================================================
+
+/**
+ * 解析标签属性
+ *
+ * @param html - HTML 内容
+ * @param start - 标签名之后的位置
+ * @returns 属性列表（位置为 HTML 中的绝对位置）、标签结束位置及是否自闭合
+ * @internal
+ */
+function parseTag(html: string, start: number): { attributes: ParsedAttribute[]; end: number; selfClosing: boolean } {
+  const attributes: ParsedAttribute[] = [];
+  let cursor = start;
+  let selfClosing = false;
+
+  while (cursor < html.length) {
+    const char = html[cursor]!;
+    if (char === '>') {
+      return { attributes, end: cursor + 1, selfClosing };
+    }
+    if (/\s/.test(char)) {
+      cursor++;
+      continue;
+    }
+    if (char === '/') {
+      selfClosing = html[cursor + 1] === '>';
+      cursor++;
+      continue;
+    }
+
+    const nameStart = cursor;
+    while (cursor < html.length && !/[\s=>]/.test(html[cursor]!) && !(html[cursor] === '/' && html[cursor + 1] === '>')) {
+      cursor++;
+    }
+    const name = html.slice(nameStart, cursor).toLowerCase();
+    selfClosing = false;
+
+    let valueCursor = cursor;
+    while (valueCursor < html.length && /\s/.test(html[valueCursor]!)) {
+      valueCursor++;
+    }
+    if (html[valueCursor] !== '=') {
+      attributes.push({ name, start: nameStart, end: cursor });
+      continue;
+    }
+    valueCursor++;
+    while (valueCursor < html.length && /\s/.test(html[valueCursor]!)) {
+      valueCursor++;
+    }
+
+    const quote = html[valueCursor];
+    let raw: string;
+    if (quote === '"' || quote === "'") {
+      const close = html.indexOf(quote, valueCursor + 1);
+      const valueEnd = close === -1 ? html.length : close;
+      raw = html.slice(valueCursor + 1, valueEnd);
+      cursor = Math.min(html.length, valueEnd + 1);
+    } else {
+      const valueStart = valueCursor;
+      while (valueCursor < html.length && !/[\s>]/.test(html[valueCursor]!)) {
+        valueCursor++;
+      }
+      raw = html.slice(valueStart, valueCursor);
+      cursor = valueCursor;
+    }
+    attributes.push({ name, value: decodeEntities(raw), start: nameStart, end: cursor });
+  }
+
+  return { attributes, end: html.length, selfClosing };
+}
+
+/**
+ * 解析 srcset 候选项
+ *
+ * @remarks 按 HTML 规范分隔：地址到空白为止（地址中可以包含逗号，如 data URL），描述符到逗号为止
+ * @internal
+ */
+function parseSrcset(value: string): Array<{ url: string; descriptor: string }> {
+  const candidates: Array<{ url: string; descriptor: string }> = [];
+  let cursor = 0;
+  while (cursor < value.length) {
+    while (cursor < value.length && /[\s,]/.test(value[cursor]!)) {
+      cursor++;
+    }
+    const urlStart = cursor;
+    while (cursor < value.length && !/\s/.test(value[cursor]!)) {
+      cursor++;
+    }
+    let url = value.slice(urlStart, cursor);
+    let descriptor = '';
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '');
+    } else {
+      const descriptorStart = cursor;
+      while (cursor < value.length && value[cursor] !== ',') {
+        cursor++;
+      }
+      descriptor = value.slice(descriptorStart, cursor).trim();
+    }
+    if (url) {
+      candidates.push({ url, descriptor });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * 判断脚本是否为卡片配置
+ * @internal
+ */
+function isCardConfigScript(attributes: ParsedAttribute[], content: string): boolean {
+  const id = attributes.find((item) => item.name === 'id')?.value ?? '';
+  return /^chips[-_]card[-_]config$/i.test(id) || /CHIPS_CARD_CONFIG\s*=/.test(content);
+}
+
+/**
+ * 解码属性值中的字符实体
+ * @internal
+ */
+function decodeEntities(value: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0' };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity: string, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return named[body.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * 转义双引号属性值
+ * @internal
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * 避免 CSS 内容提前结束 `<style>` 元素
+ * @internal
+ */
+function escapeStyleContent(css: string): string {
+  return css.replace(/<\/(style)/gi, '<\\/$1');
+}
+
+// ============================================================================
+// CSS 工具
+// ============================================================================
+
+/**
+ * 跳过 CSS 字符串
+ *
+ * @returns 字符串之后的位置
+ * @internal
+ */
+function skipCssString(css: string, start: number): number {
+  const quote = css[start];
+  let cursor = start + 1;
+  while (cursor < css.length && css[cursor] !== quote && css[cursor] !== '\n') {
+    cursor += css[cursor] === '\\' ? 2 : 1;
+  }
+  return cursor + 1;
+}
+
+/**
+ * 查找 at 规则语句的结束位置（分号之后）
+ * @internal
+ */
+function findStatementEnd(css: string, start: number): number {
+  let cursor = start;
+  let depth = 0;
+  while (cursor < css.length) {
+    const char = css[cursor]!;
+    if (char === '"' || char === "'") {
+      cursor = skipCssString(css, cursor);
+      continue;
+    }
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if ((char === ';' && depth === 0) || char === '{' || char === '}') {
+      return char === ';' ? cursor + 1 : cursor;
+    }
+    cursor++;
+  }
+  return css.length;
+}
+
+/**
+ * 读取 `url(...)` 记号
+ *
+ * @returns 引用地址与记号结束位置；格式不完整时返回 undefined
+ * @internal
+ */
+function readUrlToken(css: string, start: number): { url: string; end: number } | undefined {
+  let cursor = start + 4;
+  while (cursor < css.length && /\s/.test(css[cursor]!)) {
+    cursor++;
+  }
+
+  let url: string;
+  const quote = css[cursor];
+  if (quote === '"' || quote === "'") {
+    const stringEnd = skipCssString(css, cursor);
+    url = unescapeCss(css.slice(cursor + 1, stringEnd - 1));
+    cursor = stringEnd;
+  } else {
+    const valueStart = cursor;
+    while (cursor < css.length && css[cursor] !== ')' && !/\s/.test(css[cursor]!)) {
+      cursor += css[cursor] === '\\' ? 2 : 1;
+    }
+    url = unescapeCss(css.slice(valueStart, cursor));
+  }
+
+  while (cursor < css.length && /\s/.test(css[cursor]!)) {
+    cursor++;
+  }
+  if (css[cursor] !== ')') {
+    return undefined;
+  }
+  return { url: url.trim(), end: cursor + 1 };
+}
+
+/**
+ * 还原 CSS 转义序列
+ * @internal
+ */
+function unescapeCss(value: string): string {
+  return value.replace(/\\([0-9a-f]{1,6}\s?|[\s\S])/gi, (_, escape: string) => {
+    if (/^[0-9a-f]/i.test(escape) && /^[0-9a-f]{1,6}\s?$/i.test(escape)) {
+      const code = parseInt(escape, 16);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+    }
+    return escape === '\n' ? '' : escape;
+  });
+}
+
+/**
+ * 判断字符是否可以出现在 CSS 标识符中
+ * @internal
+ */
+function isIdentChar(char: string | undefined): boolean {
+  return char !== undefined && /[\w-]/.test(char);
+}
+
+// ============================================================================
+// 路径与编码工具
+// ============================================================================
+
+/**
+ * 判断是否为不需要解析的引用（协议地址、协议相对地址或页内锚点）
+ * @internal
+ */
+function isExternalReference(reference: string): boolean {
+  return /^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i.test(reference);
+}
+
+/**
+ * 规范化相对路径，去掉 `.`、`..` 与多余的分隔符
+ *
+ * @returns 规范化后的路径；越出根目录时返回 undefined
+ */
+export function normalizePath(path: string): string | undefined {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      if (segments.length === 0) {
+        return undefined;
+      }
+      segments.pop();
+      continue;
+    }
+    segments.push(segment);
+  }
+  return segments.length > 0 ? segments.join('/') : undefined;
+}
+
+/**
+ * 按扩展名获取 MIME 类型
+ */
+export function mimeTypeOf(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * 生成 data URL
+ * @internal
+ */
+function toDataUrl(path: string, content: string | Uint8Array): string {
+  const mimeType = mimeTypeOf(path);
+  if (typeof content === 'string') {
+    return `data:${mimeType};charset=utf-8;base64,${toBase64(new TextEncoder().encode(content))}`;
+  }
+  return `data:${mimeType};base64,${toBase64(content)}`;
+}
+
+/**
+ * Uint8Array 转 Base64 字符串
+ */
+export function toBase64(data: Uint8Array): string {
+  // Node.js 环境使用 Buffer
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString('base64');
+  }
+
+  // 浏览器环境使用 btoa
+  let binary = '';
+  for (let i = 0; i < data.length; i++) {
+    binary += String.fromCharCode(data[i]!);
+  }
+  return btoa(binary);
+}
+
+/**
+ * 按 UTF-8 解码文件内容
+ * @internal
+ */
+function decodeUtf8(data: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(data);
+}
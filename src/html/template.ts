@@ -0,0 +1,80 @@
+/**
+ * HTML 模板工具
+ *
+ * 提供 HTML 与内联样式值的转义和 `{{token}}` 占位符替换，供封面等由插件生成的页面片段使用
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * HTML 转义映射
+ * @internal
+ */
+const HTML_ESCAPES: Readonly<Record<string, string>> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * 转义 HTML 特殊字符
+ *
+ * @param value - 原始文本
+ * @returns 可安全插入 HTML 文本或属性的字符串
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]!);
+}
+
+/**
+ * 清理写入内联样式的值
+ *
+ * @remarks 去掉可结束当前声明或规则的字符，避免用户提供的值注入额外的声明；
+ * 结果仍需作为属性值经过 {@link escapeHtml}
+ * @param value - 样式值，如颜色、字体或长度
+ */
+export function escapeCssValue(value: string): string {
+  return value.replace(/[;{}<>\\]/g, '').trim();
+}
+
+/**
+ * 替换模板中的 `{{token}}` 占位符
+ *
+ * @remarks
+ * 占位符值会经过 HTML 转义；使用三重括号 `{{{token}}}` 可插入未转义的原始 HTML。
+ * 未知占位符替换为空字符串。
+ *
+ * @param template - HTML 模板
+ * @param tokens - 占位符取值
+ */
+export function renderTemplate(
+  template: string,
+  tokens: Readonly<Record<string, string | undefined>>
+): string {
+  return template
+    .replace(/\{\{\{\s*([\w.-]+)\s*\}\}\}/g, (_, name: string) => tokens[name] ?? '')
+    .replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) => escapeHtml(tokens[name] ?? ''));
+}
+
+/**
+ * 格式化日期为 `YYYY-MM-DD HH:mm`
+ *
+ * @param value - ISO 日期字符串或时间戳
+ * @returns 格式化结果，无法解析时原样返回
+ */
+export function formatDateTime(value: string | number | undefined): string {
+  if (value === undefined || value === '') {
+    return '';
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return String(value);
+  }
+  const pad = (n: number): string => String(n).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
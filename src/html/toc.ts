@@ -0,0 +1,174 @@
+/**
+ * 目录页生成
+ *
+ * 根据文档锚点生成目录页。页码需要先完成一次排版才能确定，
+ * 因此目录先以占位页码插入页面参与第一遍排版，读取实际页码后再原位替换。
+ * 页码列宽度固定，替换前后目录本身的排版不变，正文页码也就不会偏移。
+ *
+ * @packageDocumentation
+ */
+
+import type { PDFTocOptions } from '../types';
+import type { DocumentAnchor } from './anchors';
+import { GENERATED_ATTRIBUTE } from './cover';
+import { escapeHtml } from './template';
+
+/**
+ * 目录默认标题
+ * @internal
+ */
+const DEFAULT_TOC_TITLE = '目录';
+
+/**
+ * 目录默认的最大层级
+ * @internal
+ */
+const DEFAULT_TOC_MAX_DEPTH = 3;
+
+/**
+ * 规范化目录选项
+ *
+ * @param toc - 用户传入的 `toc` 选项
+ * @returns 启用时返回补全默认值的目录选项，禁用时返回 undefined
+ */
+export function normalizeTocOptions(
+  toc: boolean | PDFTocOptions | undefined
+): Required<Omit<PDFTocOptions, 'enabled'>> | undefined {
+  if (toc === undefined || toc === false) {
+    return undefined;
+  }
+  const options = toc === true ? {} : toc;
+  if (options.enabled === false) {
+    return undefined;
+  }
+  return {
+    title: options.title ?? DEFAULT_TOC_TITLE,
+    maxDepth: options.maxDepth ?? DEFAULT_TOC_MAX_DEPTH,
+    includeBaseCards: options.includeBaseCards ?? true,
+    includeHeadings: options.includeHeadings ?? true,
+  };
+}
+
+/**
+ * 生成目录页 HTML 片段（包含样式）
+ *
+ * @param anchors - 文档锚点
+ * @param title - 目录标题
+ * @param pageNumbers - 锚点 ID 到页码（从 1 开始）的映射，未提供时输出占位页码
+ */
+export function buildTocSection(
+  anchors: DocumentAnchor[],
+  title: string,
+  pageNumbers?: ReadonlyMap<string, number>
+): string {
+  const items = anchors
+    .map((anchor) => {
+      const level = Math.min(anchor.level, 6);
+      const pageNumber = pageNumbers?.get(anchor.id);
+      const pageLabel = pageNumbers ? (pageNumber !== undefined ? String(pageNumber) : '') : '0';
+      return (
+        `<li class="chips-pdf-toc__entry chips-pdf-toc__entry--level-${level} chips-pdf-toc__entry--${anchor.kind}">` +
+        `<a class="chips-pdf-toc__link" href="#${escapeHtml(anchor.id)}">` +
+        `<span class="chips-pdf-toc__title">${escapeHtml(anchor.title)}</span>` +
+        `<span class="chips-pdf-toc__leader"></span>` +
+        `<span class="chips-pdf-toc__page">${pageLabel}</span>` +
+        `</a></li>`
+      );
+    })
+    .join('\n');
+
+  return (
+    `<section class="chips-pdf-toc" ${GENERATED_ATTRIBUTE}="toc">\n` +
+    `<style type="text/css">\n${TOC_STYLES}\n</style>\n` +
+    `<h2 class="chips-pdf-toc__heading">${escapeHtml(title)}</h2>\n` +
+    `<ol class="chips-pdf-toc__list">\n${items}\n</ol>\n` +
+    `</section>`
+  );
+}
+
+/**
+ * 将目录片段挂载到页面
+ *
+ * @remarks
+ * 该函数通过 `page.evaluate` 在浏览器中执行。
+ * 已存在目录时原位替换，否则插入在封面之后；没有封面时插入在正文最前。
+ */
+export function mountTocSection(args: { html: string; generatedAttribute: string }): void {
+  const template = document.createElement('template');
+  template.innerHTML = args.html;
+  const section = template.content.firstElementChild;
+  if (!section) {
+    return;
+  }
+
+  const existing = document.querySelector(`[${args.generatedAttribute}="toc"]`);
+  if (existing) {
+    existing.replaceWith(section);
+    return;
+  }
+
+  const cover = document.querySelector(`[${args.generatedAttribute}="cover"]`);
+  if (cover) {
+    cover.after(section);
+  } else {
+    document.body.insertBefore(section, document.body.firstChild);
+  }
+}
+
+/**
+ * 目录样式
+ *
+ * 页码列使用固定宽度，保证占位页码替换为实际页码后排版不变
+ * @internal
+ */
+const TOC_STYLES = `
+.chips-pdf-toc {
+  break-after: page;
+  page-break-after: always;
+  color: var(--chips-color-text, inherit);
+  font-family: var(--chips-font-family, inherit);
+}
+.chips-pdf-toc__heading {
+  margin: 0 0 8mm;
+  font-size: 20pt;
+  color: var(--chips-color-primary, inherit);
+}
+.chips-pdf-toc__list {
+  margin: 0;
+  padding: 0;
+  list-style: none;
+}
+.chips-pdf-toc__entry {
+  break-inside: avoid;
+  page-break-inside: avoid;
+  margin: 2mm 0;
+  font-size: 11pt;
+}
+.chips-pdf-toc__entry--base-card {
+  font-weight: 600;
+}
+.chips-pdf-toc__entry--level-2 { padding-left: 6mm; }
+.chips-pdf-toc__entry--level-3 { padding-left: 12mm; }
+.chips-pdf-toc__entry--level-4 { padding-left: 18mm; }
+.chips-pdf-toc__entry--level-5 { padding-left: 24mm; }
+.chips-pdf-toc__entry--level-6 { padding-left: 30mm; }
+.chips-pdf-toc__link {
+  display: flex;
+  align-items: baseline;
+  color: inherit;
+  text-decoration: none;
+}
+.chips-pdf-toc__title {
+  flex: 0 1 auto;
+}
+.chips-pdf-toc__leader {
+  flex: 1 1 auto;
+  min-width: 8mm;
+  margin: 0 2mm;
+  border-bottom: 1px dotted var(--chips-color-border, currentColor);
+}
+.chips-pdf-toc__page {
+  flex: 0 0 5ch;
+  text-align: right;
+  font-variant-numeric: tabular-nums;
+}`.trim();
@@ -0,0 +1,256 @@
+/**
+ * 水印
+ *
+ * 水印在单独的空白页面上排版并输出为一页 PDF，再作为图层叠加到文档的指定页面。
+ * 不可选中的文字水印先在页面中绘制为图片，输出的 PDF 中不含对应的文本。
+ *
+ * @packageDocumentation
+ */
+
+import type { PDFWatermarkLayer, PDFWatermarkOptions, PDFWatermarkPosition } from '../types';
+import { toBase64 } from './resources';
+import { escapeCssValue, escapeHtml } from './template';
+
+/**
+ * 水印默认值
+ * @internal
+ */
+const WATERMARK_DEFAULTS = {
+  imageWidth: '50mm',
+  fontFamily: 'sans-serif',
+  fontSize: '64pt',
+  fontWeight: 'bold',
+  color: '#808080',
+  opacity: 0.2,
+  textRotation: -45,
+  position: 'center' as PDFWatermarkPosition,
+  layer: 'foreground' as PDFWatermarkLayer,
+};
+
+/**
+ * 各位置对应的水平、垂直对齐方式
+ * @internal
+ */
+const POSITION_ALIGNMENT: Readonly<Record<Exclude<PDFWatermarkPosition, 'tile'>, [string, string]>> = {
+  center: ['center', 'center'],
+  'top-left': ['flex-start', 'flex-start'],
+  top: ['center', 'flex-start'],
+  'top-right': ['flex-end', 'flex-start'],
+  left: ['flex-start', 'center'],
+  right: ['flex-end', 'center'],
+  'bottom-left': ['flex-start', 'flex-end'],
+  bottom: ['center', 'flex-end'],
+  'bottom-right': ['flex-end', 'flex-end'],
+};
+
+/**
+ * 支持的水印位置
+ */
+export const WATERMARK_POSITIONS: ReadonlyArray<PDFWatermarkPosition> = [
+  ...(Object.keys(POSITION_ALIGNMENT) as PDFWatermarkPosition[]),
+  'tile',
+];
+
+/**
+ * 平铺水印的间距（点）
+ * @internal
+ */
+const TILE_SPACING_PT = 216;
+
+/**
+ * 水印文字的标记类名
+ */
+export const WATERMARK_TEXT_CLASS = 'chips-pdf-watermark__text';
+
+/**
+ * 文字转为图片时的像素密度（相对 CSS 像素），约合 300 DPI
+ */
+export const WATERMARK_PIXEL_RATIO = 300 / 96;
+
+/**
+ * 补全默认值的水印设置
+ */
+export interface ResolvedWatermark {
+  text?: string;
+  /** 图片 data URL */
+  image?: string;
+  imageWidth: string;
+  fontFamily: string;
+  fontSize: string;
+  fontWeight: string;
+  color: string;
+  opacity: number;
+  rotation: number;
+  position: PDFWatermarkPosition;
+  pages?: string;
+  layer: PDFWatermarkLayer;
+  selectable: boolean;
+}
+
+/**
+ * 页面内文字转图片参数
+ */
+export interface RasterizeTextArgs {
+  /** 文字元素选择器 */
+  selector: string;
+  /** 像素密度 */
+  pixelRatio: number;
+}
+
+/**
+ * 规范化水印选项
+ *
+ * @param option - 用户传入的 `watermark` 选项
+ * @returns 有文字或图片时返回补全默认值的设置，否则返回 undefined
+ */
+export function resolveWatermark(option: PDFWatermarkOptions | undefined): ResolvedWatermark | undefined {
+  if (!option || (!option.text && !option.image)) {
+    return undefined;
+  }
+  const image =
+    typeof option.image === 'object'
+      ? `data:${option.image.contentType};base64,${toBase64(option.image.data)}`
+      : option.image;
+  return {
+    text: option.text || undefined,
+    image: image || undefined,
+    imageWidth: option.imageWidth ?? WATERMARK_DEFAULTS.imageWidth,
+    fontFamily: option.fontFamily ?? WATERMARK_DEFAULTS.fontFamily,
+    fontSize: option.fontSize ?? WATERMARK_DEFAULTS.fontSize,
+    fontWeight: String(option.fontWeight ?? WATERMARK_DEFAULTS.fontWeight),
+    color: option.color ?? WATERMARK_DEFAULTS.color,
+    opacity: option.opacity ?? WATERMARK_DEFAULTS.opacity,
+    rotation: option.rotation ?? (option.text ? WATERMARK_DEFAULTS.textRotation : 0),
+    position: option.position ?? WATERMARK_DEFAULTS.position,
+    pages: option.pages,
+    layer: option.layer ?? WATERMARK_DEFAULTS.layer,
+    selectable: option.selectable ?? false,
+  };
+}
+
+/**
+ * 页码范围语法，如 `'1-3, 5, 8-'`
+ */
+export const PAGE_RANGES_PATTERN =
+  '^\\s*(\\d+\\s*(-\\s*\\d*)?|-\\s*\\d+)(\\s*,\\s*(\\d+\\s*(-\\s*\\d*)?|-\\s*\\d+))*\\s*$';
+
+/**
+ * 检查页码范围语法
+ *
+ * @param spec - 页码范围，如 `'1-3, 5, 8-'`
+ */
+export function isValidPageRanges(spec: string): boolean {
+  return new RegExp(PAGE_RANGES_PATTERN).test(spec);
+}
+
+/**
+ * 按页码范围选取页面
+ *
+ * @param spec - 页码范围，未指定时选取所有页
+ * @param pageCount - 文档页数
+ * @returns 选中的页索引（从 0 开始）
+ */
+export function selectPages(spec: string | undefined, pageCount: number): Set<number> {
+  const selected = new Set<number>();
+  if (spec === undefined) {
+    for (let index = 0; index < pageCount; index++) {
+      selected.add(index);
+    }
+    return selected;
+  }
+  for (const part of spec.split(',')) {
+    const [startText, endText] = part.split('-').map((value) => value.trim());
+    const start = startText ? Number(startText) : 1;
+    const end = endText === undefined ? start : endText ? Number(endText) : pageCount;
+    for (let page = Math.max(start, 1); page <= Math.min(end, pageCount); page++) {
+      selected.add(page - 1);
+    }
+  }
+  return selected;
+}
+
+/**
+ * 生成水印页面
+ *
+ * @param watermark - 水印设置
+ * @param size - 页面尺寸（点）
+ */
+export function buildWatermarkPage(watermark: ResolvedWatermark, size: { width: number; height: number }): string {
+  const mark =
+    '<div class="chips-pdf-watermark__mark">' +
+    (watermark.image ? `<img class="chips-pdf-watermark__image" src="${escapeHtml(watermark.image)}" alt="">` : '') +
+    (watermark.text ? `<div class="${WATERMARK_TEXT_CLASS}">${escapeHtml(watermark.text)}</div>` : '') +
+    '</div>';
+
+  let layout: string;
+  let marks = mark;
+  if (watermark.position === 'tile') {
+    const columns = Math.max(1, Math.round(size.width / TILE_SPACING_PT));
+    const rows = Math.max(1, Math.round(size.height / TILE_SPACING_PT));
+    marks = mark.repeat(columns * rows);
+    layout =
+      'display:grid;' +
+      `grid-template-columns:repeat(${columns},1fr);grid-template-rows:repeat(${rows},1fr);` +
+      'place-items:center';
+  } else {
+    const [justify, align] = POSITION_ALIGNMENT[watermark.position];
+    layout = `display:flex;justify-content:${justify};align-items:${align};padding:12mm`;
+  }
+
+  // 样式表中不解析 HTML 实体，escapeCssValue 已去掉可闭合 <style> 的尖括号
+  const css = escapeCssValue;
+  return (
+    '<!DOCTYPE html><html><head><meta charset="utf-8"><style>\n' +
+    'html, body { margin: 0; background: transparent; }\n' +
+    `.chips-pdf-watermark { box-sizing: border-box; width: ${size.width / 72}in; height: ${size.height / 72}in; ` +
+    `overflow: hidden; ${layout}; }\n` +
+    '.chips-pdf-watermark__mark { display: flex; flex-direction: column; align-items: center; gap: 4mm; ' +
+    `transform: rotate(${watermark.rotation}deg); opacity: ${watermark.opacity}; }\n` +
+    `.chips-pdf-watermark__image { display: block; width: ${css(watermark.imageWidth)}; height: auto; }\n` +
+    `.${WATERMARK_TEXT_CLASS} { white-space: pre; line-height: 1.2; text-align: center; ` +
+    `font-family: ${css(watermark.fontFamily)}; font-size: ${css(watermark.fontSize)}; ` +
+    `font-weight: ${css(watermark.fontWeight)}; color: ${css(watermark.color)}; }\n` +
+    `</style></head><body><div class="chips-pdf-watermark">${marks}</div></body></html>`
+  );
+}
+
+/**
+ * 在页面中把水印文字绘制为图片
+ *
+ * @remarks
+ * 该函数通过 `page.evaluate` 在浏览器中执行，不能引用模块作用域内的其他变量。
+ * 图片尺寸与文字原有的排版尺寸一致，旋转和不透明度由外层元素继续生效。
+ */
+export async function rasterizeWatermarkText(args: RasterizeTextArgs): Promise<void> {
+  await document.fonts.ready;
+  for (const element of Array.from(document.querySelectorAll<HTMLElement>(args.selector))) {
+    const width = element.offsetWidth;
+    const height = element.offsetHeight;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * args.pixelRatio);
+    canvas.height = Math.ceil(height * args.pixelRatio);
+    const context = canvas.getContext('2d');
+    if (!width || !height || !context) {
+      continue;
+    }
+
+    const style = getComputedStyle(element);
+    context.scale(args.pixelRatio, args.pixelRatio);
+    context.font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`;
+    context.fillStyle = style.color;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    const lines = (element.textContent ?? '').split('\n');
+    const lineHeight = height / lines.length;
+    lines.forEach((line, index) => context.fillText(line, width / 2, lineHeight * (index + 0.5)));
+
+    const image = document.createElement('img');
+    image.src = canvas.toDataURL('image/png');
+    image.style.display = 'block';
+    image.style.width = `${width}px`;
+    image.style.height = `${height}px`;
+    element.replaceWith(image);
+    await image.decode().catch(() => undefined);
+  }
+}
+
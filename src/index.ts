@@ -4,18 +4,104 @@
  */
 
 export { CardtoPDFPlugin, createPlugin, plugin } from './plugin';
+export { PuppeteerRenderEngine } from './engines/puppeteer';
+export { PlaywrightRenderEngine } from './engines/playwright';
+export { createRenderEngine } from './engines/factory';
+export { inspectPDF } from './pdf/inspector';
 export type {
   ConversionSource,
   PageFormat,
   PageOrientation,
   PageMargin,
   PDFConversionOptions,
+  PDFCoverOptions,
+  PDFTocOptions,
+  CardMetadata,
+  PDFDocumentMetadata,
   PDFConversionResult,
+  PDFInspection,
+  PDFPageInfo,
+  PDFObjectStats,
+  PDFConformanceLevel,
+  PDFConformanceReport,
+  PDFConformanceViolation,
+  PDFEncryptionAlgorithm,
+  PDFEncryptionOptions,
+  PDFPermissions,
+  PDFImageProfile,
+  PDFImageCompressionOptions,
+  PDFImageCompressionReport,
+  PDFUnresolvedResource,
+  PDFNetworkOptions,
+  PDFPaginationOptions,
+  PDFSplitBaseCard,
+  PDFRenderErrorPolicy,
+  PDFConversionStats,
+  PDFBaseCardStats,
+  PDFResourceStats,
+  PDFPhaseTimings,
+  PDFHeaderFooterOptions,
+  PDFWatermarkOptions,
+  PDFWatermarkPosition,
+  PDFWatermarkLayer,
+  PDFWatermarkImage,
+  PDFHeaderFooterVariant,
+  PDFHeaderFooterContent,
+  PDFHeaderFooterPreset,
+  PDFHeaderFooterSlots,
+  PDFHeaderFooterTemplate,
+  PDFExternalRequestPolicy,
+  PDFPlaceholderImage,
+  PDFBlockedRequest,
+  PDFBlockedReason,
+  PDFResourceRequest,
+  PDFResourceResponse,
+  PDFStreamOptions,
+  PDFConversionStream,
+  PDFBookOptions,
+  PDFBookChapter,
+  PDFBookResult,
   PDFConverterPlugin,
   PDFProgressInfo,
   PDFConversionStatus,
+  PDFTaskStatus,
+  PDFTaskCancelResult,
+  PDFBrowserPoolOptions,
+  CardtoPDFPluginOptions,
+  PDFConfigurableOptions,
+  PDFPluginConfig,
+  PDFConfigUpdateResult,
+  PDFOptionsSchema,
+  PDFSchemaType,
+  PDFSchemaLocale,
+  PDFEngineKind,
+  PDFRenderEngine,
+  PDFRenderPage,
+  PDFRenderOptions,
+  PDFPluginState,
+  PDFPluginContext,
+  PDFPluginStopOptions,
+  PDFPluginMetadata,
+  PDFProtocolVersionRange,
+  PDFConversionRegistry,
+  PDFConverterRegistration,
+  PDFOptionCategory,
+  PDFOptionDescriptor,
   PDFValidationResult,
+  PDFValidationIssue,
+  PDFErrorDetails,
+  PDFErrorInfo,
+  PDFPageLoadOptions,
   ConversionError,
   ErrorCode,
 } from './types';
 export { PDFErrorCode } from './types';
+export {
+  PDFConversionError,
+  EngineNotInstalledError,
+  BrowserLaunchError,
+  PageLoadTimeoutError,
+  FileWriteError,
+} from './core/errors';
+export { PDFEncryptionError } from './pdf/encryption';
+export { BaseCardRenderError } from './html/render-errors';
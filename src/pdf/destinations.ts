@@ -0,0 +1,189 @@
+/**
+ * PDF 命名目标读取
+ *
+ * Chromium 打印 PDF 时，会为文档内链接（`href="#id"`）指向的元素写入命名目标，
+ * 记录元素所在页和页内纵坐标。这里读取这些命名目标，得到锚点的实际位置。
+ *
+ * @packageDocumentation
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+import type { PDFObject } from 'pdf-lib';
+
+/**
+ * 锚点在 PDF 中的位置
+ */
+export interface PDFAnchorPosition {
+  /** 页索引（从 0 开始） */
+  pageIndex: number;
+  /** 页内纵坐标（PDF 坐标系，自页面底部起算） */
+  top?: number;
+}
+
+/**
+ * 读取 PDF 中的命名目标
+ *
+ * @param pdfData - PDF 数据
+ * @returns 目标名称到位置的映射
+ */
+export async function readNamedDestinations(
+  pdfData: Uint8Array
+): Promise<Map<string, PDFAnchorPosition>> {
+  const doc = await PDFDocument.load(pdfData, { updateMetadata: false });
+  return collectNamedDestinations(doc);
+}
+
+/**
+ * 从已加载的文档中收集命名目标
+ *
+ * @param doc - 已加载的 PDF 文档
+ */
+export function collectNamedDestinations(doc: PDFDocument): Map<string, PDFAnchorPosition> {
+  const pageIndexByRef = new Map<string, number>();
+  doc.getPages().forEach((page, index) => {
+    pageIndexByRef.set(page.ref.toString(), index);
+  });
+
+  const result = new Map<string, PDFAnchorPosition>();
+  for (const [name, destination] of collectDestinationArrays(doc)) {
+    const position = toAnchorPosition(destination, pageIndexByRef);
+    if (position) {
+      result.set(name, position);
+    }
+  }
+  return result;
+}
+
+/**
+ * 收集命名目标的显式目标数组
+ *
+ * 同时支持 PDF 1.1 风格的 Catalog `/Dests` 字典与 `/Names /Dests` 名称树
+ *
+ * @param doc - 已加载的 PDF 文档
+ * @returns 目标名称到 `[page /XYZ left top zoom]` 形式数组的映射
+ */
+export function collectDestinationArrays(doc: PDFDocument): Map<string, PDFArray> {
+  const result = new Map<string, PDFArray>();
+  const record = (name: string, value: PDFObject | undefined): void => {
+    const destination = resolveDestinationArray(doc, value);
+    if (destination) {
+      result.set(name, destination);
+    }
+  };
+
+  const dests = doc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+  if (dests) {
+    for (const [key, value] of dests.entries()) {
+      record(decodeName(key), value);
+    }
+  }
+
+  const names = doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  const destTree = names?.lookupMaybe(PDFName.of('Dests'), PDFDict);
+  if (destTree) {
+    walkNameTree(destTree, record, new Set());
+  }
+
+  return result;
+}
+
+/**
+ * 将目标定义解析为显式目标数组
+ *
+ * 目标可以是数组 `[page /XYZ left top zoom]`，也可以是带 `/D` 键的字典
+ *
+ * @param doc - PDF 文档
+ * @param value - 目标定义
+ */
+export function resolveDestinationArray(
+  doc: PDFDocument,
+  value: PDFObject | undefined
+): PDFArray | undefined {
+  let target = value instanceof PDFRef ? doc.context.lookup(value) : value;
+  if (target instanceof PDFDict) {
+    target = target.lookup(PDFName.of('D'));
+  }
+  return target instanceof PDFArray && target.size() > 0 ? target : undefined;
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 遍历名称树
+ * @internal
+ */
+function walkNameTree(
+  node: PDFDict,
+  record: (name: string, value: PDFObject | undefined) => void,
+  visited: Set<PDFDict>
+): void {
+  if (visited.has(node)) {
+    return;
+  }
+  visited.add(node);
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      const key = names.lookup(i);
+      if (key instanceof PDFString || key instanceof PDFHexString) {
+        record(key.decodeText(), names.get(i + 1));
+      }
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  if (kids) {
+    for (let i = 0; i < kids.size(); i++) {
+      const kid = kids.lookup(i);
+      if (kid instanceof PDFDict) {
+        walkNameTree(kid, record, visited);
+      }
+    }
+  }
+}
+
+/**
+ * 将显式目标数组转换为页索引和纵坐标
+ * @internal
+ */
+function toAnchorPosition(
+  destination: PDFArray,
+  pageIndexByRef: Map<string, number>
+): PDFAnchorPosition | undefined {
+  const pageRef = destination.get(0);
+  const pageIndex = pageRef instanceof PDFRef ? pageIndexByRef.get(pageRef.toString()) : undefined;
+  if (pageIndex === undefined) {
+    return undefined;
+  }
+
+  const fit = destination.get(1);
+  const topIndex = fit instanceof PDFName && fit.asString() === '/XYZ' ? 3 : 2;
+  const top = destination.get(topIndex);
+  return {
+    pageIndex,
+    top: top instanceof PDFNumber ? top.asNumber() : undefined,
+  };
+}
+
+/**
+ * 解码 PDF 名称对象（去掉前导斜杠并还原 `#xx` 转义）
+ * @internal
+ */
+function decodeName(name: PDFName): string {
+  return name
+    .asString()
+    .slice(1)
+    .replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
@@ -0,0 +1,446 @@
+/**
+ * PDF 加密
+ *
+ * 在 pdf-lib 之上实现标准安全处理器：AES-128（V4/R4）与 AES-256（V5/R6），
+ * 加密文档中的全部字符串与流，并写入打开密码、权限密码和权限标志。
+ *
+ * @packageDocumentation
+ */
+
+import { createCipheriv, createHash, randomBytes } from 'crypto';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFRawStream, PDFString } from 'pdf-lib';
+import type { PDFContext, PDFObject, PDFRef } from 'pdf-lib';
+import { PDFConversionError } from '../core/errors';
+import { PDFErrorCode } from '../types';
+import type { PDFEncryptionAlgorithm, PDFEncryptionOptions, PDFPermissions } from '../types';
+
+/**
+ * 加密失败错误
+ */
+export class PDFEncryptionError extends PDFConversionError {
+  constructor(message: string, cause?: unknown) {
+    super(PDFErrorCode.ENCRYPTION_FAILED, message, { details: { option: 'encryption' }, cause });
+    this.name = 'PDFEncryptionError';
+  }
+}
+
+/**
+ * 默认加密算法
+ */
+export const DEFAULT_ENCRYPTION_ALGORITHM: PDFEncryptionAlgorithm = 'aes-256';
+
+/**
+ * AES-256 密码的最大字节数（UTF-8）
+ */
+export const MAX_AES256_PASSWORD_BYTES = 127;
+
+/**
+ * 密码填充串（ISO 32000-1 7.6.3.3）
+ * @internal
+ */
+const PASSWORD_PADDING = Buffer.from(
+  '28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a',
+  'hex'
+);
+
+/**
+ * 权限位（从 1 开始编号的位对应的掩码）
+ * @internal
+ */
+const PERMISSION_BITS = {
+  print: 1 << 2,
+  modify: 1 << 3,
+  copy: 1 << 4,
+  annotate: 1 << 5,
+  fillForms: 1 << 8,
+  accessibility: 1 << 9,
+  assemble: 1 << 10,
+  printHighQuality: 1 << 11,
+} as const;
+
+/**
+ * 保留位：第 7、8 位及第 13-32 位必须为 1
+ * @internal
+ */
+const PERMISSION_RESERVED = 0xfffff0c0;
+
+/**
+ * 加密 PDF
+ *
+ * @param data - 未加密的 PDF 数据
+ * @param options - 加密选项
+ * @returns 加密后的 PDF 数据
+ * @throws {@link PDFEncryptionError} 文档已加密或加密过程失败时抛出
+ */
+export async function encryptPDF(data: Uint8Array, options: PDFEncryptionOptions): Promise<Uint8Array> {
+  let doc: PDFDocument;
+  try {
+    doc = await PDFDocument.load(data, { updateMetadata: false });
+  } catch (error) {
+    throw new PDFEncryptionError('无法读取待加密的 PDF', error);
+  }
+  const { context } = doc;
+  if (context.trailerInfo.Encrypt) {
+    throw new PDFEncryptionError('文档已加密，不能重复加密');
+  }
+
+  try {
+    const algorithm = options.algorithm ?? DEFAULT_ENCRYPTION_ALGORITHM;
+    const permissions = computePermissionFlags(options.permissions);
+    const userPassword = options.userPassword ?? '';
+    const ownerPassword = options.ownerPassword || randomBytes(32).toString('hex');
+
+    // 文件标识参与 AES-128 密钥计算，缺失时补全
+    if (!(context.lookup(context.trailerInfo.ID) instanceof PDFArray)) {
+      const id = PDFHexString.of(randomBytes(16).toString('hex'));
+      context.trailerInfo.ID = context.obj([id, id]);
+    }
+    const fileId = readStringBytes((context.lookup(context.trailerInfo.ID) as PDFArray).get(0));
+
+    const handler =
+      algorithm === 'aes-128'
+        ? createAES128Handler(userPassword, ownerPassword, permissions, fileId)
+        : createAES256Handler(userPassword, ownerPassword, permissions);
+
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+      const encryptor = (bytes: Uint8Array): Uint8Array => handler.encrypt(ref, bytes);
+      if (object instanceof PDFRawStream) {
+        encryptStrings(object.dict, encryptor);
+        context.assign(ref, PDFRawStream.of(object.dict, encryptor(object.contents)));
+      } else {
+        context.assign(ref, encryptStrings(object, encryptor));
+      }
+    }
+
+    if (algorithm === 'aes-256') {
+      // AES-256 属于 PDF 1.7 扩展级别 8（ISO 32000-2 之前的 Adobe 扩展）
+      doc.catalog.set(
+        PDFName.of('Extensions'),
+        context.obj({ ADBE: { BaseVersion: PDFName.of('1.7'), ExtensionLevel: 8 } })
+      );
+    }
+    context.trailerInfo.Encrypt = context.register(handler.createDictionary(context));
+
+    // 加密后的字符串不能放入对象流，且需避免重新生成表单外观产生未加密的流
+    return await doc.save({ useObjectStreams: false, updateFieldAppearances: false });
+  } catch (error) {
+    if (error instanceof PDFEncryptionError) {
+      throw error;
+    }
+    throw new PDFEncryptionError(
+      `PDF 加密失败: ${error instanceof Error ? error.message : String(error)}`,
+      error
+    );
+  }
+}
+
+/**
+ * 计算权限标志 /P
+ *
+ * 未指定的权限默认允许；辅助功能提取始终允许
+ *
+ * @param permissions - 权限设置
+ * @returns 32 位有符号整数形式的权限标志
+ */
+export function computePermissionFlags(permissions: PDFPermissions = {}): number {
+  let flags = PERMISSION_RESERVED | PERMISSION_BITS.accessibility;
+  if (permissions.print !== false) {
+    flags |= PERMISSION_BITS.print | PERMISSION_BITS.printHighQuality;
+  }
+  if (permissions.modify !== false) {
+    flags |= PERMISSION_BITS.modify | PERMISSION_BITS.assemble;
+  }
+  if (permissions.copy !== false) {
+    flags |= PERMISSION_BITS.copy;
+  }
+  if (permissions.annotate !== false) {
+    flags |= PERMISSION_BITS.annotate | PERMISSION_BITS.fillForms;
+  }
+  return flags | 0;
+}
+
+// ============================================================================
+// 安全处理器
+// ============================================================================
+
+/**
+ * 安全处理器
+ * @internal
+ */
+interface SecurityHandler {
+  /** 生成加密字典 */
+  createDictionary(context: PDFContext): PDFDict;
+  /** 加密指定对象中的数据 */
+  encrypt(ref: PDFRef, data: Uint8Array): Uint8Array;
+}
+
+/**
+ * AES-128 安全处理器（V4 / R4，算法 2、3、5）
+ * @internal
+ */
+function createAES128Handler(
+  userPassword: string,
+  ownerPassword: string,
+  permissions: number,
+  fileId: Uint8Array
+): SecurityHandler {
+  const userPadded = padPassword(userPassword);
+
+  // 算法 3：权限密码校验值 O
+  let ownerHash = md5(padPassword(ownerPassword));
+  for (let i = 0; i < 50; i++) {
+    ownerHash = md5(ownerHash);
+  }
+  const ownerKey = ownerHash.subarray(0, 16);
+  const ownerEntry = rc4Rounds(ownerKey, userPadded);
+
+  // 算法 2：文件密钥
+  const permissionBytes = Buffer.alloc(4);
+  permissionBytes.writeInt32LE(permissions);
+  let fileKey = md5(Buffer.concat([userPadded, ownerEntry, permissionBytes, fileId]));
+  for (let i = 0; i < 50; i++) {
+    fileKey = md5(fileKey.subarray(0, 16));
+  }
+  fileKey = fileKey.subarray(0, 16);
+
+  // 算法 5：打开密码校验值 U（后 16 字节为任意填充）
+  const userEntry = Buffer.concat([
+    rc4Rounds(fileKey, md5(Buffer.concat([PASSWORD_PADDING, fileId]))),
+    Buffer.alloc(16),
+  ]);
+
+  return {
+    createDictionary: (context) =>
+      context.obj({
+        Filter: 'Standard',
+        V: 4,
+        R: 4,
+        Length: 128,
+        CF: { StdCF: { Type: 'CryptFilter', CFM: 'AESV2', AuthEvent: 'DocOpen', Length: 16 } },
+        StmF: 'StdCF',
+        StrF: 'StdCF',
+        O: PDFHexString.of(ownerEntry.toString('hex')),
+        U: PDFHexString.of(userEntry.toString('hex')),
+        P: permissions,
+      }),
+    encrypt(ref, data) {
+      // 算法 1：对象密钥 = MD5(文件密钥 + 对象号低 3 字节 + 生成号低 2 字节 + "sAlT")
+      const objectSuffix = Buffer.from([
+        ref.objectNumber & 0xff,
+        (ref.objectNumber >> 8) & 0xff,
+        (ref.objectNumber >> 16) & 0xff,
+        ref.generationNumber & 0xff,
+        (ref.generationNumber >> 8) & 0xff,
+      ]);
+      const objectKey = md5(Buffer.concat([fileKey, objectSuffix, Buffer.from('sAlT', 'latin1')]));
+      return aesEncrypt('aes-128-cbc', objectKey, data);
+    },
+  };
+}
+
+/**
+ * AES-256 安全处理器（V5 / R6，ISO 32000-2 算法 8、9、10）
+ * @internal
+ */
+function createAES256Handler(userPassword: string, ownerPassword: string, permissions: number): SecurityHandler {
+  const fileKey = randomBytes(32);
+  const user = encodeAES256Password(userPassword);
+  const owner = encodeAES256Password(ownerPassword);
+
+  // 算法 8：U 与 UE
+  const userValidationSalt = randomBytes(8);
+  const userKeySalt = randomBytes(8);
+  const userEntry = Buffer.concat([hashR6(user, userValidationSalt), userValidationSalt, userKeySalt]);
+  const userKeyEntry = aesRaw('aes-256-cbc', hashR6(user, userKeySalt), fileKey);
+
+  // 算法 9：O 与 OE（以 48 字节的 U 作为附加数据）
+  const ownerValidationSalt = randomBytes(8);
+  const ownerKeySalt = randomBytes(8);
+  const ownerEntry = Buffer.concat([
+    hashR6(owner, ownerValidationSalt, userEntry),
+    ownerValidationSalt,
+    ownerKeySalt,
+  ]);
+  const ownerKeyEntry = aesRaw('aes-256-cbc', hashR6(owner, ownerKeySalt, userEntry), fileKey);
+
+  // 算法 10：Perms
+  const perms = Buffer.alloc(16);
+  perms.writeInt32LE(permissions, 0);
+  perms.writeUInt32LE(0xffffffff, 4);
+  perms.write('Tadb', 8, 'latin1');
+  randomBytes(4).copy(perms, 12);
+  const permsEntry = aesRaw('aes-256-ecb', fileKey, perms);
+
+  return {
+    createDictionary: (context) =>
+      context.obj({
+        Filter: 'Standard',
+        V: 5,
+        R: 6,
+        Length: 256,
+        CF: { StdCF: { Type: 'CryptFilter', CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } },
+        StmF: 'StdCF',
+        StrF: 'StdCF',
+        O: PDFHexString.of(ownerEntry.toString('hex')),
+        U: PDFHexString.of(userEntry.toString('hex')),
+        OE: PDFHexString.of(ownerKeyEntry.toString('hex')),
+        UE: PDFHexString.of(userKeyEntry.toString('hex')),
+        Perms: PDFHexString.of(permsEntry.toString('hex')),
+        P: permissions,
+      }),
+    encrypt(_ref, data) {
+      return aesEncrypt('aes-256-cbc', fileKey, data);
+    },
+  };
+}
+
+/**
+ * R6 密码散列（ISO 32000-2 算法 2.B）
+ * @internal
+ */
+function hashR6(password: Buffer, salt: Buffer, userEntry: Buffer = Buffer.alloc(0)): Buffer {
+  let key = createHash('sha256').update(Buffer.concat([password, salt, userEntry])).digest();
+  let round = 0;
+  let encrypted: Buffer;
+
+  do {
+    const block = Buffer.concat([password, key, userEntry]);
+    const repeated = Buffer.concat(Array.from({ length: 64 }, () => block));
+    const cipher = createCipheriv('aes-128-cbc', key.subarray(0, 16), key.subarray(16, 32));
+    cipher.setAutoPadding(false);
+    encrypted = Buffer.concat([cipher.update(repeated), cipher.final()]);
+
+    // 前 16 字节作为大端整数对 3 取模，等价于各字节之和对 3 取模
+    let sum = 0;
+    for (let i = 0; i < 16; i++) {
+      sum += encrypted[i]!;
+    }
+    key = createHash(['sha256', 'sha384', 'sha512'][sum % 3]!).update(encrypted).digest();
+    round++;
+  } while (round < 64 || encrypted[encrypted.length - 1]! > round - 32);
+
+  return key.subarray(0, 32);
+}
+
+// ============================================================================
+// 对象遍历
+// ============================================================================
+
+/**
+ * 递归加密对象中的字符串
+ * @internal
+ */
+function encryptStrings(object: PDFObject, encrypt: (bytes: Uint8Array) => Uint8Array): PDFObject {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return PDFHexString.of(Buffer.from(encrypt(object.asBytes())).toString('hex'));
+  }
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      object.set(key, encryptStrings(value, encrypt));
+    }
+  } else if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      object.set(i, encryptStrings(object.get(i), encrypt));
+    }
+  }
+  return object;
+}
+
+/**
+ * 读取字符串对象的字节
+ * @internal
+ */
+function readStringBytes(object: PDFObject): Uint8Array {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return object.asBytes();
+  }
+  throw new PDFEncryptionError('文件标识（/ID）格式无效');
+}
+
+// ============================================================================
+// 密码学工具
+// ============================================================================
+
+/**
+ * 按 AES-128 规则填充或截断密码（PDFDocEncoding，按 Latin-1 近似）
+ * @internal
+ */
+function padPassword(password: string): Buffer {
+  const bytes = Buffer.from(password, 'latin1').subarray(0, 32);
+  return Buffer.concat([bytes, PASSWORD_PADDING.subarray(0, 32 - bytes.length)]);
+}
+
+/**
+ * 按 AES-256 规则编码密码（Unicode 规范化后取 UTF-8 前 127 字节）
+ * @internal
+ */
+function encodeAES256Password(password: string): Buffer {
+  return Buffer.from(password.normalize('NFKC'), 'utf8').subarray(0, MAX_AES256_PASSWORD_BYTES);
+}
+
+/**
+ * MD5 摘要
+ * @internal
+ */
+function md5(data: Uint8Array): Buffer {
+  return createHash('md5').update(data).digest();
+}
+
+/**
+ * AES-CBC 加密，随机 IV 置于密文之前，PKCS#7 填充
+ * @internal
+ */
+function aesEncrypt(algorithm: 'aes-128-cbc' | 'aes-256-cbc', key: Uint8Array, data: Uint8Array): Uint8Array {
+  const iv = randomBytes(16);
+  const cipher = createCipheriv(algorithm, key, iv);
+  return Buffer.concat([iv, cipher.update(data), cipher.final()]);
+}
+
+/**
+ * 无填充、零 IV 的 AES 加密（用于 UE、OE、Perms）
+ * @internal
+ */
+function aesRaw(algorithm: 'aes-256-cbc' | 'aes-256-ecb', key: Uint8Array, data: Uint8Array): Buffer {
+  const cipher = createCipheriv(algorithm, key, algorithm === 'aes-256-ecb' ? null : Buffer.alloc(16));
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+/**
+ * RC4 加密并按算法 3/5 再以 key XOR i 迭代 19 轮
+ * @internal
+ */
+function rc4Rounds(key: Uint8Array, data: Uint8Array): Buffer {
+  let result = rc4(key, data);
+  for (let i = 1; i <= 19; i++) {
+    result = rc4(
+      key.map((byte) => byte ^ i),
+      result
+    );
+  }
+  return result;
+}
+
+/**
+ * RC4 流密码（OpenSSL 3 默认不再提供，自行实现）
+ * @internal
+ */
+function rc4(key: Uint8Array, data: Uint8Array): Buffer {
+  const state = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    state[i] = i;
+  }
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i]! + key[i % key.length]!) & 0xff;
+    [state[i], state[j]] = [state[j]!, state[i]!];
+  }
+
+  const output = Buffer.alloc(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]!) & 0xff;
+    [state[i], state[j]] = [state[j]!, state[i]!];
+    output[n] = data[n]! ^ state[(state[i]! + state[j]!) & 0xff]!;
+  }
+  return output;
+}
@@ -0,0 +1,181 @@
+/**
+ * sRGB ICC 配置文件
+ *
+ * 按 IEC 61966-2.1 参数生成 ICC v2 显示器配置文件，
+ * 用作 PDF/A 输出意图（OutputIntent）的目标配置文件，避免随包分发二进制文件。
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * 配置文件描述（同时用作输出条件标识）
+ */
+export const SRGB_PROFILE_DESCRIPTION = 'sRGB IEC61966-2.1';
+
+/**
+ * 色调曲线采样点数量
+ * @internal
+ */
+const TRC_POINTS = 1024;
+
+/**
+ * 已生成的配置文件（内容固定，生成一次即可）
+ * @internal
+ */
+let cachedProfile: Uint8Array | undefined;
+
+/**
+ * 生成 sRGB ICC 配置文件
+ *
+ * @returns ICC 配置文件数据
+ */
+export function buildSRGBProfile(): Uint8Array {
+  if (cachedProfile) {
+    return cachedProfile;
+  }
+
+  const trc = curveTag();
+  const tags: Array<[string, Uint8Array]> = [
+    ['desc', descriptionTag(SRGB_PROFILE_DESCRIPTION)],
+    ['cprt', textTag('No copyright, use freely')],
+    // 媒体白点为 D65，着色剂已通过 Bradford 变换适配到 PCS 的 D50
+    ['wtpt', xyzTag(0.9505, 1.0, 1.089)],
+    ['rXYZ', xyzTag(0.4361, 0.2225, 0.0139)],
+    ['gXYZ', xyzTag(0.3851, 0.7169, 0.0971)],
+    ['bXYZ', xyzTag(0.1431, 0.0606, 0.7141)],
+    ['rTRC', trc],
+    ['gTRC', trc],
+    ['bTRC', trc],
+  ];
+
+  // 计算标签数据布局，三条相同的色调曲线共用同一份数据
+  const tableSize = 4 + tags.length * 12;
+  const offsets = new Map<Uint8Array, number>();
+  let cursor = align4(128 + tableSize);
+  for (const [, data] of tags) {
+    if (!offsets.has(data)) {
+      offsets.set(data, cursor);
+      cursor = align4(cursor + data.length);
+    }
+  }
+
+  const profile = new Uint8Array(cursor);
+  const view = new DataView(profile.buffer);
+
+  // 文件头
+  view.setUint32(0, profile.length);
+  view.setUint32(8, 0x02100000); // 版本 2.1
+  writeAscii(profile, 12, 'mntr');
+  writeAscii(profile, 16, 'RGB ');
+  writeAscii(profile, 20, 'XYZ ');
+  [2024, 1, 1, 0, 0, 0].forEach((value, i) => view.setUint16(24 + i * 2, value));
+  writeAscii(profile, 36, 'acsp');
+  view.setUint32(64, 0); // 感知渲染意图
+  writeS15Fixed16(view, 68, 0.9642);
+  writeS15Fixed16(view, 72, 1.0);
+  writeS15Fixed16(view, 76, 0.8249);
+
+  // 标签表与标签数据
+  view.setUint32(128, tags.length);
+  tags.forEach(([signature, data], i) => {
+    const entry = 132 + i * 12;
+    const offset = offsets.get(data)!;
+    writeAscii(profile, entry, signature);
+    view.setUint32(entry + 4, offset);
+    view.setUint32(entry + 8, data.length);
+    profile.set(data, offset);
+  });
+
+  cachedProfile = profile;
+  return profile;
+}
+
+// ============================================================================
+// 标签编码
+// ============================================================================
+
+/**
+ * textDescriptionType 标签（ICC v2）
+ * @internal
+ */
+function descriptionTag(text: string): Uint8Array {
+  // 类型签名 + 保留字 + ASCII 长度 + ASCII 文本 + Unicode/ScriptCode 空描述
+  const data = new Uint8Array(12 + text.length + 1 + 8 + 3 + 67);
+  const view = new DataView(data.buffer);
+  writeAscii(data, 0, 'desc');
+  view.setUint32(8, text.length + 1);
+  writeAscii(data, 12, text);
+  return data;
+}
+
+/**
+ * textType 标签
+ * @internal
+ */
+function textTag(text: string): Uint8Array {
+  const data = new Uint8Array(8 + text.length + 1);
+  writeAscii(data, 0, 'text');
+  writeAscii(data, 8, text);
+  return data;
+}
+
+/**
+ * XYZType 标签
+ * @internal
+ */
+function xyzTag(x: number, y: number, z: number): Uint8Array {
+  const data = new Uint8Array(20);
+  const view = new DataView(data.buffer);
+  writeAscii(data, 0, 'XYZ ');
+  writeS15Fixed16(view, 8, x);
+  writeS15Fixed16(view, 12, y);
+  writeS15Fixed16(view, 16, z);
+  return data;
+}
+
+/**
+ * curveType 标签，按 sRGB 分段传递函数采样
+ * @internal
+ */
+function curveTag(): Uint8Array {
+  const data = new Uint8Array(12 + TRC_POINTS * 2);
+  const view = new DataView(data.buffer);
+  writeAscii(data, 0, 'curv');
+  view.setUint32(8, TRC_POINTS);
+  for (let i = 0; i < TRC_POINTS; i++) {
+    const encoded = i / (TRC_POINTS - 1);
+    const linear = encoded <= 0.04045 ? encoded / 12.92 : Math.pow((encoded + 0.055) / 1.055, 2.4);
+    view.setUint16(12 + i * 2, Math.round(linear * 65535));
+  }
+  return data;
+}
+
+// ============================================================================
+// 字节工具
+// ============================================================================
+
+/**
+ * 写入 ASCII 文本（含四字符签名）
+ * @internal
+ */
+function writeAscii(target: Uint8Array, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    target[offset + i] = text.charCodeAt(i) & 0x7f;
+  }
+}
+
+/**
+ * 写入 s15Fixed16Number
+ * @internal
+ */
+function writeS15Fixed16(view: DataView, offset: number, value: number): void {
+  view.setInt32(offset, Math.round(value * 65536));
+}
+
+/**
+ * 向上对齐到 4 字节
+ * @internal
+ */
+function align4(value: number): number {
+  return (value + 3) & ~3;
+}
@@ -0,0 +1,1049 @@
+/**
+ * PDF 结构检查
+ *
+ * 轻量的 PDF 读取器：解析交叉引用表（包括交叉引用流、混合引用文件和增量更新链）、
+ * 对象流与页面树，得到准确的页数、页面尺寸和对象统计。
+ * 只解码结构所需的数据（交叉引用流与对象流），不解析页面内容。
+ *
+ * @packageDocumentation
+ */
+
+import { inflateSync } from 'zlib';
+import type { PDFInspection, PDFObjectStats, PDFPageInfo } from '../types';
+
+/**
+ * 读取 PDF 结构信息
+ *
+ * @param data - PDF 数据
+ * @returns 结构信息
+ * @throws 文件不是有效的 PDF 或交叉引用无法解析时抛出错误
+ */
+export function inspectPDF(data: Uint8Array): PDFInspection {
+  const reader = new PDFStructureReader(data);
+  const pages = reader.readPages();
+
+  return {
+    version: reader.version,
+    fileSize: data.byteLength,
+    pageCount: pages.length,
+    pages,
+    objects: reader.collectObjectStats(),
+    xrefSections: reader.xrefSections,
+    incrementalUpdates: Math.max(0, reader.xrefSections - 1),
+    usesXRefStreams: reader.usesXRefStreams,
+    encrypted: reader.trailer.has('Encrypt'),
+  };
+}
+
+// ============================================================================
+// 对象模型
+// ============================================================================
+
+/**
+ * 名称对象
+ * @internal
+ */
+class PDFNameValue {
+  constructor(readonly value: string) {}
+}
+
+/**
+ * 间接引用
+ * @internal
+ */
+class PDFRefValue {
+  constructor(
+    readonly num: number,
+    readonly gen: number
+  ) {}
+}
+
+/**
+ * 关键字（obj、endobj、stream 等）
+ * @internal
+ */
+class PDFKeyword {
+  constructor(readonly value: string) {}
+}
+
+/**
+ * 字符串对象（只保留原始字节）
+ * @internal
+ */
+class PDFStringValue {
+  constructor(readonly bytes: Uint8Array) {}
+}
+
+/**
+ * 流对象（只记录数据位置，按需解码）
+ * @internal
+ */
+class PDFStreamValue {
+  constructor(
+    readonly dict: PDFDictValue,
+    readonly source: Uint8Array,
+    readonly start: number,
+    readonly length: number
+  ) {}
+}
+
+/**
+ * 字典对象
+ * @internal
+ */
+type PDFDictValue = Map<string, PDFValue>;
+
+/**
+ * PDF 值
+ * @internal
+ */
+type PDFValue =
+  | number
+  | boolean
+  | null
+  | PDFNameValue
+  | PDFRefValue
+  | PDFStringValue
+  | PDFStreamValue
+  | PDFDictValue
+  | PDFValue[];
+
+/**
+ * 交叉引用项
+ * @internal
+ */
+type XRefEntry =
+  | { type: 'offset'; offset: number; gen: number }
+  | { type: 'compressed'; streamNum: number; index: number };
+
+// ============================================================================
+// 词法与语法解析
+// ============================================================================
+
+/**
+ * 空白字符
+ * @internal
+ */
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+
+/**
+ * 分隔符
+ * @internal
+ */
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+/**
+ * PDF 对象解析器
+ * @internal
+ */
+class PDFParser {
+  pos: number;
+
+  constructor(
+    private readonly _data: Uint8Array,
+    start = 0,
+    private readonly _resolveLength?: (ref: PDFRefValue) => PDFValue
+  ) {
+    this.pos = start;
+  }
+
+  /**
+   * 跳过空白与注释
+   */
+  skipWhitespace(): void {
+    while (this.pos < this._data.length) {
+      const byte = this._data[this.pos]!;
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        while (this.pos < this._data.length && this._data[this.pos] !== 0x0a && this._data[this.pos] !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * 读取下一个对象或关键字
+   */
+  readValue(): PDFValue | PDFKeyword {
+    this.skipWhitespace();
+    const byte = this._data[this.pos];
+    if (byte === undefined) {
+      throw new Error('PDF 数据意外结束');
+    }
+
+    switch (byte) {
+      case 0x2f: // /
+        return this._readName();
+      case 0x28: // (
+        return this._readLiteralString();
+      case 0x5b: // [
+        return this._readArray();
+      case 0x3c: // <
+        return this._data[this.pos + 1] === 0x3c ? this._readDict() : this._readHexString();
+      default:
+        break;
+    }
+
+    if ((byte >= 0x30 && byte <= 0x39) || byte === 0x2b || byte === 0x2d || byte === 0x2e) {
+      return this._readNumberOrRef();
+    }
+
+    const word = this._readRegular();
+    switch (word) {
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      case 'null':
+        return null;
+      case '':
+        throw new Error(`无法识别的 PDF 语法，位置 ${this.pos}`);
+      default:
+        return new PDFKeyword(word);
+    }
+  }
+
+  /**
+   * 读取对象，遇到关键字时报错
+   */
+  readObject(): PDFValue {
+    const value = this.readValue();
+    if (value instanceof PDFKeyword) {
+      throw new Error(`意外的关键字 ${value.value}，位置 ${this.pos}`);
+    }
+    return value;
+  }
+
+  /**
+   * 读取一个整数
+   */
+  readInteger(): number {
+    const value = this.readValue();
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      throw new Error(`期望整数，位置 ${this.pos}`);
+    }
+    return value;
+  }
+
+  /**
+   * 读取并校验关键字
+   */
+  expectKeyword(keyword: string): void {
+    const value = this.readValue();
+    if (!(value instanceof PDFKeyword) || value.value !== keyword) {
+      throw new Error(`期望关键字 ${keyword}，位置 ${this.pos}`);
+    }
+  }
+
+  /**
+   * 读取间接对象定义 `num gen obj ... endobj`
+   */
+  readIndirectObject(): { num: number; gen: number; value: PDFValue } {
+    const num = this.readInteger();
+    const gen = this.readInteger();
+    this.expectKeyword('obj');
+    let value = this.readObject();
+
+    if (value instanceof Map) {
+      const save = this.pos;
+      const next = this.readValue();
+      if (next instanceof PDFKeyword && next.value === 'stream') {
+        value = this._readStreamBody(value);
+      } else {
+        this.pos = save;
+      }
+    }
+    return { num, gen, value };
+  }
+
+  /**
+   * 读取流数据位置
+   * @internal
+   */
+  private _readStreamBody(dict: PDFDictValue): PDFStreamValue {
+    // 关键字 stream 之后紧跟 CRLF 或 LF
+    if (this._data[this.pos] === 0x0d) {
+      this.pos++;
+    }
+    if (this._data[this.pos] === 0x0a) {
+      this.pos++;
+    }
+    const start = this.pos;
+
+    let length = dict.get('Length');
+    if (length instanceof PDFRefValue && this._resolveLength) {
+      length = this._resolveLength(length);
+    }
+    if (typeof length !== 'number' || start + length > this._data.length || !this._endsStream(start + length)) {
+      length = this._findEndStream(start) - start;
+    }
+
+    this.pos = start + length;
+    return new PDFStreamValue(dict, this._data, start, length);
+  }
+
+  /**
+   * 判断给定位置之后是否为 endstream
+   * @internal
+   */
+  private _endsStream(offset: number): boolean {
+    const parser = new PDFParser(this._data, offset);
+    try {
+      const value = parser.readValue();
+      return value instanceof PDFKeyword && value.value === 'endstream';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Length 缺失或错误时搜索 endstream
+   * @internal
+   */
+  private _findEndStream(start: number): number {
+    const marker = latin1Bytes('endstream');
+    const index = indexOfBytes(this._data, marker, start);
+    if (index === -1) {
+      throw new Error('流对象缺少 endstream');
+    }
+    let end = index;
+    if (this._data[end - 1] === 0x0a) {
+      end--;
+    }
+    if (this._data[end - 1] === 0x0d) {
+      end--;
+    }
+    return end;
+  }
+
+  /**
+   * 读取常规字符序列
+   * @internal
+   */
+  private _readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this._data.length) {
+      const byte = this._data[this.pos]!;
+      if (WHITESPACE.has(byte) || DELIMITERS.has(byte)) {
+        break;
+      }
+      this.pos++;
+    }
+    return latin1String(this._data, start, this.pos);
+  }
+
+  /**
+   * 读取名称
+   * @internal
+   */
+  private _readName(): PDFNameValue {
+    this.pos++;
+    const raw = this._readRegular();
+    return new PDFNameValue(
+      raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    );
+  }
+
+  /**
+   * 读取数字，后随 `gen R` 时读取为间接引用
+   * @internal
+   */
+  private _readNumberOrRef(): number | PDFRefValue {
+    const value = Number(this._readRegular());
+    if (!Number.isInteger(value) || value < 0) {
+      return value;
+    }
+
+    const save = this.pos;
+    this.skipWhitespace();
+    const genStart = this.pos;
+    while (this.pos < this._data.length && this._data[this.pos]! >= 0x30 && this._data[this.pos]! <= 0x39) {
+      this.pos++;
+    }
+    if (this.pos > genStart) {
+      const gen = Number(latin1String(this._data, genStart, this.pos));
+      this.skipWhitespace();
+      const next = this._data[this.pos + 1];
+      if (this._data[this.pos] === 0x52 && (next === undefined || WHITESPACE.has(next) || DELIMITERS.has(next))) {
+        this.pos++;
+        return new PDFRefValue(value, gen);
+      }
+    }
+    this.pos = save;
+    return value;
+  }
+
+  /**
+   * 读取字面字符串（处理嵌套括号与转义）
+   * @internal
+   */
+  private _readLiteralString(): PDFStringValue {
+    this.pos++;
+    const bytes: number[] = [];
+    let depth = 1;
+
+    while (this.pos < this._data.length) {
+      const byte = this._data[this.pos++]!;
+      if (byte === 0x5c) {
+        const next = this._data[this.pos++]!;
+        const escapes: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+        if (escapes[next] !== undefined) {
+          bytes.push(escapes[next]!);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (let i = 0; i < 2 && this._data[this.pos]! >= 0x30 && this._data[this.pos]! <= 0x37; i++) {
+            octal = octal * 8 + (this._data[this.pos++]! - 0x30);
+          }
+          bytes.push(octal & 0xff);
+        } else if (next === 0x0d || next === 0x0a) {
+          // 行尾续行
+          if (next === 0x0d && this._data[this.pos] === 0x0a) {
+            this.pos++;
+          }
+        } else {
+          bytes.push(next);
+        }
+        continue;
+      }
+      if (byte === 0x28) {
+        depth++;
+      } else if (byte === 0x29) {
+        depth--;
+        if (depth === 0) {
+          break;
+        }
+      }
+      bytes.push(byte);
+    }
+
+    return new PDFStringValue(Uint8Array.from(bytes));
+  }
+
+  /**
+   * 读取十六进制字符串
+   * @internal
+   */
+  private _readHexString(): PDFStringValue {
+    this.pos++;
+    let hex = '';
+    while (this.pos < this._data.length && this._data[this.pos] !== 0x3e) {
+      const byte = this._data[this.pos++]!;
+      if (!WHITESPACE.has(byte)) {
+        hex += String.fromCharCode(byte);
+      }
+    }
+    this.pos++;
+    if (hex.length % 2 === 1) {
+      hex += '0';
+    }
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return new PDFStringValue(bytes);
+  }
+
+  /**
+   * 读取数组
+   * @internal
+   */
+  private _readArray(): PDFValue[] {
+    this.pos++;
+    const items: PDFValue[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      if (this._data[this.pos] === 0x5d) {
+        this.pos++;
+        return items;
+      }
+      items.push(this.readObject());
+    }
+  }
+
+  /**
+   * 读取字典
+   * @internal
+   */
+  private _readDict(): PDFDictValue {
+    this.pos += 2;
+    const dict: PDFDictValue = new Map();
+    for (;;) {
+      this.skipWhitespace();
+      if (this._data[this.pos] === 0x3e && this._data[this.pos + 1] === 0x3e) {
+        this.pos += 2;
+        return dict;
+      }
+      const key = this.readValue();
+      if (!(key instanceof PDFNameValue)) {
+        throw new Error(`字典键必须为名称，位置 ${this.pos}`);
+      }
+      dict.set(key.value, this.readObject());
+    }
+  }
+}
+
+// ============================================================================
+// 结构读取
+// ============================================================================
+
+/**
+ * 页面属性继承状态
+ * @internal
+ */
+interface InheritedPageAttributes {
+  mediaBox?: number[];
+  rotate: number;
+  userUnit: number;
+}
+
+/**
+ * PDF 结构读取器
+ * @internal
+ */
+class PDFStructureReader {
+  /** PDF 版本 */
+  readonly version: string;
+
+  /** 合并后的尾部字典（最新的一节优先） */
+  readonly trailer: PDFDictValue = new Map();
+
+  /** 交叉引用节数量（不含混合引用文件中的附加引用流） */
+  xrefSections = 0;
+
+  /** 是否使用交叉引用流 */
+  usesXRefStreams = false;
+
+  /** 交叉引用表 */
+  private readonly _entries = new Map<number, XRefEntry>();
+
+  /** 已标记为空闲的对象号 */
+  private readonly _freed = new Set<number>();
+
+  /** 已解析对象缓存 */
+  private readonly _objects = new Map<number, PDFValue>();
+
+  /** 已解码对象流缓存 */
+  private readonly _objectStreams = new Map<number, { data: Uint8Array; offsets: Map<number, number> }>();
+
+  constructor(private readonly _data: Uint8Array) {
+    const header = latin1String(_data, 0, Math.min(1024, _data.length));
+    const match = /%PDF-(\d+\.\d+)/.exec(header);
+    if (!match) {
+      throw new Error('不是有效的 PDF 文件：缺少文件头');
+    }
+    this.version = match[1]!;
+    this._readXRefChain(this._findStartXRef());
+
+    // 文档目录中的 /Version 可以覆盖文件头版本
+    const root = this._resolve(this.trailer.get('Root'));
+    const catalogVersion = root instanceof Map ? root.get('Version') : undefined;
+    if (catalogVersion instanceof PDFNameValue && catalogVersion.value > this.version) {
+      this.version = catalogVersion.value;
+    }
+  }
+
+  /**
+   * 遍历页面树
+   */
+  readPages(): PDFPageInfo[] {
+    const root = this._resolve(this.trailer.get('Root'));
+    if (!(root instanceof Map)) {
+      throw new Error('PDF 缺少文档目录（/Root）');
+    }
+    const pages: PDFPageInfo[] = [];
+    this._walkPageTree(root.get('Pages'), { rotate: 0, userUnit: 1 }, pages, new Set());
+    return pages;
+  }
+
+  /**
+   * 统计对象
+   */
+  collectObjectStats(): PDFObjectStats {
+    const stats: PDFObjectStats = {
+      total: 0,
+      streams: 0,
+      objectStreams: 0,
+      compressed: 0,
+      unreadable: 0,
+      byType: {},
+    };
+
+    for (const [num, entry] of this._entries) {
+      stats.total++;
+      if (entry.type === 'compressed') {
+        stats.compressed++;
+      }
+
+      let value: PDFValue;
+      try {
+        value = this._getObject(num);
+      } catch {
+        stats.unreadable++;
+        continue;
+      }
+
+      const dict = value instanceof PDFStreamValue ? value.dict : value instanceof Map ? value : undefined;
+      if (value instanceof PDFStreamValue) {
+        stats.streams++;
+      }
+      const type = dict?.get('Type');
+      if (type instanceof PDFNameValue) {
+        stats.byType[type.value] = (stats.byType[type.value] ?? 0) + 1;
+        if (type.value === 'ObjStm') {
+          stats.objectStreams++;
+        }
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * 查找 startxref 偏移
+   * @internal
+   */
+  private _findStartXRef(): number {
+    const tailStart = Math.max(0, this._data.length - 2048);
+    const tail = latin1String(this._data, tailStart, this._data.length);
+    const index = tail.lastIndexOf('startxref');
+    if (index === -1) {
+      throw new Error('PDF 缺少 startxref');
+    }
+    const parser = new PDFParser(this._data, tailStart + index + 'startxref'.length);
+    return parser.readInteger();
+  }
+
+  /**
+   * 沿 /Prev 读取全部交叉引用节（从最新到最旧）
+   * @internal
+   */
+  private _readXRefChain(startOffset: number): void {
+    const visited = new Set<number>();
+    let offset: number | undefined = startOffset;
+
+    while (offset !== undefined && !visited.has(offset)) {
+      visited.add(offset);
+      this.xrefSections++;
+      const sectionTrailer = this._readXRefSection(offset);
+
+      for (const [key, value] of sectionTrailer) {
+        if (!this.trailer.has(key) && key !== 'Prev' && key !== 'XRefStm') {
+          this.trailer.set(key, value);
+        }
+      }
+
+      const prev = sectionTrailer.get('Prev');
+      offset = typeof prev === 'number' ? prev : undefined;
+    }
+  }
+
+  /**
+   * 读取一节交叉引用（表或流），返回该节的尾部字典
+   * @internal
+   */
+  private _readXRefSection(offset: number): PDFDictValue {
+    const parser = new PDFParser(this._data, offset);
+    parser.skipWhitespace();
+
+    if (latin1String(this._data, parser.pos, parser.pos + 4) !== 'xref') {
+      return this._readXRefStream(offset);
+    }
+
+    parser.expectKeyword('xref');
+    const tableEntries: Array<[number, XRefEntry | undefined]> = [];
+    for (;;) {
+      const token = parser.readValue();
+      if (token instanceof PDFKeyword && token.value === 'trailer') {
+        break;
+      }
+      if (typeof token !== 'number') {
+        throw new Error(`交叉引用表格式错误，位置 ${parser.pos}`);
+      }
+      const count = parser.readInteger();
+      for (let i = 0; i < count; i++) {
+        const entryOffset = parser.readInteger();
+        const gen = parser.readInteger();
+        const kind = parser.readValue();
+        const inUse = kind instanceof PDFKeyword && kind.value === 'n';
+        tableEntries.push([token + i, inUse ? { type: 'offset', offset: entryOffset, gen } : undefined]);
+      }
+    }
+
+    const trailer = parser.readObject();
+    if (!(trailer instanceof Map)) {
+      throw new Error('交叉引用表缺少 trailer 字典');
+    }
+
+    // 混合引用文件：表中的项优先，附加的引用流只补充表中缺少或标记为空闲的对象（通常是压缩对象），
+    // 因此依次登记表中使用中的项、引用流的项、表中的空闲项
+    for (const [num, entry] of tableEntries) {
+      if (entry) {
+        this._addEntry(num, entry);
+      }
+    }
+    const xrefStm = trailer.get('XRefStm');
+    if (typeof xrefStm === 'number') {
+      this._readXRefStream(xrefStm);
+    }
+    for (const [num, entry] of tableEntries) {
+      if (!entry) {
+        this._addEntry(num, undefined);
+      }
+    }
+    return trailer;
+  }
+
+  /**
+   * 读取交叉引用流
+   * @internal
+   */
+  private _readXRefStream(offset: number): PDFDictValue {
+    const { value } = new PDFParser(this._data, offset).readIndirectObject();
+    if (!(value instanceof PDFStreamValue) || (value.dict.get('Type') as PDFNameValue | undefined)?.value !== 'XRef') {
+      throw new Error(`位置 ${offset} 处不是交叉引用表或交叉引用流`);
+    }
+    this.usesXRefStreams = true;
+
+    const widths = value.dict.get('W');
+    if (!Array.isArray(widths) || widths.length !== 3 || !widths.every((w) => typeof w === 'number')) {
+      throw new Error('交叉引用流缺少有效的 /W');
+    }
+    const [w1, w2, w3] = widths as number[];
+    const size = value.dict.get('Size');
+    const index = value.dict.get('Index');
+    const ranges = Array.isArray(index) ? (index as number[]) : [0, typeof size === 'number' ? size : 0];
+
+    const data = decodeStream(value);
+    const entrySize = w1! + w2! + w3!;
+    let pos = 0;
+    for (let r = 0; r + 1 < ranges.length; r += 2) {
+      for (let i = 0; i < ranges[r + 1]!; i++) {
+        if (pos + entrySize > data.length) {
+          break;
+        }
+        const type = w1 === 0 ? 1 : readField(data, pos, w1!);
+        const field2 = readField(data, pos + w1!, w2!);
+        const field3 = readField(data, pos + w1! + w2!, w3!);
+        pos += entrySize;
+
+        const num = ranges[r]! + i;
+        if (type === 1) {
+          this._addEntry(num, { type: 'offset', offset: field2, gen: field3 });
+        } else if (type === 2) {
+          this._addEntry(num, { type: 'compressed', streamNum: field2, index: field3 });
+        } else {
+          this._addEntry(num, undefined);
+        }
+      }
+    }
+
+    return value.dict;
+  }
+
+  /**
+   * 登记交叉引用项（较新的节先读取，已登记的对象号不再覆盖）
+   *
+   * 空闲项同样占位，保证新节中删除的对象不会被旧节的定义复活
+   * @internal
+   */
+  private _addEntry(num: number, entry: XRefEntry | undefined): void {
+    if (this._entries.has(num) || this._freed.has(num)) {
+      return;
+    }
+    if (entry) {
+      this._entries.set(num, entry);
+    } else if (num !== 0) {
+      this._freed.add(num);
+    }
+  }
+
+  /**
+   * 解析间接引用
+   * @internal
+   */
+  private _resolve(value: PDFValue | undefined, depth = 0): PDFValue | undefined {
+    if (value instanceof PDFRefValue) {
+      if (depth > 32) {
+        throw new Error('间接引用层级过深');
+      }
+      return this._resolve(this._getObject(value.num), depth + 1);
+    }
+    return value;
+  }
+
+  /**
+   * 读取对象
+   * @internal
+   */
+  private _getObject(num: number): PDFValue {
+    if (this._objects.has(num)) {
+      return this._objects.get(num)!;
+    }
+    const entry = this._entries.get(num);
+    if (!entry) {
+      return null;
+    }
+
+    let value: PDFValue;
+    if (entry.type === 'offset') {
+      const parser = new PDFParser(this._data, entry.offset, (ref) => this._resolve(ref) ?? null);
+      value = parser.readIndirectObject().value;
+    } else {
+      const stream = this._getObjectStream(entry.streamNum);
+      const offset = stream.offsets.get(num);
+      if (offset === undefined) {
+        throw new Error(`对象流 ${entry.streamNum} 中缺少对象 ${num}`);
+      }
+      value = new PDFParser(stream.data, offset).readObject();
+    }
+
+    this._objects.set(num, value);
+    return value;
+  }
+
+  /**
+   * 解码对象流
+   * @internal
+   */
+  private _getObjectStream(streamNum: number): { data: Uint8Array; offsets: Map<number, number> } {
+    const cached = this._objectStreams.get(streamNum);
+    if (cached) {
+      return cached;
+    }
+
+    const stream = this._getObject(streamNum);
+    if (!(stream instanceof PDFStreamValue)) {
+      throw new Error(`对象 ${streamNum} 不是对象流`);
+    }
+    const count = this._resolve(stream.dict.get('N'));
+    const first = this._resolve(stream.dict.get('First'));
+    if (typeof count !== 'number' || typeof first !== 'number') {
+      throw new Error(`对象流 ${streamNum} 缺少 /N 或 /First`);
+    }
+
+    const data = decodeStream(stream);
+    const parser = new PDFParser(data);
+    const offsets = new Map<number, number>();
+    for (let i = 0; i < count; i++) {
+      const num = parser.readInteger();
+      offsets.set(num, first + parser.readInteger());
+    }
+
+    const decoded = { data, offsets };
+    this._objectStreams.set(streamNum, decoded);
+    return decoded;
+  }
+
+  /**
+   * 递归遍历页面树
+   * @internal
+   */
+  private _walkPageTree(
+    nodeValue: PDFValue | undefined,
+    inherited: InheritedPageAttributes,
+    pages: PDFPageInfo[],
+    visited: Set<number>
+  ): void {
+    if (nodeValue instanceof PDFRefValue) {
+      if (visited.has(nodeValue.num)) {
+        throw new Error(`页面树存在循环引用: ${nodeValue.num} ${nodeValue.gen} R`);
+      }
+      visited.add(nodeValue.num);
+    }
+    const node = this._resolve(nodeValue);
+    if (!(node instanceof Map)) {
+      return;
+    }
+
+    const mediaBox = this._readNumberArray(node.get('MediaBox')) ?? inherited.mediaBox;
+    const rotate = this._resolve(node.get('Rotate'));
+    const userUnit = this._resolve(node.get('UserUnit'));
+    const attributes: InheritedPageAttributes = {
+      mediaBox,
+      rotate: typeof rotate === 'number' ? rotate : inherited.rotate,
+      userUnit: typeof userUnit === 'number' ? userUnit : inherited.userUnit,
+    };
+
+    const type = node.get('Type');
+    const kids = this._resolve(node.get('Kids'));
+    if ((type instanceof PDFNameValue && type.value === 'Pages') || (!type && Array.isArray(kids))) {
+      if (Array.isArray(kids)) {
+        for (const kid of kids) {
+          this._walkPageTree(kid, attributes, pages, visited);
+        }
+      }
+      return;
+    }
+
+    const box = attributes.mediaBox ?? [0, 0, 612, 792];
+    const rotation = ((attributes.rotate % 360) + 360) % 360;
+    const boxWidth = Math.abs(box[2]! - box[0]!) * attributes.userUnit;
+    const boxHeight = Math.abs(box[3]! - box[1]!) * attributes.userUnit;
+    const rotated = rotation === 90 || rotation === 270;
+    pages.push({
+      index: pages.length,
+      width: rotated ? boxHeight : boxWidth,
+      height: rotated ? boxWidth : boxHeight,
+      rotate: rotation,
+      mediaBox: [box[0]!, box[1]!, box[2]!, box[3]!],
+    });
+  }
+
+  /**
+   * 读取数值数组（如 MediaBox）
+   * @internal
+   */
+  private _readNumberArray(value: PDFValue | undefined): number[] | undefined {
+    const array = this._resolve(value);
+    if (!Array.isArray(array) || array.length < 4) {
+      return undefined;
+    }
+    const numbers = array.map((item) => this._resolve(item));
+    return numbers.every((item) => typeof item === 'number') ? (numbers as number[]) : undefined;
+  }
+}
+
+// ============================================================================
+// 流解码
+// ============================================================================
+
+/**
+ * 解码流数据（支持 FlateDecode 与 PNG 预测器）
+ * @internal
+ */
+function decodeStream(stream: PDFStreamValue): Uint8Array {
+  let data = stream.source.subarray(stream.start, stream.start + stream.length);
+  const filterValue = stream.dict.get('Filter');
+  const filters = Array.isArray(filterValue) ? filterValue : filterValue ? [filterValue] : [];
+  const paramsValue = stream.dict.get('DecodeParms');
+  const paramsList = Array.isArray(paramsValue) ? paramsValue : [paramsValue];
+
+  filters.forEach((filter, i) => {
+    const name = filter instanceof PDFNameValue ? filter.value : '';
+    if (name !== 'FlateDecode' && name !== 'Fl') {
+      throw new Error(`不支持的流过滤器: ${name}`);
+    }
+    data = new Uint8Array(inflateSync(data));
+    const params = paramsList[i];
+    if (params instanceof Map) {
+      data = applyPredictor(data, params);
+    }
+  });
+
+  return data;
+}
+
+/**
+ * 还原 PNG 预测器编码
+ * @internal
+ */
+function applyPredictor(data: Uint8Array, params: PDFDictValue): Uint8Array {
+  const predictor = params.get('Predictor');
+  if (typeof predictor !== 'number' || predictor < 10) {
+    if (predictor === 2) {
+      throw new Error('不支持 TIFF 预测器');
+    }
+    return data;
+  }
+
+  const colors = typeof params.get('Colors') === 'number' ? (params.get('Colors') as number) : 1;
+  const bits = typeof params.get('BitsPerComponent') === 'number' ? (params.get('BitsPerComponent') as number) : 8;
+  const columns = typeof params.get('Columns') === 'number' ? (params.get('Columns') as number) : 1;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bits) / 8));
+  const rowLength = Math.ceil((colors * bits * columns) / 8);
+
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const output = new Uint8Array(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const filterType = data[row * (rowLength + 1)]!;
+    const input = row * (rowLength + 1) + 1;
+    const out = row * rowLength;
+    const prev = out - rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[input + i]!;
+      const left = i >= bytesPerPixel ? output[out + i - bytesPerPixel]! : 0;
+      const up = row > 0 ? output[prev + i]! : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[prev + i - bytesPerPixel]! : 0;
+      let value: number;
+      switch (filterType) {
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + Math.floor((left + up) / 2);
+          break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+        default:
+          value = raw;
+      }
+      output[out + i] = value & 0xff;
+    }
+  }
+  return output;
+}
+
+// ============================================================================
+// 字节工具
+// ============================================================================
+
+/**
+ * 读取大端整数字段
+ * @internal
+ */
+function readField(data: Uint8Array, offset: number, width: number): number {
+  let value = 0;
+  for (let i = 0; i < width; i++) {
+    value = value * 256 + data[offset + i]!;
+  }
+  return value;
+}
+
+/**
+ * 按 Latin-1 解码字节区间
+ * @internal
+ */
+function latin1String(data: Uint8Array, start: number, end: number): string {
+  let result = '';
+  for (let i = start; i < end; i++) {
+    result += String.fromCharCode(data[i]!);
+  }
+  return result;
+}
+
+/**
+ * 将 ASCII 字符串转换为字节
+ * @internal
+ */
+function latin1Bytes(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => char.charCodeAt(0));
+}
+
+/**
+ * 查找字节序列
+ * @internal
+ */
+function indexOfBytes(data: Uint8Array, pattern: Uint8Array, from: number): number {
+  outer: for (let i = from; i <= data.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (data[i + j] !== pattern[j]) {
+        continue outer;
+      }
+    }
+    return i;
+  }
+  return -1;
+}
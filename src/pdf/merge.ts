@@ -0,0 +1,148 @@
+/**
+ * PDF 合并
+ *
+ * 将多份 PDF 按顺序合并为一份。文档内链接（如目录项）在合并后仍指向原目标页：
+ * 复制页面前先把链接目标解析为页索引并从注释中摘除，
+ * 复制完成后再按合并后的页面重新写入，避免复制器把目标页作为孤立对象重复复制。
+ *
+ * @packageDocumentation
+ */
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRef,
+  PDFString,
+} from 'pdf-lib';
+import type { PDFObject } from 'pdf-lib';
+import { collectDestinationArrays, resolveDestinationArray } from './destinations';
+
+/**
+ * 合并结果
+ */
+export interface MergedPDF {
+  /** 合并后的文档 */
+  doc: PDFDocument;
+  /** 每份输入在合并文档中的起始页索引 */
+  pageOffsets: number[];
+  /** 每份输入的页数 */
+  pageCounts: number[];
+}
+
+/**
+ * 待重写的内部链接
+ * @internal
+ */
+interface InternalLink {
+  /** 链接所在页索引 */
+  pageIndex: number;
+  /** 链接在页面 `/Annots` 中的位置 */
+  annotIndex: number;
+  /** 目标页索引 */
+  targetPageIndex: number;
+  /** 目标数组中页引用之后的部分（如 `/XYZ left top zoom`） */
+  view: PDFObject[];
+}
+
+/**
+ * 按顺序合并多份 PDF
+ *
+ * @param parts - PDF 数据列表
+ */
+export async function mergePDFDocuments(parts: Uint8Array[]): Promise<MergedPDF> {
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  const pageOffsets: number[] = [];
+  const pageCounts: number[] = [];
+
+  for (const part of parts) {
+    const source = await PDFDocument.load(part, { updateMetadata: false });
+    const links = detachInternalLinks(source);
+    const offset = doc.getPageCount();
+
+    const copied = await doc.copyPages(source, source.getPageIndices());
+    for (const page of copied) {
+      doc.addPage(page);
+    }
+
+    for (const link of links) {
+      const annots = copied[link.pageIndex]?.node.Annots();
+      const annot = annots?.lookupMaybe(link.annotIndex, PDFDict);
+      const target = copied[link.targetPageIndex];
+      if (annot && target) {
+        annot.set(PDFName.of('Dest'), doc.context.obj([target.ref, ...link.view]));
+      }
+    }
+
+    pageOffsets.push(offset);
+    pageCounts.push(copied.length);
+  }
+
+  return { doc, pageOffsets, pageCounts };
+}
+
+/**
+ * 解析并摘除文档内链接的目标
+ * @internal
+ */
+function detachInternalLinks(source: PDFDocument): InternalLink[] {
+  const pages = source.getPages();
+  const pageIndexByRef = new Map<string, number>();
+  pages.forEach((page, index) => pageIndexByRef.set(page.ref.toString(), index));
+
+  let namedDestinations: Map<string, PDFArray> | undefined;
+  const links: InternalLink[] = [];
+
+  pages.forEach((page, pageIndex) => {
+    const annots = page.node.Annots();
+    if (!annots) {
+      return;
+    }
+
+    for (let annotIndex = 0; annotIndex < annots.size(); annotIndex++) {
+      const annot = annots.lookupMaybe(annotIndex, PDFDict);
+      if (annot?.get(PDFName.of('Subtype')) !== PDFName.of('Link')) {
+        continue;
+      }
+
+      const action = annot.lookupMaybe(PDFName.of('A'), PDFDict);
+      const isGoTo = action?.get(PDFName.of('S')) === PDFName.of('GoTo');
+      const rawDest = isGoTo ? action!.get(PDFName.of('D')) : annot.get(PDFName.of('Dest'));
+      if (!rawDest) {
+        continue;
+      }
+
+      let destination: PDFArray | undefined;
+      if (rawDest instanceof PDFString || rawDest instanceof PDFHexString || rawDest instanceof PDFName) {
+        namedDestinations ??= collectDestinationArrays(source);
+        const name =
+          rawDest instanceof PDFName ? rawDest.asString().slice(1) : rawDest.decodeText();
+        destination = namedDestinations.get(name);
+      } else {
+        destination = resolveDestinationArray(source, rawDest);
+      }
+
+      const pageRef = destination?.get(0);
+      const targetPageIndex =
+        pageRef instanceof PDFRef ? pageIndexByRef.get(pageRef.toString()) : undefined;
+      if (!destination || targetPageIndex === undefined) {
+        continue;
+      }
+
+      const view: PDFObject[] = [];
+      for (let i = 1; i < destination.size(); i++) {
+        view.push(destination.get(i));
+      }
+      links.push({ pageIndex, annotIndex, targetPageIndex, view });
+
+      annot.delete(PDFName.of('Dest'));
+      if (isGoTo) {
+        annot.delete(PDFName.of('A'));
+      }
+    }
+  });
+
+  return links;
+}
@@ -0,0 +1,245 @@
+/**
+ * PDF 文档元数据
+ *
+ * 根据卡片元数据生成文档信息，写入 Info 字典与 XMP 元数据流，
+ * 两处内容保持一致，便于文档管理系统检索。
+ *
+ * @packageDocumentation
+ */
+
+import { PDFDocument, PDFName } from 'pdf-lib';
+import type { CardMetadata, PDFDocumentMetadata } from '../types';
+import { escapeHtml } from '../html/template';
+
+/**
+ * 解析后的文档元数据
+ *
+ * 日期统一为 Date，创建工具已补全
+ */
+export interface ResolvedDocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords: string[];
+  language?: string;
+  creator: string;
+  producer?: string;
+  creationDate: Date;
+  modificationDate: Date;
+}
+
+/**
+ * PDF/A 标识（写入 XMP 的 pdfaid 架构）
+ */
+export interface PDFAIdentification {
+  /** 标准部分号（2 或 3） */
+  part: number;
+  /** 符合性级别（如 B） */
+  conformance: string;
+}
+
+/**
+ * 由卡片元数据和调用方覆盖值得到文档元数据
+ *
+ * @param option - `metadata` 选项，为 false 时不写入元数据
+ * @param card - 卡片元数据
+ * @param creator - 默认创建工具名称
+ * @returns 文档元数据；禁用时返回 undefined
+ */
+export function resolveDocumentMetadata(
+  option: boolean | PDFDocumentMetadata | undefined,
+  card: CardMetadata,
+  creator: string
+): ResolvedDocumentMetadata | undefined {
+  if (option === false) {
+    return undefined;
+  }
+  const overrides = typeof option === 'object' ? option : {};
+  const exportedAt = new Date();
+
+  return {
+    title: overrides.title ?? card.name,
+    author: overrides.author ?? card.author,
+    subject: overrides.subject ?? card.description,
+    keywords: overrides.keywords ?? card.tags ?? [],
+    language: overrides.language ?? card.language,
+    creator: overrides.creator ?? creator,
+    producer: overrides.producer,
+    creationDate: parseDate(overrides.creationDate) ?? parseDate(card.createdAt) ?? exportedAt,
+    modificationDate: parseDate(overrides.modificationDate) ?? exportedAt,
+  };
+}
+
+/**
+ * 合并多张卡片的元数据（用于多卡片合并输出）
+ *
+ * 标题与语言取第一张卡片，作者去重后合并，标签取并集，创建时间取最早值
+ *
+ * @param cards - 按顺序排列的卡片元数据
+ */
+export function combineCardMetadata(cards: CardMetadata[]): CardMetadata {
+  const first = cards[0];
+  const authors = unique(cards.map((card) => card.author));
+  const tags = unique(cards.flatMap((card) => card.tags ?? []));
+  const created = cards
+    .map((card) => parseDate(card.createdAt))
+    .filter((date): date is Date => date !== undefined)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+
+  return {
+    name: first?.name ?? '',
+    author: authors.length > 0 ? authors.join(', ') : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    language: first?.language,
+    createdAt: created?.toISOString(),
+  };
+}
+
+/**
+ * 将元数据写入 Info 字典与 XMP 元数据流
+ *
+ * @param doc - PDF 文档
+ * @param metadata - 文档元数据
+ * @param identification - PDF/A 标识，输出 PDF/A 时提供
+ */
+export function writeDocumentMetadata(
+  doc: PDFDocument,
+  metadata: ResolvedDocumentMetadata,
+  identification?: PDFAIdentification
+): void {
+  // 未指定生成器时保留渲染引擎写入的值，保证 Info 与 XMP 一致
+  const producer = metadata.producer ?? doc.getProducer();
+
+  if (metadata.title) {
+    doc.setTitle(metadata.title, { showInWindowTitleBar: true });
+  }
+  if (metadata.author) {
+    doc.setAuthor(metadata.author);
+  }
+  if (metadata.subject) {
+    doc.setSubject(metadata.subject);
+  }
+  if (metadata.keywords.length > 0) {
+    // setKeywords 以空格连接，标签本身可能含空格，因此预先以逗号连接
+    doc.setKeywords([metadata.keywords.join(', ')]);
+  }
+  if (metadata.language) {
+    doc.setLanguage(metadata.language);
+  }
+  if (producer) {
+    doc.setProducer(producer);
+  }
+  doc.setCreator(metadata.creator);
+  doc.setCreationDate(metadata.creationDate);
+  doc.setModificationDate(metadata.modificationDate);
+
+  const xmp = buildXmpPacket({ ...metadata, producer }, identification);
+  const stream = doc.context.stream(xmp, { Type: 'Metadata', Subtype: 'XML' });
+  doc.catalog.set(PDFName.of('Metadata'), doc.context.register(stream));
+}
+
+/**
+ * 生成 XMP 元数据包
+ *
+ * @param metadata - 文档元数据
+ * @param identification - PDF/A 标识
+ * @returns UTF-8 编码的 XMP 数据
+ */
+export function buildXmpPacket(
+  metadata: ResolvedDocumentMetadata,
+  identification?: PDFAIdentification
+): Uint8Array {
+  const properties: string[] = ['<dc:format>application/pdf</dc:format>'];
+
+  if (metadata.title) {
+    properties.push(`<dc:title>${xmpAlt(metadata.title)}</dc:title>`);
+  }
+  if (metadata.author) {
+    properties.push(`<dc:creator><rdf:Seq><rdf:li>${escapeHtml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>`);
+  }
+  if (metadata.subject) {
+    properties.push(`<dc:description>${xmpAlt(metadata.subject)}</dc:description>`);
+  }
+  if (metadata.keywords.length > 0) {
+    const items = metadata.keywords.map((keyword) => `<rdf:li>${escapeHtml(keyword)}</rdf:li>`).join('');
+    properties.push(`<dc:subject><rdf:Bag>${items}</rdf:Bag></dc:subject>`);
+    properties.push(`<pdf:Keywords>${escapeHtml(metadata.keywords.join(', '))}</pdf:Keywords>`);
+  }
+  if (metadata.language) {
+    properties.push(`<dc:language><rdf:Bag><rdf:li>${escapeHtml(metadata.language)}</rdf:li></rdf:Bag></dc:language>`);
+  }
+  if (metadata.producer) {
+    properties.push(`<pdf:Producer>${escapeHtml(metadata.producer)}</pdf:Producer>`);
+  }
+  properties.push(`<xmp:CreatorTool>${escapeHtml(metadata.creator)}</xmp:CreatorTool>`);
+  properties.push(`<xmp:CreateDate>${formatXmpDate(metadata.creationDate)}</xmp:CreateDate>`);
+  properties.push(`<xmp:ModifyDate>${formatXmpDate(metadata.modificationDate)}</xmp:ModifyDate>`);
+  properties.push(`<xmp:MetadataDate>${formatXmpDate(metadata.modificationDate)}</xmp:MetadataDate>`);
+  if (identification) {
+    properties.push(`<pdfaid:part>${identification.part}</pdfaid:part>`);
+    properties.push(`<pdfaid:conformance>${escapeHtml(identification.conformance)}</pdfaid:conformance>`);
+  }
+
+  const xml = [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""' +
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/"' +
+      ' xmlns:pdf="http://ns.adobe.com/pdf/1.3/"' +
+      ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"' +
+      (identification ? ' xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"' : '') +
+      '>',
+    ...properties,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+
+  return new TextEncoder().encode(xml);
+}
+
+/**
+ * 解析日期（ISO 字符串、时间戳或 Date），无效时返回 undefined
+ *
+ * @param value - 日期值
+ */
+export function parseDate(value: Date | string | number | undefined): Date | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date =
+    value instanceof Date
+      ? value
+      : new Date(typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 生成 XMP 语言替代项
+ * @internal
+ */
+function xmpAlt(value: string): string {
+  return `<rdf:Alt><rdf:li xml:lang="x-default">${escapeHtml(value)}</rdf:li></rdf:Alt>`;
+}
+
+/**
+ * 格式化 XMP 日期（与 Info 字典中的 UTC 时间一致，精确到秒）
+ * @internal
+ */
+function formatXmpDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * 去除空值并去重
+ * @internal
+ */
+function unique(values: Array<string | undefined>): string[] {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))];
+}
@@ -0,0 +1,160 @@
+/**
+ * PDF 书签（大纲）生成
+ *
+ * 将文档锚点按层级组织为书签树，写入 PDF Catalog 的 `/Outlines`。
+ * 每个书签指向锚点所在页及页内纵坐标。
+ *
+ * @packageDocumentation
+ */
+
+import { PDFDocument, PDFHexString, PDFName, PDFNull, PDFNumber } from 'pdf-lib';
+import type { PDFDict, PDFRef } from 'pdf-lib';
+import type { DocumentAnchor } from '../html/anchors';
+import type { PDFAnchorPosition } from './destinations';
+
+/**
+ * 书签节点
+ */
+export interface OutlineNode {
+  /** 书签标题 */
+  title: string;
+  /** 目标页索引（从 0 开始） */
+  pageIndex: number;
+  /** 目标页内纵坐标 */
+  top?: number;
+  /** 子书签 */
+  children: OutlineNode[];
+}
+
+/**
+ * 按锚点层级构建书签树
+ *
+ * 层级跳跃（如 h1 后直接出现 h3）时挂到最近的上级节点下；
+ * 未能定位到页面的锚点会被跳过。
+ *
+ * @param anchors - 按文档顺序排列的锚点
+ * @param positions - 锚点 ID 到位置的映射
+ */
+export function buildOutlineTree(
+  anchors: DocumentAnchor[],
+  positions: ReadonlyMap<string, PDFAnchorPosition>
+): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const stack: Array<{ level: number; node: OutlineNode }> = [];
+
+  for (const anchor of anchors) {
+    const position = positions.get(anchor.id);
+    if (!position) {
+      continue;
+    }
+
+    const node: OutlineNode = {
+      title: anchor.title,
+      pageIndex: position.pageIndex,
+      top: position.top,
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1]!.level >= anchor.level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    (parent ? parent.node.children : roots).push(node);
+    stack.push({ level: anchor.level, node });
+  }
+
+  return roots;
+}
+
+/**
+ * 平移书签树的目标页
+ *
+ * @remarks 用于多份 PDF 合并后把各自的书签换算到合并文档的页索引
+ * @param nodes - 书签树
+ * @param pageOffset - 页索引偏移量
+ */
+export function offsetOutline(nodes: OutlineNode[], pageOffset: number): OutlineNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    pageIndex: node.pageIndex + pageOffset,
+    children: offsetOutline(node.children, pageOffset),
+  }));
+}
+
+/**
+ * 将书签树写入 PDF
+ *
+ * @remarks 会替换文档中已有的书签，并设置打开时显示书签面板
+ * @param doc - PDF 文档
+ * @param nodes - 顶层书签
+ */
+export function writeOutline(doc: PDFDocument, nodes: OutlineNode[]): void {
+  if (nodes.length === 0) {
+    return;
+  }
+
+  const pageRefs = doc.getPages().map((page) => page.ref);
+  const outlinesRef = doc.context.nextRef();
+  const { first, last, count } = writeOutlineLevel(doc, nodes, outlinesRef, pageRefs);
+
+  doc.context.assign(
+    outlinesRef,
+    doc.context.obj({
+      Type: 'Outlines',
+      First: first,
+      Last: last,
+      Count: count,
+    })
+  );
+  doc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+/**
+ * 写入同一层级的书签并返回首尾引用和可见项数
+ * @internal
+ */
+function writeOutlineLevel(
+  doc: PDFDocument,
+  nodes: OutlineNode[],
+  parentRef: PDFRef,
+  pageRefs: PDFRef[]
+): { first: PDFRef; last: PDFRef; count: number } {
+  const refs = nodes.map(() => doc.context.nextRef());
+  let count = 0;
+
+  nodes.forEach((node, index) => {
+    const ref = refs[index]!;
+    const dict: PDFDict = doc.context.obj({
+      Title: PDFHexString.fromText(node.title),
+      Parent: parentRef,
+      Dest: [
+        pageRefs[node.pageIndex]!,
+        PDFName.of('XYZ'),
+        PDFNull,
+        node.top === undefined ? PDFNull : PDFNumber.of(node.top),
+        PDFNull,
+      ],
+    });
+
+    if (index > 0) {
+      dict.set(PDFName.of('Prev'), refs[index - 1]!);
+    }
+    if (index < nodes.length - 1) {
+      dict.set(PDFName.of('Next'), refs[index + 1]!);
+    }
+
+    if (node.children.length > 0) {
+      const children = writeOutlineLevel(doc, node.children, ref, pageRefs);
+      dict.set(PDFName.of('First'), children.first);
+      dict.set(PDFName.of('Last'), children.last);
+      // 默认只展开顶层，子书签折叠（负数表示折叠）
+      dict.set(PDFName.of('Count'), PDFNumber.of(-children.count));
+    }
+
+    doc.context.assign(ref, dict);
+    count++;
+  });
+
+  return { first: refs[0]!, last: refs[refs.length - 1]!, count };
+}
@@ -0,0 +1,82 @@
+/**
+ * 页面叠加
+ *
+ * 将另一份 PDF 的页面作为表单对象绘制到文档页面的最上层或最下层。
+ * 只追加内容流，文档原有的链接、命名目标与结构保持不变。
+ *
+ * @packageDocumentation
+ */
+
+import { PDFArray, PDFDocument } from 'pdf-lib';
+import type { PDFEmbeddedPage } from 'pdf-lib';
+
+/**
+ * 图层中的一页
+ */
+export interface LayerPage {
+  /** 图层索引 */
+  layer: number;
+  /** 图层中的页索引 */
+  page: number;
+}
+
+/**
+ * 叠加选项
+ */
+export interface OverlayOptions {
+  /** 绘制在原有内容之下；原内容有不透明背景时会被遮挡 */
+  background?: boolean;
+}
+
+/**
+ * 按页叠加图层
+ *
+ * @remarks 图层页面按原文档页面尺寸缩放绘制；同一图层页面只嵌入一次，多页共用
+ * @param pdfData - 原文档
+ * @param layers - 图层文档列表；未使用的图层可以为空
+ * @param pick - 返回原文档第 i 页（从 0 开始）使用的图层页面，返回 undefined 表示不叠加
+ * @param options - 叠加选项
+ * @returns 叠加后的文档
+ */
+export async function overlayPages(
+  pdfData: Uint8Array,
+  layers: Array<Uint8Array | undefined>,
+  pick: (pageIndex: number) => LayerPage | undefined,
+  options: OverlayOptions = {}
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.load(pdfData, { updateMetadata: false });
+  const sources = await Promise.all(
+    layers.map((layer) => (layer ? PDFDocument.load(layer, { updateMetadata: false }) : undefined))
+  );
+  const embedded = new Map<string, PDFEmbeddedPage>();
+
+  const pages = doc.getPages();
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+    const target = pick(pageIndex);
+    const source = target ? sources[target.layer] : undefined;
+    if (!target || !source || target.page >= source.getPageCount()) {
+      continue;
+    }
+    const key = `${target.layer}:${target.page}`;
+    let layerPage = embedded.get(key);
+    if (!layerPage) {
+      layerPage = await doc.embedPage(source.getPage(target.page));
+      embedded.set(key, layerPage);
+    }
+
+    const page = pages[pageIndex]!;
+    // pdf-lib 绘制前会以 q/Q 包裹页面原有内容，原内容遗留的图形状态不影响图层
+    page.drawPage(layerPage, { x: 0, y: 0, width: page.getWidth(), height: page.getHeight() });
+    if (options.background) {
+      // 新绘制的内容流追加在末尾，移到最前即位于原内容之下
+      const contents = page.node.Contents();
+      if (contents instanceof PDFArray && contents.size() > 1) {
+        const drawn = contents.get(contents.size() - 1);
+        contents.remove(contents.size() - 1);
+        contents.insert(0, drawn);
+      }
+    }
+  }
+
+  return doc.save();
+}
@@ -0,0 +1,545 @@
+/**
+ * PDF/A 归档输出
+ *
+ * 对渲染结果做 PDF/A-2b / PDF/A-3b 所需的后处理：添加 sRGB 输出意图、补全文件标识、
+ * 移除脚本与不允许的动作和注释，并在写出前做本地符合性自检。
+ * XMP 中的 pdfaid 标识由文档元数据模块写入。
+ *
+ * @packageDocumentation
+ */
+
+import { PDFArray, PDFDict, PDFHexString, PDFName, PDFNumber, PDFRawStream, PDFStream, PDFString } from 'pdf-lib';
+import type { PDFDocument, PDFObject } from 'pdf-lib';
+import { createHash } from 'crypto';
+import type { PDFConformanceLevel, PDFConformanceViolation } from '../types';
+import { SRGB_PROFILE_DESCRIPTION, buildSRGBProfile } from './icc';
+import type { PDFAIdentification } from './metadata';
+
+/**
+ * 各符合性级别对应的 XMP 标识
+ */
+export const PDFA_IDENTIFICATION: Readonly<Record<PDFConformanceLevel, PDFAIdentification>> = {
+  'pdfa-2b': { part: 2, conformance: 'B' },
+  'pdfa-3b': { part: 3, conformance: 'B' },
+};
+
+/**
+ * PDF/A 允许的动作类型（Named 动作另有限制）
+ * @internal
+ */
+const ALLOWED_ACTIONS = new Set(['GoTo', 'GoToR', 'GoToE', 'Thread', 'URI', 'Named', 'SubmitForm']);
+
+/**
+ * PDF/A 允许的 Named 动作
+ * @internal
+ */
+const ALLOWED_NAMED_ACTIONS = new Set(['NextPage', 'PrevPage', 'FirstPage', 'LastPage']);
+
+/**
+ * PDF/A 允许的注释类型
+ * @internal
+ */
+const ALLOWED_ANNOTATIONS = new Set([
+  'Text', 'Link', 'FreeText', 'Line', 'Square', 'Circle', 'Polygon', 'PolyLine', 'Highlight',
+  'Underline', 'Squiggly', 'StrikeOut', 'Stamp', 'Caret', 'Ink', 'Popup', 'FileAttachment',
+  'Widget', 'PrinterMark', 'TrapNet', 'Watermark', 'Redact',
+]);
+
+/**
+ * 注释标志位
+ * @internal
+ */
+const ANNOT_FLAG_INVISIBLE = 1;
+const ANNOT_FLAG_HIDDEN = 2;
+const ANNOT_FLAG_PRINT = 4;
+const ANNOT_FLAG_NO_VIEW = 32;
+const ANNOT_FLAG_TOGGLE_NO_VIEW = 256;
+
+/**
+ * 按 PDF/A 要求修正文档
+ *
+ * 只做不改变可见内容的修正；无法自动修正的问题（如字体未嵌入）留给自检报告
+ *
+ * @param doc - PDF 文档
+ * @param level - 符合性级别
+ * @returns 已执行的修正说明
+ */
+export function preparePDFA(doc: PDFDocument, level: PDFConformanceLevel): string[] {
+  const fixes: string[] = [];
+  const { catalog, context } = doc;
+
+  // 文档级脚本与附加动作
+  if (catalog.has(PDFName.of('AA'))) {
+    catalog.delete(PDFName.of('AA'));
+    fixes.push('移除文档附加动作（/AA）');
+  }
+  const openAction = context.lookup(catalog.get(PDFName.of('OpenAction')));
+  if (openAction instanceof PDFDict && !isAllowedAction(openAction)) {
+    catalog.delete(PDFName.of('OpenAction'));
+    fixes.push('移除不允许的打开动作（/OpenAction）');
+  }
+  const names = context.lookup(catalog.get(PDFName.of('Names')));
+  if (names instanceof PDFDict) {
+    if (names.has(PDFName.of('JavaScript'))) {
+      names.delete(PDFName.of('JavaScript'));
+      fixes.push('移除文档级 JavaScript');
+    }
+    if (level === 'pdfa-2b' && names.has(PDFName.of('EmbeddedFiles'))) {
+      names.delete(PDFName.of('EmbeddedFiles'));
+      fixes.push('移除嵌入文件（PDF/A-2b 不允许任意附件）');
+    }
+  }
+
+  // 表单：不允许 XFA 与 NeedAppearances
+  const acroForm = context.lookup(catalog.get(PDFName.of('AcroForm')));
+  if (acroForm instanceof PDFDict) {
+    if (acroForm.has(PDFName.of('XFA'))) {
+      acroForm.delete(PDFName.of('XFA'));
+      fixes.push('移除 XFA 表单数据');
+    }
+    if (acroForm.has(PDFName.of('NeedAppearances'))) {
+      acroForm.delete(PDFName.of('NeedAppearances'));
+      fixes.push('移除表单 NeedAppearances 标志');
+    }
+  }
+
+  // 页面附加动作与注释
+  doc.getPages().forEach((page, index) => {
+    const node = page.node;
+    if (node.has(PDFName.of('AA'))) {
+      node.delete(PDFName.of('AA'));
+      fixes.push(`移除第 ${index + 1} 页的附加动作（/AA）`);
+    }
+
+    const annots = node.Annots();
+    if (!annots) {
+      return;
+    }
+    for (let i = annots.size() - 1; i >= 0; i--) {
+      const annot = context.lookup(annots.get(i));
+      if (!(annot instanceof PDFDict)) {
+        continue;
+      }
+      const subtype = nameOf(annot.get(PDFName.of('Subtype')));
+      if (!subtype || !ALLOWED_ANNOTATIONS.has(subtype) || (level === 'pdfa-2b' && subtype === 'FileAttachment')) {
+        annots.remove(i);
+        fixes.push(`移除第 ${index + 1} 页不允许的注释（${subtype ?? '未知类型'}）`);
+        continue;
+      }
+      if (annot.has(PDFName.of('AA'))) {
+        annot.delete(PDFName.of('AA'));
+        fixes.push(`移除第 ${index + 1} 页注释的附加动作（/AA）`);
+      }
+      const action = context.lookup(annot.get(PDFName.of('A')));
+      if (action instanceof PDFDict && !isAllowedAction(action)) {
+        annot.delete(PDFName.of('A'));
+        fixes.push(`移除第 ${index + 1} 页注释中不允许的动作（${nameOf(action.get(PDFName.of('S'))) ?? '未知类型'}）`);
+      }
+      if (subtype !== 'Popup') {
+        const flags = numberOf(context.lookup(annot.get(PDFName.of('F')))) ?? 0;
+        const fixed =
+          (flags | ANNOT_FLAG_PRINT) &
+          ~(ANNOT_FLAG_INVISIBLE | ANNOT_FLAG_HIDDEN | ANNOT_FLAG_NO_VIEW | ANNOT_FLAG_TOGGLE_NO_VIEW);
+        if (fixed !== flags) {
+          annot.set(PDFName.of('F'), PDFNumber.of(fixed));
+        }
+      }
+    }
+  });
+
+  // sRGB 输出意图
+  if (!hasPDFAOutputIntent(doc)) {
+    const profile = context.register(context.flateStream(buildSRGBProfile(), { N: 3 }));
+    const intent = context.obj({
+      Type: 'OutputIntent',
+      S: 'GTS_PDFA1',
+      OutputConditionIdentifier: PDFString.of(SRGB_PROFILE_DESCRIPTION),
+      Info: PDFString.of(SRGB_PROFILE_DESCRIPTION),
+      RegistryName: PDFString.of('http://www.color.org'),
+      DestOutputProfile: profile,
+    });
+    catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(intent)]));
+    fixes.push('添加 sRGB 输出意图');
+  }
+
+  // 文件标识
+  if (!context.trailerInfo.ID) {
+    const seed = createHash('md5')
+      .update(`${doc.getTitle() ?? ''}|${Date.now()}|${Math.random()}`)
+      .digest('hex');
+    context.trailerInfo.ID = context.obj([PDFHexString.of(seed), PDFHexString.of(seed)]);
+    fixes.push('添加文件标识（/ID）');
+  }
+
+  return fixes;
+}
+
+/**
+ * PDF/A 本地符合性自检
+ *
+ * 覆盖常见的违规项：文件头版本、加密、文件标识、输出意图、XMP 标识、字体嵌入、
+ * 注释与动作、嵌入文件。不替代完整的验证器（如 veraPDF）。
+ *
+ * @param doc - PDF 文档
+ * @param level - 符合性级别
+ * @returns 违规项列表，为空表示通过
+ */
+export function checkPDFAConformance(doc: PDFDocument, level: PDFConformanceLevel): PDFConformanceViolation[] {
+  const violations: PDFConformanceViolation[] = [];
+  const { catalog, context } = doc;
+  const identification = PDFA_IDENTIFICATION[level];
+
+  // 文件结构
+  const version = /%PDF-(\d+)\.(\d+)/.exec(context.header.toString());
+  if (version && Number(version[1]) * 10 + Number(version[2]) > 17) {
+    violations.push({ rule: 'file-header', message: `文件版本 ${version[1]}.${version[2]} 高于 PDF/A 允许的 1.7` });
+  }
+  if (context.trailerInfo.Encrypt) {
+    violations.push({ rule: 'encryption', message: 'PDF/A 文件不允许加密' });
+  }
+  if (!context.trailerInfo.ID) {
+    violations.push({ rule: 'file-identifier', message: '文件尾缺少 /ID 文件标识' });
+  }
+
+  // 输出意图
+  if (!hasPDFAOutputIntent(doc)) {
+    violations.push({ rule: 'output-intent', message: '缺少带目标配置文件的 GTS_PDFA1 输出意图' });
+  }
+
+  // XMP 元数据与标识
+  const metadata = context.lookup(catalog.get(PDFName.of('Metadata')));
+  if (!(metadata instanceof PDFStream)) {
+    violations.push({ rule: 'xmp-metadata', message: '文档目录缺少 XMP 元数据流' });
+  } else if (metadata.dict.has(PDFName.of('Filter'))) {
+    violations.push({ rule: 'xmp-metadata', message: 'XMP 元数据流不应使用压缩过滤器' });
+  } else if (metadata instanceof PDFRawStream) {
+    const xmp = new TextDecoder().decode(metadata.contents);
+    const part = /<pdfaid:part>(\d+)<\/pdfaid:part>/.exec(xmp)?.[1];
+    const conformance = /<pdfaid:conformance>(\w+)<\/pdfaid:conformance>/.exec(xmp)?.[1];
+    if (part !== String(identification.part) || conformance !== identification.conformance) {
+      violations.push({
+        rule: 'xmp-identification',
+        message: `XMP 中的 PDF/A 标识与目标级别不符（期望 part=${identification.part}, conformance=${identification.conformance}）`,
+      });
+    }
+  }
+
+  // 脚本与动作
+  if (catalog.has(PDFName.of('AA'))) {
+    violations.push({ rule: 'action', message: '文档目录包含附加动作（/AA）' });
+  }
+  const names = context.lookup(catalog.get(PDFName.of('Names')));
+  if (names instanceof PDFDict) {
+    if (names.has(PDFName.of('JavaScript'))) {
+      violations.push({ rule: 'javascript', message: '文档包含 JavaScript' });
+    }
+    if (names.has(PDFName.of('EmbeddedFiles'))) {
+      if (level === 'pdfa-2b') {
+        violations.push({ rule: 'embedded-files', message: 'PDF/A-2b 不允许嵌入任意文件' });
+      } else {
+        checkFileSpecifications(doc, names, violations);
+      }
+    }
+  }
+
+  // 页面：注释与字体
+  const visited = new Set<PDFObject>();
+  doc.getPages().forEach((page, index) => {
+    const pageNumber = index + 1;
+    const node = page.node;
+    if (node.has(PDFName.of('AA'))) {
+      violations.push({ rule: 'action', message: '页面包含附加动作（/AA）', page: pageNumber });
+    }
+
+    const resources = context.lookup(node.getInheritableAttribute(PDFName.of('Resources')));
+    if (resources instanceof PDFDict) {
+      checkResources(doc, resources, pageNumber, violations, visited);
+    }
+
+    const annots = node.Annots();
+    for (let i = 0; annots && i < annots.size(); i++) {
+      const annot = context.lookup(annots.get(i));
+      if (annot instanceof PDFDict) {
+        checkAnnotation(doc, annot, level, pageNumber, violations, visited);
+      }
+    }
+  });
+
+  return violations;
+}
+
+// ============================================================================
+// 自检细则
+// ============================================================================
+
+/**
+ * 检查单个注释
+ * @internal
+ */
+function checkAnnotation(
+  doc: PDFDocument,
+  annot: PDFDict,
+  level: PDFConformanceLevel,
+  page: number,
+  violations: PDFConformanceViolation[],
+  visited: Set<PDFObject>
+): void {
+  const { context } = doc;
+  const subtype = nameOf(annot.get(PDFName.of('Subtype')));
+  if (!subtype || !ALLOWED_ANNOTATIONS.has(subtype) || (level === 'pdfa-2b' && subtype === 'FileAttachment')) {
+    violations.push({ rule: 'annotation-type', message: `不允许的注释类型: ${subtype ?? '未知'}`, page });
+    return;
+  }
+
+  if (subtype !== 'Popup') {
+    const flags = numberOf(context.lookup(annot.get(PDFName.of('F')))) ?? 0;
+    if (!(flags & ANNOT_FLAG_PRINT) || flags & (ANNOT_FLAG_INVISIBLE | ANNOT_FLAG_HIDDEN | ANNOT_FLAG_NO_VIEW)) {
+      violations.push({ rule: 'annotation-flags', message: `${subtype} 注释必须可打印且可见`, page });
+    }
+  }
+
+  const action = context.lookup(annot.get(PDFName.of('A')));
+  if (action instanceof PDFDict && !isAllowedAction(action)) {
+    violations.push({
+      rule: 'action',
+      message: `注释包含不允许的动作: ${nameOf(action.get(PDFName.of('S'))) ?? '未知'}`,
+      page,
+    });
+  }
+  if (annot.has(PDFName.of('AA'))) {
+    violations.push({ rule: 'action', message: '注释包含附加动作（/AA）', page });
+  }
+
+  // 除 Link 与 Popup 外，有面积的注释必须提供外观流
+  const appearance = context.lookup(annot.get(PDFName.of('AP')));
+  if (subtype !== 'Link' && subtype !== 'Popup' && hasArea(context.lookup(annot.get(PDFName.of('Rect'))))) {
+    if (!(appearance instanceof PDFDict) || !appearance.has(PDFName.of('N'))) {
+      violations.push({ rule: 'annotation-appearance', message: `${subtype} 注释缺少外观流（/AP /N）`, page });
+    }
+  }
+  if (appearance instanceof PDFDict) {
+    const normal = context.lookup(appearance.get(PDFName.of('N')));
+    if (normal instanceof PDFStream) {
+      checkFormXObject(doc, normal, page, violations, visited);
+    }
+  }
+}
+
+/**
+ * 递归检查资源字典中的字体、表单 XObject 与图案
+ * @internal
+ */
+function checkResources(
+  doc: PDFDocument,
+  resources: PDFDict,
+  page: number,
+  violations: PDFConformanceViolation[],
+  visited: Set<PDFObject>
+): void {
+  if (visited.has(resources)) {
+    return;
+  }
+  visited.add(resources);
+  const { context } = doc;
+
+  const fonts = context.lookup(resources.get(PDFName.of('Font')));
+  if (fonts instanceof PDFDict) {
+    for (const [name, value] of fonts.entries()) {
+      const font = context.lookup(value);
+      if (font instanceof PDFDict && !visited.has(font)) {
+        visited.add(font);
+        checkFont(doc, font, name.decodeText(), page, violations, visited);
+      }
+    }
+  }
+
+  for (const category of ['XObject', 'Pattern']) {
+    const entries = context.lookup(resources.get(PDFName.of(category)));
+    if (!(entries instanceof PDFDict)) {
+      continue;
+    }
+    for (const [, value] of entries.entries()) {
+      const object = context.lookup(value);
+      if (object instanceof PDFStream) {
+        checkFormXObject(doc, object, page, violations, visited);
+      }
+    }
+  }
+}
+
+/**
+ * 检查表单 XObject / 平铺图案的资源
+ * @internal
+ */
+function checkFormXObject(
+  doc: PDFDocument,
+  stream: PDFStream,
+  page: number,
+  violations: PDFConformanceViolation[],
+  visited: Set<PDFObject>
+): void {
+  const subtype = nameOf(stream.dict.get(PDFName.of('Subtype')));
+  if (subtype === 'PS') {
+    violations.push({ rule: 'postscript', message: '不允许 PostScript XObject', page });
+    return;
+  }
+  const resources = doc.context.lookup(stream.dict.get(PDFName.of('Resources')));
+  if (resources instanceof PDFDict) {
+    checkResources(doc, resources, page, violations, visited);
+  }
+}
+
+/**
+ * 检查字体是否嵌入
+ * @internal
+ */
+function checkFont(
+  doc: PDFDocument,
+  font: PDFDict,
+  resourceName: string,
+  page: number,
+  violations: PDFConformanceViolation[],
+  visited: Set<PDFObject>
+): void {
+  const { context } = doc;
+  const subtype = nameOf(font.get(PDFName.of('Subtype')));
+
+  // Type3 字体的字形在文档内定义，检查其资源即可
+  if (subtype === 'Type3') {
+    const resources = context.lookup(font.get(PDFName.of('Resources')));
+    if (resources instanceof PDFDict) {
+      checkResources(doc, resources, page, violations, visited);
+    }
+    return;
+  }
+
+  let target = font;
+  if (subtype === 'Type0') {
+    const descendants = context.lookup(font.get(PDFName.of('DescendantFonts')));
+    const descendant = descendants instanceof PDFArray ? context.lookup(descendants.get(0)) : undefined;
+    if (!(descendant instanceof PDFDict)) {
+      violations.push({ rule: 'font-embedding', message: `字体 ${resourceName} 缺少后代字体`, page });
+      return;
+    }
+    target = descendant;
+  }
+
+  const baseFont = nameOf(target.get(PDFName.of('BaseFont'))) ?? resourceName;
+  const descriptor = context.lookup(target.get(PDFName.of('FontDescriptor')));
+  const embedded =
+    descriptor instanceof PDFDict &&
+    ['FontFile', 'FontFile2', 'FontFile3'].some((key) => descriptor.has(PDFName.of(key)));
+  if (!embedded) {
+    violations.push({ rule: 'font-embedding', message: `字体未嵌入: ${baseFont}`, page });
+  }
+}
+
+/**
+ * 检查 PDF/A-3 嵌入文件的文件规范
+ * @internal
+ */
+function checkFileSpecifications(doc: PDFDocument, names: PDFDict, violations: PDFConformanceViolation[]): void {
+  const { context } = doc;
+  const tree = context.lookup(names.get(PDFName.of('EmbeddedFiles')));
+  const pending: PDFObject[] = tree ? [tree] : [];
+
+  while (pending.length > 0) {
+    const node = context.lookup(pending.pop());
+    if (!(node instanceof PDFDict)) {
+      continue;
+    }
+    const kids = context.lookup(node.get(PDFName.of('Kids')));
+    if (kids instanceof PDFArray) {
+      pending.push(...kids.asArray());
+    }
+    const entries = context.lookup(node.get(PDFName.of('Names')));
+    if (!(entries instanceof PDFArray)) {
+      continue;
+    }
+    for (let i = 1; i < entries.size(); i += 2) {
+      const spec = context.lookup(entries.get(i));
+      if (spec instanceof PDFDict && !spec.has(PDFName.of('AFRelationship'))) {
+        const fileName = spec.get(PDFName.of('UF')) ?? spec.get(PDFName.of('F'));
+        const label = fileName instanceof PDFString || fileName instanceof PDFHexString ? fileName.decodeText() : '';
+        violations.push({ rule: 'embedded-files', message: `嵌入文件 ${label} 缺少 /AFRelationship` });
+      }
+    }
+  }
+}
+
+// ============================================================================
+// 内部工具
+// ============================================================================
+
+/**
+ * 文档是否已有带目标配置文件的 PDF/A 输出意图
+ * @internal
+ */
+function hasPDFAOutputIntent(doc: PDFDocument): boolean {
+  const { context } = doc;
+  const intents = context.lookup(doc.catalog.get(PDFName.of('OutputIntents')));
+  if (!(intents instanceof PDFArray)) {
+    return false;
+  }
+  return intents.asArray().some((item) => {
+    const intent = context.lookup(item);
+    return (
+      intent instanceof PDFDict &&
+      nameOf(intent.get(PDFName.of('S'))) === 'GTS_PDFA1' &&
+      context.lookup(intent.get(PDFName.of('DestOutputProfile'))) instanceof PDFStream
+    );
+  });
+}
+
+/**
+ * 判断动作（含 /Next 链）是否均为允许的类型
+ * @internal
+ */
+function isAllowedAction(action: PDFDict, depth = 0): boolean {
+  const type = nameOf(action.get(PDFName.of('S')));
+  if (!type || !ALLOWED_ACTIONS.has(type)) {
+    return false;
+  }
+  if (type === 'Named' && !ALLOWED_NAMED_ACTIONS.has(nameOf(action.get(PDFName.of('N'))) ?? '')) {
+    return false;
+  }
+  const next = action.context.lookup(action.get(PDFName.of('Next')));
+  if (next instanceof PDFDict && depth < 16) {
+    return isAllowedAction(next, depth + 1);
+  }
+  if (next instanceof PDFArray) {
+    return next.asArray().every((item) => {
+      const nested = action.context.lookup(item);
+      return !(nested instanceof PDFDict) || (depth < 16 && isAllowedAction(nested, depth + 1));
+    });
+  }
+  return true;
+}
+
+/**
+ * 矩形是否有面积
+ * @internal
+ */
+function hasArea(rect: PDFObject | undefined): boolean {
+  if (!(rect instanceof PDFArray) || rect.size() < 4) {
+    return false;
+  }
+  const [x1, y1, x2, y2] = rect.asArray().map((item) => numberOf(item) ?? 0);
+  return x1 !== x2 && y1 !== y2;
+}
+
+/**
+ * 读取名称对象的值
+ * @internal
+ */
+function nameOf(value: PDFObject | undefined): string | undefined {
+  return value instanceof PDFName ? value.decodeText() : undefined;
+}
+
+/**
+ * 读取数字对象的值
+ * @internal
+ */
+function numberOf(value: PDFObject | undefined): number | undefined {
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
@@ -3,15 +3,18 @@
  *
  * 将薯片卡片文件（.card）转换为 PDF 文档。
  * 采用两阶段转换架构：先使用 CardtoHTMLPlugin 生成 HTML，
- * 再使用 Puppeteer 无头浏览器生成 PDF。
+ * 再通过渲染引擎（Puppeteer、Playwright 或自定义实现）在无头浏览器中生成 PDF。
  *
  * @packageDocumentation
  */
 
+import type { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
+import { PDFDocument } from 'pdf-lib';
 import type {
   ConversionSource,
   ConversionAppearanceProfile,
+  ConversionError,
 } from '@chips/cardto-html-plugin';
 import {
   CardtoHTMLPlugin,
@@ -19,15 +22,142 @@ import {
   resolveConversionAppearance,
 } from '@chips/cardto-html-plugin';
 import type {
+  CardMetadata,
+  CardtoPDFPluginOptions,
   PageFormat,
+  PageMargin,
   PageOrientation,
+  PDFBookChapter,
+  PDFBookOptions,
+  PDFBookResult,
+  PDFConformanceLevel,
+  PDFConformanceReport,
   PDFConversionOptions,
   PDFConversionResult,
   PDFConverterPlugin,
+  PDFEncryptionOptions,
   PDFConversionStatus,
+  PDFConverterRegistration,
+  PDFImageCompressionReport,
+  PDFInspection,
+  PDFPluginContext,
+  PDFPluginMetadata,
+  PDFPluginState,
+  PDFPluginStopOptions,
+  PDFProgressInfo,
+  PDFRenderEngine,
+  PDFRenderOptions,
+  PDFRenderPage,
+  PDFConversionStream,
+  PDFStreamOptions,
+  PDFTaskCancelResult,
+  PDFTaskStatus,
+  PDFUnresolvedResource,
+  PDFBlockedRequest,
+  PDFNetworkOptions,
+  PDFWatermarkOptions,
+  PDFSplitBaseCard,
+  PDFValidationIssue,
+  PDFErrorInfo,
+  PDFPageLoadOptions,
+  PDFBaseCardStats,
+  PDFConversionStats,
+  PDFPhaseTimings,
   PDFValidationResult,
+  PDFConfigurableOptions,
+  PDFConfigUpdateResult,
+  PDFPluginConfig,
+  PDFOptionsSchema,
+  PDFSchemaLocale,
+  PDFHeaderFooterContent,
 } from './types';
 import { PDFErrorCode } from './types';
+import { OPTION_DESCRIPTORS, isProtocolVersionSupported } from './core/capabilities';
+import { ChunkChannel } from './core/chunk-channel';
+import { buildOptionsSchema, validateOptionsSchema } from './core/options-schema';
+import {
+  applyConfigUpdate,
+  checkConfigKeys,
+  checkPersistable,
+  cloneConfig,
+  groupConfig,
+  readConfigFile,
+  writeConfigFile,
+} from './core/config';
+import {
+  FileWriteError,
+  PageLoadTimeoutError,
+  PDFConversionError,
+  isTimeoutError,
+  toErrorInfo,
+} from './core/errors';
+import { ENTRY_URL, ResourceInterceptor } from './core/network-policy';
+import { ConversionTask, TaskCancelledError, TaskManager } from './core/task-manager';
+import { createRenderEngine } from './engines/factory';
+import { extractCardMetadata } from './html/card-metadata';
+import {
+  ANCHOR_ID_PREFIX,
+  BASE_CARD_SELECTOR,
+  collectDocumentAnchors,
+  mountAnchorLinks,
+} from './html/anchors';
+import type { DocumentAnchor } from './html/anchors';
+import { GENERATED_ATTRIBUTE, buildCoverPage, normalizeCoverOptions } from './html/cover';
+import {
+  DEFAULT_HEADER_FOOTER_COLOR,
+  buildBlankPages,
+  buildHeaderFooterLayer,
+  readHeaderFooterTheme,
+  resolveHeaderFooter,
+  sanitizeHeaderFooterTemplate,
+} from './html/header-footer';
+import type { HeaderFooterLayer } from './html/header-footer';
+import {
+  OPTIMIZED_IMAGE_ATTRIBUTE,
+  TARGET_SIZE_ATTEMPTS,
+  createCompressionReport,
+  optimizeDocumentImages,
+  reduceImageCompression,
+  resolveImageCompression,
+} from './html/images';
+import type { ImageOptimizationSummary, ResolvedImageCompression } from './html/images';
+import {
+  BOUNDARY_ID_PREFIX,
+  buildPaginationStyles,
+  findSplitBaseCards,
+  markBaseCardBoundaries,
+  resolvePagination,
+} from './html/pagination';
+import {
+  applyRenderErrorPolicy,
+  BaseCardRenderError,
+  DEFAULT_RENDER_ERROR_POLICY,
+  formatRenderFailure,
+  RENDER_ERROR_SELECTOR,
+} from './html/render-errors';
+import { resolveDocumentResources } from './html/resources';
+import { buildTocSection, mountTocSection, normalizeTocOptions } from './html/toc';
+import {
+  WATERMARK_PIXEL_RATIO,
+  WATERMARK_TEXT_CLASS,
+  buildWatermarkPage,
+  rasterizeWatermarkText,
+  resolveWatermark,
+  selectPages,
+} from './html/watermark';
+import type { ResolvedWatermark } from './html/watermark';
+import { collectNamedDestinations, readNamedDestinations } from './pdf/destinations';
+import { MAX_AES256_PASSWORD_BYTES, encryptPDF } from './pdf/encryption';
+import { inspectPDF } from './pdf/inspector';
+import { mergePDFDocuments } from './pdf/merge';
+import { overlayPages } from './pdf/overlay';
+import { combineCardMetadata, parseDate, resolveDocumentMetadata, writeDocumentMetadata } from './pdf/metadata';
+import type { ResolvedDocumentMetadata } from './pdf/metadata';
+import { PDFA_IDENTIFICATION, checkPDFAConformance, preparePDFA } from './pdf/pdfa';
+import { buildOutlineTree, offsetOutline, writeOutline } from './pdf/outline';
+import type { OutlineNode } from './pdf/outline';
+import { appendToHead, prependToBody } from './html/document';
+import { millimetersToPixels, resolvePageBox, toMillimeters } from './utils/page-geometry';
 
 // ============================================================================
 // 插件元数据
@@ -44,20 +174,153 @@ const PLUGIN_METADATA = {
   sourceTypes: ['.card', 'card'],
   targetType: 'pdf',
   description: '将薯片卡片文件转换为 PDF 文档，支持分页、页眉页脚和自定义边距',
+  author: 'Chips Ecosystem Team',
+  license: 'MIT',
+  protocolVersion: { min: '1.0.0', max: '2.0.0' },
 } as const;
 
+/**
+ * 不再接收新任务的生命周期状态
+ * @internal
+ */
+const NOT_ACCEPTING_STATES: ReadonlySet<PDFPluginState> = new Set(['stopping', 'stopped', 'destroyed']);
+
 /**
  * 默认转换选项
  * @internal
  */
 const DEFAULT_OPTIONS: Pick<
   PDFConversionOptions,
-  'displayHeaderFooter' | 'generateOutline'
+  'displayHeaderFooter' | 'generateOutline' | 'cover' | 'toc' | 'metadata'
 > = {
   displayHeaderFooter: false,
   generateOutline: false,
+  cover: false,
+  toc: false,
+  metadata: true,
 };
 
+/**
+ * 页面加载的默认超时与重试
+ * @internal
+ */
+const DEFAULT_PAGE_LOAD: Required<PDFPageLoadOptions> = {
+  timeout: 30000,
+  retries: 0,
+  retryDelay: 1000,
+};
+
+/**
+ * 流式输出的默认数据块大小（字节）
+ * @internal
+ */
+const DEFAULT_STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * 单边纸张长度上限（200 英寸，Chromium 打印接口上限）
+ * @internal
+ */
+const MAX_PAGE_LENGTH_MM = 5080;
+
+/**
+ * 已解析的页面设置
+ * @internal
+ */
+interface ResolvedPageSettings {
+  format: PageFormat;
+  orientation: PageOrientation;
+  margin: PageMargin;
+  printBackground: boolean;
+  width?: string;
+  height?: string;
+  scale: number;
+  preferCSSPageSize: boolean;
+  fitToSinglePage: boolean;
+}
+
+/**
+ * 单张卡片的渲染产物
+ * @internal
+ */
+interface RenderedDocument {
+  /** PDF 数据；已直接转发浏览器的 PDF 流时为空 */
+  pdfData?: Uint8Array;
+  /** 结构信息；已直接转发浏览器的 PDF 流或结构检查失败时为空 */
+  inspection?: PDFInspection;
+  /** 文件大小（字节） */
+  fileSize: number;
+  metadata: CardMetadata;
+  unresolvedResources: PDFUnresolvedResource[];
+  /** 已内联的文件数 */
+  inlinedResources: number;
+  /** 基础卡片统计 */
+  baseCards: PDFBaseCardStats;
+  /** 各阶段耗时 */
+  timings: PDFPhaseTimings;
+  /** 渲染过程中的警告 */
+  warnings: string[];
+  /** 被拦截的请求；引擎不支持请求拦截时为空 */
+  blockedRequests?: PDFBlockedRequest[];
+  /** 仍被分页截断的基础卡片；未启用分页控制或直接转发 PDF 流时为空 */
+  splitBaseCards?: PDFSplitBaseCard[];
+  outline: OutlineNode[];
+  conformance?: PDFConformanceReport;
+  compression?: { settings: ResolvedImageCompression; summary: ImageOptimizationSummary };
+}
+
+/**
+ * 一次转换使用的页眉页脚模板
+ * @internal
+ */
+interface HeaderFooterLayers {
+  /** 默认（奇数页）模板 */
+  defaults: HeaderFooterLayer;
+  /** 首页或偶数页使用不同模板时的变体；首页为 false 表示不显示 */
+  variants?: { firstPage?: HeaderFooterLayer | false; evenPages?: HeaderFooterLayer };
+}
+
+/**
+ * 进度报告函数
+ * @internal
+ */
+type ProgressReporter = (
+  status: PDFConversionStatus,
+  percent: number,
+  step?: string,
+  bytes?: Pick<PDFProgressInfo, 'bytesWritten' | 'totalBytes'>
+) => void;
+
+/**
+ * 流式输出函数，写入一个数据块并报告进度
+ * @internal
+ */
+type ChunkWriter = (chunk: Uint8Array, totalBytes?: number) => Promise<void>;
+
+/**
+ * 流式输出目标
+ * @internal
+ */
+interface StreamOutput {
+  channel: ChunkChannel;
+  chunkSize: number;
+}
+
+/**
+ * 带错误码的校验错误
+ * @internal
+ */
+type ValidationIssue = PDFValidationIssue;
+
+/**
+ * 生成选项值无效的校验错误
+ *
+ * @param field - 出错字段的完整路径，如 `toc.maxDepth`；顶层选项名取第一段
+ * @internal
+ */
+function invalidOption(field: string, message: string): ValidationIssue {
+  return { code: PDFErrorCode.INVALID_OPTION, option: field.split('.')[0], field, message };
+}
+
 // ============================================================================
 // 主插件类
 // ============================================================================
@@ -112,13 +375,162 @@ export class CardtoPDFPlugin implements PDFConverterPlugin {
   /** CardtoHTMLPlugin 实例 */
   private readonly _htmlPlugin: CardtoHTMLPlugin;
 
+  /** 转换任务管理器 */
+  private readonly _tasks = new TaskManager();
+
+  /** 渲染引擎 */
+  private readonly _engine: PDFRenderEngine;
+
+  /** 生命周期状态 */
+  private _state: PDFPluginState = 'created';
+
+  /** 宿主注入的上下文 */
+  private _context: PDFPluginContext = {};
+
+  /** 是否已向文件转换接口模块注册 */
+  private _registered = false;
+
+  /** 配置文件路径 */
+  private readonly _configPath?: string;
+
+  /** 与出厂默认值不同的配置项；更新时整体替换，进行中的任务保留各自的副本 */
+  private _config: PDFConfigurableOptions = {};
+
+  /** 最近一次配置文件写入，写入按调用顺序进行 */
+  private _configWrite: Promise<void> = Promise.resolve();
+
   // ========== 构造函数 ==========
 
   /**
    * 创建 CardtoPDFPlugin 实例
+   *
+   * @param options - 插件构造选项
    */
-  constructor() {
+  constructor(options: CardtoPDFPluginOptions = {}) {
     this._htmlPlugin = new CardtoHTMLPlugin();
+    this._engine =
+      typeof options.engine === 'object'
+        ? options.engine
+        : createRenderEngine(options.engine ?? 'auto', options.browser);
+    this._configPath = options.configPath;
+  }
+
+  // ========== 生命周期 ==========
+
+  /** 当前生命周期状态 */
+  get state(): PDFPluginState {
+    return this._state;
+  }
+
+  /**
+   * 初始化插件
+   *
+   * 保存宿主注入的核心服务引用；指定了配置文件时读取已保存的配置，不执行其他耗时操作
+   *
+   * @param context - 初始化上下文
+   * @throws PDFConversionError 配置文件无法读取或包含无效的配置时
+   */
+  async initialize(context: PDFPluginContext = {}): Promise<void> {
+    this._assertNotDestroyed();
+    if (this._state === 'created') {
+      await this._loadConfig();
+    }
+    this._context = context;
+    if (this._state === 'created') {
+      this._state = 'initialized';
+    }
+  }
+
+  /**
+   * 启动插件
+   *
+   * 向文件转换接口模块注册转换能力并开始接收转换请求；停止后可再次启动
+   */
+  async start(): Promise<void> {
+    this._assertNotDestroyed();
+    if (this._state === 'stopping') {
+      throw new Error('插件正在停止，无法启动');
+    }
+    if (!this._registered && this._context.conversion) {
+      await this._context.conversion.register(this.getRegistration());
+      this._registered = true;
+    }
+    this._state = 'running';
+  }
+
+  /**
+   * 停止插件
+   *
+   * 立即拒绝新的转换请求，并等待进行中的任务完成
+   *
+   * @param options - 停止选项，指定 `timeout` 时超时后取消剩余任务
+   */
+  async stop(options: PDFPluginStopOptions = {}): Promise<void> {
+    if (this._state === 'stopped' || this._state === 'destroyed') {
+      return;
+    }
+    this._state = 'stopping';
+    await this._drainTasks(options.timeout);
+    this._state = 'stopped';
+  }
+
+  /**
+   * 销毁插件
+   *
+   * 取消进行中的任务（未写完的输出文件随任务取消一并删除），
+   * 注销转换能力并关闭浏览器。销毁后插件不可再使用。
+   */
+  async destroy(): Promise<void> {
+    if (this._state === 'destroyed') {
+      return;
+    }
+    await this.stop({ timeout: 0 });
+
+    try {
+      if (this._registered && this._context.conversion) {
+        await this._context.conversion.unregister(this.id);
+      }
+    } finally {
+      this._registered = false;
+      await this._engine.close();
+      this._state = 'destroyed';
+    }
+  }
+
+  /**
+   * 获取插件元数据
+   */
+  getMetadata(): PDFPluginMetadata {
+    return {
+      id: PLUGIN_METADATA.id,
+      name: PLUGIN_METADATA.name,
+      version: PLUGIN_METADATA.version,
+      description: PLUGIN_METADATA.description,
+      author: PLUGIN_METADATA.author,
+      license: PLUGIN_METADATA.license,
+      protocolVersion: { ...PLUGIN_METADATA.protocolVersion },
+    };
+  }
+
+  /**
+   * 获取转换能力注册描述
+   */
+  getRegistration(): PDFConverterRegistration {
+    return {
+      metadata: this.getMetadata(),
+      sourceTypes: [...this.sourceTypes],
+      targetType: this.targetType,
+      options: OPTION_DESCRIPTORS.map((descriptor) => ({ ...descriptor })),
+    };
+  }
+
+  /**
+   * 判断宿主协议版本是否兼容
+   *
+   * @param version - 宿主协议版本
+   */
+  supportsProtocol(version: string): boolean {
+    return isProtocolVersionSupported(version, PLUGIN_METADATA.protocolVersion);
   }
 
   // ========== 公开方法 ==========
@@ -134,171 +546,1151 @@ export class CardtoPDFPlugin implements PDFConverterPlugin {
     source: ConversionSource,
     options?: PDFConversionOptions
   ): Promise<PDFConversionResult> {
-    const taskId = uuidv4();
-    const mergedOptions = this._mergeOptions(options);
+    return this._runTask(options, (task, startTime) =>
+      this._runConversion(task, source, options, startTime)
+    );
+  }
+
+  /**
+   * 将多张卡片按顺序合并为一份 PDF
+   *
+   * 每张卡片从新的一页开始，并生成以卡片名称为标题的章节书签；
+   * 开启 `generateOutline` 时卡片内部的书签嵌套在章节书签之下。
+   * 封面、目录等选项对每张卡片分别生效。
+   *
+   * @example
+   * ```typescript
+   * const result = await plugin.convertBook(
+   *   [
+   *     { type: 'path', path: '/path/to/intro.card', fileType: 'card' },
+   *     { type: 'path', path: '/path/to/chapter-1.card', fileType: 'card' },
+   *   ],
+   *   { outputPath: '/path/to/book.pdf', continueOnError: true }
+   * );
+   *
+   * for (const chapter of result.chapters) {
+   *   console.log(chapter.title, chapter.startPage, chapter.endPage);
+   * }
+   * ```
+   *
+   * @param sources - 按顺序排列的转换源
+   * @param options - 转换选项
+   * @returns 合并结果，包含每张卡片的页码范围和失败信息
+   */
+  async convertBook(
+    sources: ConversionSource[],
+    options?: PDFBookOptions
+  ): Promise<PDFBookResult> {
+    return this._runTask(options, (task, startTime) =>
+      this._runBookConversion(task, sources, options, startTime)
+    ).then((result) => ({ chapters: [], ...result }));
+  }
+
+  /**
+   * 以 Node.js 可读流输出 PDF
+   *
+   * 转换立即开始，数据按消费者的读取速度生成；销毁流即取消任务。
+   * 无需书签、文档元数据、PDF/A、加密或目标文件大小等后处理且引擎支持时，
+   * 直接转发浏览器生成的 PDF 流，否则分块发送生成好的文档。
+   *
+   * @param source - 转换源
+   * @param options - 流式转换选项
+   * @returns 任务ID、可读流和转换结果
+   */
+  async convertToStream(
+    source: ConversionSource,
+    options?: PDFStreamOptions
+  ): Promise<PDFConversionStream<Readable>> {
+    const { Readable } = await import('stream');
+    const { taskId, channel, result } = this._startStream(source, options);
+    return { taskId, stream: Readable.from(channel, { objectMode: false }), result };
+  }
+
+  /**
+   * 以 Web `ReadableStream` 输出 PDF
+   *
+   * @remarks 行为与 {@link CardtoPDFPlugin.convertToStream} 相同，取消流即取消任务
+   * @param source - 转换源
+   * @param options - 流式转换选项
+   * @returns 任务ID、可读流和转换结果
+   */
+  async convertToWebStream(
+    source: ConversionSource,
+    options?: PDFStreamOptions
+  ): Promise<PDFConversionStream<ReadableStream<Uint8Array>>> {
+    const { taskId, channel, result } = this._startStream(source, options);
+    return { taskId, stream: this._toWebStream(channel), result };
+  }
+
+  /**
+   * 将 PDF 写入调用方提供的可写流
+   *
+   * 写入完成后兑现转换结果；可写流出错（如下载连接断开）时取消任务，
+   * 返回错误码 `FILE_WRITE_FAILED`。可写流的关闭由管道按各自的约定处理。
+   *
+   * @param source - 转换源
+   * @param destination - Node.js 可写流或 Web `WritableStream`
+   * @param options - 流式转换选项
+   * @returns 转换结果
+   */
+  async convertToWritable(
+    source: ConversionSource,
+    destination: NodeJS.WritableStream | WritableStream<Uint8Array>,
+    options?: PDFStreamOptions
+  ): Promise<PDFConversionResult> {
     const startTime = Date.now();
+    const { channel, result } = this._startStream(source, options);
+
+    let writeError: unknown;
+    if ('getWriter' in destination) {
+      await this._toWebStream(channel)
+        .pipeTo(destination)
+        .catch((error: unknown) => {
+          writeError = error;
+        });
+    } else {
+      const [{ Readable }, { pipeline }] = await Promise.all([import('stream'), import('stream/promises')]);
+      await pipeline(Readable.from(channel, { objectMode: false }), destination).catch((error: unknown) => {
+        writeError = error;
+      });
+    }
 
-    // 进度报告辅助函数
-    const reportProgress = (
-      status: PDFConversionStatus,
-      percent: number,
-      step?: string
-    ): void => {
-      if (mergedOptions.onProgress) {
-        mergedOptions.onProgress({
-          taskId,
+    const outcome = await result;
+    // 消费端主动停止读取说明可写流出错，而不是转换本身失败
+    if (writeError !== undefined && (outcome.success || channel.cancelled)) {
+      return this._createErrorResult(
+        outcome.taskId,
+        PDFErrorCode.FILE_WRITE_FAILED,
+        `写入输出流失败: ${writeError instanceof Error ? writeError.message : String(writeError)}`,
+        startTime,
+        writeError instanceof Error ? writeError : undefined
+      );
+    }
+    return outcome;
+  }
+
+  /**
+   * 查询任务状态
+   *
+   * @remarks 任务结束后仍可查询，状态中包含最终结果；只保留最近结束的 100 个任务
+   * @param taskId - 任务ID
+   * @returns 任务状态快照，任务不存在时返回 undefined
+   */
+  getTaskStatus(taskId: string): PDFTaskStatus | undefined {
+    return this._tasks.get(taskId)?.snapshot();
+  }
+
+  /**
+   * 取消任务
+   *
+   * 任务在下一个安全检查点（HTML 转换完成后、页面加载完成后、写入文件前）停止，
+   * 返回的 Promise 在浏览器关闭、未写完的文件清理完成后兑现。
+   *
+   * @param taskId - 任务ID
+   * @returns 取消结果
+   */
+  cancelTask(taskId: string): Promise<PDFTaskCancelResult> {
+    return this._tasks.cancel(taskId);
+  }
+
+  /**
+   * 关闭渲染引擎占用的浏览器
+   *
+   * 进行中的转换完成渲染后才关闭浏览器；排队等待浏览器的转换以失败结束。
+   *
+   * @remarks 浏览器会在下一次转换时按需重新启动
+   */
+  closeBrowser(): Promise<void> {
+    return this._engine.close();
+  }
+
+  /**
+   * 获取默认选项
+   */
+  getDefaultOptions(): PDFConversionOptions {
+    const appearance = resolveConversionAppearance();
+    return {
+      format: appearance.pdf.pageFormat,
+      orientation: appearance.pdf.orientation,
+      margin: { ...appearance.pdf.margin },
+      printBackground: appearance.pdf.printBackground,
+      ...DEFAULT_OPTIONS,
+      ...cloneConfig(this._config),
+    };
+  }
+
+  /**
+   * 验证转换选项
+   */
+  validateOptions(options: PDFConversionOptions): PDFValidationResult {
+    const { errors, warnings } = this._validate(options);
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors.map((issue) => issue.message) : undefined,
+      issues: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
+  /**
+   * 获取转换选项的 JSON Schema
+   *
+   * 宿主可按其生成导出界面：`title` 为标签，顶层选项的 `x-category` 为所属类别，
+   * `default` 取自 {@link CardtoPDFPlugin.getDefaultOptions}。
+   * {@link CardtoPDFPlugin.validateOptions} 按同一份结构描述检查选项。
+   *
+   * @param locale - 标签与说明使用的语言，默认 `zh-CN`
+   */
+  getOptionsSchema(locale: PDFSchemaLocale = 'zh-CN'): PDFOptionsSchema {
+    return buildOptionsSchema(OPTION_DESCRIPTORS, locale, this.getDefaultOptions());
+  }
+
+  // ========== 配置管理 ==========
+
+  /**
+   * 获取当前配置
+   *
+   * @returns 按页面设置、封面目录、输出控制和渲染控制分类的默认选项副本
+   */
+  getConfig(): PDFPluginConfig {
+    return groupConfig(this.getDefaultOptions());
+  }
+
+  /**
+   * 更新默认配置
+   *
+   * 更新按与 {@link CardtoPDFPlugin.validateOptions} 相同的规则校验，存在错误时整体拒绝。
+   * 更新只影响之后开始的转换，进行中的任务继续使用开始时的配置。
+   *
+   * @example
+   * ```typescript
+   * const result = await plugin.updateConfig({ format: 'letter', toc: true });
+   * if (!result.valid) {
+   *   console.warn(result.errors);
+   * }
+   * ```
+   *
+   * @param options - 要修改的选项，值为 undefined 的选项恢复出厂默认值
+   * @returns 校验结果与更新后的配置
+   * @throws FileWriteError 配置已生效但写入配置文件失败时
+   */
+  async updateConfig(options: PDFConfigurableOptions): Promise<PDFConfigUpdateResult> {
+    this._assertNotDestroyed();
+    const errors = checkConfigKeys(options);
+    // 未知的配置项已由 checkConfigKeys 报告，不再重复报告为不支持的选项
+    const rejected = new Set(errors.map((issue) => issue.option));
+    const next = applyConfigUpdate(this._config, options);
+    const validation = this._validate({ ...DEFAULT_OPTIONS, ...next });
+    errors.push(...validation.errors.filter((issue) => !rejected.has(issue.option)));
+    if (this._configPath) {
+      errors.push(...checkPersistable(next));
+    }
+    const warnings = validation.warnings.length > 0 ? validation.warnings : undefined;
+
+    if (errors.length > 0) {
+      return {
+        valid: false,
+        errors: errors.map((issue) => issue.message),
+        issues: errors,
+        warnings,
+        config: this.getConfig(),
+      };
+    }
+
+    this._config = next;
+    await this._saveConfig();
+    return { valid: true, warnings, config: this.getConfig() };
+  }
+
+  /**
+   * 将配置恢复为出厂默认值
+   *
+   * @remarks 指定了配置文件时同时删除配置文件
+   * @returns 恢复后的配置
+   * @throws FileWriteError 删除配置文件失败时
+   */
+  async resetConfig(): Promise<PDFPluginConfig> {
+    this._assertNotDestroyed();
+    this._config = {};
+    await this._saveConfig();
+    return this.getConfig();
+  }
+
+  // ========== 私有方法 ==========
+
+  /**
+   * 检查插件未被销毁
+   * @internal
+   */
+  private _assertNotDestroyed(): void {
+    if (this._state === 'destroyed') {
+      throw new Error('插件已销毁');
+    }
+  }
+
+  /**
+   * 等待进行中的任务完成，超时后取消剩余任务
+   * @internal
+   */
+  private async _drainTasks(timeout?: number): Promise<void> {
+    const active = this._tasks.active();
+    if (active.length === 0) {
+      return;
+    }
+
+    const drained = Promise.all(active.map((task) => task.done));
+    if (timeout === undefined) {
+      await drained;
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = await Promise.race([
+      drained.then(() => false),
+      new Promise<boolean>((resolve) => {
+        timer = setTimeout(() => resolve(true), timeout);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (timedOut) {
+      await Promise.all(active.map((task) => this._tasks.cancel(task.taskId)));
+    }
+  }
+
+  /**
+   * 校验选项并为每个错误标注错误码
+   *
+   * 先按选项结构描述检查类型、可选值、格式与取值范围，再检查结构描述无法表达的规则；
+   * 结构有误的选项不再做后续检查
+   * @internal
+   */
+  private _validate(options: PDFConversionOptions): {
+    errors: ValidationIssue[];
+    warnings: string[];
+  } {
+    const errors: ValidationIssue[] = validateOptionsSchema(options);
+    const warnings: string[] = [];
+    const invalid = new Set(errors.map((issue) => issue.option));
+    const valid = (name: keyof PDFConversionOptions): boolean => options[name] !== undefined && !invalid.has(name);
+
+    // 验证自定义纸张尺寸
+    if (options.width !== undefined || options.height !== undefined) {
+      if (!options.width || !options.height) {
+        errors.push({
+          code: PDFErrorCode.INVALID_PAGE_SIZE,
+          option: options.width ? 'height' : 'width',
+          field: options.width ? 'height' : 'width',
+          message: '自定义纸张尺寸需要同时指定 width 和 height',
+        });
+      }
+      for (const name of ['width', 'height'] as const) {
+        const value = options[name];
+        if (!valid(name) || value === undefined) {
+          continue;
+        }
+        if (toMillimeters(value) <= 0) {
+          errors.push({
+            code: PDFErrorCode.INVALID_PAGE_SIZE,
+            option: name,
+            field: name,
+            message: `无效的纸张${name === 'width' ? '宽度' : '高度'}: ${value}，示例: '210mm', '8.5in'`,
+          });
+        } else if (toMillimeters(value) > MAX_PAGE_LENGTH_MM) {
+          errors.push({
+            code: PDFErrorCode.INVALID_PAGE_SIZE,
+            option: name,
+            field: name,
+            message: `纸张${name === 'width' ? '宽度' : '高度'}超出上限 200in: ${value}`,
+          });
+        }
+      }
+      if (options.format) {
+        warnings.push('已指定自定义纸张尺寸，format 将被忽略');
+      }
+    }
+
+    // 单页模式与其他页面设置的冲突
+    if (options.fitToSinglePage) {
+      if (options.preferCSSPageSize) {
+        warnings.push('单页模式下将忽略卡片 CSS 中的 @page 尺寸');
+      }
+      if (options.toc) {
+        warnings.push('单页模式下不生成目录');
+      }
+      if (options.pagination) {
+        warnings.push('单页模式下不进行分页控制');
+      }
+    }
+
+    // 封面模板
+    if (valid('cover') && typeof options.cover === 'object' && options.cover.template?.trim() === '') {
+      warnings.push('封面模板为空，将使用默认封面');
+    }
+
+    // 目录内容
+    if (
+      valid('toc') &&
+      typeof options.toc === 'object' &&
+      options.toc.includeBaseCards === false &&
+      options.toc.includeHeadings === false
+    ) {
+      warnings.push('目录既不包含基础卡片也不包含标题，将生成空目录');
+    }
+
+    // 文档日期
+    if (valid('metadata') && typeof options.metadata === 'object') {
+      const { creationDate, modificationDate } = options.metadata;
+      for (const [name, value] of [['creationDate', creationDate], ['modificationDate', modificationDate]] as const) {
+        if (value !== undefined && !parseDate(value)) {
+          errors.push(invalidOption(`metadata.${name}`, `无效的文档日期 (${name}): ${String(value)}`));
+        }
+      }
+    }
+
+    // 归档符合性与元数据
+    if (valid('conformance') && options.metadata === false) {
+      warnings.push('PDF/A 要求 XMP 元数据，metadata: false 将被忽略');
+    }
+
+    // 验证加密选项
+    if (valid('encryption') && options.encryption) {
+      const encryption = this._validateEncryption(options.encryption, options);
+      errors.push(...encryption.errors);
+      warnings.push(...encryption.warnings);
+    }
+
+    // 验证网络隔离选项
+    if (valid('network') && options.network) {
+      const network = this._validateNetwork(options.network);
+      errors.push(...network.errors);
+      warnings.push(...network.warnings);
+    }
+
+    // 验证水印选项
+    if (valid('watermark') && options.watermark) {
+      const watermark = this._validateWatermark(options.watermark);
+      errors.push(...watermark.errors);
+      warnings.push(...watermark.warnings);
+    }
+
+    // 验证页眉页脚
+    if (!invalid.has('headerFooter')) {
+      const headerFooter = this._validateHeaderFooter(options);
+      errors.push(...headerFooter.errors);
+      warnings.push(...headerFooter.warnings);
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * 检查页眉页脚模板中被移除的不安全内容，以及页边距不足以显示页眉页脚的情况
+   * @internal
+   */
+  private _validateHeaderFooter(options: PDFConversionOptions): { errors: ValidationIssue[]; warnings: string[] } {
+    const errors: ValidationIssue[] = [];
+    const warnings: string[] = [];
+    const { headerFooter } = options;
+
+    const checkTemplate = (template: string, label: string): void => {
+      for (const issue of sanitizeHeaderFooterTemplate(template).issues) {
+        warnings.push(`${label}模板：${issue}`);
+      }
+    };
+    const checkContent = (content: PDFHeaderFooterContent | undefined, label: string): void => {
+      if (typeof content === 'object' && 'template' in content) {
+        checkTemplate(content.template, label);
+      }
+    };
+
+    if (headerFooter === undefined) {
+      if (options.displayHeaderFooter) {
+        if (!options.headerTemplate && !options.footerTemplate) {
+          warnings.push('启用了页眉页脚但未提供模板，将在页脚显示「第 X 页 / 共 Y 页」');
+        }
+        if (options.headerTemplate) {
+          checkTemplate(options.headerTemplate, '页眉');
+        }
+        if (options.footerTemplate) {
+          checkTemplate(options.footerTemplate, '页脚');
+        }
+      }
+      return { errors, warnings };
+    }
+
+    if (options.headerTemplate || options.footerTemplate) {
+      warnings.push('同时指定了 headerFooter 与 headerTemplate/footerTemplate，将忽略后者');
+    }
+    if (typeof headerFooter === 'object') {
+      checkContent(headerFooter.header, '页眉');
+      checkContent(headerFooter.footer, '页脚');
+      if (headerFooter.firstPage) {
+        checkContent(headerFooter.firstPage.header, '首页页眉');
+        checkContent(headerFooter.firstPage.footer, '首页页脚');
+      }
+      if (headerFooter.evenPages) {
+        checkContent(headerFooter.evenPages.header, '偶数页页眉');
+        checkContent(headerFooter.evenPages.footer, '偶数页页脚');
+      }
+    }
+
+    // 页眉页脚显示在页边距内
+    const resolved = resolveHeaderFooter(options);
+    if (resolved && options.margin) {
+      const variants = [resolved.defaults, resolved.firstPage, resolved.evenPages].flatMap((item) =>
+        item ? [item] : []
+      );
+      if (variants.some((item) => item.header !== 'none') && toMillimeters(options.margin.top) === 0) {
+        warnings.push('上边距为 0，页眉将不可见');
+      }
+      if (variants.some((item) => item.footer !== 'none') && toMillimeters(options.margin.bottom) === 0) {
+        warnings.push('下边距为 0，页脚将不可见');
+      }
+    }
+    return { errors, warnings };
+  }
+
+  /**
+   * 校验水印选项
+   * @internal
+   */
+  private _validateWatermark(watermark: PDFWatermarkOptions): { errors: ValidationIssue[]; warnings: string[] } {
+    const errors: ValidationIssue[] = [];
+    const warnings: string[] = [];
+    const { text, image, layer, selectable } = watermark;
+    if (!text && !image) {
+      errors.push(invalidOption('watermark', '水印需要指定文字（text）或图片（image）'));
+    }
+    if (layer === 'background') {
+      warnings.push('背景水印位于内容之下，卡片有不透明背景时不可见');
+    }
+    if (selectable && !text) {
+      warnings.push('水印没有文字，selectable 不起作用');
+    }
+    return { errors, warnings };
+  }
+
+  /**
+   * 校验网络隔离选项
+   * @internal
+   */
+  private _validateNetwork(network: PDFNetworkOptions): { errors: ValidationIssue[]; warnings: string[] } {
+    const errors: ValidationIssue[] = [];
+    const warnings: string[] = [];
+    const { externalRequests, allowlist } = network;
+    if (allowlist !== undefined) {
+      for (const entry of allowlist.filter((item) => item.includes('://'))) {
+        try {
+          new URL(entry);
+        } catch {
+          errors.push(invalidOption('network.allowlist', `无效的允许列表地址: ${entry}`));
+        }
+      }
+      if (externalRequests === 'allow' && allowlist.length > 0) {
+        warnings.push('外部请求策略为 allow 时允许列表不起作用');
+      }
+    }
+    return { errors, warnings };
+  }
+
+  /**
+   * 校验加密选项，报告无效、偏弱或相互矛盾的设置
+   * @internal
+   */
+  private _validateEncryption(
+    encryption: PDFEncryptionOptions,
+    options: PDFConversionOptions
+  ): { errors: ValidationIssue[]; warnings: string[] } {
+    const errors: ValidationIssue[] = [];
+    const warnings: string[] = [];
+
+    const algorithm = encryption.algorithm ?? 'aes-256';
+    if (options.conformance) {
+      errors.push({
+        code: PDFErrorCode.OPTION_CONFLICT,
+        option: 'encryption',
+        field: 'encryption',
+        message: 'PDF/A 不允许加密，conformance 与 encryption 不能同时使用',
+      });
+    }
+
+    const { userPassword, ownerPassword, permissions = {} } = encryption;
+    for (const [name, label, password] of [
+      ['userPassword', '打开密码', userPassword],
+      ['ownerPassword', '权限密码', ownerPassword],
+    ] as const) {
+      const field = `encryption.${name}`;
+      if (password === undefined || password === '') {
+        continue;
+      }
+      if (algorithm === 'aes-128' && /[^\u0000-\u00ff]/.test(password)) {
+        errors.push(invalidOption(field, `AES-128 的${label}只能包含 Latin-1 字符，请改用 aes-256`));
+      }
+      if (algorithm === 'aes-256' && Buffer.byteLength(password, 'utf8') > MAX_AES256_PASSWORD_BYTES) {
+        errors.push(invalidOption(field, `${label}超过 ${MAX_AES256_PASSWORD_BYTES} 字节（UTF-8）`));
+      }
+      if (password.length < 6) {
+        warnings.push(`${label}少于 6 个字符，容易被破解`);
+      }
+    }
+
+    const restricted = Object.values(permissions).some((value) => value === false);
+    if (!userPassword && !restricted) {
+      warnings.push('未设置打开密码且未限制任何权限，加密不起保护作用');
+    }
+    if (userPassword && userPassword === ownerPassword) {
+      warnings.push('打开密码与权限密码相同，所有能打开文档的人都不受权限限制');
+    }
+    if (restricted && !ownerPassword) {
+      warnings.push('未设置权限密码，将随机生成，权限限制之后无法解除');
+    }
+    if (algorithm === 'aes-128') {
+      warnings.push('AES-128 的密钥派生基于 MD5，建议使用 aes-256');
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * 登记任务并执行
+   *
+   * 统一处理插件状态检查、任务ID冲突检查和任务结束状态记录
+   * @internal
+   */
+  private async _runTask<R extends PDFConversionResult>(
+    options: PDFConversionOptions | undefined,
+    run: (task: ConversionTask, startTime: number) => Promise<R>
+  ): Promise<R | PDFConversionResult> {
+    const taskId = options?.taskId ?? uuidv4();
+    const startTime = Date.now();
+
+    if (NOT_ACCEPTING_STATES.has(this._state)) {
+      return this._createErrorResult(
+        taskId,
+        PDFErrorCode.PLUGIN_NOT_RUNNING,
+        `插件当前状态为 ${this._state}，不再接收转换请求`,
+        startTime
+      );
+    }
+
+    const existing = this._tasks.get(taskId);
+    if (existing && !existing.finished) {
+      return this._createErrorResult(
+        taskId,
+        PDFErrorCode.DUPLICATE_TASK_ID,
+        `任务ID已被进行中的任务占用: ${taskId}`,
+        startTime
+      );
+    }
+
+    const task = this._tasks.create(taskId, options?.signal);
+    const result = await run(task, startTime);
+
+    let finalStatus: PDFConversionStatus = 'failed';
+    if (result.success) {
+      finalStatus = 'completed';
+    } else if (result.error?.code === PDFErrorCode.TASK_CANCELLED) {
+      finalStatus = 'cancelled';
+    }
+    task.finish(result, finalStatus);
+
+    return result;
+  }
+
+  /**
+   * 创建进度报告函数，同时更新任务状态和调用进度回调
+   * @internal
+   */
+  private _createProgressReporter(
+    task: ConversionTask,
+    onProgress: PDFConversionOptions['onProgress']
+  ): ProgressReporter {
+    return (status, percent, step, bytes) => {
+      task.update({ status, percent, currentStep: step, ...bytes });
+      if (onProgress) {
+        onProgress({
+          taskId: task.taskId,
           status,
           percent,
           currentStep: step,
+          ...bytes,
         });
       }
     };
+  }
 
-    try {
-      // 验证选项
-      const validation = this.validateOptions(mergedOptions);
-      if (!validation.valid) {
-        return this._createErrorResult(
-          taskId,
-          PDFErrorCode.INVALID_FORMAT,
-          validation.errors?.join('; ') ?? '选项验证失败',
-          startTime
-        );
+  /**
+   * 创建流式输出函数：写入通道并按字节报告进度
+   *
+   * @remarks 消费者停止读取或任务被取消时抛出 TaskCancelledError，转换流程随之结束
+   * @internal
+   */
+  private _createChunkWriter(
+    task: ConversionTask,
+    channel: ChunkChannel,
+    reportProgress: ProgressReporter
+  ): ChunkWriter {
+    let bytesWritten = 0;
+    return async (chunk, totalBytes) => {
+      if (!(await channel.write(chunk))) {
+        throw new TaskCancelledError(task.taskId);
       }
+      task.throwIfCancelled();
+      bytesWritten += chunk.byteLength;
+      // 总大小未知（直接转发浏览器的 PDF 流）时进度停留在 80%，只更新字节数
+      const percent = totalBytes ? 80 + Math.floor((bytesWritten / totalBytes) * 19) : 80;
+      reportProgress('generating', percent, '正在输出 PDF', { bytesWritten, totalBytes });
+    };
+  }
 
-      // 阶段 1: HTML 转换
-      reportProgress('converting-html', 0, '正在解析卡片并生成 HTML');
-      const appearance = resolveConversionAppearance({
-        profileId: mergedOptions.appearanceProfileId,
-        overrides: mergedOptions.appearanceOverrides,
-      });
+  /**
+   * 启动流式转换
+   *
+   * @returns 任务ID、数据块通道和转换结果；转换失败或被取消时通道以错误结束
+   * @internal
+   */
+  private _startStream(
+    source: ConversionSource,
+    options: PDFStreamOptions = {}
+  ): { taskId: string; channel: ChunkChannel; result: Promise<PDFConversionResult> } {
+    const { chunkSize = DEFAULT_STREAM_CHUNK_SIZE, ...rest } = options;
+    const taskId = rest.taskId ?? uuidv4();
+    const conversionOptions: PDFConversionOptions = { ...rest, taskId };
+    const channel = new ChunkChannel(chunkSize, () => {
+      void this._tasks.cancel(taskId);
+    });
 
-      const htmlResult = await this._htmlPlugin.convert(source, {
-        themeId: mergedOptions.themeId,
-        includeAssets: true,
-        appearanceProfileId: appearance.id,
-        appearanceOverrides: mergedOptions.appearanceOverrides,
-      });
+    const result: Promise<PDFConversionResult> =
+      !Number.isInteger(chunkSize) || chunkSize <= 0
+        ? Promise.resolve(
+            this._createValidationErrorResult(
+              taskId,
+              [invalidOption('chunkSize', `无效的数据块大小: ${String(chunkSize)}，需为正整数（字节）`)],
+              Date.now()
+            )
+          )
+        : this._runTask(conversionOptions, (task, startTime) =>
+            this._runConversion(task, source, conversionOptions, startTime, { channel, chunkSize })
+          );
+
+    return {
+      taskId,
+      channel,
+      result: result.then((outcome) => {
+        if (outcome.success) {
+          channel.end();
+        } else {
+          channel.fail(new Error(outcome.error?.message ?? 'PDF 生成失败'));
+        }
+        return outcome;
+      }),
+    };
+  }
+
+  /**
+   * 将数据块通道包装为 Web `ReadableStream`
+   * @internal
+   */
+  private _toWebStream(channel: ChunkChannel): ReadableStream<Uint8Array> {
+    const iterator = channel[Symbol.asyncIterator]();
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(next.value);
+        }
+      },
+      async cancel() {
+        await iterator.return?.();
+      },
+    });
+  }
+
+  /**
+   * 执行转换流程
+   *
+   * @param task - 转换任务
+   * @param source - 转换源
+   * @param options - 转换选项
+   * @param startTime - 开始时间
+   * @param output - 流式输出目标，指定后不返回数据也不写入文件
+   * @internal
+   */
+  private async _runConversion(
+    task: ConversionTask,
+    source: ConversionSource,
+    options: PDFConversionOptions | undefined,
+    startTime: number,
+    output?: StreamOutput
+  ): Promise<PDFConversionResult> {
+    const { taskId } = task;
+    const mergedOptions = this._mergeOptions(options);
+    const reportProgress = this._createProgressReporter(task, mergedOptions.onProgress);
+    const writeChunk = output && this._createChunkWriter(task, output.channel, reportProgress);
+
+    try {
+      // 验证选项
+      const validation = this._validate(mergedOptions);
+      if (validation.errors.length > 0) {
+        return {
+          ...this._createValidationErrorResult(taskId, validation.errors, startTime),
+          warnings: validation.warnings.length > 0 ? validation.warnings : undefined,
+        };
+      }
 
-      if (!htmlResult.success || !htmlResult.data) {
+      // 阶段 1-2: HTML 转换与渲染
+      const rendered = await this._renderSource(task, source, mergedOptions, reportProgress, writeChunk);
+      if ('error' in rendered) {
         reportProgress('failed', 0, 'HTML 转换失败');
         return {
           success: false,
           taskId,
-          error: htmlResult.error ?? {
-            code: ErrorCode.RENDER_FAILED,
-            message: 'HTML 转换失败',
-          },
+          error: rendered.error,
+          warnings: validation.warnings.length > 0 ? validation.warnings : undefined,
           duration: Date.now() - startTime,
         };
       }
 
-      reportProgress('rendering', 30, 'HTML 生成完成，正在启动浏览器');
+      const {
+        pdfData,
+        inspection,
+        conformance,
+        compression,
+        fileSize,
+        unresolvedResources,
+        blockedRequests,
+        splitBaseCards,
+      } = rendered;
+      if (pdfData) {
+        reportProgress('generating', 80, '正在生成 PDF');
+      }
 
-      // 阶段 2: 渲染为 PDF
-      reportProgress('rendering', 40, '正在渲染页面');
+      // 阶段 3: 输出处理
+      task.throwIfCancelled();
+      const outputStart = Date.now();
+      if (output && writeChunk) {
+        if (pdfData) {
+          for (let offset = 0; offset < pdfData.byteLength; offset += output.chunkSize) {
+            await writeChunk(pdfData.subarray(offset, offset + output.chunkSize), pdfData.byteLength);
+          }
+        }
+        reportProgress('completed', 100, '转换完成', { bytesWritten: fileSize, totalBytes: fileSize });
+      } else if (mergedOptions.outputPath && pdfData) {
+        await this._writeToFile(pdfData, mergedOptions.outputPath, task.signal);
+        reportProgress('completed', 100, 'PDF 已保存到文件');
+      } else {
+        reportProgress('completed', 100, '转换完成');
+      }
 
-      const { pdfData, pageCount } = await this._renderHTMLToPDF(
-        htmlResult.data.files,
-        mergedOptions,
-        options,
-        appearance
-      );
+      const stats = this._createStats([rendered], { postProcess: 0, output: Date.now() - outputStart });
+      const warnings = [...validation.warnings, ...rendered.warnings];
+      const duration = Date.now() - startTime;
+      const outputPath = writeChunk ? undefined : mergedOptions.outputPath;
 
-      reportProgress('generating', 80, '正在生成 PDF');
+      return {
+        success: true,
+        taskId,
+        outputPath,
+        data: outputPath || writeChunk ? undefined : pdfData,
+        pageCount: inspection?.pageCount,
+        fileSize,
+        inspection,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        conformance,
+        compression: compression
+          ? createCompressionReport(compression.settings, [compression.summary], fileSize)
+          : undefined,
+        unresolvedResources,
+        blockedRequests,
+        splitBaseCards,
+        stats,
+        duration,
+      };
+    } catch (error) {
+      return this._handleConversionError(task, error, reportProgress, startTime);
+    }
+  }
+
+  /**
+   * 执行多卡片合并流程
+   *
+   * @param task - 转换任务
+   * @param sources - 转换源列表
+   * @param options - 转换选项
+   * @param startTime - 开始时间
+   * @internal
+   */
+  private async _runBookConversion(
+    task: ConversionTask,
+    sources: ConversionSource[],
+    options: PDFBookOptions | undefined,
+    startTime: number
+  ): Promise<PDFBookResult> {
+    const { taskId } = task;
+    const { continueOnError = true, chapterBookmarks, ...conversionOptions } = options ?? {};
+    const mergedOptions = this._mergeOptions(conversionOptions);
+    const reportProgress = this._createProgressReporter(task, mergedOptions.onProgress);
+    const chapters: PDFBookChapter[] = [];
+
+    try {
+      // 验证选项
+      const validation = this._validate(mergedOptions);
+      if (validation.errors.length > 0) {
+        return {
+          ...this._createValidationErrorResult(taskId, validation.errors, startTime),
+          warnings: validation.warnings.length > 0 ? validation.warnings : undefined,
+          chapters,
+        };
+      }
+      if (sources.length === 0) {
+        return {
+          ...this._createErrorResult(taskId, PDFErrorCode.INVALID_OPTION, '未提供任何转换源', startTime),
+          chapters,
+        };
+      }
+
+      // 阶段 1-2: 逐张卡片渲染，总进度的 0-80% 按卡片数均分
+      const rendered: Array<RenderedDocument | undefined> = [];
+      const share = 80 / sources.length;
+      const imageCompression = resolveImageCompression(mergedOptions.imageCompression);
+      for (const [index, source] of sources.entries()) {
+        const base = index * share;
+        const cardProgress: ProgressReporter = (status, percent, step) =>
+          reportProgress(
+            status,
+            Math.round(base + (percent / 100) * share),
+            `[${index + 1}/${sources.length}] ${step ?? ''}`.trim()
+          );
+
+        // 文档元数据、PDF/A 处理与加密在合并后统一执行；目标文件大小按卡片数均分
+        const cardOptions: PDFConversionOptions = {
+          ...mergedOptions,
+          metadata: false,
+          conformance: undefined,
+          encryption: undefined,
+          imageCompression: imageCompression && {
+            ...imageCompression,
+            targetFileSize:
+              imageCompression.targetFileSize === undefined
+                ? undefined
+                : Math.floor(imageCompression.targetFileSize / sources.length),
+          },
+        };
+        const result = await this._renderSource(task, source, cardOptions, cardProgress).catch(
+          (error: unknown): { error: PDFErrorInfo } => {
+            if (error instanceof TaskCancelledError || task.cancelRequested) {
+              throw error;
+            }
+            return { error: toErrorInfo(error) };
+          }
+        );
+
+        if ('error' in result) {
+          chapters.push({ index, success: false, error: result.error });
+          rendered.push(undefined);
+          if (!continueOnError) {
+            reportProgress('failed', Math.round(base), `第 ${index + 1} 张卡片转换失败`);
+            return {
+              success: false,
+              taskId,
+              error: result.error,
+              duration: Date.now() - startTime,
+              chapters,
+            };
+          }
+          continue;
+        }
+
+        chapters.push({ index, success: true, title: result.metadata.name });
+        rendered.push(result);
+        task.throwIfCancelled();
+      }
+
+      const succeeded = rendered.filter((item): item is RenderedDocument => item !== undefined);
+      if (succeeded.length === 0) {
+        reportProgress('failed', 80, '所有卡片均转换失败');
+        return {
+          ...this._createErrorResult(taskId, PDFErrorCode.PDF_GENERATION_FAILED, '所有卡片均转换失败', startTime),
+          chapters,
+        };
+      }
 
-      // 阶段 3: 输出处理
+      // 阶段 3: 合并并写入章节书签
+      reportProgress('generating', 85, '正在合并 PDF');
+      const mergeStart = Date.now();
+      const merged = await mergePDFDocuments(succeeded.map((item) => item.pdfData!));
+      const outline: OutlineNode[] = [];
+      const splitBaseCards: PDFSplitBaseCard[] = [];
+      let partIndex = 0;
+      for (const chapter of chapters) {
+        if (!chapter.success) {
+          continue;
+        }
+        const offset = merged.pageOffsets[partIndex]!;
+        const count = merged.pageCounts[partIndex]!;
+        chapter.startPage = offset + 1;
+        chapter.endPage = offset + count;
+        chapter.pageCount = count;
+        outline.push({
+          title: chapter.title ?? `第 ${chapter.index + 1} 章`,
+          pageIndex: offset,
+          children: offsetOutline(succeeded[partIndex]!.outline, offset),
+        });
+        for (const card of succeeded[partIndex]!.splitBaseCards ?? []) {
+          splitBaseCards.push({ ...card, startPage: card.startPage + offset, endPage: card.endPage + offset });
+        }
+        partIndex++;
+      }
+      if (chapterBookmarks !== false) {
+        writeOutline(merged.doc, outline);
+      }
+      const conformance = this._finalizeDocument(merged.doc, {
+        documentMetadata: this._resolveDocumentMetadata(
+          mergedOptions,
+          combineCardMetadata(succeeded.map((item) => item.metadata))
+        ),
+        conformance: mergedOptions.conformance,
+      });
+      const mergedData = await merged.doc.save();
+      const pdfData = mergedOptions.encryption ? await encryptPDF(mergedData, mergedOptions.encryption) : mergedData;
+      // 各卡片的警告以卡片序号标注，跳过的卡片记录失败原因
+      const warnings = [
+        ...validation.warnings,
+        ...chapters.flatMap((chapter) => {
+          const label = `[${chapter.index + 1}/${sources.length}]`;
+          return chapter.success
+            ? rendered[chapter.index]!.warnings.map((warning) => `${label} ${warning}`)
+            : [`${label} 转换失败，已跳过：${chapter.error?.message ?? '未知错误'}`];
+        }),
+      ];
+      const inspection = this._inspectOutput(pdfData, warnings);
+      const compression = imageCompression
+        ? this._combineCompressionReports(imageCompression, succeeded, pdfData.byteLength)
+        : undefined;
+
+      // 阶段 4: 输出处理
+      task.throwIfCancelled();
+      const outputStart = Date.now();
       if (mergedOptions.outputPath) {
-        await this._writeToFile(pdfData, mergedOptions.outputPath);
+        await this._writeToFile(pdfData, mergedOptions.outputPath, task.signal);
         reportProgress('completed', 100, 'PDF 已保存到文件');
       } else {
         reportProgress('completed', 100, '转换完成');
       }
 
-      const duration = Date.now() - startTime;
-      const fileSize = pdfData.byteLength;
-
+      const stats = this._createStats(succeeded, {
+        postProcess: outputStart - mergeStart,
+        output: Date.now() - outputStart,
+      });
       return {
         success: true,
         taskId,
         outputPath: mergedOptions.outputPath,
         data: mergedOptions.outputPath ? undefined : pdfData,
-        pageCount,
-        fileSize,
-        duration,
+        pageCount: inspection?.pageCount,
+        fileSize: pdfData.byteLength,
+        inspection,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        conformance,
+        compression,
+        unresolvedResources: succeeded.flatMap((item) => item.unresolvedResources),
+        blockedRequests: succeeded.some((item) => item.blockedRequests)
+          ? succeeded.flatMap((item) => item.blockedRequests ?? [])
+          : undefined,
+        splitBaseCards: succeeded.some((item) => item.splitBaseCards) ? splitBaseCards : undefined,
+        stats,
+        duration: Date.now() - startTime,
+        chapters,
       };
     } catch (error) {
-      reportProgress('failed', 0, '转换过程发生错误');
-
-      return this._createErrorResult(
-        taskId,
-        PDFErrorCode.PDF_GENERATION_FAILED,
-        error instanceof Error ? error.message : 'PDF 生成过程发生未知错误',
-        startTime,
-        error instanceof Error ? error : undefined
-      );
+      return { ...this._handleConversionError(task, error, reportProgress, startTime), chapters };
     }
   }
 
   /**
-   * 获取默认选项
+   * 将单个转换源转换为 PDF（不写出文件）
+   *
+   * @returns 渲染产物；HTML 转换失败时返回其错误信息
+   * @internal
    */
-  getDefaultOptions(): PDFConversionOptions {
-    const appearance = resolveConversionAppearance();
-    return {
-      format: appearance.pdf.pageFormat,
-      orientation: appearance.pdf.orientation,
-      margin: { ...appearance.pdf.margin },
-      printBackground: appearance.pdf.printBackground,
-      ...DEFAULT_OPTIONS,
-    };
-  }
+  private async _renderSource(
+    task: ConversionTask,
+    source: ConversionSource,
+    mergedOptions: PDFConversionOptions,
+    reportProgress: ProgressReporter,
+    writeChunk?: ChunkWriter
+  ): Promise<RenderedDocument | { error: ConversionError }> {
+    task.throwIfCancelled();
+
+    // 阶段 1: HTML 转换
+    reportProgress('converting-html', 0, '正在解析卡片并生成 HTML');
+    const appearance = resolveConversionAppearance({
+      profileId: mergedOptions.appearanceProfileId,
+      overrides: mergedOptions.appearanceOverrides,
+    });
 
-  /**
-   * 验证转换选项
-   */
-  validateOptions(options: PDFConversionOptions): PDFValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const htmlStart = Date.now();
+    const htmlResult = await this._htmlPlugin.convert(source, {
+      themeId: mergedOptions.themeId,
+      includeAssets: true,
+      appearanceProfileId: appearance.id,
+      appearanceOverrides: mergedOptions.appearanceOverrides,
+    });
 
-    // 验证页面格式
-    const validFormats: PageFormat[] = ['a4', 'a5', 'a3', 'letter', 'legal', 'tabloid'];
-    if (options.format && !validFormats.includes(options.format)) {
-      errors.push(`不支持的页面格式: ${options.format}，支持: ${validFormats.join(', ')}`);
+    if (!htmlResult.success || !htmlResult.data) {
+      return {
+        error: htmlResult.error ?? {
+          code: ErrorCode.RENDER_FAILED,
+          message: 'HTML 转换失败',
+        },
+      };
     }
 
-    // 验证页面方向
-    const validOrientations: PageOrientation[] = ['portrait', 'landscape'];
-    if (options.orientation && !validOrientations.includes(options.orientation)) {
-      errors.push(`不支持的页面方向: ${options.orientation}，支持: ${validOrientations.join(', ')}`);
-    }
+    task.throwIfCancelled();
+    reportProgress('rendering', 30, 'HTML 生成完成，正在启动浏览器');
+
+    // 阶段 2: 渲染为 PDF
+    reportProgress('rendering', 40, '正在渲染页面');
+
+    const html = Date.now() - htmlStart;
+    const rendered = await this._renderHTMLToPDF(
+      htmlResult.data.files,
+      mergedOptions,
+      appearance,
+      task,
+      writeChunk
+    );
+    return { ...rendered, timings: { ...rendered.timings, html } };
+  }
 
-    // 验证页边距
-    if (options.margin) {
-      const marginRegex = /^\d+(\.\d+)?(mm|cm|in|px)?$/;
-      for (const [side, value] of Object.entries(options.margin)) {
-        if (value && !marginRegex.test(value)) {
-          errors.push(`无效的页边距格式 (${side}): ${value}，示例: '15mm', '1in', '20px'`);
-        }
-      }
+  /**
+   * 将转换过程中的异常转换为失败或取消结果
+   * @internal
+   */
+  private _handleConversionError(
+    task: ConversionTask,
+    error: unknown,
+    reportProgress: ProgressReporter,
+    startTime: number
+  ): PDFConversionResult {
+    if (error instanceof TaskCancelledError || task.cancelRequested) {
+      reportProgress('cancelled', task.snapshot().percent, '任务已取消');
+      return this._createErrorResult(task.taskId, PDFErrorCode.TASK_CANCELLED, '任务已取消', startTime);
     }
 
-    // 页眉页脚警告
-    if (options.displayHeaderFooter) {
-      if (!options.headerTemplate && !options.footerTemplate) {
-        warnings.push('启用了页眉页脚但未提供模板，将使用默认模板');
-      }
-    }
+    reportProgress('failed', 0, '转换过程发生错误');
 
     return {
-      valid: errors.length === 0,
-      errors: errors.length > 0 ? errors : undefined,
-      warnings: warnings.length > 0 ? warnings : undefined,
+      success: false,
+      taskId: task.taskId,
+      error: toErrorInfo(error),
+      duration: Date.now() - startTime,
     };
   }
 
-  // ========== 私有方法 ==========
-
   /**
    * 合并用户选项与默认选项
    * @internal
@@ -306,10 +1698,56 @@ export class CardtoPDFPlugin implements PDFConverterPlugin {
   private _mergeOptions(options?: PDFConversionOptions): PDFConversionOptions {
     return {
       ...DEFAULT_OPTIONS,
+      ...cloneConfig(this._config),
       ...options,
     };
   }
 
+  /**
+   * 读取配置文件
+   * @internal
+   */
+  private async _loadConfig(): Promise<void> {
+    const path = this._configPath;
+    if (!path) {
+      return;
+    }
+    const saved = await readConfigFile(path);
+    if (!saved) {
+      return;
+    }
+    const issues = checkConfigKeys(saved);
+    const rejected = new Set(issues.map((issue) => issue.option));
+    issues.push(
+      ...this._validate({ ...DEFAULT_OPTIONS, ...saved }).errors.filter((issue) => !rejected.has(issue.option))
+    );
+    if (issues.length > 0) {
+      throw new PDFConversionError(
+        PDFErrorCode.INVALID_CONFIG,
+        `配置文件包含无效的配置 (${path}): ${issues.map((issue) => issue.message).join('；')}`,
+        { details: { option: 'configPath', path, issues } }
+      );
+    }
+    this._config = cloneConfig(saved);
+  }
+
+  /**
+   * 将当前配置写入配置文件
+   *
+   * @remarks 写入按调用顺序排队，前一次写入失败不影响后续写入
+   * @internal
+   */
+  private _saveConfig(): Promise<void> {
+    const path = this._configPath;
+    if (!path) {
+      return Promise.resolve();
+    }
+    const snapshot = this._config;
+    const write = this._configWrite.catch(() => undefined).then(() => writeConfigFile(path, snapshot));
+    this._configWrite = write;
+    return write;
+  }
+
   /**
    * 创建错误结果
    * @internal
@@ -334,241 +1772,780 @@ export class CardtoPDFPlugin implements PDFConverterPlugin {
   }
 
   /**
-   * 使用 Puppeteer 渲染 HTML 为 PDF
+   * 创建选项校验失败结果
+   *
+   * @remarks 错误码、`details.option` 与 `details.field` 取第一个问题，`details.issues` 列出全部问题
+   * @internal
+   */
+  private _createValidationErrorResult(
+    taskId: string,
+    issues: ValidationIssue[],
+    startTime: number
+  ): PDFConversionResult {
+    const [first] = issues;
+    return {
+      success: false,
+      taskId,
+      error: {
+        code: first!.code as never,
+        message: issues.map((issue) => issue.message).join('; '),
+        details: { option: first!.option, field: first!.field, issues },
+        retryable: false,
+      },
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * 使用渲染引擎将 HTML 渲染为 PDF
    *
    * @param files - HTML 文件映射
    * @param options - 转换选项
-   * @returns PDF 数据和页数
+   * @param task - 转换任务，用于在页面加载后检查取消请求
+   * @param writeChunk - 流式输出函数；无需后处理时直接转发浏览器的 PDF 流，不返回 PDF 数据
+   * @returns PDF 数据、页数、卡片元数据和书签树
    * @internal
    */
   private async _renderHTMLToPDF(
     files: Map<string, string | Uint8Array>,
     mergedOptions: PDFConversionOptions,
-    rawOptions: PDFConversionOptions | undefined,
-    appearance: ConversionAppearanceProfile
-  ): Promise<{ pdfData: Uint8Array; pageCount: number }> {
-    // 动态导入 Puppeteer
-    let puppeteer: typeof import('puppeteer') | undefined;
-    try {
-      puppeteer = await import('puppeteer');
-    } catch {
-      throw new Error(
-        '需要安装 puppeteer 才能生成 PDF。请运行: npm install puppeteer'
-      );
-    }
-
+    appearance: ConversionAppearanceProfile,
+    task: ConversionTask,
+    writeChunk?: ChunkWriter
+  ): Promise<RenderedDocument> {
     // 获取 index.html
     const indexHtml = files.get('index.html');
     if (!indexHtml || typeof indexHtml !== 'string') {
-      throw new Error('未找到 index.html 文件');
-    }
-
-    // 启动浏览器
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-gpu',
-      ],
-    });
+      throw new PDFConversionError(PDFErrorCode.PDF_GENERATION_FAILED, '未找到 index.html 文件', {
+        details: { path: 'index.html' },
+      });
+    }
+
+    const metadata = extractCardMetadata(indexHtml);
+    const renderStart = Date.now();
+
+    // 从渲染引擎打开页面
+    const page = await this._engine.openPage({ signal: task.signal });
 
     try {
-      const page = await browser.newPage();
       const viewportWidth = appearance.pdf.viewportWidthPx;
       const viewportHeight = appearance.pdf.viewportHeightPx;
-      const pageFormat = (rawOptions?.format ?? appearance.pdf.pageFormat).toUpperCase() as Uppercase<PageFormat>;
-      const orientation = rawOptions?.orientation ?? appearance.pdf.orientation;
-      const margin = rawOptions?.margin ?? appearance.pdf.margin;
-      const printBackground = rawOptions?.printBackground ?? appearance.pdf.printBackground;
+      const settings = this._resolvePageSettings(mergedOptions, appearance);
 
       await page.setViewport({
         width: viewportWidth,
         height: viewportHeight,
       });
 
-      // 内联资源
-      const htmlContent = this._inlineResources(indexHtml, files);
-      await page.setContent(htmlContent, {
-        waitUntil: 'networkidle0',
-        timeout: 30000,
+      // 按完整路径解析并内联资源，再插入封面
+      const resources = resolveDocumentResources(indexHtml, files);
+      const htmlContent = this._composeDocument(
+        resources.html,
+        metadata,
+        mergedOptions,
+        settings,
+        appearance
+      );
+      // 引擎支持请求拦截时从虚拟源加载，隔离外部网络
+      const interceptor =
+        page.interceptRequests && page.goto
+          ? new ResourceInterceptor(htmlContent, files, mergedOptions.network)
+          : undefined;
+      const pageLoad = { ...DEFAULT_PAGE_LOAD, ...mergedOptions.pageLoad };
+      if (interceptor) {
+        await page.interceptRequests!(interceptor.handle);
+        await this._loadWithRetry((timeout) => page.goto!(ENTRY_URL, { timeout }), pageLoad, task);
+      } else {
+        await this._loadWithRetry((timeout) => page.setContent(htmlContent, { timeout }), pageLoad, task);
+      }
+      task.throwIfCancelled();
+
+      // 处理渲染失败的基础卡片；须在收集书签锚点和标记分页边界之前完成
+      const renderErrorPolicy = mergedOptions.onRenderError ?? DEFAULT_RENDER_ERROR_POLICY;
+      const renderErrors = await page.evaluate(applyRenderErrorPolicy, {
+        baseCardSelector: BASE_CARD_SELECTOR,
+        errorSelector: RENDER_ERROR_SELECTOR,
+        generatedAttribute: GENERATED_ATTRIBUTE,
+        policy: renderErrorPolicy,
       });
+      if (renderErrorPolicy === 'abort' && renderErrors.failed.length > 0) {
+        throw new BaseCardRenderError(renderErrors.failed);
+      }
+      const failedCount = renderErrors.failed.length;
+      const baseCards: PDFBaseCardStats = {
+        total: renderErrors.total,
+        processed: renderErrors.total - failedCount,
+        skipped: renderErrorPolicy === 'skip' ? failedCount : 0,
+        placeholders: renderErrorPolicy === 'placeholder' ? failedCount : 0,
+      };
+      const warnings = renderErrors.failed.map((failure) => formatRenderFailure(failure, renderErrorPolicy));
+
+      const watermark = resolveWatermark(mergedOptions.watermark);
+
+      // 页眉页脚：只有一组时由浏览器直接输出，首页或奇偶页不同时在生成后逐页叠加
+      const headerFooter = await this._buildHeaderFooterLayers(page, mergedOptions, metadata, settings);
+      const nativeHeaderFooter = headerFooter && !headerFooter.variants ? headerFooter.defaults : undefined;
 
       // 配置 PDF 选项
-      const pdfOptions: Parameters<typeof page.pdf>[0] = {
-        format: pageFormat,
-        landscape: orientation === 'landscape',
-        printBackground,
-        margin,
-        displayHeaderFooter: mergedOptions.displayHeaderFooter ?? false,
-        headerTemplate: mergedOptions.headerTemplate ?? '',
-        footerTemplate: mergedOptions.footerTemplate ?? '',
-        preferCSSPageSize: false,
+      const pdfOptions: PDFRenderOptions = {
+        printBackground: settings.printBackground,
+        margin: settings.margin,
+        scale: settings.scale,
+        displayHeaderFooter: nativeHeaderFooter !== undefined,
+        headerTemplate: nativeHeaderFooter?.headerTemplate ?? '',
+        footerTemplate: nativeHeaderFooter?.footerTemplate ?? '',
+        preferCSSPageSize: settings.preferCSSPageSize,
       };
+      if (settings.fitToSinglePage) {
+        Object.assign(
+          pdfOptions,
+          await this._measureSinglePageSize(page, settings, viewportHeight)
+        );
+      } else if (settings.width && settings.height) {
+        // 浏览器打印接口中 format 优先于 width/height，自定义尺寸时不能同时设置
+        pdfOptions.width = settings.width;
+        pdfOptions.height = settings.height;
+      } else {
+        pdfOptions.format = settings.format.toUpperCase() as Uppercase<PageFormat>;
+        pdfOptions.landscape = settings.orientation === 'landscape';
+      }
+
+      // 按打印尺寸压缩内联图片
+      let imageCompression = resolveImageCompression(mergedOptions.imageCompression);
+      let imageSummary = imageCompression
+        ? await this._compressImages(page, imageCompression, settings.scale)
+        : undefined;
+
+      // 标记基础卡片边界，生成后据此检查仍被分页截断的基础卡片
+      const boundaries =
+        !settings.fitToSinglePage && resolvePagination(mergedOptions.pagination)
+          ? await page.evaluate(markBaseCardBoundaries, {
+              baseCardSelector: BASE_CARD_SELECTOR,
+              generatedAttribute: GENERATED_ATTRIBUTE,
+              idPrefix: BOUNDARY_ID_PREFIX,
+            })
+          : undefined;
+      if (boundaries && boundaries.length > 0) {
+        await page.evaluate(mountAnchorLinks, {
+          ids: boundaries.flatMap((boundary) => [boundary.startId, boundary.endId]),
+          generatedAttribute: GENERATED_ATTRIBUTE,
+        });
+      }
+
+      // 收集书签锚点，并挂载隐藏链接使浏览器输出锚点位置
+      const outlineAnchors = mergedOptions.generateOutline
+        ? await page.evaluate(collectDocumentAnchors, {
+            baseCardSelector: BASE_CARD_SELECTOR,
+            includeBaseCards: true,
+            includeHeadings: true,
+            // 基础卡片中的 h6 后移为第 7 级
+            maxLevel: 7,
+            generatedAttribute: GENERATED_ATTRIBUTE,
+            idPrefix: ANCHOR_ID_PREFIX,
+          })
+        : [];
+      if (outlineAnchors.length > 0) {
+        await page.evaluate(mountAnchorLinks, {
+          ids: outlineAnchors.map((anchor) => anchor.id),
+          generatedAttribute: GENERATED_ATTRIBUTE,
+        });
+      }
+
+      // 插入目录（页码待第一遍排版后回填）
+      const toc = settings.fitToSinglePage ? undefined : normalizeTocOptions(mergedOptions.toc);
+      const anchors = toc
+        ? await page.evaluate(collectDocumentAnchors, {
+            baseCardSelector: BASE_CARD_SELECTOR,
+            includeBaseCards: toc.includeBaseCards,
+            includeHeadings: toc.includeHeadings,
+            maxLevel: toc.maxDepth,
+            generatedAttribute: GENERATED_ATTRIBUTE,
+            idPrefix: ANCHOR_ID_PREFIX,
+          })
+        : [];
+      if (toc) {
+        await page.evaluate(mountTocSection, {
+          html: buildTocSection(anchors, toc.title),
+          generatedAttribute: GENERATED_ATTRIBUTE,
+        });
+      }
+
+      // 不需要书签、元数据、PDF/A、加密或文件大小控制时，可直接转发浏览器的 PDF 流
+      const documentMetadata = this._resolveDocumentMetadata(mergedOptions, metadata);
+      const streamDirectly =
+        writeChunk !== undefined &&
+        page.pdfStream !== undefined &&
+        outlineAnchors.length === 0 &&
+        !documentMetadata &&
+        !mergedOptions.conformance &&
+        !mergedOptions.encryption &&
+        imageCompression?.targetFileSize === undefined &&
+        !headerFooter?.variants &&
+        !watermark;
+      const tocPass = toc !== undefined && anchors.length > 0;
+
+      // 生成 PDF（直接转发时只有目录需要第一遍排版结果）
+      let pdfBuffer = streamDirectly && !tocPass ? undefined : await page.pdf(pdfOptions);
+
+      // 第二遍：按实际页码回填目录后重新生成
+      if (toc && anchors.length > 0 && pdfBuffer) {
+        const positions = await readNamedDestinations(pdfBuffer);
+        const pageNumbers = new Map<string, number>();
+        for (const anchor of anchors) {
+          const position = positions.get(anchor.id);
+          if (position) {
+            pageNumbers.set(anchor.id, position.pageIndex + 1);
+          }
+        }
+        await page.evaluate(mountTocSection, {
+          html: buildTocSection(anchors, toc.title, pageNumbers),
+          generatedAttribute: GENERATED_ATTRIBUTE,
+        });
+        pdfBuffer = streamDirectly ? undefined : await page.pdf(pdfOptions);
+      }
+
+      if (!pdfBuffer) {
+        task.throwIfCancelled();
+        const streamStart = Date.now();
+        const fileSize = await this._streamPDF(page, pdfOptions, writeChunk!);
+        return {
+          fileSize,
+          metadata,
+          unresolvedResources: resources.unresolved,
+          inlinedResources: resources.inlined,
+          baseCards,
+          timings: { html: 0, render: streamStart - renderStart, postProcess: 0, output: Date.now() - streamStart },
+          warnings,
+          blockedRequests: interceptor?.blocked,
+          outline: [],
+          compression:
+            imageCompression && imageSummary ? { settings: imageCompression, summary: imageSummary } : undefined,
+        };
+      }
+
+      // 超出目标文件大小时逐级降低图片分辨率和质量；替换图片不改变排版，目录页码仍然有效
+      const targetFileSize = imageCompression?.targetFileSize;
+      for (
+        let attempt = 0;
+        imageCompression && targetFileSize !== undefined && attempt < TARGET_SIZE_ATTEMPTS;
+        attempt++
+      ) {
+        const reduced = pdfBuffer.byteLength > targetFileSize ? reduceImageCompression(imageCompression) : undefined;
+        if (!reduced) {
+          break;
+        }
+        task.throwIfCancelled();
+        imageCompression = reduced;
+        imageSummary = await this._compressImages(page, reduced, settings.scale);
+        pdfBuffer = await page.pdf(pdfOptions);
+      }
+
+      const splitBaseCards = boundaries
+        ? findSplitBaseCards(boundaries, await readNamedDestinations(pdfBuffer))
+        : undefined;
+      const renderEnd = Date.now();
+
+      // 按页叠加首页、奇偶页的页眉页脚；之后不再需要卡片页面的内容
+      if (headerFooter?.variants) {
+        task.throwIfCancelled();
+        pdfBuffer = await this._overlayHeaderFooter(page, pdfBuffer, pdfOptions, headerFooter, pageLoad, task);
+      }
 
-      // 生成 PDF
-      const pdfBuffer = await page.pdf(pdfOptions);
+      // 叠加水印
+      if (watermark) {
+        task.throwIfCancelled();
+        pdfBuffer = await this._stampWatermark(page, pdfBuffer, watermark, pageLoad, task);
+      }
+
+      // 后处理：写入书签与文档元数据，按需转换为 PDF/A
+      const processed = await this._postProcessPDF(pdfBuffer, {
+        outlineAnchors,
+        documentMetadata,
+        conformance: mergedOptions.conformance,
+      });
+      const { outline, conformance } = processed;
+
+      // 加密必须是最后一步，之后不能再修改文档
+      const pdfData = mergedOptions.encryption
+        ? await encryptPDF(processed.pdfData, mergedOptions.encryption)
+        : processed.pdfData;
 
-      // 获取页数（简单估算）
-      const pageCount = await this._estimatePageCount(pdfBuffer);
+      // 读取结构信息（页数、页面尺寸、对象统计）
+      const inspection = this._inspectOutput(pdfData, warnings);
 
       return {
-        pdfData: new Uint8Array(pdfBuffer),
-        pageCount,
+        pdfData,
+        inspection,
+        fileSize: pdfData.byteLength,
+        metadata,
+        unresolvedResources: resources.unresolved,
+        inlinedResources: resources.inlined,
+        baseCards,
+        timings: { html: 0, render: renderEnd - renderStart, postProcess: Date.now() - renderEnd, output: 0 },
+        warnings,
+        blockedRequests: interceptor?.blocked,
+        splitBaseCards,
+        outline,
+        conformance,
+        compression:
+          imageCompression && imageSummary ? { settings: imageCompression, summary: imageSummary } : undefined,
       };
     } finally {
-      await browser.close();
+      await page.close();
     }
   }
 
   /**
-   * 估算 PDF 页数
+   * 解析页面设置
+   *
+   * 单次转换的选项优先，其次为插件配置，其余取外观配置中的 PDF 默认值
+   *
+   * @param options - 合并了插件配置的转换选项
    * @internal
    */
-  private async _estimatePageCount(pdfBuffer: Uint8Array): Promise<number> {
-    try {
-      // 简单的 PDF 页数估算：查找 /Type /Page 出现次数
-      const pdfString = Buffer.from(pdfBuffer).toString('binary');
-      const matches = pdfString.match(/\/Type\s*\/Page[^s]/g);
-      return matches ? matches.length : 1;
-    } catch {
-      return 1; // 默认返回 1 页
+  private _resolvePageSettings(
+    options: PDFConversionOptions,
+    appearance: ConversionAppearanceProfile
+  ): ResolvedPageSettings {
+    const customSize = Boolean(options.width && options.height);
+    return {
+      format: options.format ?? appearance.pdf.pageFormat,
+      orientation: options.orientation ?? appearance.pdf.orientation,
+      margin: options.margin ?? appearance.pdf.margin,
+      printBackground: options.printBackground ?? appearance.pdf.printBackground,
+      width: customSize ? options.width : undefined,
+      height: customSize ? options.height : undefined,
+      scale: options.scale ?? 1,
+      preferCSSPageSize: Boolean(options.preferCSSPageSize) && !options.fitToSinglePage,
+      fitToSinglePage: options.fitToSinglePage ?? false,
+    };
+  }
+
+  /**
+   * 测量单页模式下的纸张尺寸
+   *
+   * 以纸张内容区宽度排版后读取文档高度，纸张高度 = 内容高度 + 上下边距
+   * @internal
+   */
+  private async _measureSinglePageSize(
+    page: PDFRenderPage,
+    settings: ResolvedPageSettings,
+    viewportHeight: number
+  ): Promise<{ width: string; height: string }> {
+    const pageBox = resolvePageBox(settings);
+    await page.emulatePrintMedia();
+    await page.setViewport({
+      width: Math.max(1, Math.round(millimetersToPixels(pageBox.contentWidth))),
+      height: viewportHeight,
+    });
+    const contentHeightPx = await page.evaluate(
+      () =>
+        Math.ceil(Math.max(document.documentElement.scrollHeight, document.body?.scrollHeight ?? 0)),
+      undefined
+    );
+
+    const marginMm = toMillimeters(settings.margin.top) + toMillimeters(settings.margin.bottom);
+    // 额外 1mm 余量，避免舍入误差产生空白第二页
+    const heightMm = Math.min(
+      MAX_PAGE_LENGTH_MM,
+      contentHeightPx * toMillimeters('1px') * settings.scale + marginMm + 1
+    );
+
+    return {
+      width: `${pageBox.width.toFixed(2)}mm`,
+      height: `${heightMm.toFixed(2)}mm`,
+    };
+  }
+
+  /**
+   * 转发浏览器生成的 PDF 流
+   *
+   * @returns 输出的字节数
+   * @internal
+   */
+  private async _streamPDF(
+    page: PDFRenderPage,
+    pdfOptions: PDFRenderOptions,
+    writeChunk: ChunkWriter
+  ): Promise<number> {
+    if (!page.pdfStream) {
+      throw new Error('渲染引擎不支持流式输出');
     }
+    let fileSize = 0;
+    for await (const chunk of await page.pdfStream(pdfOptions)) {
+      await writeChunk(chunk);
+      fileSize += chunk.byteLength;
+    }
+    return fileSize;
+  }
+
+  /**
+   * 在页面中按压缩设置重新编码内联图片
+   * @internal
+   */
+  private _compressImages(
+    page: PDFRenderPage,
+    settings: ResolvedImageCompression,
+    scale: number
+  ): Promise<ImageOptimizationSummary> {
+    return page.evaluate(optimizeDocumentImages, {
+      maxDpi: settings.maxDpi,
+      jpegQuality: settings.jpegQuality,
+      scale,
+      markerAttribute: OPTIMIZED_IMAGE_ATTRIBUTE,
+    });
+  }
+
+  /**
+   * 汇总多卡片合并时各卡片的图片压缩结果
+   *
+   * @remarks 报告中的分辨率和质量取各卡片最终使用的最低值，是否达到目标按合并后的文件大小判断
+   * @internal
+   */
+  private _combineCompressionReports(
+    settings: ResolvedImageCompression,
+    documents: RenderedDocument[],
+    fileSize: number
+  ): PDFImageCompressionReport {
+    const used = documents.flatMap((item) => (item.compression ? [item.compression] : []));
+    return createCompressionReport(
+      {
+        ...settings,
+        maxDpi: Math.min(settings.maxDpi, ...used.map((item) => item.settings.maxDpi)),
+        jpegQuality: Math.min(settings.jpegQuality, ...used.map((item) => item.settings.jpegQuality)),
+      },
+      used.map((item) => item.summary),
+      fileSize
+    );
   }
 
   /**
-   * 将外部资源内联到 HTML
+   * 汇总转换统计
+   *
+   * @param documents - 各卡片的渲染产物
+   * @param timings - 渲染之外的后处理（多卡片合并等）与输出耗时
+   * @internal
+   */
+  private _createStats(
+    documents: RenderedDocument[],
+    timings: Pick<PDFPhaseTimings, 'postProcess' | 'output'>
+  ): PDFConversionStats {
+    const sum = (pick: (item: RenderedDocument) => number): number =>
+      documents.reduce((total, item) => total + pick(item), 0);
+    return {
+      baseCards: {
+        total: sum((item) => item.baseCards.total),
+        processed: sum((item) => item.baseCards.processed),
+        skipped: sum((item) => item.baseCards.skipped),
+        placeholders: sum((item) => item.baseCards.placeholders),
+      },
+      resources: {
+        inlined: sum((item) => item.inlinedResources),
+        missing: sum((item) => item.unresolvedResources.length),
+        blocked: sum((item) => item.blockedRequests?.length ?? 0),
+      },
+      timings: {
+        html: sum((item) => item.timings.html),
+        render: sum((item) => item.timings.render),
+        postProcess: sum((item) => item.timings.postProcess) + timings.postProcess,
+        output: sum((item) => item.timings.output) + timings.output,
+      },
+    };
+  }
+
+  /**
+   * 在卡片 HTML 中插入插件生成的页面（封面等）
    * @internal
    */
-  private _inlineResources(
+  private _composeDocument(
     html: string,
-    files: Map<string, string | Uint8Array>
+    metadata: CardMetadata,
+    options: PDFConversionOptions,
+    settings: ResolvedPageSettings,
+    appearance: ConversionAppearanceProfile
   ): string {
     let result = html;
+    const pageBox = resolvePageBox(settings);
 
-    // 内联 theme.css
-    const themeCss = files.get('theme.css');
-    if (themeCss && typeof themeCss === 'string') {
-      const styleTag = `<style type="text/css">\n${themeCss}\n</style>`;
-      result = result.replace(
-        /<link[^>]*href=["'][^"']*theme\.css["'][^>]*>/gi,
-        styleTag
-      );
+    // 分页控制样式；单页模式下整张卡片输出为一页，无需分页
+    const pagination = settings.fitToSinglePage ? undefined : resolvePagination(options.pagination);
+    if (pagination) {
+      result = appendToHead(result, buildPaginationStyles(pagination, BASE_CARD_SELECTOR));
     }
 
-    // 内联其他 CSS 文件
-    for (const [filePath, content] of files) {
-      if (
-        typeof content === 'string' &&
-        filePath.endsWith('.css') &&
-        filePath !== 'theme.css'
-      ) {
-        const filename = filePath.split('/').pop() ?? '';
-        const styleTag = `<style type="text/css">\n${content}\n</style>`;
-        result = result.replace(
-          new RegExp(
-            `<link[^>]*href=["'][^"']*${this._escapeRegex(filename)}["'][^>]*>`,
-            'gi'
-          ),
-          styleTag
-        );
-      }
+    // 单页模式下整张卡片输出为一页，不插入封面
+    const cover = settings.fitToSinglePage ? undefined : normalizeCoverOptions(options.cover);
+    if (cover) {
+      result = prependToBody(
+        result,
+        buildCoverPage(cover, {
+          metadata,
+          appearance,
+          pageBox,
+          exportedAt: new Date(),
+        })
+      );
     }
 
-    // 内联图片资源为 Base64
-    for (const [filePath, content] of files) {
-      if (content instanceof Uint8Array && this._isImagePath(filePath)) {
-        const base64 = this._uint8ArrayToBase64(content);
-        const mimeType = this._getMimeType(filePath);
-        const dataUrl = `data:${mimeType};base64,${base64}`;
-        const filename = filePath.split('/').pop() ?? '';
+    return result;
+  }
 
-        // 替换 HTML 属性中的资源引用
-        result = result.replace(
-          new RegExp(
-            `(src|href)=["']([^"']*${this._escapeRegex(filename)})["']`,
-            'gi'
-          ),
-          `$1="${dataUrl}"`
-        );
+  /**
+   * 读取输出文档的结构信息
+   *
+   * 结构信息只用于报告，检查失败时记录警告而不使转换失败
+   * @internal
+   */
+  private _inspectOutput(pdfData: Uint8Array, warnings: string[]): PDFInspection | undefined {
+    try {
+      return inspectPDF(pdfData);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      warnings.push(`PDF 结构检查失败，结果中不含页数与结构信息：${message}`);
+      return undefined;
+    }
+  }
 
-        // 替换脚本/JSON 中的路径引用（适配直出 DOM + CHIPS_CARD_CONFIG）
-        const normalizedPaths = [filePath, `./${filePath}`, filename];
-        for (const p of normalizedPaths) {
-          result = result.replace(
-            new RegExp(
-              `"(?:${this._escapeRegex(p)})"`,
-              'g'
-            ),
-            `"${dataUrl}"`
-          );
+  /**
+   * 生成页眉页脚模板，字体与颜色取自已加载卡片的主题
+   *
+   * @returns 未启用页眉页脚时返回 undefined；`variants` 表示首页或偶数页使用不同的模板
+   * @internal
+   */
+  private async _buildHeaderFooterLayers(
+    page: PDFRenderPage,
+    options: PDFConversionOptions,
+    metadata: CardMetadata,
+    settings: ResolvedPageSettings
+  ): Promise<HeaderFooterLayers | undefined> {
+    const resolved = resolveHeaderFooter(options);
+    if (!resolved) {
+      return undefined;
+    }
+    const context = {
+      metadata,
+      exportedAt: new Date(),
+      theme: await page.evaluate(readHeaderFooterTheme, DEFAULT_HEADER_FOOTER_COLOR),
+      margin: settings.margin,
+      fontSize: resolved.fontSize,
+    };
+    const layers: HeaderFooterLayers = { defaults: buildHeaderFooterLayer(resolved.defaults, context) };
+    if (resolved.firstPage !== undefined || resolved.evenPages) {
+      layers.variants = {
+        firstPage: resolved.firstPage && buildHeaderFooterLayer(resolved.firstPage, context),
+        evenPages: resolved.evenPages && buildHeaderFooterLayer(resolved.evenPages, context),
+      };
+    }
+    return layers;
+  }
+
+  /**
+   * 加载页面，超时后按设置重试
+   *
+   * @param load - 执行一次加载，参数为超时时间
+   * @throws PageLoadTimeoutError 所有尝试均超时
+   * @internal
+   */
+  private async _loadWithRetry(
+    load: (timeout: number) => Promise<void>,
+    pageLoad: Required<PDFPageLoadOptions>,
+    task: ConversionTask
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await load(pageLoad.timeout);
+        return;
+      } catch (error) {
+        if (!isTimeoutError(error)) {
+          throw error;
+        }
+        if (attempt > pageLoad.retries) {
+          throw new PageLoadTimeoutError(pageLoad.timeout, attempt, error);
         }
       }
+      task.throwIfCancelled();
+      await new Promise((resolve) => setTimeout(resolve, pageLoad.retryDelay));
+      task.throwIfCancelled();
     }
+  }
 
-    return result;
+  /**
+   * 按页叠加页眉页脚
+   *
+   * 在空白页面上按原文档的页数和纸张尺寸分别输出每组页眉页脚，
+   * 再把首页、奇数页、偶数页对应的图层叠加到原文档上
+   * @internal
+   */
+  private async _overlayHeaderFooter(
+    page: PDFRenderPage,
+    pdfData: Uint8Array,
+    pdfOptions: PDFRenderOptions,
+    layers: HeaderFooterLayers,
+    pageLoad: Required<PDFPageLoadOptions>,
+    task: ConversionTask
+  ): Promise<Uint8Array> {
+    const { pages } = inspectPDF(pdfData);
+    const size = pages[0];
+    if (!size || !layers.variants) {
+      return pdfData;
+    }
+
+    // 纸张尺寸取自实际输出，卡片通过 CSS @page 声明尺寸时同样适用
+    const layerOptions: PDFRenderOptions = {
+      ...pdfOptions,
+      format: undefined,
+      landscape: false,
+      width: `${size.width / 72}in`,
+      height: `${size.height / 72}in`,
+      preferCSSPageSize: false,
+      printBackground: false,
+      displayHeaderFooter: true,
+    };
+    const blankPages = buildBlankPages(pages.length);
+    await this._loadWithRetry((timeout) => page.setContent(blankPages, { timeout }), pageLoad, task);
+
+    const { firstPage, evenPages } = layers.variants;
+    const rendered: Array<Uint8Array | undefined> = [];
+    for (const layer of [layers.defaults, evenPages, firstPage || undefined]) {
+      rendered.push(layer ? await page.pdf({ ...layerOptions, ...layer }) : undefined);
+    }
+
+    return overlayPages(pdfData, rendered, (pageIndex) => {
+      if (pageIndex === 0 && firstPage !== undefined) {
+        return firstPage ? { layer: 2, page: pageIndex } : undefined;
+      }
+      return { layer: pageIndex % 2 === 1 && evenPages ? 1 : 0, page: pageIndex };
+    });
   }
 
   /**
-   * 判断路径是否为图片文件
+   * 叠加水印
+   *
+   * 按原文档第一页的纸张尺寸单独排版水印并输出为一页，再叠加到页码范围内的每一页
    * @internal
    */
-  private _isImagePath(path: string): boolean {
-    return /\.(png|jpg|jpeg|gif|webp|svg|ico|bmp)$/i.test(path);
+  private async _stampWatermark(
+    page: PDFRenderPage,
+    pdfData: Uint8Array,
+    watermark: ResolvedWatermark,
+    pageLoad: Required<PDFPageLoadOptions>,
+    task: ConversionTask
+  ): Promise<Uint8Array> {
+    const { pages } = inspectPDF(pdfData);
+    const selected = selectPages(watermark.pages, pages.length);
+    const size = pages[0];
+    if (!size || selected.size === 0) {
+      return pdfData;
+    }
+
+    const watermarkPage = buildWatermarkPage(watermark, size);
+    await this._loadWithRetry((timeout) => page.setContent(watermarkPage, { timeout }), pageLoad, task);
+    if (watermark.text && !watermark.selectable) {
+      await page.evaluate(rasterizeWatermarkText, {
+        selector: `.${WATERMARK_TEXT_CLASS}`,
+        pixelRatio: WATERMARK_PIXEL_RATIO,
+      });
+    }
+    const layer = await page.pdf({
+      width: `${size.width / 72}in`,
+      height: `${size.height / 72}in`,
+      printBackground: true,
+      margin: { top: '0', right: '0', bottom: '0', left: '0' },
+      scale: 1,
+      displayHeaderFooter: false,
+      headerTemplate: '',
+      footerTemplate: '',
+      preferCSSPageSize: false,
+    });
+
+    return overlayPages(
+      pdfData,
+      [layer],
+      (pageIndex) => (selected.has(pageIndex) ? { layer: 0, page: 0 } : undefined),
+      { background: watermark.layer === 'background' }
+    );
   }
 
   /**
-   * 根据文件扩展名获取 MIME 类型
+   * 解析文档元数据，默认创建工具为插件名称与版本
+   *
+   * PDF/A 要求 XMP 元数据，指定 conformance 时忽略 `metadata: false`
    * @internal
    */
-  private _getMimeType(path: string): string {
-    const ext = path.split('.').pop()?.toLowerCase() ?? '';
-    const mimeTypes: Record<string, string> = {
-      png: 'image/png',
-      jpg: 'image/jpeg',
-      jpeg: 'image/jpeg',
-      gif: 'image/gif',
-      webp: 'image/webp',
-      svg: 'image/svg+xml',
-      ico: 'image/x-icon',
-      bmp: 'image/bmp',
-    };
-    return mimeTypes[ext] ?? 'application/octet-stream';
+  private _resolveDocumentMetadata(
+    options: PDFConversionOptions,
+    card: CardMetadata
+  ): ResolvedDocumentMetadata | undefined {
+    const option = options.conformance && options.metadata === false ? true : options.metadata;
+    return resolveDocumentMetadata(option, card, `CardtoPDFPlugin ${PLUGIN_METADATA.version}`);
   }
 
   /**
-   * Uint8Array 转 Base64 字符串
+   * 写入文档元数据并按需执行 PDF/A 处理与自检
+   *
+   * @returns PDF/A 自检报告；未指定 conformance 时为空
    * @internal
    */
-  private _uint8ArrayToBase64(uint8Array: Uint8Array): string {
-    // Node.js 环境使用 Buffer
-    if (typeof Buffer !== 'undefined') {
-      return Buffer.from(uint8Array).toString('base64');
+  private _finalizeDocument(
+    doc: PDFDocument,
+    context: { documentMetadata?: ResolvedDocumentMetadata; conformance?: PDFConformanceLevel }
+  ): PDFConformanceReport | undefined {
+    const { documentMetadata, conformance } = context;
+    if (documentMetadata) {
+      writeDocumentMetadata(doc, documentMetadata, conformance ? PDFA_IDENTIFICATION[conformance] : undefined);
     }
-
-    // 浏览器环境使用 btoa
-    let binary = '';
-    const len = uint8Array.length;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(uint8Array[i]!);
+    if (!conformance) {
+      return undefined;
     }
-    return btoa(binary);
+
+    const fixes = preparePDFA(doc, conformance);
+    const violations = checkPDFAConformance(doc, conformance);
+    return { level: conformance, passed: violations.length === 0, violations, fixes };
   }
 
   /**
-   * 转义正则表达式特殊字符
+   * 对浏览器输出的 PDF 做后处理
+   *
+   * 没有需要执行的步骤时直接返回原数据，避免无谓的解析和重写
    * @internal
    */
-  private _escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  private async _postProcessPDF(
+    pdfData: Uint8Array,
+    context: {
+      outlineAnchors: DocumentAnchor[];
+      documentMetadata?: ResolvedDocumentMetadata;
+      conformance?: PDFConformanceLevel;
+    }
+  ): Promise<{ pdfData: Uint8Array; outline: OutlineNode[]; conformance?: PDFConformanceReport }> {
+    if (context.outlineAnchors.length === 0 && !context.documentMetadata && !context.conformance) {
+      return { pdfData, outline: [] };
+    }
+
+    const doc = await PDFDocument.load(pdfData, { updateMetadata: false });
+    let outline: OutlineNode[] = [];
+    if (context.outlineAnchors.length > 0) {
+      const positions = collectNamedDestinations(doc);
+      outline = buildOutlineTree(context.outlineAnchors, positions);
+      writeOutline(doc, outline);
+    }
+    const conformance = this._finalizeDocument(doc, context);
+
+    // 与浏览器输出保持一致，不使用对象流
+    return { pdfData: await doc.save({ useObjectStreams: false }), outline, conformance };
   }
 
   /**
    * 将数据写入文件
+   *
+   * 写入失败或被取消时删除未写完的文件
+   * @throws FileWriteError 创建目录或写入失败
    * @internal
    */
-  private async _writeToFile(data: Uint8Array, outputPath: string): Promise<void> {
+  private async _writeToFile(
+    data: Uint8Array,
+    outputPath: string,
+    signal?: AbortSignal
+  ): Promise<void> {
     // 检查 Node.js 环境
     if (typeof process !== 'undefined' && process.versions?.node) {
       const fs = await import('fs');
@@ -576,12 +2553,19 @@ export class CardtoPDFPlugin implements PDFConverterPlugin {
 
       // 确保目录存在
       const dir = path.dirname(outputPath);
-      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.mkdir(dir, { recursive: true }).catch((error: unknown) => {
+        throw new FileWriteError(dir, error);
+      });
 
       // 写入文件
-      await fs.promises.writeFile(outputPath, data);
+      try {
+        await fs.promises.writeFile(outputPath, data, { signal });
+      } catch (error) {
+        await fs.promises.rm(outputPath, { force: true }).catch(() => undefined);
+        throw new FileWriteError(outputPath, error);
+      }
     } else {
-      throw new Error('文件写入需要 Node.js 环境');
+      throw new FileWriteError(outputPath, new Error('文件写入需要 Node.js 环境'));
     }
   }
 }
@@ -592,9 +2576,11 @@ export class CardtoPDFPlugin implements PDFConverterPlugin {
 
 /**
  * 创建 CardtoPDFPlugin 实例
+ *
+ * @param options - 插件构造选项
  */
-export function createPlugin(): CardtoPDFPlugin {
-  return new CardtoPDFPlugin();
+export function createPlugin(options?: CardtoPDFPluginOptions): CardtoPDFPlugin {
+  return new CardtoPDFPlugin(options);
 }
 
 /**
@@ -17,6 +17,7 @@ import type {
   ConversionAppearanceProfile,
   DeepPartial,
 } from '@chips/cardto-html-plugin';
+import type { Readable } from 'stream';
 
 // 重新导出
 export type { ConversionSource, ConversionError, ErrorCode };
@@ -49,141 +50,1494 @@ export interface PageMargin {
   left?: string;
 }
 
+/**
+ * 封面选项
+ */
+export interface PDFCoverOptions {
+  /**
+   * 是否生成封面
+   * @defaultValue true
+   */
+  enabled?: boolean;
+
+  /**
+   * 自定义封面 HTML 模板
+   * @remarks 支持 `{{title}}`、`{{author}}`、`{{createdAt}}` 等占位符，值会经过 HTML 转义
+   */
+  template?: string;
+
+  /**
+   * 封面标题
+   * @remarks 默认使用卡片名称
+   */
+  title?: string;
+
+  /**
+   * 封面副标题
+   */
+  subtitle?: string;
+
+  /**
+   * 是否在默认封面中显示作者、创建时间等元信息
+   * @defaultValue true
+   */
+  showMetadata?: boolean;
+}
+
+/**
+ * 目录选项
+ */
+export interface PDFTocOptions {
+  /**
+   * 是否生成目录
+   * @defaultValue true
+   */
+  enabled?: boolean;
+
+  /**
+   * 目录标题
+   * @defaultValue '目录'
+   */
+  title?: string;
+
+  /**
+   * 目录的最大层级（1-6）
+   * @remarks 基础卡片为第 1 级，其中的标题层级依次后移一级
+   * @defaultValue 3
+   */
+  maxDepth?: number;
+
+  /**
+   * 是否为每个基础卡片生成目录项
+   * @defaultValue true
+   */
+  includeBaseCards?: boolean;
+
+  /**
+   * 是否为标题生成目录项
+   * @defaultValue true
+   */
+  includeHeadings?: boolean;
+}
+
 /**
  * PDF 转换选项
  */
-export interface PDFConversionOptions {
+export interface PDFConversionOptions {
+  /**
+   * 页面格式
+   * @defaultValue 'a4'
+   */
+  format?: PageFormat;
+
+  /**
+   * 页面方向
+   * @defaultValue 'portrait'
+   */
+  orientation?: PageOrientation;
+
+  /**
+   * 页边距
+   * @defaultValue { top: '15mm', right: '15mm', bottom: '15mm', left: '15mm' }
+   */
+  margin?: PageMargin;
+
+  /**
+   * 自定义纸张宽度
+   * @remarks 需与 `height` 同时指定，指定后覆盖 `format` 与 `orientation`。示例: '200mm', '8in'
+   */
+  width?: string;
+
+  /**
+   * 自定义纸张高度
+   * @remarks 需与 `width` 同时指定
+   */
+  height?: string;
+
+  /**
+   * 页面缩放比例（0.1-2）
+   * @defaultValue 1
+   */
+  scale?: number;
+
+  /**
+   * 是否优先使用卡片 CSS 中 `@page` 声明的页面尺寸
+   * @remarks 卡片未声明 `@page size` 时仍使用 `format` 或自定义尺寸
+   * @defaultValue false
+   */
+  preferCSSPageSize?: boolean;
+
+  /**
+   * 是否将整张卡片输出为单页（适用于海报类卡片）
+   * @remarks 页面宽度取 `format` 或自定义宽度，高度按内容自动计算；此模式下不生成封面和目录
+   * @defaultValue false
+   */
+  fitToSinglePage?: boolean;
+
+  /**
+   * 是否打印背景图形
+   * @defaultValue true
+   */
+  printBackground?: boolean;
+
+  /**
+   * 分页控制
+   * @remarks 以打印样式控制基础卡片、标题和段落的分页位置，并在结果中报告仍被分页截断的基础卡片；
+   * `true` 使用默认设置，单页模式下不生效
+   */
+  pagination?: boolean | PDFPaginationOptions;
+
+  /**
+   * 是否包含页眉页脚
+   * @remarks 未提供模板时页脚显示「第 X 页 / 共 Y 页」；需要预设或分页变体时使用 `headerFooter`
+   * @defaultValue false
+   */
+  displayHeaderFooter?: boolean;
+
+  /**
+   * 页眉 HTML 模板
+   * @remarks 支持与 `headerFooter` 相同的占位符，脚本、事件属性等不安全内容会被移除
+   */
+  headerTemplate?: string;
+
+  /**
+   * 页脚 HTML 模板
+   * @remarks 支持与 `headerFooter` 相同的占位符，脚本、事件属性等不安全内容会被移除
+   */
+  footerTemplate?: string;
+
+  /**
+   * 页眉页脚
+   * @remarks 指定后优先于 `displayHeaderFooter`、`headerTemplate` 和 `footerTemplate`；
+   * `true` 表示仅在页脚显示「第 X 页 / 共 Y 页」
+   */
+  headerFooter?: boolean | PDFHeaderFooterOptions;
+
+  /**
+   * 水印
+   * @remarks 文字或图片水印，按页码范围叠加在内容之上或之下；多卡片合并时作用于每张卡片
+   */
+  watermark?: PDFWatermarkOptions;
+
+  /**
+   * 是否生成 PDF 书签（基于标题）
+   * @remarks 按基础卡片与标题层级生成嵌套书签，每个书签指向所在页及页内位置
+   * @defaultValue false
+   */
+  generateOutline?: boolean;
+
+  /**
+   * 封面页
+   * @remarks 传入 `true` 使用默认封面，传入对象可自定义模板和标题
+   * @defaultValue false
+   */
+  cover?: boolean | PDFCoverOptions;
+
+  /**
+   * 目录页
+   * @remarks 目录插入在封面之后，页码通过两遍排版得到实际值
+   * @defaultValue false
+   */
+  toc?: boolean | PDFTocOptions;
+
+  /**
+   * 文档元数据
+   * @remarks 默认根据卡片元数据自动填写（名称、作者、描述、标签、语言、创建时间），
+   * 传入对象可逐项覆盖，传入 `false` 保留渲染引擎的原始元数据。写入 Info 字典和 XMP 元数据流
+   * @defaultValue true
+   */
+  metadata?: boolean | PDFDocumentMetadata;
+
+  /**
+   * 归档符合性级别
+   * @remarks 指定后输出 PDF/A：添加 sRGB 输出意图、写入 XMP 标识并移除脚本等不允许的内容，
+   * 结果中的 `conformance` 给出本地自检报告。PDF/A 要求 XMP 元数据，此时 `metadata: false` 不生效
+   */
+  conformance?: PDFConformanceLevel;
+
+  /**
+   * 加密与权限
+   * @remarks 指定后使用 AES 加密输出文件，可设置打开密码、权限密码和权限标志
+   */
+  encryption?: PDFEncryptionOptions;
+
+  /**
+   * 图片压缩
+   * @remarks 指定后在输出前按显示尺寸降采样并重新编码内联的位图图片，
+   * 可传入预设（`screen`、`print`、`archive`）或 `{ maxDpi, jpegQuality, targetFileSize }`。
+   * 默认不处理，图片按原始数据嵌入
+   */
+  imageCompression?: PDFImageProfile | PDFImageCompressionOptions;
+
+  /**
+   * 网络隔离策略
+   * @remarks 引擎支持请求拦截时，页面从虚拟源加载，卡片文件由插件直接提供；
+   * 外部请求默认全部阻止，可通过允许列表放行，被阻止或加载失败的图片替换为占位图
+   */
+  network?: PDFNetworkOptions;
+
+  /**
+   * 基础卡片渲染失败时的处理方式
+   * @remarks `skip` 从文档中移除失败的基础卡片，`placeholder` 以提示框代替其内容，
+   * `abort`（默认）中止整个转换。失败的基础卡片记录在结果的 `warnings` 中
+   */
+  onRenderError?: PDFRenderErrorPolicy;
+
+  /**
+   * 页面加载的超时与重试
+   * @remarks 作用于卡片页面以及页眉页脚、水印图层页面的加载；默认超时 30000 毫秒，不重试
+   */
+  pageLoad?: PDFPageLoadOptions;
+
+  /**
+   * 输出文件路径
+   * @remarks 指定后将 PDF 写入文件系统。不指定则返回二进制数据。
+   */
+  outputPath?: string;
+
+  /**
+   * 主题 ID
+   * @remarks 覆盖卡片默认主题
+   */
+  themeId?: string;
+
+  /**
+   * 外观配置表 ID（由转换模块统一管理）
+   */
+  appearanceProfileId?: string;
+
+  /**
+   * 外观参数覆盖（用于后续扩展）
+   */
+  appearanceOverrides?: DeepPartial<Omit<ConversionAppearanceProfile, 'id' | 'description'>>;
+
+  /**
+   * 进度回调函数
+   */
+  onProgress?: (progress: PDFProgressInfo) => void;
+
+  /**
+   * 任务ID
+   * @remarks 不指定时自动生成。调用方预先指定后可在转换开始前持有任务ID，用于查询进度和取消
+   */
+  taskId?: string;
+
+  /**
+   * 取消信号
+   * @remarks 触发后任务在下一个安全检查点停止，清理浏览器和未写完的文件
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * 页面加载选项
+ */
+export interface PDFPageLoadOptions {
+  /** 单次加载的超时时间（毫秒），默认 30000 */
+  timeout?: number;
+  /** 加载超时后的重试次数，默认 0 */
+  retries?: number;
+  /** 两次尝试之间的等待时间（毫秒），默认 1000 */
+  retryDelay?: number;
+}
+
+/**
+ * 基础卡片渲染失败时的处理方式
+ */
+export type PDFRenderErrorPolicy = 'skip' | 'placeholder' | 'abort';
+
+/**
+ * 归档符合性级别
+ */
+export type PDFConformanceLevel = 'pdfa-2b' | 'pdfa-3b';
+
+/**
+ * 分页控制选项
+ */
+export interface PDFPaginationOptions {
+  /**
+   * 每张基础卡片从新的一页开始
+   * @defaultValue false
+   */
+  baseCardNewPage?: boolean;
+
+  /**
+   * 避免在基础卡片以及图片、表格行、代码块、图表内部分页
+   * @remarks 元素高于一页时仍会被分页，结果的 `splitBaseCards` 列出这些基础卡片
+   * @defaultValue true
+   */
+  avoidBreakInside?: boolean;
+
+  /**
+   * 标题与其后的内容保持在同一页
+   * @defaultValue true
+   */
+  keepHeadingsWithNext?: boolean;
+
+  /**
+   * 段落在页底至少保留的行数（孤行控制）
+   * @defaultValue 2
+   */
+  orphans?: number;
+
+  /**
+   * 段落在页顶至少保留的行数（寡行控制）
+   * @defaultValue 2
+   */
+  widows?: number;
+}
+
+/**
+ * 被分页截断的基础卡片
+ */
+export interface PDFSplitBaseCard {
+  /** 基础卡片在文档中的序号（从 1 开始） */
+  index: number;
+  /** 基础卡片 ID（`data-base-card-id`） */
+  id?: string;
+  /** 基础卡片标题 */
+  title: string;
+  /** 起始页码（从 1 开始） */
+  startPage: number;
+  /** 结束页码（从 1 开始） */
+  endPage: number;
+}
+
+/**
+ * 页眉页脚预设
+ *
+ * - `page-number`：居中页码
+ * - `page-x-of-y`：居中「第 X 页 / 共 Y 页」
+ * - `title`：左侧卡片标题
+ * - `title-date`：左侧卡片标题，右侧导出日期
+ * - `title-page`：左侧卡片标题，右侧「X / Y」
+ * - `none`：不显示
+ */
+export type PDFHeaderFooterPreset = 'page-number' | 'page-x-of-y' | 'title' | 'title-date' | 'title-page' | 'none';
+
+/**
+ * 左中右三栏文本
+ * @remarks 文本按纯文本处理，可使用 `{{pageNumber}}`、`{{totalPages}}`、`{{title}}`、`{{author}}`、
+ * `{{exportDate}}` 等占位符
+ */
+export interface PDFHeaderFooterSlots {
+  /** 左侧文本 */
+  left?: string;
+  /** 居中文本 */
+  center?: string;
+  /** 右侧文本 */
+  right?: string;
+}
+
+/**
+ * 自定义 HTML 模板
+ */
+export interface PDFHeaderFooterTemplate {
+  /** HTML 模板，支持占位符；脚本、事件属性等不安全内容会被移除 */
+  template: string;
+}
+
+/**
+ * 页眉或页脚内容：预设、三栏文本或 HTML 模板
+ */
+export type PDFHeaderFooterContent = PDFHeaderFooterPreset | PDFHeaderFooterSlots | PDFHeaderFooterTemplate;
+
+/**
+ * 一组页眉页脚
+ */
+export interface PDFHeaderFooterVariant {
+  /** 页眉 */
+  header?: PDFHeaderFooterContent;
+  /** 页脚 */
+  footer?: PDFHeaderFooterContent;
+}
+
+/**
+ * 页眉页脚选项
+ */
+export interface PDFHeaderFooterOptions extends PDFHeaderFooterVariant {
+  /**
+   * 首页使用的页眉页脚，未指定的部分沿用默认设置；`false` 表示首页不显示
+   */
+  firstPage?: PDFHeaderFooterVariant | false;
+
+  /**
+   * 偶数页使用的页眉页脚，未指定的部分沿用默认设置（奇数页使用默认设置）
+   */
+  evenPages?: PDFHeaderFooterVariant;
+
+  /**
+   * 字号
+   * @defaultValue '9pt'
+   */
+  fontSize?: string;
+}
+
+/**
+ * 水印位置
+ *
+ * `tile` 表示在整页平铺
+ */
+export type PDFWatermarkPosition =
+  | 'center'
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right'
+  | 'tile';
+
+/**
+ * 水印图层
+ *
+ * - `foreground`：绘制在内容之上
+ * - `background`：绘制在内容之下，会被卡片的不透明背景遮挡
+ */
+export type PDFWatermarkLayer = 'foreground' | 'background';
+
+/**
+ * 水印图片数据
+ */
+export interface PDFWatermarkImage {
+  /** MIME 类型，如 `image/png`、`image/svg+xml` */
+  contentType: string;
+  /** 图片数据 */
+  data: Uint8Array;
+}
+
+/**
+ * 水印选项
+ *
+ * @remarks `text` 与 `image` 至少指定一个，同时指定时图片位于文字上方
+ */
+export interface PDFWatermarkOptions {
+  /** 水印文字，可用换行符分行 */
+  text?: string;
+
+  /** 水印图片：data URL 或图片数据 */
+  image?: string | PDFWatermarkImage;
+
+  /**
+   * 图片宽度，高度按比例计算
+   * @defaultValue '50mm'
+   */
+  imageWidth?: string;
+
+  /**
+   * 字体
+   * @defaultValue 'sans-serif'
+   */
+  fontFamily?: string;
+
+  /**
+   * 字号
+   * @defaultValue '64pt'
+   */
+  fontSize?: string;
+
+  /**
+   * 字重
+   * @defaultValue 'bold'
+   */
+  fontWeight?: string | number;
+
+  /**
+   * 文字颜色
+   * @defaultValue '#808080'
+   */
+  color?: string;
+
+  /**
+   * 不透明度，取值 0-1
+   * @defaultValue 0.2
+   */
+  opacity?: number;
+
+  /**
+   * 顺时针旋转角度
+   * @defaultValue 文字水印 -45，纯图片水印 0
+   */
+  rotation?: number;
+
+  /**
+   * 位置
+   * @defaultValue 'center'
+   */
+  position?: PDFWatermarkPosition;
+
+  /**
+   * 页码范围，如 `'1-3, 5, 8-'`（页码从 1 开始），未指定时作用于所有页
+   */
+  pages?: string;
+
+  /**
+   * 图层
+   * @defaultValue 'foreground'
+   */
+  layer?: PDFWatermarkLayer;
+
+  /**
+   * 文字是否可选中、可复制；false 时文字转为图片输出，不出现在文本提取结果中
+   * @defaultValue false
+   */
+  selectable?: boolean;
+}
+
+/**
+ * 外部请求策略
+ *
+ * - `block`：阻止所有外部请求（允许列表中的地址除外）
+ * - `allow`：允许所有外部请求
+ */
+export type PDFExternalRequestPolicy = 'block' | 'allow';
+
+/**
+ * 自定义占位图
+ */
+export interface PDFPlaceholderImage {
+  /** MIME 类型，如 `image/png`、`image/svg+xml` */
+  contentType: string;
+  /** 图片数据，字符串按 UTF-8 编码（适用于 SVG） */
+  data: string | Uint8Array;
+}
+
+/**
+ * 网络隔离选项
+ */
+export interface PDFNetworkOptions {
+  /**
+   * 外部请求策略
+   * @defaultValue 'block'
+   */
+  externalRequests?: PDFExternalRequestPolicy;
+
+  /**
+   * 阻止外部请求时仍然允许的地址
+   * @remarks 支持完整源（`https://fonts.example.com`）、URL 前缀（`https://cdn.example.com/assets/`）、
+   * 主机名（`example.com`）和子域名通配（`*.example.com`）
+   */
+  allowlist?: string[];
+
+  /**
+   * 被阻止或加载失败的图片使用的占位图；`true` 使用内置占位图，`false` 不替换
+   * @defaultValue true
+   */
+  placeholder?: boolean | PDFPlaceholderImage;
+
+  /**
+   * 获取单个外部资源的超时时间（毫秒）
+   * @defaultValue 10000
+   */
+  requestTimeout?: number;
+}
+
+/**
+ * 图片压缩预设
+ *
+ * - `screen`：96 DPI，JPEG 质量 0.6，适合屏幕阅读与网络分发
+ * - `print`：300 DPI，JPEG 质量 0.85，适合打印
+ * - `archive`：600 DPI，JPEG 质量 0.95，尽量保留原始细节
+ */
+export type PDFImageProfile = 'screen' | 'print' | 'archive';
+
+/**
+ * 图片压缩选项
+ */
+export interface PDFImageCompressionOptions {
+  /**
+   * 基础预设，未指定的参数取预设值
+   * @defaultValue 'print'
+   */
+  profile?: PDFImageProfile;
+
+  /**
+   * 图片的最大有效分辨率（按打印尺寸计算的每英寸像素数），超出时降采样
+   */
+  maxDpi?: number;
+
+  /**
+   * JPEG 编码质量（0-1），用于不含透明通道的图片
+   */
+  jpegQuality?: number;
+
+  /**
+   * 目标文件大小（字节）
+   * @remarks 输出超出时逐步降低分辨率和质量重新生成，最多尝试 4 次；
+   * 仍无法达到时输出最后一次的结果，并在压缩报告中标记 `targetMet: false`
+   */
+  targetFileSize?: number;
+}
+
+/**
+ * 加密算法
+ */
+export type PDFEncryptionAlgorithm = 'aes-128' | 'aes-256';
+
+/**
+ * 文档权限
+ * @remarks 未指定的权限默认允许；辅助功能（屏幕阅读器）提取始终允许
+ */
+export interface PDFPermissions {
+  /** 是否允许打印 */
+  print?: boolean;
+  /** 是否允许复制内容 */
+  copy?: boolean;
+  /** 是否允许修改文档（含页面重组） */
+  modify?: boolean;
+  /** 是否允许添加注释和填写表单 */
+  annotate?: boolean;
+}
+
+/**
+ * 加密选项
+ */
+export interface PDFEncryptionOptions {
+  /**
+   * 打开密码
+   * @remarks 为空时任何人都可打开文档，但权限限制仍然生效
+   */
+  userPassword?: string;
+
+  /**
+   * 权限密码
+   * @remarks 持有者不受权限限制。未指定时随机生成，权限限制将无法解除
+   */
+  ownerPassword?: string;
+
+  /**
+   * 加密算法
+   * @defaultValue 'aes-256'
+   */
+  algorithm?: PDFEncryptionAlgorithm;
+
+  /** 权限设置 */
+  permissions?: PDFPermissions;
+}
+
+// ============================================================================
+// 卡片元数据
+// ============================================================================
+
+/**
+ * 卡片元数据
+ * @remarks 从 CardtoHTMLPlugin 生成的 HTML 中提取
+ */
+export interface CardMetadata {
+  /** 卡片ID */
+  cardId?: string;
+  /** 卡片名称 */
+  name: string;
+  /** 卡片描述 */
+  description?: string;
+  /** 作者 */
+  author?: string;
+  /** 创建时间 */
+  createdAt?: string;
+  /** 修改时间 */
+  modifiedAt?: string;
+  /** 标签 */
+  tags?: string[];
+  /** 内容语言 */
+  language?: string;
+}
+
+/**
+ * PDF 文档元数据
+ * @remarks 未指定的字段从卡片元数据中读取
+ */
+export interface PDFDocumentMetadata {
+  /** 标题，默认为卡片名称 */
+  title?: string;
+  /** 作者 */
+  author?: string;
+  /** 主题，默认为卡片描述 */
+  subject?: string;
+  /** 关键词，默认为卡片标签 */
+  keywords?: string[];
+  /** 文档语言（BCP 47，如 `zh-CN`） */
+  language?: string;
+  /** 创建工具，默认为插件名称与版本 */
+  creator?: string;
+  /** 生成器，默认保留渲染引擎写入的值 */
+  producer?: string;
+  /** 创建时间，默认为卡片创建时间，缺失时为导出时间 */
+  creationDate?: Date | string;
+  /** 修改时间，默认为导出时间 */
+  modificationDate?: Date | string;
+}
+
+// ============================================================================
+// 进度信息
+// ============================================================================
+
+/**
+ * 转换进度状态
+ */
+export type PDFConversionStatus =
+  | 'pending'         // 等待开始
+  | 'converting-html' // 正在转换 HTML
+  | 'rendering'       // 正在渲染页面
+  | 'generating'      // 正在生成 PDF
+  | 'completed'       // 转换完成
+  | 'failed'          // 转换失败
+  | 'cancelled';      // 已取消
+
+/**
+ * 进度信息
+ */
+export interface PDFProgressInfo {
+  /** 任务ID */
+  taskId: string;
+  /** 当前状态 */
+  status: PDFConversionStatus;
+  /** 完成百分比 (0-100) */
+  percent: number;
+  /** 当前步骤描述 */
+  currentStep?: string;
+  /** 已输出的字节数（流式输出时提供） */
+  bytesWritten?: number;
+  /** 输出总字节数（流式输出且总大小已知时提供） */
+  totalBytes?: number;
+}
+
+/**
+ * 任务状态
+ */
+export interface PDFTaskStatus {
+  /** 任务ID */
+  taskId: string;
+  /** 当前状态 */
+  status: PDFConversionStatus;
+  /** 完成百分比 (0-100) */
+  percent: number;
+  /** 当前步骤描述 */
+  currentStep?: string;
+  /** 已输出的字节数（流式输出时提供） */
+  bytesWritten?: number;
+  /** 输出总字节数（流式输出且总大小已知时提供） */
+  totalBytes?: number;
+  /** 开始时间（毫秒时间戳） */
+  startedAt: number;
+  /** 最近更新时间（毫秒时间戳） */
+  updatedAt: number;
+  /** 结束时间（毫秒时间戳） */
+  finishedAt?: number;
+  /** 最终结果，任务结束后可用 */
+  result?: PDFConversionResult;
+}
+
+/**
+ * 任务取消结果
+ */
+export interface PDFTaskCancelResult {
+  /** 任务ID */
+  taskId: string;
+  /** 是否由本次请求取消 */
+  cancelled: boolean;
+  /** 任务当前状态，任务不存在时为空 */
+  status?: PDFConversionStatus;
+  /** 状态说明 */
+  message: string;
+}
+
+// ============================================================================
+// 转换结果
+// ============================================================================
+
+/**
+ * PDF 转换结果
+ */
+export interface PDFConversionResult {
+  /** 是否成功 */
+  success: boolean;
+  /** 任务ID */
+  taskId: string;
+  /** 输出文件路径 */
+  outputPath?: string;
+  /** PDF 数据 */
+  data?: Uint8Array;
+  /** 页数（读取页面树得到的准确值；直接从浏览器流式输出或结构检查失败时为空） */
+  pageCount?: number;
+  /** 文件大小（字节） */
+  fileSize?: number;
+  /** PDF 结构信息（直接从浏览器流式输出或结构检查失败时为空，失败原因见 `warnings`） */
+  inspection?: PDFInspection;
+  /** 选项校验与转换过程中的警告 */
+  warnings?: string[];
+  /** PDF/A 自检报告（指定 conformance 时提供） */
+  conformance?: PDFConformanceReport;
+  /** 图片压缩报告（指定 imageCompression 时提供） */
+  compression?: PDFImageCompressionReport;
+  /** 未能在卡片文件中找到的资源引用 */
+  unresolvedResources?: PDFUnresolvedResource[];
+  /** 被阻止、加载失败或不存在的请求（引擎支持请求拦截时提供） */
+  blockedRequests?: PDFBlockedRequest[];
+  /** 仍被分页截断的基础卡片（启用 `pagination` 时提供） */
+  splitBaseCards?: PDFSplitBaseCard[];
+  /** 转换统计 */
+  stats?: PDFConversionStats;
+  /** 错误信息 */
+  error?: PDFErrorInfo;
+  /** 转换耗时（毫秒） */
+  duration?: number;
+}
+
+// ============================================================================
+// 资源解析
+// ============================================================================
+
+/**
+ * 未能解析的资源引用
+ */
+export interface PDFUnresolvedResource {
+  /** 原始引用地址 */
+  reference: string;
+  /** 引用所在的文件（相对路径） */
+  file: string;
+  /** 引用位置，如 `img[src]`、`link[href]`、`url()`、`@import`、`config` */
+  location: string;
+}
+
+/**
+ * 请求被拦截的原因
+ *
+ * - `blocked`：外部请求被网络策略阻止
+ * - `failed`：允许的外部请求加载失败
+ * - `not-found`：卡片文件中没有对应的资源
+ */
+export type PDFBlockedReason = 'blocked' | 'failed' | 'not-found';
+
+/**
+ * 被拦截的请求
+ */
+export interface PDFBlockedRequest {
+  /** 请求地址；重定向被拒绝时为重定向的目标地址 */
+  url: string;
+  /** 资源类型（如 `image`、`font`、`stylesheet`、`script`） */
+  resourceType: string;
+  /** 拦截原因 */
+  reason: PDFBlockedReason;
+  /** 是否以占位内容代替 */
+  placeholder: boolean;
+}
+
+// ============================================================================
+// 转换统计
+// ============================================================================
+
+/**
+ * 基础卡片统计
+ */
+export interface PDFBaseCardStats {
+  /** 文档中的基础卡片总数 */
+  total: number;
+  /** 成功渲染的基础卡片数 */
+  processed: number;
+  /** 渲染失败后被移除的基础卡片数 */
+  skipped: number;
+  /** 渲染失败后以提示框代替的基础卡片数 */
+  placeholders: number;
+}
+
+/**
+ * 资源统计
+ */
+export interface PDFResourceStats {
+  /** 内联为 data URL 或 `<style>` 的卡片文件数 */
+  inlined: number;
+  /** 卡片文件中找不到的资源引用数 */
+  missing: number;
+  /** 被拦截的请求数（被阻止、加载失败或虚拟源上不存在） */
+  blocked: number;
+}
+
+/**
+ * 各阶段耗时（毫秒）
+ */
+export interface PDFPhaseTimings {
+  /** HTML 转换 */
+  html: number;
+  /** 页面加载、排版与生成 PDF */
+  render: number;
+  /** 页眉页脚与水印叠加、元数据、加密等后处理 */
+  postProcess: number;
+  /** 写入文件或流式输出 */
+  output: number;
+}
+
+/**
+ * 转换统计
+ */
+export interface PDFConversionStats {
+  /** 基础卡片 */
+  baseCards: PDFBaseCardStats;
+  /** 资源 */
+  resources: PDFResourceStats;
+  /** 各阶段耗时；多卡片合并时为各卡片之和，合并计入后处理 */
+  timings: PDFPhaseTimings;
+}
+
+// ============================================================================
+// 流式输出
+// ============================================================================
+
+/**
+ * 流式转换选项
+ */
+export interface PDFStreamOptions extends Omit<PDFConversionOptions, 'outputPath'> {
+  /**
+   * 输出数据块大小（字节），同时作为缓冲上限：消费者未读取的数据达到该大小时暂停生成
+   * @defaultValue 65536
+   */
+  chunkSize?: number;
+}
+
+/**
+ * 流式转换句柄
+ *
+ * @typeParam S - 流类型（Node.js `Readable` 或 Web `ReadableStream`）
+ */
+export interface PDFConversionStream<S> {
+  /** 任务ID */
+  taskId: string;
+  /** PDF 数据流；转换失败或被取消时以错误结束 */
+  stream: S;
+  /** 转换结束后兑现的结果（不含 `data`），消费者停止读取时为取消结果 */
+  result: Promise<PDFConversionResult>;
+}
+
+// ============================================================================
+// 图片压缩
+// ============================================================================
+
+/**
+ * 图片压缩报告
+ */
+export interface PDFImageCompressionReport {
+  /** 使用的预设 */
+  profile: PDFImageProfile;
+  /** 最终使用的最大分辨率 */
+  maxDpi: number;
+  /** 最终使用的 JPEG 质量 */
+  jpegQuality: number;
+  /** 检查的位图图片数量 */
+  images: number;
+  /** 实际重新编码的图片数量 */
+  optimizedImages: number;
+  /** 图片原始数据大小（字节） */
+  originalBytes: number;
+  /** 压缩后的图片数据大小（字节） */
+  compressedBytes: number;
+  /** 节省的字节数 */
+  bytesSaved: number;
+  /** 目标文件大小（字节），未指定时为空 */
+  targetFileSize?: number;
+  /** 输出是否达到目标文件大小，未指定目标时为空 */
+  targetMet?: boolean;
+}
+
+// ============================================================================
+// 归档符合性
+// ============================================================================
+
+/**
+ * 符合性违规项
+ */
+export interface PDFConformanceViolation {
+  /** 规则标识（如 `font-embedding`、`output-intent`） */
+  rule: string;
+  /** 违规说明 */
+  message: string;
+  /** 所在页码（从 1 开始），文档级问题为空 */
+  page?: number;
+}
+
+/**
+ * PDF/A 自检报告
+ */
+export interface PDFConformanceReport {
+  /** 目标级别 */
+  level: PDFConformanceLevel;
+  /** 是否通过本地自检 */
+  passed: boolean;
+  /** 违规项 */
+  violations: PDFConformanceViolation[];
+  /** 后处理中执行的修正 */
+  fixes: string[];
+}
+
+// ============================================================================
+// PDF 结构信息
+// ============================================================================
+
+/**
+ * 单页信息
+ */
+export interface PDFPageInfo {
+  /** 页码索引（从 0 开始） */
+  index: number;
+  /** 显示宽度（点，已计入旋转与 UserUnit） */
+  width: number;
+  /** 显示高度（点，已计入旋转与 UserUnit） */
+  height: number;
+  /** 旋转角度（0、90、180、270） */
+  rotate: number;
+  /** 页面媒体框 [x1, y1, x2, y2]（含继承值） */
+  mediaBox: [number, number, number, number];
+}
+
+/**
+ * 对象统计
+ */
+export interface PDFObjectStats {
+  /** 使用中的对象总数 */
+  total: number;
+  /** 流对象数量 */
+  streams: number;
+  /** 对象流（/ObjStm）数量 */
+  objectStreams: number;
+  /** 存放在对象流中的对象数量 */
+  compressed: number;
+  /** 无法读取的对象数量（如加密文档中的对象流） */
+  unreadable: number;
+  /** 按 /Type 统计的对象数量 */
+  byType: Record<string, number>;
+}
+
+/**
+ * PDF 结构信息
+ *
+ * @remarks
+ * 由内置的轻量读取器解析交叉引用与页面树得到，不依赖文本匹配。
+ */
+export interface PDFInspection {
+  /** PDF 版本（文档目录中的 /Version 优先于文件头） */
+  version: string;
+  /** 文件大小（字节） */
+  fileSize: number;
+  /** 页数 */
+  pageCount: number;
+  /** 各页信息 */
+  pages: PDFPageInfo[];
+  /** 对象统计 */
+  objects: PDFObjectStats;
+  /** 交叉引用节数量 */
+  xrefSections: number;
+  /** 增量更新次数 */
+  incrementalUpdates: number;
+  /** 是否使用交叉引用流 */
+  usesXRefStreams: boolean;
+  /** 是否加密 */
+  encrypted: boolean;
+}
+
+// ============================================================================
+// 多卡片合并
+// ============================================================================
+
+/**
+ * 多卡片合并选项
+ */
+export interface PDFBookOptions extends PDFConversionOptions {
   /**
-   * 页面格式
-   * @defaultValue 'a4'
+   * 单张卡片失败时是否继续处理其余卡片
+   * @remarks 为 false 时遇到第一张失败的卡片即中止，不生成输出
+   * @defaultValue true
    */
-  format?: PageFormat;
+  continueOnError?: boolean;
 
   /**
-   * 页面方向
-   * @defaultValue 'portrait'
+   * 是否为每张卡片生成章节书签
+   * @defaultValue true
    */
-  orientation?: PageOrientation;
+  chapterBookmarks?: boolean;
+}
+
+/**
+ * 单张卡片在合并文档中的结果
+ */
+export interface PDFBookChapter {
+  /** 在输入列表中的位置（从 0 开始） */
+  index: number;
+  /** 是否成功 */
+  success: boolean;
+  /** 章节标题（卡片名称） */
+  title?: string;
+  /** 起始页码（从 1 开始） */
+  startPage?: number;
+  /** 结束页码（包含） */
+  endPage?: number;
+  /** 页数 */
+  pageCount?: number;
+  /** 错误信息 */
+  error?: PDFErrorInfo;
+}
+
+/**
+ * 多卡片合并结果
+ */
+export interface PDFBookResult extends PDFConversionResult {
+  /** 每张卡片的结果，顺序与输入一致 */
+  chapters: PDFBookChapter[];
+}
+
+// ============================================================================
+// 插件接口
+// ============================================================================
 
+/**
+ * 浏览器池选项
+ */
+export interface PDFBrowserPoolOptions {
   /**
-   * 页边距
-   * @defaultValue { top: '15mm', right: '15mm', bottom: '15mm', left: '15mm' }
+   * 最大并发页面数（同时进行的渲染数）
+   * @defaultValue 2
    */
-  margin?: PageMargin;
+  maxConcurrency?: number;
 
   /**
-   * 是否打印背景图形
-   * @defaultValue true
+   * 浏览器空闲多久后自动关闭（毫秒），0 表示不自动关闭
+   * @defaultValue 30000
    */
-  printBackground?: boolean;
+  idleTimeout?: number;
 
   /**
-   * 是否包含页眉
-   * @defaultValue false
+   * 浏览器启动参数
+   * @defaultValue ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage', '--disable-gpu']
    */
-  displayHeaderFooter?: boolean;
+  launchArgs?: string[];
 
   /**
-   * 页眉 HTML 模板
+   * 浏览器可执行文件路径
    */
-  headerTemplate?: string;
+  executablePath?: string;
 
   /**
-   * 页脚 HTML 模板
+   * 已运行浏览器的 WebSocket 地址
+   * @remarks 指定后通过 CDP 连接该浏览器而不是自行启动，关闭插件时只断开连接
    */
-  footerTemplate?: string;
+  browserWSEndpoint?: string;
+}
+
+// ============================================================================
+// 渲染引擎
+// ============================================================================
+
+/**
+ * 内置渲染引擎类型
+ */
+export type PDFEngineKind =
+  | 'auto'        // 自动选择：优先 Puppeteer，未安装时使用 Playwright
+  | 'puppeteer'   // Puppeteer
+  | 'playwright'; // Playwright（Chromium）
 
+/**
+ * 引擎打印参数
+ */
+export interface PDFRenderOptions {
+  /** 标准纸张格式，与 width/height 互斥 */
+  format?: Uppercase<PageFormat>;
+  /** 纸张宽度 */
+  width?: string;
+  /** 纸张高度 */
+  height?: string;
+  /** 是否横向 */
+  landscape?: boolean;
+  /** 是否打印背景 */
+  printBackground: boolean;
+  /** 页边距 */
+  margin: PageMargin;
+  /** 缩放比例 */
+  scale: number;
+  /** 是否显示页眉页脚 */
+  displayHeaderFooter: boolean;
+  /** 页眉模板 */
+  headerTemplate: string;
+  /** 页脚模板 */
+  footerTemplate: string;
+  /** 是否优先使用 CSS `@page` 尺寸 */
+  preferCSSPageSize: boolean;
+}
+
+/**
+ * 页面发出的请求
+ */
+export interface PDFResourceRequest {
+  /** 请求地址 */
+  url: string;
+  /** 请求方法 */
+  method: string;
+  /** 资源类型（与 Chromium DevTools 协议一致，如 `document`、`image`、`font`） */
+  resourceType: string;
+  /** 是否为导航请求 */
+  isNavigation: boolean;
+}
+
+/**
+ * 请求处理结果
+ */
+export type PDFResourceResponse =
+  | { action: 'fulfill'; status: number; contentType: string; body: Uint8Array; headers?: Record<string, string> }
+  | { action: 'abort' }
+  | { action: 'continue' };
+
+/**
+ * 引擎页面
+ *
+ * 一次转换独占的浏览器页面，转换结束后关闭
+ */
+export interface PDFRenderPage {
+  /** 设置视口尺寸 */
+  setViewport(size: { width: number; height: number }): Promise<void>;
+  /** 加载 HTML 并等待网络空闲 */
+  setContent(html: string, options: { timeout: number }): Promise<void>;
+  /** 在页面中执行函数，函数会被序列化，不能引用外部变量 */
+  evaluate<TArg, TResult>(fn: (arg: TArg) => TResult, arg: TArg): Promise<Awaited<TResult>>;
+  /** 切换到打印媒体类型 */
+  emulatePrintMedia(): Promise<void>;
+  /** 打印为 PDF */
+  pdf(options: PDFRenderOptions): Promise<Uint8Array>;
   /**
-   * 是否生成 PDF 书签（基于标题）
-   * @defaultValue false
+   * 打印为 PDF 并按块读取
+   * @remarks 可选能力，引擎不支持时流式输出改为分块发送完整的 PDF 数据
    */
-  generateOutline?: boolean;
+  pdfStream?(options: PDFRenderOptions): Promise<AsyncIterable<Uint8Array>>;
+  /**
+   * 拦截页面发出的所有请求
+   * @remarks 可选能力，与 `goto` 一起实现后插件启用网络隔离；引擎不支持时页面通过 `setContent` 加载
+   */
+  interceptRequests?(handler: (request: PDFResourceRequest) => Promise<PDFResourceResponse>): Promise<void>;
+  /** 导航到地址并等待网络空闲（可选能力，配合请求拦截使用） */
+  goto?(url: string, options: { timeout: number }): Promise<void>;
+  /** 关闭页面并释放占用的资源 */
+  close(): Promise<void>;
+}
 
+/**
+ * 渲染引擎
+ *
+ * 插件通过该接口使用浏览器，可注入自定义实现（例如测试中的假引擎）
+ */
+export interface PDFRenderEngine {
+  /** 引擎名称 */
+  readonly name: string;
   /**
-   * 输出文件路径
-   * @remarks 指定后将 PDF 写入文件系统。不指定则返回二进制数据。
+   * 打开页面
+   * @param options.signal - 取消信号，排队等待期间触发时放弃
    */
-  outputPath?: string;
+  openPage(options?: { signal?: AbortSignal }): Promise<PDFRenderPage>;
+  /** 释放引擎占用的浏览器 */
+  close(): Promise<void>;
+}
 
+/**
+ * 插件构造选项
+ */
+export interface CardtoPDFPluginOptions {
   /**
-   * 主题 ID
-   * @remarks 覆盖卡片默认主题
+   * 渲染引擎，可传入内置引擎类型或自定义引擎实例
+   * @defaultValue 'auto'
    */
-  themeId?: string;
+  engine?: PDFEngineKind | PDFRenderEngine;
 
   /**
-   * 外观配置表 ID（由转换模块统一管理）
+   * 浏览器池选项（仅对内置引擎生效）
    */
-  appearanceProfileId?: string;
+  browser?: PDFBrowserPoolOptions;
 
   /**
-   * 外观参数覆盖（用于后续扩展）
+   * 配置文件路径（JSON）
+   *
+   * @remarks 指定后在初始化时读取已保存的配置，并在配置更新或重置时写回；未指定时配置只保存在内存中
    */
-  appearanceOverrides?: DeepPartial<Omit<ConversionAppearanceProfile, 'id' | 'description'>>;
+  configPath?: string;
+}
+
+/**
+ * 可作为插件默认配置的选项
+ *
+ * @remarks 输出路径与进度回调、任务ID、取消信号等运行时参数只能在单次转换中指定
+ */
+export type PDFConfigurableOptions = Omit<PDFConversionOptions, 'outputPath' | 'onProgress' | 'taskId' | 'signal'>;
+
+/**
+ * 按类别组织的插件配置
+ */
+export type PDFPluginConfig = Record<PDFOptionCategory, PDFConfigurableOptions>;
+
+/**
+ * 配置更新结果
+ */
+export interface PDFConfigUpdateResult extends PDFValidationResult {
+  /** 更新后的配置；更新被拒绝时为原有配置 */
+  config: PDFPluginConfig;
+}
+
+/**
+ * 插件生命周期状态
+ */
+export type PDFPluginState =
+  | 'created'      // 已创建，尚未初始化
+  | 'initialized'  // 已初始化
+  | 'running'      // 已启动，正在提供服务
+  | 'stopping'     // 停止中，等待进行中的任务完成
+  | 'stopped'      // 已停止
+  | 'destroyed';   // 已销毁
+
+/**
+ * 文件转换接口模块
+ * @remarks 由宿主在初始化时注入，插件通过它注册与注销转换能力
+ */
+export interface PDFConversionRegistry {
+  /** 注册转换能力 */
+  register(registration: PDFConverterRegistration): void | Promise<void>;
+  /** 注销转换能力 */
+  unregister(pluginId: string): void | Promise<void>;
+}
 
+/**
+ * 插件初始化上下文
+ */
+export interface PDFPluginContext {
+  /** 文件转换接口模块 */
+  conversion?: PDFConversionRegistry;
+}
+
+/**
+ * 插件停止选项
+ */
+export interface PDFPluginStopOptions {
   /**
-   * 进度回调函数
+   * 等待进行中任务完成的最长时间（毫秒），超时后取消剩余任务
+   * @remarks 不指定时一直等待
    */
-  onProgress?: (progress: PDFProgressInfo) => void;
+  timeout?: number;
 }
 
-// ============================================================================
-// 进度信息
-// ============================================================================
+/**
+ * 协议版本范围
+ */
+export interface PDFProtocolVersionRange {
+  /** 支持的最低协议版本（包含） */
+  min: string;
+  /** 支持的最高协议版本（不包含） */
+  max: string;
+}
 
 /**
- * 转换进度状态
+ * 插件元数据
  */
-export type PDFConversionStatus =
-  | 'converting-html' // 正在转换 HTML
-  | 'rendering'       // 正在渲染页面
-  | 'generating'      // 正在生成 PDF
-  | 'completed'       // 转换完成
-  | 'failed';         // 转换失败
+export interface PDFPluginMetadata {
+  /** 插件ID */
+  id: string;
+  /** 插件名称 */
+  name: string;
+  /** 插件版本 */
+  version: string;
+  /** 插件描述 */
+  description: string;
+  /** 作者 */
+  author: string;
+  /** 许可证 */
+  license: string;
+  /** 支持的协议版本范围 */
+  protocolVersion: PDFProtocolVersionRange;
+}
 
 /**
- * 进度信息
+ * 转换选项类别
  */
-export interface PDFProgressInfo {
-  /** 任务ID */
-  taskId: string;
-  /** 当前状态 */
-  status: PDFConversionStatus;
-  /** 完成百分比 (0-100) */
-  percent: number;
-  /** 当前步骤描述 */
-  currentStep?: string;
+export type PDFOptionCategory =
+  | 'page'       // 页面设置
+  | 'cover-toc'  // 封面目录
+  | 'output'     // 输出控制
+  | 'render';    // 渲染控制
+
+/**
+ * 转换选项声明
+ */
+export interface PDFOptionDescriptor {
+  /** 选项名（对应 PDFConversionOptions 的字段） */
+  name: keyof PDFConversionOptions;
+  /** 选项类别 */
+  category: PDFOptionCategory;
+  /** 值类型 */
+  type: 'string' | 'number' | 'boolean' | 'object' | 'boolean | object' | 'string | object';
+  /** 可选值 */
+  enum?: readonly string[];
 }
 
-// ============================================================================
-// 转换结果
-// ============================================================================
+/**
+ * JSON Schema 值类型
+ */
+export type PDFSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
 
 /**
- * PDF 转换结果
+ * 选项结构描述的语言
  */
-export interface PDFConversionResult {
-  /** 是否成功 */
-  success: boolean;
-  /** 任务ID */
-  taskId: string;
-  /** 输出文件路径 */
-  outputPath?: string;
-  /** PDF 数据 */
-  data?: Uint8Array;
-  /** 页数 */
-  pageCount?: number;
-  /** 文件大小（字节） */
-  fileSize?: number;
-  /** 错误信息 */
-  error?: ConversionError;
-  /** 转换耗时（毫秒） */
-  duration?: number;
+export type PDFSchemaLocale = 'zh-CN' | 'en-US';
+
+/**
+ * 转换选项的 JSON Schema（Draft 2020-12 的子集）
+ *
+ * @remarks 二进制数据按 OpenAPI 的约定表示为 `{ type: 'string', format: 'binary' }`，对应 `Uint8Array`；
+ * 顶层选项的 `x-category` 给出所属的选项类别
+ */
+export interface PDFOptionsSchema {
+  /** Schema 方言 */
+  $schema?: string;
+  /** 标签 */
+  title?: string;
+  /** 说明 */
+  description?: string;
+  /** 值类型 */
+  type?: PDFSchemaType | PDFSchemaType[];
+  /** 可选值 */
+  enum?: Array<string | number | boolean>;
+  /** 默认值 */
+  default?: unknown;
+  /** 示例 */
+  examples?: unknown[];
+  /** 字符串格式（正则表达式） */
+  pattern?: string;
+  /** 字符串语义格式 */
+  format?: string;
+  /** 最小值 */
+  minimum?: number;
+  /** 最大值 */
+  maximum?: number;
+  /** 下限（不含） */
+  exclusiveMinimum?: number;
+  /** 数组元素 */
+  items?: PDFOptionsSchema;
+  /** 对象属性 */
+  properties?: Record<string, PDFOptionsSchema>;
+  /** 必需属性 */
+  required?: string[];
+  /** 是否允许未声明的属性 */
+  additionalProperties?: boolean;
+  /** 可选结构，满足其一即可 */
+  anyOf?: PDFOptionsSchema[];
+  /** 选项类别（仅顶层选项） */
+  'x-category'?: PDFOptionCategory;
 }
 
-// ============================================================================
-// 插件接口
-// ============================================================================
+/**
+ * 转换能力注册描述
+ */
+export interface PDFConverterRegistration {
+  /** 插件元数据 */
+  metadata: PDFPluginMetadata;
+  /** 支持的源类型 */
+  sourceTypes: string[];
+  /** 目标类型 */
+  targetType: string;
+  /** 支持的转换选项 */
+  options: PDFOptionDescriptor[];
+}
 
 /**
  * PDF 转换器插件接口
@@ -210,6 +1564,43 @@ export interface PDFConverterPlugin {
     options?: PDFConversionOptions
   ): Promise<PDFConversionResult>;
 
+  /**
+   * 以 Node.js 可读流输出 PDF
+   */
+  convertToStream(source: ConversionSource, options?: PDFStreamOptions): Promise<PDFConversionStream<Readable>>;
+
+  /**
+   * 以 Web ReadableStream 输出 PDF
+   */
+  convertToWebStream(
+    source: ConversionSource,
+    options?: PDFStreamOptions
+  ): Promise<PDFConversionStream<ReadableStream<Uint8Array>>>;
+
+  /**
+   * 将 PDF 写入可写流
+   */
+  convertToWritable(
+    source: ConversionSource,
+    destination: NodeJS.WritableStream | WritableStream<Uint8Array>,
+    options?: PDFStreamOptions
+  ): Promise<PDFConversionResult>;
+
+  /**
+   * 查询任务状态
+   */
+  getTaskStatus(taskId: string): PDFTaskStatus | undefined;
+
+  /**
+   * 取消任务
+   */
+  cancelTask(taskId: string): Promise<PDFTaskCancelResult>;
+
+  /**
+   * 将多张卡片合并为一份 PDF
+   */
+  convertBook(sources: ConversionSource[], options?: PDFBookOptions): Promise<PDFBookResult>;
+
   /**
    * 获取默认选项
    */
@@ -219,6 +1610,56 @@ export interface PDFConverterPlugin {
    * 验证选项
    */
   validateOptions(options: PDFConversionOptions): PDFValidationResult;
+
+  /**
+   * 获取转换选项的 JSON Schema
+   */
+  getOptionsSchema(locale?: PDFSchemaLocale): PDFOptionsSchema;
+
+  /**
+   * 获取按类别组织的当前配置
+   */
+  getConfig(): PDFPluginConfig;
+
+  /**
+   * 更新默认配置
+   */
+  updateConfig(options: PDFConfigurableOptions): Promise<PDFConfigUpdateResult>;
+
+  /**
+   * 将配置恢复为出厂默认值
+   */
+  resetConfig(): Promise<PDFPluginConfig>;
+
+  /**
+   * 初始化插件
+   */
+  initialize(context?: PDFPluginContext): Promise<void>;
+
+  /**
+   * 启动插件并注册转换能力
+   */
+  start(): Promise<void>;
+
+  /**
+   * 停止接收新任务并等待进行中的任务完成
+   */
+  stop(options?: PDFPluginStopOptions): Promise<void>;
+
+  /**
+   * 注销转换能力并释放所有资源
+   */
+  destroy(): Promise<void>;
+
+  /**
+   * 获取插件元数据
+   */
+  getMetadata(): PDFPluginMetadata;
+
+  /**
+   * 获取转换能力注册描述
+   */
+  getRegistration(): PDFConverterRegistration;
 }
 
 /**
@@ -229,10 +1670,26 @@ export interface PDFValidationResult {
   valid: boolean;
   /** 错误列表 */
   errors?: string[];
+  /** 带错误码和选项名的错误列表 */
+  issues?: PDFValidationIssue[];
   /** 警告列表 */
   warnings?: string[];
 }
 
+/**
+ * 选项校验发现的问题
+ */
+export interface PDFValidationIssue {
+  /** 错误码 */
+  code: PDFErrorCodeType;
+  /** 错误描述 */
+  message: string;
+  /** 相关选项（顶层选项名，如 `margin`、`watermark`） */
+  option?: string;
+  /** 出错字段的完整路径（如 `toc.maxDepth`、`encryption.userPassword`） */
+  field?: string;
+}
+
 // ============================================================================
 // 错误码
 // ============================================================================
@@ -255,9 +1712,65 @@ export const PDFErrorCode = {
   INVALID_FORMAT: 'CONV-PDF-006',
   /** 无效的页边距 */
   INVALID_MARGIN: 'CONV-PDF-007',
+  /** 无效的页面尺寸 */
+  INVALID_PAGE_SIZE: 'CONV-PDF-008',
+  /** 无效的缩放比例 */
+  INVALID_SCALE: 'CONV-PDF-009',
+  /** 任务已取消 */
+  TASK_CANCELLED: 'CONV-PDF-010',
+  /** 任务ID冲突 */
+  DUPLICATE_TASK_ID: 'CONV-PDF-011',
+  /** 插件未处于可服务状态 */
+  PLUGIN_NOT_RUNNING: 'CONV-PDF-012',
+  /** PDF 加密失败 */
+  ENCRYPTION_FAILED: 'CONV-PDF-013',
+  /** 基础卡片渲染失败 */
+  RENDER_FAILED: 'CONV-PDF-014',
+  /** 无效的选项值（页面格式、页边距、纸张尺寸、缩放比例以外的选项） */
+  INVALID_OPTION: 'CONV-PDF-015',
+  /** 选项相互冲突 */
+  OPTION_CONFLICT: 'CONV-PDF-016',
+  /** 无效的插件配置 */
+  INVALID_CONFIG: 'CONV-PDF-017',
 } as const;
 
 /**
  * PDF 转换错误码类型
  */
 export type PDFErrorCodeType = (typeof PDFErrorCode)[keyof typeof PDFErrorCode];
+
+/**
+ * 错误详情；按错误类型提供其中的部分字段
+ */
+export interface PDFErrorDetails {
+  /** 相关选项（顶层选项名） */
+  option?: string;
+  /** 出错字段的完整路径 */
+  field?: string;
+  /** 选项校验发现的全部问题 */
+  issues?: PDFValidationIssue[];
+  /** 相关文件路径 */
+  path?: string;
+  /** Node.js 系统错误码（如 `ENOSPC`、`EACCES`） */
+  systemCode?: string;
+  /** 超时时间（毫秒） */
+  timeout?: number;
+  /** 已尝试次数 */
+  attempts?: number;
+  /** 渲染引擎名称 */
+  engine?: string;
+  /** 渲染失败的基础卡片 */
+  baseCards?: Array<{ index: number; id?: string; title: string; message?: string }>;
+}
+
+/**
+ * 转换结果中的错误信息
+ *
+ * @remarks HTML 转换失败时直接返回 CardtoHTMLPlugin 的错误，不含 `details` 与 `retryable`
+ */
+export interface PDFErrorInfo extends ConversionError {
+  /** 结构化详情 */
+  details?: PDFErrorDetails;
+  /** 相同输入重试后是否可能成功 */
+  retryable?: boolean;
+}
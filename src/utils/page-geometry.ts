@@ -0,0 +1,127 @@
+/**
+ * 页面几何工具
+ *
+ * 提供纸张尺寸表与 CSS 长度单位换算，供封面、目录等需要按页面尺寸排版的模块使用
+ *
+ * @packageDocumentation
+ */
+
+import type { PageFormat, PageMargin, PageOrientation } from '../types';
+
+/**
+ * 标准纸张尺寸（毫米，纵向）
+ * @internal
+ */
+export const PAGE_FORMAT_SIZES_MM: Readonly<Record<PageFormat, { width: number; height: number }>> = {
+  a3: { width: 297, height: 420 },
+  a4: { width: 210, height: 297 },
+  a5: { width: 148, height: 210 },
+  letter: { width: 215.9, height: 279.4 },
+  legal: { width: 215.9, height: 355.6 },
+  tabloid: { width: 279.4, height: 431.8 },
+};
+
+/**
+ * 每种单位对应的毫米数
+ * @internal
+ */
+const MM_PER_UNIT: Readonly<Record<string, number>> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  px: 25.4 / 96,
+};
+
+/**
+ * 页面盒尺寸（毫米）
+ */
+export interface PageBox {
+  /** 纸张宽度 */
+  width: number;
+  /** 纸张高度 */
+  height: number;
+  /** 内容区宽度（扣除左右边距，CSS 坐标） */
+  contentWidth: number;
+  /** 内容区高度（扣除上下边距，CSS 坐标） */
+  contentHeight: number;
+}
+
+/**
+ * 将 CSS 长度转换为毫米
+ *
+ * @remarks 与 Puppeteer 行为一致，无单位的数值按 px 处理
+ * @param value - 长度字符串，如 '15mm'、'1in'、'20px'
+ * @returns 毫米数，无法解析时返回 0
+ */
+export function toMillimeters(value: string | undefined): number {
+  if (!value) {
+    return 0;
+  }
+  const match = /^(\d+(?:\.\d+)?)(mm|cm|in|px)?$/.exec(value.trim());
+  if (!match) {
+    return 0;
+  }
+  return Number(match[1]) * MM_PER_UNIT[match[2] ?? 'px']!;
+}
+
+/**
+ * 页面盒计算参数
+ */
+export interface PageGeometryInput {
+  /** 页面格式 */
+  format: PageFormat;
+  /** 页面方向，仅对标准格式生效 */
+  orientation: PageOrientation;
+  /** 页边距 */
+  margin?: PageMargin;
+  /** 自定义纸张宽度，与 height 同时指定时覆盖 format */
+  width?: string;
+  /** 自定义纸张高度 */
+  height?: string;
+  /** 缩放比例 */
+  scale?: number;
+}
+
+/**
+ * 计算页面盒尺寸
+ *
+ * @remarks
+ * 返回值为 CSS 坐标下的尺寸：页面缩放比例不为 1 时，
+ * 同样大小的纸张可容纳的 CSS 长度按比例变化。
+ *
+ * @param input - 页面设置
+ */
+export function resolvePageBox(input: PageGeometryInput): PageBox {
+  const { margin = {}, scale = 1 } = input;
+  let width: number;
+  let height: number;
+
+  if (input.width && input.height) {
+    width = toMillimeters(input.width);
+    height = toMillimeters(input.height);
+  } else {
+    const size = PAGE_FORMAT_SIZES_MM[input.format] ?? PAGE_FORMAT_SIZES_MM.a4;
+    const landscape = input.orientation === 'landscape';
+    width = landscape ? size.height : size.width;
+    height = landscape ? size.width : size.height;
+  }
+
+  const contentWidth = Math.max(0, width - toMillimeters(margin.left) - toMillimeters(margin.right));
+  const contentHeight = Math.max(0, height - toMillimeters(margin.top) - toMillimeters(margin.bottom));
+
+  return {
+    width,
+    height,
+    contentWidth: contentWidth / scale,
+    contentHeight: contentHeight / scale,
+  };
+}
+
+/**
+ * 毫米转换为 CSS 像素
+ *
+ * @param mm - 毫米数
+ */
+export function millimetersToPixels(mm: number): number {
+  return mm / MM_PER_UNIT['px']!;
+}
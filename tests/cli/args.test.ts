@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CliUsageError, formatHelp, parseCliArgs } from '../../src/cli/args';
+
+describe('parseCliArgs', () => {
+  it('collects field flags into option objects', () => {
+    const { conversion } = parseCliArgs([
+      'a.card',
+      '--margin-top',
+      '10mm',
+      '--toc',
+      '--toc-max-depth=2',
+      '--network-allowlist',
+      'cdn.example.com',
+      '--network-allowlist',
+      'fonts.example.com',
+    ]);
+
+    expect(conversion).toEqual({
+      margin: { top: '10mm' },
+      toc: { maxDepth: 2 },
+      network: { allowlist: ['cdn.example.com', 'fonts.example.com'] },
+    });
+  });
+
+  it('expands nested settings objects', () => {
+    const { conversion } = parseCliArgs([
+      'a.card',
+      '--encryption-user-password',
+      'secret-1',
+      '--no-encryption-permissions-print',
+      '--encryption-permissions-copy=false',
+      '--header-footer-footer',
+      'page-number',
+      '--header-footer-even-pages-header',
+      'none',
+    ]);
+
+    expect(conversion).toEqual({
+      encryption: { userPassword: 'secret-1', permissions: { print: false, copy: false } },
+      headerFooter: { footer: 'page-number', evenPages: { header: 'none' } },
+    });
+  });
+
+  it('only accepts the negated form of false-only flags', () => {
+    expect(parseCliArgs(['a.card', '--no-header-footer-first-page']).conversion).toEqual({
+      headerFooter: { firstPage: false },
+    });
+    expect(() => parseCliArgs(['a.card', '--header-footer-first-page'])).toThrow(CliUsageError);
+    expect(formatHelp()).toContain('--no-header-footer-first-page ');
+    expect(formatHelp()).not.toContain('--[no-]header-footer-first-page');
+  });
+
+  it('rejects unknown flags and missing values', () => {
+    expect(() => parseCliArgs(['a.card', '--margins', '1mm'])).toThrow('未知参数: --margins');
+    expect(() => parseCliArgs(['a.card', '--scale'])).toThrow('参数 --scale 需要一个值');
+    expect(() => parseCliArgs(['--jobs', '0', 'a.card'])).toThrow(CliUsageError);
+  });
+});
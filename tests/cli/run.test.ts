@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cardHtml, clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { ExitCode, main } from '../../src/cli/run';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+const engines = vi.hoisted(() => ({ current: undefined as unknown }));
+
+// 命令行按 --engine 创建内置引擎，测试中换成假引擎
+vi.mock('../../src/plugin', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/plugin')>();
+  return {
+    ...actual,
+    createPlugin: (options: ConstructorParameters<typeof actual.CardtoPDFPlugin>[0]) =>
+      new actual.CardtoPDFPlugin({ ...options, engine: engines.current as FakeRenderEngine }),
+  };
+});
+
+describe('cardto-pdf main', () => {
+  let dir: string;
+  let card: string;
+  let output: string;
+  let engine: FakeRenderEngine;
+  let listeners: number;
+
+  beforeEach(async () => {
+    listeners = process.listenerCount('SIGINT') + process.listenerCount('SIGTERM');
+    dir = await fs.mkdtemp(join(tmpdir(), 'cardto-pdf-cli-'));
+    card = join(dir, 'demo.card');
+    output = join(dir, 'demo.pdf');
+    await fs.writeFile(card, '');
+    registerCard(card, cardHtml('示例卡片'));
+    engine = new FakeRenderEngine({ pdfDelay: 100 });
+    engines.current = engine;
+  });
+
+  afterEach(async () => {
+    clearCards();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /** 在卡片开始打印后发送信号 */
+  async function interrupt(signal: NodeJS.Signals): Promise<number> {
+    const running = main([card, '-o', output, '--quiet']);
+    await vi.waitFor(() => expect(engine.pdfCalls).toHaveLength(1));
+    process.emit(signal, signal);
+    return running;
+  }
+
+  it('exits with 143 on SIGTERM after cancelling the conversion and closing the browser', async () => {
+    const exitCode = await interrupt('SIGTERM');
+
+    expect(exitCode).toBe(ExitCode.TERMINATED);
+    expect(engine.closed).toBe(true);
+    await expect(fs.access(output)).rejects.toThrow();
+    expect(process.listenerCount('SIGINT') + process.listenerCount('SIGTERM')).toBe(listeners);
+  });
+
+  it('exits with 130 on SIGINT and keeps an output file the conversion did not write', async () => {
+    await fs.writeFile(output, 'previous export');
+    const past = new Date(Date.now() - 60_000);
+    await fs.utimes(output, past, past);
+
+    const exitCode = await interrupt('SIGINT');
+
+    expect(exitCode).toBe(ExitCode.INTERRUPTED);
+    expect(await fs.readFile(output, 'utf8')).toBe('previous export');
+    expect(process.listenerCount('SIGINT') + process.listenerCount('SIGTERM')).toBe(listeners);
+  });
+
+  it('keeps the default margins for the sides not given on the command line', async () => {
+    const exitCode = await main([card, '-o', output, '--quiet', '--margin-top', '5mm']);
+
+    expect(exitCode).toBe(ExitCode.SUCCESS);
+    expect(engine.pdfCalls[0]!.margin).toEqual({ top: '5mm', right: '15mm', bottom: '15mm', left: '15mm' });
+  });
+
+  it('removes its signal handlers after a normal run', async () => {
+    const exitCode = await main([card, '-o', output, '--quiet']);
+
+    expect(exitCode).toBe(ExitCode.SUCCESS);
+    expect((await fs.readFile(output)).subarray(0, 5).toString()).toBe('%PDF-');
+    expect(process.listenerCount('SIGINT') + process.listenerCount('SIGTERM')).toBe(listeners);
+  });
+});
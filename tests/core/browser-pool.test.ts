@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BrowserPool } from '../../src/core/browser-pool';
+import type { BrowserDriver, BrowserLaunchOptions } from '../../src/core/browser-pool';
+
+/**
+ * 测试用页面
+ */
+interface FakePage {
+  closed: boolean;
+}
+
+/**
+ * 测试用浏览器
+ */
+class FakeBrowser {
+  readonly pages: FakePage[] = [];
+  connected = true;
+  closed = false;
+  private readonly _listeners: Array<() => void> = [];
+
+  constructor(readonly launchOptions: BrowserLaunchOptions) {}
+
+  onDisconnected(callback: () => void): void {
+    this._listeners.push(callback);
+  }
+
+  /** 模拟浏览器崩溃或断开 */
+  disconnect(): void {
+    if (this.connected) {
+      this.connected = false;
+      this._listeners.forEach((listener) => listener());
+    }
+  }
+}
+
+/** 启动过的浏览器 */
+let browsers: FakeBrowser[] = [];
+
+const driver: BrowserDriver<FakeBrowser, FakePage> = {
+  async launch(options) {
+    const browser = new FakeBrowser(options);
+    browsers.push(browser);
+    return browser;
+  },
+  isConnected: (browser) => browser.connected,
+  onDisconnected: (browser, callback) => browser.onDisconnected(callback),
+  async newPage(browser) {
+    if (!browser.connected) {
+      throw new Error('浏览器已断开');
+    }
+    const page = { closed: false };
+    browser.pages.push(page);
+    return page;
+  },
+  async closePage(page) {
+    page.closed = true;
+  },
+  async closeBrowser(browser, connected) {
+    browser.closed = !connected;
+    browser.disconnect();
+  },
+};
+
+/**
+ * 让出事件循环，使已兑现的 Promise 回调执行完毕
+ */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('BrowserPool', () => {
+  let pool: BrowserPool<FakeBrowser, FakePage>;
+
+  beforeEach(() => {
+    browsers = [];
+  });
+
+  afterEach(async () => {
+    await pool.close();
+  });
+
+  it('shares one browser and queues leases beyond the concurrency limit', async () => {
+    pool = new BrowserPool(driver, { maxConcurrency: 2 });
+    const first = await pool.acquire();
+    const second = await pool.acquire();
+    let thirdGranted = false;
+    const third = pool.acquire().then((lease) => {
+      thirdGranted = true;
+      return lease;
+    });
+    await flush();
+
+    expect(pool.activeCount).toBe(2);
+    expect(pool.pendingCount).toBe(1);
+    expect(thirdGranted).toBe(false);
+
+    await first.release();
+    const lease = await third;
+
+    expect(pool.activeCount).toBe(2);
+    expect(pool.pendingCount).toBe(0);
+    expect(first.page.closed).toBe(true);
+    expect(browsers).toHaveLength(1);
+    expect(browsers[0]!.pages).toHaveLength(3);
+
+    await second.release();
+    await lease.release();
+    expect(pool.activeCount).toBe(0);
+  });
+
+  it('gives up a queued lease when its signal is aborted', async () => {
+    pool = new BrowserPool(driver, { maxConcurrency: 1 });
+    const lease = await pool.acquire();
+    const controller = new AbortController();
+    const queued = pool.acquire(controller.signal);
+
+    controller.abort();
+
+    await expect(queued).rejects.toThrow('等待浏览器时任务已取消');
+    expect(pool.pendingCount).toBe(0);
+    await lease.release();
+  });
+
+  it('closes the browser after the idle timeout and relaunches on demand', async () => {
+    pool = new BrowserPool(driver, { idleTimeout: 20 });
+    await (await pool.acquire()).release();
+
+    await vi.waitFor(() => expect(browsers[0]!.closed).toBe(true));
+
+    const lease = await pool.acquire();
+    expect(browsers).toHaveLength(2);
+    expect(browsers[1]!.pages).toEqual([lease.page]);
+    await lease.release();
+  });
+
+  it('keeps the browser open while a lease is active', async () => {
+    pool = new BrowserPool(driver, { idleTimeout: 10 });
+    const lease = await pool.acquire();
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(browsers[0]!.closed).toBe(false);
+    await lease.release();
+  });
+
+  it('relaunches the browser after a crash', async () => {
+    pool = new BrowserPool(driver);
+    const lease = await pool.acquire();
+
+    browsers[0]!.disconnect();
+    // 浏览器已断开时归还页面不报错
+    await expect(lease.release()).resolves.toBeUndefined();
+
+    const next = await pool.acquire();
+    expect(browsers).toHaveLength(2);
+    expect(browsers[1]!.pages).toEqual([next.page]);
+    await next.release();
+  });
+
+  it('waits for active leases and rejects queued ones when closed', async () => {
+    pool = new BrowserPool(driver, { maxConcurrency: 1 });
+    const lease = await pool.acquire();
+    const queued = pool.acquire();
+    let closed = false;
+    const closing = pool.close().then(() => {
+      closed = true;
+    });
+
+    await expect(queued).rejects.toThrow('浏览器池已关闭');
+    await flush();
+    expect(closed).toBe(false);
+    expect(browsers[0]!.closed).toBe(false);
+
+    await lease.release();
+    await closing;
+    expect(browsers[0]!.closed).toBe(true);
+  });
+
+  it('serves leases requested during close from a new browser', async () => {
+    pool = new BrowserPool(driver);
+    const lease = await pool.acquire();
+    const closing = pool.close();
+    const next = pool.acquire();
+
+    await lease.release();
+    await closing;
+    const nextLease = await next;
+
+    expect(browsers).toHaveLength(2);
+    expect(browsers[0]!.closed).toBe(true);
+    expect(browsers[1]!.pages).toEqual([nextLease.page]);
+    await nextLease.release();
+  });
+
+  it('only disconnects from a browser it did not launch', async () => {
+    pool = new BrowserPool(driver, { browserWSEndpoint: 'ws://127.0.0.1:9222/devtools/browser/test' });
+    await (await pool.acquire()).release();
+
+    await pool.close();
+
+    expect(browsers[0]!.launchOptions.endpoint).toBe('ws://127.0.0.1:9222/devtools/browser/test');
+    expect(browsers[0]!.closed).toBe(false);
+    expect(browsers[0]!.connected).toBe(false);
+  });
+});
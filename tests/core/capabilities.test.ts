@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { buildOptionsSchema, PAGE_FORMATS, PAGE_ORIENTATIONS } from '../../src/core/options-schema';
+import { OPTION_DESCRIPTORS } from '../../src/core/capabilities';
+
+describe('OPTION_DESCRIPTORS', () => {
+  it('declares the page formats and orientations of the options schema', () => {
+    const descriptor = (name: string) => OPTION_DESCRIPTORS.find((item) => item.name === name);
+
+    expect(descriptor('format')?.enum).toEqual(PAGE_FORMATS);
+    expect(descriptor('orientation')?.enum).toEqual(PAGE_ORIENTATIONS);
+
+    const { properties } = buildOptionsSchema(OPTION_DESCRIPTORS);
+    expect(properties?.format).toMatchObject({ enum: PAGE_FORMATS, 'x-category': 'page' });
+    expect(properties?.orientation).toMatchObject({ enum: PAGE_ORIENTATIONS, 'x-category': 'page' });
+  });
+});
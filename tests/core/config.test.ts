@@ -0,0 +1,99 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import { PDFErrorCode } from '../../src/types';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+describe('CardtoPDFPlugin configuration', () => {
+  let dir: string;
+  let configPath: string;
+  const plugins: CardtoPDFPlugin[] = [];
+
+  const createPlugin = () => {
+    const plugin = new CardtoPDFPlugin({ engine: new FakeRenderEngine(), configPath });
+    plugins.push(plugin);
+    return plugin;
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cardto-pdf-config-'));
+    configPath = join(dir, 'nested', 'cardto-pdf.json');
+  });
+
+  afterEach(async () => {
+    await Promise.all(plugins.splice(0).map((plugin) => plugin.destroy()));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists updates by category and loads them on initialize', async () => {
+    const writer = createPlugin();
+    await writer.initialize();
+
+    const update = await writer.updateConfig({
+      format: 'letter',
+      toc: { maxDepth: 2 },
+      watermark: { text: '内部资料', opacity: 0.2 },
+      onRenderError: 'placeholder',
+    });
+
+    expect(update.valid).toBe(true);
+    expect(JSON.parse(await readFile(configPath, 'utf8'))).toEqual({
+      page: { format: 'letter' },
+      'cover-toc': { toc: { maxDepth: 2 } },
+      output: { watermark: { text: '内部资料', opacity: 0.2 } },
+      render: { onRenderError: 'placeholder' },
+    });
+
+    const reader = createPlugin();
+    await reader.initialize();
+
+    expect(reader.getConfig()).toEqual(writer.getConfig());
+    expect(reader.getDefaultOptions()).toMatchObject({ format: 'letter', onRenderError: 'placeholder' });
+  });
+
+  it('restores factory defaults for undefined values and removes the file on reset', async () => {
+    const plugin = createPlugin();
+    await plugin.initialize();
+    await plugin.updateConfig({ format: 'a5', scale: 1.5 });
+
+    await plugin.updateConfig({ scale: undefined });
+    expect(JSON.parse(await readFile(configPath, 'utf8'))).toEqual({
+      page: { format: 'a5' },
+      'cover-toc': {},
+      output: {},
+      render: {},
+    });
+
+    await plugin.resetConfig();
+    await expect(readFile(configPath, 'utf8')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('rejects invalid updates as a whole', async () => {
+    const plugin = createPlugin();
+    await plugin.initialize();
+
+    const update = await plugin.updateConfig({ format: 'letter', toc: { maxDepth: 0 }, taskId: 'x' } as never);
+
+    expect(update.valid).toBe(false);
+    expect(update.issues?.map(({ code, field }) => [code, field])).toEqual([
+      [PDFErrorCode.INVALID_CONFIG, 'taskId'],
+      [PDFErrorCode.INVALID_OPTION, 'toc.maxDepth'],
+    ]);
+    expect(update.config.page).toMatchObject({ format: 'a4' });
+    await expect(readFile(configPath, 'utf8')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('refuses to start from an invalid configuration file', async () => {
+    await writeFile(join(dir, 'bad.json'), JSON.stringify({ page: { scale: 9 } }));
+    configPath = join(dir, 'bad.json');
+
+    await expect(createPlugin().initialize()).rejects.toMatchObject({
+      code: PDFErrorCode.INVALID_CONFIG,
+      details: { option: 'configPath', path: configPath },
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cardHtml, clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import {
+  BrowserLaunchError,
+  EngineNotInstalledError,
+  FileWriteError,
+  PageLoadTimeoutError,
+  PDFConversionError,
+  toErrorInfo,
+} from '../../src/core/errors';
+import { createRenderEngine } from '../../src/engines/factory';
+import { PDFErrorCode } from '../../src/types';
+import type { PDFEngineKind } from '../../src/types';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+const systemError = (code: string) => Object.assign(new Error(code), { code });
+const timeoutError = () => Object.assign(new Error('Navigation timeout of 10 ms exceeded'), { name: 'TimeoutError' });
+
+describe('error classes', () => {
+  it('carries codes, details and the retryable flag', () => {
+    expect(new EngineNotInstalledError('auto')).toMatchObject({
+      code: PDFErrorCode.PUPPETEER_NOT_INSTALLED,
+      details: { engine: 'auto' },
+      retryable: false,
+    });
+    expect(new BrowserLaunchError('playwright', new Error('no sandbox'))).toMatchObject({
+      code: PDFErrorCode.BROWSER_LAUNCH_FAILED,
+      message: '浏览器启动失败: no sandbox',
+      retryable: true,
+    });
+    expect(new PageLoadTimeoutError(5000, 3)).toMatchObject({
+      code: PDFErrorCode.PAGE_LOAD_TIMEOUT,
+      details: { timeout: 5000, attempts: 3 },
+      retryable: true,
+    });
+  });
+
+  it('only retries file writes that failed on transient system errors', () => {
+    expect(new FileWriteError('/out/a.pdf', systemError('EBUSY'))).toMatchObject({
+      code: PDFErrorCode.FILE_WRITE_FAILED,
+      details: { option: 'outputPath', path: '/out/a.pdf', systemCode: 'EBUSY' },
+      retryable: true,
+    });
+    expect(new FileWriteError('/out/a.pdf', systemError('EACCES')).retryable).toBe(false);
+  });
+
+  it('converts unclassified errors with the fallback code', () => {
+    const known = new BrowserLaunchError('puppeteer');
+    expect(toErrorInfo(known)).toMatchObject({ code: known.code, cause: known, retryable: true });
+    expect(toErrorInfo(new Error('boom'))).toMatchObject({
+      code: PDFErrorCode.PDF_GENERATION_FAILED,
+      message: 'boom',
+      retryable: false,
+    });
+  });
+
+  it('rejects unknown engine kinds as an invalid option', () => {
+    expect(() => createRenderEngine('chrome' as PDFEngineKind)).toThrow(PDFConversionError);
+    try {
+      createRenderEngine('chrome' as PDFEngineKind);
+    } catch (error) {
+      expect(error).toMatchObject({ code: PDFErrorCode.INVALID_OPTION, details: { field: 'engine' } });
+    }
+  });
+});
+
+describe('option validation issues', () => {
+  const plugin = new CardtoPDFPlugin({ engine: new FakeRenderEngine() });
+  const issuesOf = (options: Parameters<CardtoPDFPlugin['validateOptions']>[0]) =>
+    plugin.validateOptions(options).issues?.map(({ code, option, field }) => ({ code, option, field }));
+
+  it('uses the dedicated codes for page geometry', () => {
+    expect(issuesOf({ format: 'b5' as never, margin: { top: 'wide' }, scale: 9 })).toEqual([
+      { code: PDFErrorCode.INVALID_FORMAT, option: 'format', field: 'format' },
+      { code: PDFErrorCode.INVALID_MARGIN, option: 'margin', field: 'margin.top' },
+      { code: PDFErrorCode.INVALID_SCALE, option: 'scale', field: 'scale' },
+    ]);
+  });
+
+  it('reports other invalid values as INVALID_OPTION with the field path', () => {
+    expect(
+      issuesOf({
+        toc: { maxDepth: 9 },
+        network: { allowlist: [''] },
+        pageLoad: { retries: -1 },
+        watermark: { text: '机密', opacity: 2 },
+        headerFooter: { firstPage: { footer: 'roman' as never } },
+      })
+    ).toEqual([
+      { code: PDFErrorCode.INVALID_OPTION, option: 'toc', field: 'toc.maxDepth' },
+      { code: PDFErrorCode.INVALID_OPTION, option: 'network', field: 'network.allowlist' },
+      { code: PDFErrorCode.INVALID_OPTION, option: 'pageLoad', field: 'pageLoad.retries' },
+      { code: PDFErrorCode.INVALID_OPTION, option: 'watermark', field: 'watermark.opacity' },
+      { code: PDFErrorCode.INVALID_OPTION, option: 'headerFooter', field: 'headerFooter.firstPage.footer' },
+    ]);
+  });
+
+  it('reports conflicting options as OPTION_CONFLICT', () => {
+    expect(issuesOf({ conformance: 'pdfa-2b', encryption: { userPassword: 'secret-1' } })).toEqual([
+      { code: PDFErrorCode.OPTION_CONFLICT, option: 'encryption', field: 'encryption' },
+    ]);
+  });
+});
+
+describe('CardtoPDFPlugin error results', () => {
+  const CARD = '/cards/errors.card';
+  const source = { type: 'path' as const, path: CARD, fileType: 'card' as const };
+  let plugin: CardtoPDFPlugin | undefined;
+
+  beforeEach(() => {
+    registerCard(CARD, cardHtml('错误卡片'));
+  });
+
+  afterEach(async () => {
+    await plugin?.destroy();
+    plugin = undefined;
+    clearCards();
+  });
+
+  it('puts the first issue into the details of a validation failure', async () => {
+    plugin = new CardtoPDFPlugin({ engine: new FakeRenderEngine() });
+
+    const result = await plugin.convert(source, { toc: { maxDepth: 0 } });
+
+    expect(result.error).toMatchObject({
+      code: PDFErrorCode.INVALID_OPTION,
+      details: { option: 'toc', field: 'toc.maxDepth' },
+      retryable: false,
+    });
+  });
+
+  it('reports an invalid stream chunk size as INVALID_OPTION', async () => {
+    plugin = new CardtoPDFPlugin({ engine: new FakeRenderEngine() });
+
+    const { result } = await plugin.convertToStream(source, { chunkSize: 0 });
+
+    expect((await result).error).toMatchObject({
+      code: PDFErrorCode.INVALID_OPTION,
+      details: { field: 'chunkSize' },
+    });
+  });
+
+  it('retries page loads that time out', async () => {
+    plugin = new CardtoPDFPlugin({ engine: new FakeRenderEngine({ loadError: timeoutError() }) });
+
+    const result = await plugin.convert(source, { pageLoad: { timeout: 10, retries: 1, retryDelay: 0 } });
+
+    expect(result.error).toMatchObject({
+      code: PDFErrorCode.PAGE_LOAD_TIMEOUT,
+      details: { timeout: 10, attempts: 2 },
+      retryable: true,
+    });
+  });
+
+  it('reports the path when the output file cannot be written', async () => {
+    plugin = new CardtoPDFPlugin({ engine: new FakeRenderEngine() });
+    const dir = await mkdtemp(join(tmpdir(), 'cardto-pdf-'));
+    try {
+      // 输出目录的位置已被普通文件占用
+      const blocker = join(dir, 'blocker');
+      await writeFile(blocker, '');
+
+      const result = await plugin.convert(source, { outputPath: join(blocker, 'card.pdf') });
+
+      expect(result.error).toMatchObject({
+        code: PDFErrorCode.FILE_WRITE_FAILED,
+        details: { option: 'outputPath', path: blocker },
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
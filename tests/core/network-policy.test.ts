@@ -0,0 +1,198 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cardHtml, clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import { ENTRY_URL, matchesAllowlist, ResourceInterceptor, VIRTUAL_ORIGIN } from '../../src/core/network-policy';
+import type { PDFNetworkOptions, PDFResourceRequest, PDFResourceResponse } from '../../src/types';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+const request = (url: string, resourceType = 'image', method = 'GET'): PDFResourceRequest => ({
+  url,
+  method,
+  resourceType,
+  isNavigation: resourceType === 'document',
+});
+
+const interceptor = (options?: PDFNetworkOptions) =>
+  new ResourceInterceptor('<html></html>', new Map<string, string | Uint8Array>([['assets/logo.png', PNG]]), options);
+
+const bodyText = (response: PDFResourceResponse): string =>
+  response.action === 'fulfill' ? new TextDecoder().decode(response.body) : '';
+
+/**
+ * 按地址返回预设响应的 fetch
+ */
+function stubFetch(routes: Record<string, () => Response>) {
+  const mock = vi.fn(async (input: string | URL, _init?: RequestInit) => {
+    const route = routes[String(input)];
+    if (!route) {
+      throw new TypeError(`fetch failed: ${String(input)}`);
+    }
+    return route();
+  });
+  vi.stubGlobal('fetch', mock);
+  return mock;
+}
+
+const redirect = (location: string) => () => new Response(null, { status: 302, headers: { location } });
+const image = () => () => new Response(PNG, { status: 200, headers: { 'content-type': 'image/png' } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('matchesAllowlist', () => {
+  it('matches origins, URL prefixes, host names and subdomain wildcards', () => {
+    const allowlist = ['https://fonts.example.com', 'https://cdn.example.com/assets/', 'example.org', '*.img.example'];
+    const allowed = (url: string) => matchesAllowlist(new URL(url), allowlist);
+
+    expect(allowed('https://fonts.example.com/a.woff2')).toBe(true);
+    expect(allowed('http://fonts.example.com/a.woff2')).toBe(false);
+    expect(allowed('https://cdn.example.com/assets/a.png')).toBe(true);
+    expect(allowed('https://cdn.example.com/other/a.png')).toBe(false);
+    expect(allowed('http://example.org/a.png')).toBe(true);
+    expect(allowed('https://sub.example.org/a.png')).toBe(false);
+    expect(allowed('https://a.b.img.example/x.png')).toBe(true);
+    expect(allowed('https://img.example.evil/x.png')).toBe(false);
+  });
+});
+
+describe('ResourceInterceptor', () => {
+  it('serves the entry page and card files from the virtual origin', async () => {
+    const handler = interceptor();
+
+    expect(bodyText(await handler.handle(request(ENTRY_URL, 'document')))).toBe('<html></html>');
+    expect(await handler.handle(request(`${VIRTUAL_ORIGIN}/assets/logo.png`))).toMatchObject({
+      action: 'fulfill',
+      contentType: 'image/png',
+      body: PNG,
+    });
+    expect(await handler.handle(request('data:image/png;base64,AA=='))).toEqual({ action: 'continue' });
+
+    const missing = await handler.handle(request(`${VIRTUAL_ORIGIN}/assets/missing.png`));
+    expect(missing).toMatchObject({ action: 'fulfill', contentType: 'image/svg+xml' });
+    expect(handler.blocked).toEqual([
+      { url: `${VIRTUAL_ORIGIN}/assets/missing.png`, resourceType: 'image', reason: 'not-found', placeholder: true },
+    ]);
+  });
+
+  it('blocks external requests by default with placeholders by resource type', async () => {
+    const fetch = stubFetch({});
+    const handler = interceptor();
+
+    expect(bodyText(await handler.handle(request('https://example.com/a.png')))).toContain('<svg');
+    expect(await handler.handle(request('https://example.com/a.css', 'stylesheet'))).toMatchObject({
+      action: 'fulfill',
+      contentType: 'text/css',
+      body: new Uint8Array(0),
+    });
+    expect(await handler.handle(request('https://example.com/a.woff2', 'font'))).toEqual({ action: 'abort' });
+    expect(await handler.handle(request('https://example.com/', 'document'))).toEqual({ action: 'abort' });
+    // 重复的请求只记录一次
+    await handler.handle(request('https://example.com/a.png'));
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(handler.blocked.map(({ url, reason, placeholder }) => [url, reason, placeholder])).toEqual([
+      ['https://example.com/a.png', 'blocked', true],
+      ['https://example.com/a.css', 'blocked', true],
+      ['https://example.com/a.woff2', 'blocked', false],
+      ['https://example.com/', 'blocked', false],
+    ]);
+  });
+
+  it('uses the configured placeholder image or none at all', async () => {
+    const custom = interceptor({ placeholder: { contentType: 'image/png', data: PNG } });
+    expect(await custom.handle(request('https://example.com/a.png'))).toMatchObject({
+      action: 'fulfill',
+      contentType: 'image/png',
+      body: PNG,
+    });
+
+    const none = interceptor({ placeholder: false });
+    expect(await none.handle(request('https://example.com/a.png'))).toEqual({ action: 'abort' });
+    expect(none.blocked[0]).toMatchObject({ reason: 'blocked', placeholder: false });
+  });
+
+  it('fetches allowlisted resources on behalf of the page', async () => {
+    const fetch = stubFetch({ 'https://cdn.example.com/a.png': image() });
+    const handler = interceptor({ allowlist: ['cdn.example.com'] });
+
+    const response = await handler.handle(request('https://cdn.example.com/a.png'));
+
+    expect(response).toMatchObject({
+      action: 'fulfill',
+      status: 200,
+      contentType: 'image/png',
+      body: PNG,
+      headers: { 'Access-Control-Allow-Origin': '*' },
+    });
+    expect(fetch.mock.calls[0]![1]).toMatchObject({ redirect: 'manual' });
+    expect(await handler.handle(request('https://cdn.example.com/form', 'xhr', 'POST'))).toEqual({
+      action: 'continue',
+    });
+    expect(handler.blocked).toEqual([]);
+  });
+
+  it('re-checks every redirect hop against the allowlist', async () => {
+    stubFetch({
+      'https://cdn.example.com/a.png': redirect('/b.png'),
+      'https://cdn.example.com/b.png': redirect('https://mirror.example.com/b.png'),
+      'https://mirror.example.com/b.png': image(),
+      'https://cdn.example.com/leak.png': redirect('https://tracker.example.net/pixel.png'),
+    });
+    const handler = interceptor({ allowlist: ['cdn.example.com', 'mirror.example.com'] });
+
+    expect(await handler.handle(request('https://cdn.example.com/a.png'))).toMatchObject({ body: PNG });
+
+    const leak = await handler.handle(request('https://cdn.example.com/leak.png'));
+    expect(bodyText(leak)).toContain('<svg');
+    expect(handler.blocked).toEqual([
+      { url: 'https://tracker.example.net/pixel.png', resourceType: 'image', reason: 'blocked', placeholder: true },
+    ]);
+  });
+
+  it('reports failed and endless fetches', async () => {
+    stubFetch({
+      'https://cdn.example.com/error.png': () => new Response('', { status: 500 }),
+      'https://cdn.example.com/loop.png': redirect('/loop.png'),
+    });
+    const handler = interceptor({ externalRequests: 'allow' });
+
+    await handler.handle(request('https://cdn.example.com/error.png'));
+    await handler.handle(request('https://cdn.example.com/loop.png'));
+    await handler.handle(request('https://offline.example.com/a.png'));
+
+    expect(handler.blocked.map(({ url, reason }) => [url, reason])).toEqual([
+      ['https://cdn.example.com/error.png', 'failed'],
+      ['https://cdn.example.com/loop.png', 'failed'],
+      ['https://offline.example.com/a.png', 'failed'],
+    ]);
+  });
+});
+
+describe('CardtoPDFPlugin network isolation', () => {
+  it('loads the card from the virtual origin and reports blocked requests', async () => {
+    const engine = new FakeRenderEngine({ interceptRequests: true });
+    const plugin = new CardtoPDFPlugin({ engine });
+    registerCard(
+      '/cards/network.card',
+      cardHtml('网络卡片', ['<img src="assets/logo.png"><img src="https://tracker.example.net/pixel.png">']),
+      { 'assets/logo.png': PNG }
+    );
+    try {
+      const result = await plugin.convert({ type: 'path', path: '/cards/network.card', fileType: 'card' });
+
+      expect(result.success).toBe(true);
+      expect(engine.pages[0]!.requests[0]!.request.url).toBe(ENTRY_URL);
+      expect(result.blockedRequests).toEqual([
+        { url: 'https://tracker.example.net/pixel.png', resourceType: 'image', reason: 'blocked', placeholder: true },
+      ]);
+    } finally {
+      await plugin.destroy();
+      clearCards();
+    }
+  });
+});
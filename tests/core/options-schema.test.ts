@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { OPTION_DESCRIPTORS } from '../../src/core/capabilities';
+import { buildOptionsSchema, validateOptionsSchema } from '../../src/core/options-schema';
+import { PDFErrorCode } from '../../src/types';
+import type { PDFConversionOptions } from '../../src/types';
+
+const fieldsOf = (options: PDFConversionOptions) =>
+  validateOptionsSchema(options).map(({ code, field }) => [code, field]);
+
+describe('buildOptionsSchema', () => {
+  it('localizes titles and fills in defaults', () => {
+    const schema = buildOptionsSchema(OPTION_DESCRIPTORS, 'en-US', { scale: 1.5 });
+
+    expect(schema.title).toBe('PDF conversion options');
+    expect(schema.properties?.scale).toMatchObject({ title: 'Scale', default: 1.5, 'x-category': 'page' });
+    expect(schema.properties?.margin?.properties?.top).toMatchObject({ title: 'Top margin', type: 'string' });
+    expect(schema.properties?.margin?.additionalProperties).toBe(false);
+  });
+});
+
+describe('validateOptionsSchema', () => {
+  it('accepts valid options and ignores runtime parameters', () => {
+    expect(
+      validateOptionsSchema({
+        margin: { top: '15mm', bottom: '0' },
+        toc: { maxDepth: 2 },
+        headerFooter: { footer: { center: '{{page}}' }, firstPage: false },
+        taskId: 'task-1',
+        onProgress: () => undefined,
+      })
+    ).toEqual([]);
+  });
+
+  it('requires a unit for lengths other than zero', () => {
+    expect(fieldsOf({ margin: { top: '10' }, width: '210', height: '297mm' })).toEqual([
+      [PDFErrorCode.INVALID_MARGIN, 'margin.top'],
+      [PDFErrorCode.INVALID_PAGE_SIZE, 'width'],
+    ]);
+  });
+
+  it('rejects unknown options and fields with their path', () => {
+    const issues = validateOptionsSchema({
+      pageSize: 'a4',
+      toc: { maxDepht: 2 },
+      encryption: { userPassword: 'secret-1', permissions: { printing: false } },
+    } as never);
+
+    expect(issues.map(({ code, option, field }) => ({ code, option, field }))).toEqual([
+      { code: PDFErrorCode.INVALID_OPTION, option: 'pageSize', field: 'pageSize' },
+      { code: PDFErrorCode.INVALID_OPTION, option: 'toc', field: 'toc.maxDepht' },
+      { code: PDFErrorCode.INVALID_OPTION, option: 'encryption', field: 'encryption.permissions.printing' },
+    ]);
+    expect(issues[1]!.message).toContain('maxDepht');
+  });
+
+  it('reports nested errors inside alternative structures', () => {
+    expect(fieldsOf({ headerFooter: { evenPages: { header: { template: 1 } } } } as never)).toEqual([
+      [PDFErrorCode.INVALID_OPTION, 'headerFooter.evenPages.header.template'],
+    ]);
+  });
+});
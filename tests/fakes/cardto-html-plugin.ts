@@ -0,0 +1,90 @@
+/**
+ * 测试用 CardtoHTMLPlugin
+ *
+ * 以 `vi.mock('@chips/cardto-html-plugin', ...)` 替换真实模块。
+ * 卡片内容通过 {@link registerCard} 按路径登记，转换时原样作为 index.html 返回。
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * 错误码
+ */
+export const ErrorCode = {
+  FILE_NOT_FOUND: 'CONV-HTML-001',
+  RENDER_FAILED: 'CONV-HTML-003',
+} as const;
+
+/**
+ * 登记的卡片：路径 → 文件表
+ * @internal
+ */
+const cards = new Map<string, Map<string, string | Uint8Array>>();
+
+/**
+ * 登记卡片
+ *
+ * @param path - 转换源路径
+ * @param html - index.html 内容
+ * @param assets - 其他文件（相对路径 → 内容）
+ */
+export function registerCard(path: string, html: string, assets: Record<string, string | Uint8Array> = {}): void {
+  cards.set(path, new Map<string, string | Uint8Array>([['index.html', html], ...Object.entries(assets)]));
+}
+
+/**
+ * 清除登记的卡片
+ */
+export function clearCards(): void {
+  cards.clear();
+}
+
+/**
+ * 生成卡片 HTML
+ *
+ * @param name - 卡片名称
+ * @param baseCards - 各基础卡片的正文
+ */
+export function cardHtml(name: string, baseCards: string[] = ['<p>正文</p>']): string {
+  const body = baseCards
+    .map((content, index) => `<section data-base-card-id="base-${index + 1}">${content}</section>`)
+    .join('\n');
+  return `<!DOCTYPE html><html lang="zh-CN"><head><meta charset="utf-8"><title>${name}</title></head><body>${body}</body></html>`;
+}
+
+/**
+ * 默认外观配置
+ */
+export function resolveConversionAppearance(options: { profileId?: string } = {}) {
+  return {
+    id: options.profileId ?? 'default',
+    pdf: {
+      pageFormat: 'a4' as const,
+      orientation: 'portrait' as const,
+      margin: { top: '15mm', right: '15mm', bottom: '15mm', left: '15mm' },
+      printBackground: true,
+      viewportWidthPx: 794,
+      viewportHeightPx: 1123,
+    },
+  };
+}
+
+/**
+ * 按登记内容返回 HTML 文件的转换插件
+ */
+export class CardtoHTMLPlugin {
+  /** 每次转换的转换源 */
+  readonly calls: unknown[] = [];
+
+  async convert(source: { path?: string }) {
+    this.calls.push(source);
+    const files = source.path === undefined ? undefined : cards.get(source.path);
+    if (!files) {
+      return {
+        success: false,
+        error: { code: ErrorCode.FILE_NOT_FOUND, message: `卡片不存在: ${source.path}` },
+      };
+    }
+    return { success: true, data: { files: new Map(files) } };
+  }
+}
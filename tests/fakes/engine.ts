@@ -0,0 +1,289 @@
+/**
+ * 测试用渲染引擎
+ *
+ * 页面在 jsdom 中加载 HTML，`evaluate` 与浏览器一样把函数序列化后在页面中执行，结果按 JSON 传回。
+ * `pdf` 按打印选项的纸张尺寸用 pdf-lib 生成空白页：遇到 `break-before` / `break-after: page`
+ * 时换页，带 `data-fake-pages="n"` 的元素占 n 页；文档内链接指向的元素写入命名目标。
+ * 与浏览器输出一样每页都有内容流，内容只是左下角的一个小方块。
+ * jsdom 不做排版，依赖元素尺寸的测量结果均为 0。
+ * 启用请求拦截时，`goto` 通过拦截回调取得入口页面，再为页面中的 `<img src>` 逐个发出图片请求。
+ *
+ * @packageDocumentation
+ */
+
+import { JSDOM } from 'jsdom';
+import { PDFDocument, PDFName } from 'pdf-lib';
+import { PAGE_FORMAT_SIZES_MM, toMillimeters } from '../../src/utils/page-geometry';
+import type {
+  PageFormat,
+  PDFRenderEngine,
+  PDFRenderOptions,
+  PDFRenderPage,
+  PDFResourceRequest,
+  PDFResourceResponse,
+} from '../../src/types';
+
+/**
+ * 每毫米的点数
+ * @internal
+ */
+const POINTS_PER_MM = 72 / 25.4;
+
+/**
+ * 测试用引擎选项
+ */
+export interface FakeEngineOptions {
+  /** 加载页面时抛出的错误 */
+  loadError?: Error;
+  /** 打印前等待的时间（毫秒），用于模拟耗时的渲染 */
+  pdfDelay?: number;
+  /** 修改打印输出，用于模拟浏览器输出的异常文件 */
+  transformOutput?: (data: Uint8Array) => Uint8Array;
+  /** 指定后页面提供 `pdfStream`，按该大小（字节）分块输出 */
+  streamChunkSize?: number;
+  /** 页面是否提供 `interceptRequests` 与 `goto` */
+  interceptRequests?: boolean;
+}
+
+/**
+ * 请求拦截回调
+ * @internal
+ */
+type RequestHandler = (request: PDFResourceRequest) => Promise<PDFResourceResponse>;
+
+/**
+ * 测试用页面
+ */
+export class FakeRenderPage implements PDFRenderPage {
+  /** 每次设置的视口 */
+  readonly viewports: Array<{ width: number; height: number }> = [];
+
+  /** 每次加载的 HTML */
+  readonly contents: string[] = [];
+
+  /** 每次打印的选项 */
+  readonly pdfCalls: PDFRenderOptions[] = [];
+
+  /** 每次打印时的页面 HTML */
+  readonly printedHtml: string[] = [];
+
+  /** 经拦截回调处理的请求及响应 */
+  readonly requests: Array<{ request: PDFResourceRequest; response: PDFResourceResponse }> = [];
+
+  /** 是否已切换到打印媒体类型 */
+  printMedia = false;
+
+  /** 是否已关闭 */
+  closed = false;
+
+  /** 打印为 PDF 并按块读取（指定 `streamChunkSize` 时提供） */
+  readonly pdfStream?: (options: PDFRenderOptions) => Promise<AsyncIterable<Uint8Array>>;
+
+  /** 注册请求拦截回调（指定 `interceptRequests` 时提供） */
+  readonly interceptRequests?: (handler: RequestHandler) => Promise<void>;
+
+  /** 导航到地址（指定 `interceptRequests` 时提供） */
+  readonly goto?: (url: string, options: { timeout: number }) => Promise<void>;
+
+  private _dom = new JSDOM('');
+
+  private _handler?: RequestHandler;
+
+  constructor(private readonly _options: FakeEngineOptions) {
+    const chunkSize = _options.streamChunkSize;
+    if (chunkSize) {
+      this.pdfStream = async (options) => splitChunks(await this.pdf(options), chunkSize);
+    }
+    if (_options.interceptRequests) {
+      this.interceptRequests = async (handler) => {
+        this._handler = handler;
+      };
+      this.goto = (url) => this._navigate(url);
+    }
+  }
+
+  /** 当前页面的文档 */
+  get document(): Document {
+    return this._dom.window.document;
+  }
+
+  async setViewport(size: { width: number; height: number }): Promise<void> {
+    this.viewports.push(size);
+  }
+
+  async setContent(html: string): Promise<void> {
+    if (this._options.loadError) {
+      throw this._options.loadError;
+    }
+    this.contents.push(html);
+    this._dom = new JSDOM(html, { runScripts: 'outside-only', pretendToBeVisual: true });
+  }
+
+  async evaluate<TArg, TResult>(fn: (arg: TArg) => TResult, arg: TArg): Promise<Awaited<TResult>> {
+    const source = `(${fn.toString()})(${arg === undefined ? '' : JSON.stringify(arg)})`;
+    const result = await (this._dom.window as unknown as { eval(code: string): unknown }).eval(source);
+    return (result === undefined ? undefined : JSON.parse(JSON.stringify(result))) as Awaited<TResult>;
+  }
+
+  /**
+   * 取得入口页面并加载图片
+   * @internal
+   */
+  private async _navigate(url: string): Promise<void> {
+    const response = await this._request({ url, method: 'GET', resourceType: 'document', isNavigation: true });
+    if (response.action !== 'fulfill') {
+      throw new Error(`页面加载失败: ${url}`);
+    }
+    await this.setContent(new TextDecoder().decode(response.body));
+    for (const image of Array.from(this.document.querySelectorAll('img[src]'))) {
+      const src = new URL(image.getAttribute('src')!, url).href;
+      await this._request({ url: src, method: 'GET', resourceType: 'image', isNavigation: false });
+    }
+  }
+
+  /**
+   * 经拦截回调处理请求
+   * @internal
+   */
+  private async _request(request: PDFResourceRequest): Promise<PDFResourceResponse> {
+    const response: PDFResourceResponse = this._handler ? await this._handler(request) : { action: 'continue' };
+    this.requests.push({ request, response });
+    return response;
+  }
+
+  async emulatePrintMedia(): Promise<void> {
+    this.printMedia = true;
+  }
+
+  async pdf(options: PDFRenderOptions): Promise<Uint8Array> {
+    this.pdfCalls.push(options);
+    this.printedHtml.push(this._dom.serialize());
+    if (this._options.pdfDelay) {
+      await new Promise((resolve) => setTimeout(resolve, this._options.pdfDelay));
+    }
+    const data = await printDocument(this._dom.window, paperSize(options));
+    return this._options.transformOutput ? this._options.transformOutput(data) : data;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+/**
+ * 测试用渲染引擎
+ */
+export class FakeRenderEngine implements PDFRenderEngine {
+  readonly name = 'fake';
+
+  /** 打开过的页面 */
+  readonly pages: FakeRenderPage[] = [];
+
+  /** 是否已关闭 */
+  closed = false;
+
+  constructor(private readonly _options: FakeEngineOptions = {}) {}
+
+  /** 第一个页面（卡片页面）的打印选项 */
+  get pdfCalls(): PDFRenderOptions[] {
+    return this.pages[0]?.pdfCalls ?? [];
+  }
+
+  async openPage(options: { signal?: AbortSignal } = {}): Promise<FakeRenderPage> {
+    if (options.signal?.aborted) {
+      throw new Error('等待浏览器时任务已取消');
+    }
+    const page = new FakeRenderPage(this._options);
+    this.pages.push(page);
+    return page;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+/**
+ * 按固定大小分块输出数据
+ * @internal
+ */
+async function* splitChunks(data: Uint8Array, chunkSize: number): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < data.byteLength; offset += chunkSize) {
+    yield data.subarray(offset, offset + chunkSize);
+  }
+}
+
+/**
+ * 按打印选项计算纸张尺寸（点）
+ * @internal
+ */
+function paperSize(options: PDFRenderOptions): [number, number] {
+  if (options.width && options.height) {
+    return [toMillimeters(options.width) * POINTS_PER_MM, toMillimeters(options.height) * POINTS_PER_MM];
+  }
+  const size = PAGE_FORMAT_SIZES_MM[(options.format ?? 'A4').toLowerCase() as PageFormat];
+  const [width, height] = options.landscape ? [size.height, size.width] : [size.width, size.height];
+  return [width * POINTS_PER_MM, height * POINTS_PER_MM];
+}
+
+/**
+ * 按分页规则生成 PDF
+ * @internal
+ */
+async function printDocument(window: JSDOM['window'], [width, height]: [number, number]): Promise<Uint8Array> {
+  const pageOf = new Map<Element, number>();
+  const lineOf = new Map<Element, number>();
+  const lines: number[] = [];
+  let page = 0;
+  let started = false;
+  let pendingBreak = false;
+
+  const breaks = (style: CSSStyleDeclaration, side: 'before' | 'after'): boolean =>
+    ['page', 'always', 'left', 'right'].includes(style.getPropertyValue(`break-${side}`)) ||
+    ['always', 'left', 'right'].includes(style.getPropertyValue(`page-break-${side}`));
+
+  const visit = (element: Element): void => {
+    if (['SCRIPT', 'STYLE', 'TEMPLATE'].includes(element.tagName)) {
+      return;
+    }
+    const style = window.getComputedStyle(element);
+    if (started && (pendingBreak || breaks(style, 'before'))) {
+      page++;
+    }
+    pendingBreak = false;
+    started = true;
+    pageOf.set(element, page);
+    lineOf.set(element, lines[page] ?? 0);
+    lines[page] = (lines[page] ?? 0) + 1;
+    for (const child of Array.from(element.children)) {
+      visit(child);
+    }
+    page += Math.max(1, Number(element.getAttribute('data-fake-pages') ?? 1)) - 1;
+    if (breaks(style, 'after')) {
+      pendingBreak = true;
+    }
+  };
+  for (const child of Array.from(window.document.body.children)) {
+    visit(child);
+  }
+
+  const doc = await PDFDocument.create();
+  const pages = Array.from({ length: page + 1 }, () => doc.addPage([width, height]));
+  pages.forEach((item) => item.drawRectangle({ x: 0, y: 0, width: 4, height: 4 }));
+
+  // 与 Chromium 一样只为文档内链接的目标写入命名目标
+  const dests = doc.context.obj({});
+  for (const link of Array.from(window.document.querySelectorAll('a[href^="#"]'))) {
+    const id = decodeURIComponent(link.getAttribute('href')!.slice(1));
+    const target = window.document.getElementById(id);
+    const index = target ? pageOf.get(target) : undefined;
+    if (index === undefined || dests.has(PDFName.of(id))) {
+      continue;
+    }
+    const line = lineOf.get(target!)!;
+    dests.set(PDFName.of(id), doc.context.obj([pages[index]!.ref, 'XYZ', 0, height - 36 - line * 14, null]));
+  }
+  doc.catalog.set(PDFName.of('Dests'), dests);
+  // Chromium 输出的 PDF 不使用对象流
+  return doc.save({ useObjectStreams: false });
+}
@@ -0,0 +1,52 @@
+/**
+ * 测试用书签读取
+ *
+ * 从 PDF 读回书签树，便于按标题、页索引断言书签结构。
+ *
+ * @packageDocumentation
+ */
+
+import { PDFArray, PDFDict, PDFHexString, PDFName, PDFNumber } from 'pdf-lib';
+import type { PDFDocument, PDFRef } from 'pdf-lib';
+
+/**
+ * 从 PDF 读回的书签
+ */
+export interface ReadOutlineNode {
+  title: string;
+  pageIndex: number;
+  top: number | null;
+  children: ReadOutlineNode[];
+}
+
+/**
+ * 读取书签树
+ */
+export function readOutline(doc: PDFDocument): ReadOutlineNode[] {
+  const pageIndex = new Map(doc.getPages().map((page, index) => [page.ref.toString(), index]));
+  const readLevel = (parent: PDFDict): ReadOutlineNode[] => {
+    const nodes: ReadOutlineNode[] = [];
+    let item = parent.lookupMaybe(PDFName.of('First'), PDFDict);
+    while (item) {
+      const dest = item.lookup(PDFName.of('Dest'), PDFArray);
+      const top = dest.lookup(3);
+      nodes.push({
+        title: item.lookup(PDFName.of('Title'), PDFHexString).decodeText(),
+        pageIndex: pageIndex.get((dest.get(0) as PDFRef).toString())!,
+        top: top instanceof PDFNumber ? top.asNumber() : null,
+        children: readLevel(item),
+      });
+      item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+    }
+    return nodes;
+  };
+  const outlines = doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  return outlines ? readLevel(outlines) : [];
+}
+
+/**
+ * 将书签树简化为 `[标题, 页索引, 子书签]` 的嵌套数组
+ */
+export function summarizeOutline(nodes: ReadOutlineNode[]): unknown[] {
+  return nodes.map((node) => [node.title, node.pageIndex, summarizeOutline(node.children)]);
+}
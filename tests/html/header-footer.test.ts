@@ -0,0 +1,186 @@
+import { PDFDict, PDFDocument, PDFName } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cardHtml, clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import {
+  buildHeaderFooterLayer,
+  resolveHeaderFooter,
+  sanitizeHeaderFooterTemplate,
+} from '../../src/html/header-footer';
+import type { HeaderFooterContext } from '../../src/html/header-footer';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+const context: HeaderFooterContext = {
+  metadata: { name: 'A & B <卡片>', author: '薯片', createdAt: '2024-03-01T08:00:00Z' },
+  exportedAt: new Date(2024, 4, 6, 10, 30),
+  theme: { fontFamily: 'Card Sans', color: '#333333' },
+  margin: { top: '15mm', right: '12mm', bottom: '15mm', left: '10mm' },
+  fontSize: '9pt',
+};
+
+/**
+ * 提取模板中的纯文本（页码元素以类名表示）
+ */
+function textOf(template: string): string {
+  return template
+    .replace(/<span class="(pageNumber|totalPages)"><\/span>/g, '[$1]')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+}
+
+describe('resolveHeaderFooter', () => {
+  it('is disabled unless requested', () => {
+    expect(resolveHeaderFooter({})).toBeUndefined();
+    expect(resolveHeaderFooter({ headerFooter: false, displayHeaderFooter: true })).toBeUndefined();
+  });
+
+  it('keeps the legacy options working', () => {
+    expect(resolveHeaderFooter({ displayHeaderFooter: true })?.defaults).toEqual({
+      header: 'none',
+      footer: 'page-x-of-y',
+    });
+    expect(resolveHeaderFooter({ displayHeaderFooter: true, headerTemplate: '<b>h</b>' })?.defaults).toEqual({
+      header: { template: '<b>h</b>' },
+      footer: 'none',
+    });
+  });
+
+  it('lets page variants inherit the parts they do not set', () => {
+    const resolved = resolveHeaderFooter({
+      headerFooter: { header: 'title', firstPage: { header: 'none' }, evenPages: { footer: 'page-number' } },
+    });
+
+    expect(resolved).toEqual({
+      defaults: { header: 'title', footer: 'page-x-of-y' },
+      firstPage: { header: 'none', footer: 'page-x-of-y' },
+      evenPages: { header: 'title', footer: 'page-number' },
+      fontSize: '9pt',
+    });
+    expect(resolveHeaderFooter({ headerFooter: { firstPage: false } })?.firstPage).toBe(false);
+  });
+});
+
+describe('buildHeaderFooterLayer', () => {
+  it('expands presets with escaped card metadata and browser page counters', () => {
+    const layer = buildHeaderFooterLayer({ header: 'title-date', footer: 'page-x-of-y' }, context);
+
+    expect(textOf(layer.headerTemplate)).toBe('A &amp; B &lt;卡片&gt;2024-05-06');
+    expect(textOf(layer.footerTemplate)).toBe('第 [pageNumber] 页 / 共 [totalPages] 页');
+    expect(layer.headerTemplate).toContain('font-family:Card Sans');
+    expect(layer.headerTemplate).toContain('padding:4mm 12mm 0 10mm');
+  });
+
+  it('treats slot text as plain text and outputs an empty element for none', () => {
+    const layer = buildHeaderFooterLayer(
+      { header: { left: '<i>{{author}}</i>', right: '{{{pageNumber}}}' }, footer: 'none' },
+      context
+    );
+
+    expect(textOf(layer.headerTemplate)).toBe('&lt;i&gt;薯片&lt;/i&gt;[pageNumber]');
+    // 空字符串会让浏览器输出默认的日期与标题
+    expect(layer.footerTemplate).toBe('<span></span>');
+  });
+
+  it('sanitizes custom templates after expanding tokens', () => {
+    const layer = buildHeaderFooterLayer(
+      {
+        header: { template: '<b onclick="x()">{{title}}</b><script>alert(1)</script>' },
+        footer: { template: '<a href="javascript:void 0">{{pageNumber}}</a>' },
+      },
+      context
+    );
+
+    expect(layer.headerTemplate).toContain('<b>A &amp; B &lt;卡片&gt;</b>');
+    expect(layer.headerTemplate).not.toMatch(/onclick|script/);
+    expect(layer.footerTemplate).toContain('<a><span class="pageNumber"></span></a>');
+  });
+
+  it('strips unsafe values from the inline style', () => {
+    const layer = buildHeaderFooterLayer(
+      { header: 'title', footer: 'none' },
+      { ...context, theme: { fontFamily: 'x;background:url(evil)', color: 'red}' } }
+    );
+
+    expect(layer.headerTemplate).toContain('font-family:xbackground:url(evil);color:red;');
+  });
+});
+
+describe('sanitizeHeaderFooterTemplate', () => {
+  it('removes blocked elements, event handlers and script URLs', () => {
+    const result = sanitizeHeaderFooterTemplate(
+      '<div onload=init()><iframe src="x"></iframe><img src="javascript:alert(1)">' +
+        '<scr<script></script>ipt>alert(1)</script>ok</div>'
+    );
+
+    // 拆开的标签拼合后同样被移除，只留下无害的文本
+    expect(result.html).toBe('<div><img>alert(1)ok</div>');
+    expect(result.issues).toEqual([
+      '已移除 <iframe> 元素',
+      '已移除 <script> 元素',
+      '已移除事件处理属性',
+      '已移除 javascript: 地址',
+    ]);
+  });
+
+  it('reports external resources without removing them', () => {
+    const result = sanitizeHeaderFooterTemplate('<img src="https://example.com/logo.png">');
+
+    expect(result.html).toBe('<img src="https://example.com/logo.png">');
+    expect(result.issues).toEqual(['页眉页脚中的外部资源不会加载，请改用 data URL']);
+  });
+});
+
+describe('CardtoPDFPlugin header and footer', () => {
+  const CARD = '/cards/header-footer.card';
+  const source = { type: 'path' as const, path: CARD, fileType: 'card' as const };
+  let engine: FakeRenderEngine;
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard(CARD, cardHtml('页眉卡片', ['<p>一</p>', '<p>二</p>', '<p>三</p>']).replace(
+      '</head>',
+      '<style>[data-base-card-id] { break-before: page; }</style></head>'
+    ));
+    engine = new FakeRenderEngine();
+    plugin = new CardtoPDFPlugin({ engine });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('lets the browser print a single set of templates', async () => {
+    const result = await plugin.convert(source, { headerFooter: { header: 'title', footer: 'page-number' } });
+
+    expect(result.success).toBe(true);
+    expect(engine.pdfCalls).toHaveLength(1);
+    expect(engine.pdfCalls[0]).toMatchObject({ displayHeaderFooter: true });
+    expect(textOf(engine.pdfCalls[0]!.headerTemplate!)).toBe('页眉卡片');
+    expect(textOf(engine.pdfCalls[0]!.footerTemplate!)).toBe('[pageNumber]');
+  });
+
+  it('overlays page variants after printing the card without templates', async () => {
+    const result = await plugin.convert(source, {
+      headerFooter: { footer: 'page-number', firstPage: false, evenPages: { footer: 'page-x-of-y' } },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.pageCount).toBe(3);
+    const [card, defaults, even] = engine.pdfCalls;
+    expect(card).toMatchObject({ displayHeaderFooter: false });
+    expect(textOf(defaults!.footerTemplate!)).toBe('[pageNumber]');
+    expect(textOf(even!.footerTemplate!)).toBe('第 [pageNumber] 页 / 共 [totalPages] 页');
+    // 首页不显示，不输出首页图层
+    expect(engine.pdfCalls).toHaveLength(3);
+
+    const doc = await PDFDocument.load(result.data!);
+    const overlaid = doc.getPages().map((page) => {
+      const xObjects = page.node.Resources()?.lookup(PDFName.of('XObject'));
+      return xObjects instanceof PDFDict && xObjects.keys().length > 0;
+    });
+    expect(overlaid).toEqual([false, true, true]);
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cardHtml, clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import {
+  createCompressionReport,
+  reduceImageCompression,
+  resolveImageCompression,
+  TARGET_SIZE_ATTEMPTS,
+} from '../../src/html/images';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+describe('resolveImageCompression', () => {
+  it('is disabled when the option is absent', () => {
+    expect(resolveImageCompression(undefined)).toBeUndefined();
+  });
+
+  it('expands a profile name and lets explicit values override the profile', () => {
+    expect(resolveImageCompression('screen')).toEqual({
+      profile: 'screen',
+      maxDpi: 96,
+      jpegQuality: 0.6,
+      targetFileSize: undefined,
+    });
+    expect(resolveImageCompression({ jpegQuality: 0.5, targetFileSize: 1000 })).toEqual({
+      profile: 'print',
+      maxDpi: 300,
+      jpegQuality: 0.5,
+      targetFileSize: 1000,
+    });
+  });
+});
+
+describe('reduceImageCompression', () => {
+  it('lowers resolution and quality step by step down to the floor', () => {
+    const steps: Array<[number, number]> = [];
+    let settings = reduceImageCompression(resolveImageCompression('print')!);
+    while (settings) {
+      steps.push([settings.maxDpi, settings.jpegQuality]);
+      settings = reduceImageCompression(settings);
+    }
+
+    expect(steps[0]).toEqual([225, 0.7]);
+    expect(steps.at(-1)).toEqual([72, 0.3]);
+    for (let i = 1; i < steps.length; i++) {
+      expect(steps[i]![0] <= steps[i - 1]![0] && steps[i]![1] <= steps[i - 1]![1]).toBe(true);
+    }
+  });
+});
+
+describe('createCompressionReport', () => {
+  it('sums per-document results and checks the target size', () => {
+    const settings = { ...resolveImageCompression('print')!, targetFileSize: 5000 };
+    const summaries = [
+      { images: 2, optimized: 1, originalBytes: 4000, optimizedBytes: 1500 },
+      { images: 1, optimized: 1, originalBytes: 3000, optimizedBytes: 1000 },
+    ];
+
+    expect(createCompressionReport(settings, summaries, 4800)).toMatchObject({
+      images: 3,
+      optimizedImages: 2,
+      originalBytes: 7000,
+      compressedBytes: 2500,
+      bytesSaved: 4500,
+      targetMet: true,
+    });
+    expect(createCompressionReport(settings, summaries, 5200).targetMet).toBe(false);
+    expect(createCompressionReport(resolveImageCompression('print')!, [], 10).targetMet).toBeUndefined();
+  });
+});
+
+describe('CardtoPDFPlugin imageCompression', () => {
+  const CARD = '/cards/images.card';
+  const source = { type: 'path' as const, path: CARD, fileType: 'card' as const };
+  let engine: FakeRenderEngine;
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard(CARD, cardHtml('图片卡片'));
+    engine = new FakeRenderEngine();
+    plugin = new CardtoPDFPlugin({ engine });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('reports the profile settings without a target size', async () => {
+    const result = await plugin.convert(source, { imageCompression: 'screen' });
+
+    expect(result.success).toBe(true);
+    expect(result.compression).toMatchObject({ profile: 'screen', maxDpi: 96, jpegQuality: 0.6, images: 0 });
+    expect(result.compression!.targetMet).toBeUndefined();
+    expect(engine.pdfCalls).toHaveLength(1);
+  });
+
+  it('re-renders with reduced settings until the attempts run out', async () => {
+    const result = await plugin.convert(source, { imageCompression: { targetFileSize: 10 } });
+
+    expect(result.success).toBe(true);
+    expect(engine.pdfCalls).toHaveLength(1 + TARGET_SIZE_ATTEMPTS);
+    expect(result.compression).toMatchObject({ targetFileSize: 10, targetMet: false });
+    expect(result.compression!.maxDpi).toBeLessThan(300);
+    expect(result.compression!.jpegQuality).toBeLessThan(0.85);
+  });
+
+  it('stops once the output fits the target size', async () => {
+    const result = await plugin.convert(source, { imageCompression: { targetFileSize: 10 * 1024 * 1024 } });
+
+    expect(engine.pdfCalls).toHaveLength(1);
+    expect(result.compression).toMatchObject({ maxDpi: 300, targetMet: true });
+  });
+
+  it('rejects out-of-range quality values', async () => {
+    const result = await plugin.convert(source, { imageCompression: { jpegQuality: 2 } });
+
+    expect(result.success).toBe(false);
+  });
+});
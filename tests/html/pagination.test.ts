@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cardHtml, clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import { buildPaginationStyles, findSplitBaseCards, resolvePagination } from '../../src/html/pagination';
+import type { BaseCardBoundary } from '../../src/html/pagination';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+describe('resolvePagination', () => {
+  it('is disabled unless requested and fills in defaults', () => {
+    expect(resolvePagination(undefined)).toBeUndefined();
+    expect(resolvePagination(false)).toBeUndefined();
+    expect(resolvePagination(true)).toEqual({
+      baseCardNewPage: false,
+      avoidBreakInside: true,
+      keepHeadingsWithNext: true,
+      orphans: 2,
+      widows: 2,
+    });
+    expect(resolvePagination({ baseCardNewPage: true, orphans: 3 })).toMatchObject({
+      baseCardNewPage: true,
+      avoidBreakInside: true,
+      orphans: 3,
+    });
+  });
+});
+
+describe('buildPaginationStyles', () => {
+  it('only emits the rules that are enabled', () => {
+    const styles = buildPaginationStyles(
+      { baseCardNewPage: true, avoidBreakInside: false, keepHeadingsWithNext: false, orphans: 3, widows: 4 },
+      '.card'
+    );
+
+    expect(styles).toContain('html { orphans: 3; widows: 4; }');
+    expect(styles).toContain(':is(.card):not(:is(.card) *) { break-before: page;');
+    expect(styles).not.toContain('break-inside');
+    expect(styles).not.toContain('h1');
+  });
+});
+
+describe('findSplitBaseCards', () => {
+  it('reports base cards whose start and end land on different pages', () => {
+    const boundary = (index: number): BaseCardBoundary => ({
+      index,
+      title: `卡片 ${index}`,
+      startId: `s${index}`,
+      endId: `e${index}`,
+    });
+    const at = (pageIndex: number) => ({ pageIndex });
+    const positions = new Map([
+      ['s1', at(0)],
+      ['e1', at(0)],
+      ['s2', at(0)],
+      ['e2', at(2)],
+      ['s3', at(2)],
+    ]);
+
+    expect(findSplitBaseCards([boundary(1), boundary(2), boundary(3)], positions)).toEqual([
+      { index: 2, id: undefined, title: '卡片 2', startPage: 1, endPage: 3 },
+    ]);
+  });
+});
+
+describe('CardtoPDFPlugin pagination', () => {
+  const CARD = '/cards/pagination.card';
+  const source = { type: 'path' as const, path: CARD, fileType: 'card' as const };
+  let engine: FakeRenderEngine;
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard(
+      CARD,
+      cardHtml('分页卡片', [
+        '<h2>短卡片</h2><p>一</p>',
+        '<h2>长卡片</h2><div data-fake-pages="2">很长的内容</div>',
+        '<h2>结尾</h2><p>三</p>',
+      ])
+    );
+    engine = new FakeRenderEngine();
+    plugin = new CardtoPDFPlugin({ engine });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('starts base cards on new pages and reports the ones still split', async () => {
+    const result = await plugin.convert(source, { pagination: { baseCardNewPage: true } });
+
+    expect(result.success).toBe(true);
+    expect(result.pageCount).toBe(4);
+    expect(result.splitBaseCards).toEqual([{ index: 2, id: 'base-2', title: '长卡片', startPage: 2, endPage: 3 }]);
+    expect(engine.pages[0]!.printedHtml[0]).toContain('media="print"');
+  });
+
+  it('does not inspect boundaries without pagination control', async () => {
+    const result = await plugin.convert(source);
+
+    expect(result.success).toBe(true);
+    expect(result.splitBaseCards).toBeUndefined();
+  });
+
+  it('rejects invalid pagination options', async () => {
+    const result = await plugin.convert(source, { pagination: { orphans: 0 } });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.details).toMatchObject({ field: 'pagination.orphans' });
+  });
+});
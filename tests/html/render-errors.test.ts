@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cardHtml, clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import { PDFErrorCode } from '../../src/types';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+describe('CardtoPDFPlugin render errors', () => {
+  const CARD = '/cards/render-error.card';
+  const source = { type: 'path' as const, path: CARD, fileType: 'card' as const };
+  let engine: FakeRenderEngine;
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard(
+      CARD,
+      cardHtml('渲染失败卡片', [
+        '<h2>正常</h2><p>一</p>',
+        '<h2>图表</h2><div data-render-error="数据加载失败"></div>',
+        '<h2>结尾</h2><p>三</p>',
+      ])
+    );
+    engine = new FakeRenderEngine();
+    plugin = new CardtoPDFPlugin({ engine });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('aborts with RENDER_FAILED by default', async () => {
+    const result = await plugin.convert(source);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(PDFErrorCode.RENDER_FAILED);
+    expect(result.error?.message).toContain('「图表」（数据加载失败）');
+    expect(engine.pages[0]!.closed).toBe(true);
+  });
+
+  it('removes failed base cards when skipping', async () => {
+    const result = await plugin.convert(source, { onRenderError: 'skip' });
+
+    expect(result.success).toBe(true);
+    expect(engine.pages[0]!.printedHtml[0]).not.toContain('data-render-error');
+    expect(result.stats?.baseCards).toEqual({ total: 3, processed: 2, skipped: 1, placeholders: 0 });
+    expect(result.warnings).toEqual(['基础卡片「图表」（数据加载失败）渲染失败，已跳过']);
+  });
+
+  it('replaces failed base cards with a notice', async () => {
+    const result = await plugin.convert(source, { onRenderError: 'placeholder' });
+
+    expect(result.success).toBe(true);
+    expect(engine.pages[0]!.printedHtml[0]).toContain('「图表」渲染失败');
+    expect(result.stats?.baseCards).toEqual({ total: 3, processed: 2, skipped: 0, placeholders: 1 });
+  });
+
+  it('reports render failures of a book chapter with the chapter code', async () => {
+    registerCard('/cards/fine.card', cardHtml('正常卡片'));
+
+    const result = await plugin.convertBook([
+      { type: 'path', path: '/cards/fine.card', fileType: 'card' },
+      source,
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.chapters[1]).toMatchObject({ success: false, error: { code: PDFErrorCode.RENDER_FAILED } });
+    expect(result.warnings).toEqual([expect.stringMatching(/^\[2\/2\] 转换失败，已跳过：/)]);
+  });
+
+  it('rejects unknown policies', async () => {
+    const result = await plugin.convert(source, { onRenderError: 'retry' as never });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('retry');
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from 'vitest';
+import { clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import { resolveDocumentResources } from '../../src/html/resources';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+const RED = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 1]);
+const BLUE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 2]);
+const FONT = new Uint8Array([0x77, 0x4f, 0x46, 0x32]);
+
+/**
+ * 生成二进制文件的 data URL，与解析结果对照
+ */
+function dataUrl(mimeType: string, content: Uint8Array): string {
+  return `data:${mimeType};base64,${Buffer.from(content).toString('base64')}`;
+}
+
+/**
+ * 解码文本 data URL
+ */
+function decodeText(url: string): string {
+  return Buffer.from(url.slice(url.indexOf(',') + 1), 'base64').toString('utf8');
+}
+
+/**
+ * 读取所有 `@import url("data:...")` 引用的样式表
+ */
+function importedStylesheets(css: string): string[] {
+  return Array.from(css.matchAll(/@import url\("(data:[^"]+)"\)/g), (match) => decodeText(match[1]!));
+}
+
+const files = (entries: Record<string, string | Uint8Array>) => new Map(Object.entries(entries));
+
+describe('resolveDocumentResources', () => {
+  it('resolves same-named files in different folders by their full path', () => {
+    const { html, unresolved } = resolveDocumentResources(
+      '<img src="cards/a/logo.png"><img src="./cards/b/logo.png">',
+      files({ 'index.html': '', 'cards/a/logo.png': RED, 'cards/b/logo.png': BLUE })
+    );
+
+    expect(html).toBe(
+      `<img src="${dataUrl('image/png', RED)}"><img src="${dataUrl('image/png', BLUE)}">`
+    );
+    expect(unresolved).toEqual([]);
+  });
+
+  it('resolves references relative to the file that contains them', () => {
+    const { html } = resolveDocumentResources(
+      '<link rel="stylesheet" href="cards/b/style.css">',
+      files({
+        'cards/a/logo.png': RED,
+        'cards/b/logo.png': BLUE,
+        'cards/b/style.css': '.logo { background: url(logo.png); } .other { background: url("../a/logo.png"); }',
+      })
+    );
+
+    expect(html).toContain(`.logo { background: url("${dataUrl('image/png', BLUE)}"); }`);
+    expect(html).toContain(`.other { background: url("${dataUrl('image/png', RED)}"); }`);
+  });
+
+  it('rewrites srcset candidates, video posters, style attributes and @font-face sources', () => {
+    const { html, unresolved } = resolveDocumentResources(
+      '<style>@font-face { font-family: Card; src: url(fonts/card.woff2) format("woff2"); }</style>' +
+        '<img srcset="a/logo.png 1x, b/logo.png 2x">' +
+        '<video poster="a/logo.png"></video>' +
+        '<div style="background-image: url(\'b/logo.png\')"></div>',
+      files({ 'a/logo.png': RED, 'b/logo.png': BLUE, 'fonts/card.woff2': FONT })
+    );
+
+    expect(html).toContain(`src: url("${dataUrl('font/woff2', FONT)}") format("woff2")`);
+    expect(html).toContain(`srcset="${dataUrl('image/png', RED)} 1x, ${dataUrl('image/png', BLUE)} 2x"`);
+    expect(html).toContain(`poster="${dataUrl('image/png', RED)}"`);
+    expect(html).toContain(`background-image: url(&quot;${dataUrl('image/png', BLUE)}&quot;)`);
+    expect(unresolved).toEqual([]);
+  });
+
+  it('inlines nested @import chains and stops at cycles', () => {
+    const { html, unresolved } = resolveDocumentResources(
+      '<link rel="stylesheet" href="css/main.css" media="print">',
+      files({
+        'css/main.css': '@import "parts/base.css" screen;\nbody { color: black; }',
+        'css/parts/base.css': '@import url(cycle.css);\n.logo { background: url(../../a/logo.png); }',
+        'css/parts/cycle.css': '@import "base.css";\n.cycle { color: red; }',
+        'a/logo.png': RED,
+      })
+    );
+
+    expect(html).toMatch(/^<style type="text\/css" media="print">/);
+    const [base] = importedStylesheets(html);
+    expect(html).toMatch(/@import url\("data:text\/css;[^"]+"\) screen;/);
+    expect(base).toContain(`url("${dataUrl('image/png', RED)}")`);
+    const [cycle] = importedStylesheets(base!);
+    // 回到正在处理的样式表时保留原语句
+    expect(cycle).toContain('@import "base.css";');
+    expect(cycle).toContain('.cycle { color: red; }');
+    expect(unresolved).toEqual([]);
+  });
+
+  it('rewrites resource fields in the card config but leaves plain text that matches a file name', () => {
+    const config = { title: 'logo.png', cover: 'a/logo.png', theme: { iconUrl: 'b/logo.png' } };
+    const { html } = resolveDocumentResources(
+      `<script type="application/json" id="chips-card-config">${JSON.stringify(config)}</script>`,
+      files({ 'logo.png': BLUE, 'a/logo.png': RED, 'b/logo.png': BLUE })
+    );
+
+    const rewritten = JSON.parse(/<script[^>]*>(.*)<\/script>/.exec(html)![1]!) as typeof config;
+    expect(rewritten).toEqual({
+      title: 'logo.png',
+      cover: dataUrl('image/png', RED),
+      theme: { iconUrl: dataUrl('image/png', BLUE) },
+    });
+  });
+
+  it('reports missing references once per location and leaves external ones alone', () => {
+    const { html, unresolved } = resolveDocumentResources(
+      '<link rel="stylesheet" href="css/main.css">' +
+        '<img src="missing.png"><img src="missing.png">' +
+        '<img src="https://example.com/a.png"><img src="data:image/png;base64,AA=="><a href="#top">top</a>',
+      files({ 'css/main.css': '@import "gone.css";\n.x { background: url(img/none.png); }' })
+    );
+
+    expect(unresolved).toEqual([
+      { reference: 'gone.css', file: 'css/main.css', location: '@import' },
+      { reference: 'img/none.png', file: 'css/main.css', location: 'url()' },
+      { reference: 'missing.png', file: 'index.html', location: 'img[src]' },
+    ]);
+    expect(html).toContain('<img src="missing.png">');
+    expect(html).toContain('https://example.com/a.png');
+  });
+});
+
+describe('CardtoPDFPlugin resources', () => {
+  it('loads the page with inlined resources and reports the missing ones', async () => {
+    const engine = new FakeRenderEngine();
+    const plugin = new CardtoPDFPlugin({ engine });
+    registerCard(
+      '/cards/resources.card',
+      '<!DOCTYPE html><html><body><img src="assets/logo.png"><img src="assets/gone.png"></body></html>',
+      { 'assets/logo.png': RED }
+    );
+    try {
+      const result = await plugin.convert({ type: 'path', path: '/cards/resources.card', fileType: 'card' });
+
+      expect(result.success).toBe(true);
+      expect(result.unresolvedResources).toEqual([
+        { reference: 'assets/gone.png', file: 'index.html', location: 'img[src]' },
+      ]);
+      expect(engine.pages[0]!.contents[0]).toContain(dataUrl('image/png', RED));
+    } finally {
+      await plugin.destroy();
+      clearCards();
+    }
+  });
+});
@@ -0,0 +1,103 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ANCHOR_ID_PREFIX, BASE_CARD_SELECTOR, collectDocumentAnchors } from '../../src/html/anchors';
+import type { CollectAnchorsArgs } from '../../src/html/anchors';
+import { GENERATED_ATTRIBUTE } from '../../src/html/cover';
+import { buildTocSection, normalizeTocOptions } from '../../src/html/toc';
+
+const collect = (overrides: Partial<CollectAnchorsArgs> = {}) =>
+  collectDocumentAnchors({
+    baseCardSelector: BASE_CARD_SELECTOR,
+    includeBaseCards: true,
+    includeHeadings: true,
+    maxLevel: 3,
+    generatedAttribute: GENERATED_ATTRIBUTE,
+    idPrefix: ANCHOR_ID_PREFIX,
+    ...overrides,
+  }).map(({ title, level, kind }) => ({ title, level, kind }));
+
+describe('collectDocumentAnchors', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <h1>前言</h1>
+      <h2>说明</h2>
+      <section data-base-card-id="a">
+        <h1>第一章</h1>
+        <h2>第一节</h2>
+        <h3>小节</h3>
+      </section>
+      <section data-base-card-id="b" data-base-card-title="附录"><h1>附录正文</h1></section>
+      <nav data-chips-pdf-generated="toc"><h2>目录</h2></nav>`;
+  });
+
+  it('places base cards at level 1 and shifts their headings by one level', () => {
+    expect(collect()).toEqual([
+      { title: '前言', level: 1, kind: 'heading' },
+      { title: '说明', level: 2, kind: 'heading' },
+      // 基础卡片以首个标题为标题，该标题不再单独成项
+      { title: '第一章', level: 1, kind: 'base-card' },
+      { title: '第一节', level: 3, kind: 'heading' },
+      { title: '附录', level: 1, kind: 'base-card' },
+      { title: '附录正文', level: 2, kind: 'heading' },
+    ]);
+  });
+
+  it('limits entries by their shifted level', () => {
+    expect(collect({ maxLevel: 2 })).toEqual([
+      { title: '前言', level: 1, kind: 'heading' },
+      { title: '说明', level: 2, kind: 'heading' },
+      { title: '第一章', level: 1, kind: 'base-card' },
+      { title: '附录', level: 1, kind: 'base-card' },
+      { title: '附录正文', level: 2, kind: 'heading' },
+    ]);
+    expect(collect({ maxLevel: 4 }).map((anchor) => anchor.title)).toContain('小节');
+  });
+
+  it('keeps heading levels unshifted when base cards are excluded', () => {
+    expect(collect({ includeBaseCards: false, maxLevel: 2 })).toEqual([
+      { title: '前言', level: 1, kind: 'heading' },
+      { title: '说明', level: 2, kind: 'heading' },
+      { title: '第一章', level: 1, kind: 'heading' },
+      { title: '第一节', level: 2, kind: 'heading' },
+      { title: '附录正文', level: 1, kind: 'heading' },
+    ]);
+  });
+
+  it('collects only base cards when headings are excluded', () => {
+    expect(collect({ includeHeadings: false })).toEqual([
+      { title: '基础卡片 1', level: 1, kind: 'base-card' },
+      { title: '附录', level: 1, kind: 'base-card' },
+    ]);
+  });
+
+  it('assigns ids that the TOC links point to', () => {
+    const anchors = collectDocumentAnchors({
+      baseCardSelector: BASE_CARD_SELECTOR,
+      includeBaseCards: true,
+      includeHeadings: true,
+      maxLevel: 3,
+      generatedAttribute: GENERATED_ATTRIBUTE,
+      idPrefix: ANCHOR_ID_PREFIX,
+    });
+
+    for (const anchor of anchors) {
+      expect(document.getElementById(anchor.id)).not.toBeNull();
+    }
+    const html = buildTocSection(anchors, '目录', new Map([[anchors[0]!.id, 7]]));
+    expect(html).toContain(`href="#${anchors[0]!.id}"`);
+    expect(html).toContain('<span class="chips-pdf-toc__page">7</span>');
+  });
+});
+
+describe('normalizeTocOptions', () => {
+  it('fills in defaults and honours enabled: false', () => {
+    expect(normalizeTocOptions(true)).toEqual({
+      title: '目录',
+      maxDepth: 3,
+      includeBaseCards: true,
+      includeHeadings: true,
+    });
+    expect(normalizeTocOptions({ enabled: false })).toBeUndefined();
+    expect(normalizeTocOptions(undefined)).toBeUndefined();
+  });
+});
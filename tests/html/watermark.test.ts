@@ -0,0 +1,106 @@
+import { decodePDFRawStream, PDFArray, PDFDocument, PDFRawStream } from 'pdf-lib';
+import type { PDFPage } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cardHtml, clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import { isValidPageRanges, resolveWatermark, selectPages } from '../../src/html/watermark';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+/**
+ * 按顺序解码页面的各个内容流
+ */
+function contentStreams(page: PDFPage): string[] {
+  const contents = page.node.Contents();
+  const refs = contents instanceof PDFArray ? contents.asArray() : contents ? [contents] : [];
+  return refs.map((ref) => {
+    const stream = page.doc.context.lookup(ref);
+    return stream instanceof PDFRawStream ? new TextDecoder().decode(decodePDFRawStream(stream).decode()) : '';
+  });
+}
+
+/**
+ * 水印（绘制表单对象）与原内容（fake 引擎画的方块）在内容流中的先后
+ */
+function drawingOrder(page: PDFPage): Array<'watermark' | 'content'> {
+  return contentStreams(page).flatMap((text): Array<'watermark' | 'content'> => {
+    if (/\/\S+ Do\b/.test(text)) {
+      return ['watermark'];
+    }
+    return text.includes('4 4 l') ? ['content'] : [];
+  });
+}
+
+describe('watermark page ranges', () => {
+  it('validates and expands page range specs', () => {
+    expect(isValidPageRanges('1-3, 5, 8-')).toBe(true);
+    expect(isValidPageRanges('1--2')).toBe(false);
+    expect(isValidPageRanges('a')).toBe(false);
+
+    expect([...selectPages('2, 4-', 5)]).toEqual([1, 3, 4]);
+    expect([...selectPages('-2, 9', 3)]).toEqual([0, 1]);
+    expect([...selectPages(undefined, 3)]).toEqual([0, 1, 2]);
+  });
+
+  it('is disabled without text or image', () => {
+    expect(resolveWatermark({})).toBeUndefined();
+    expect(resolveWatermark({ text: '机密' })).toMatchObject({ text: '机密', layer: 'foreground', rotation: -45 });
+  });
+});
+
+describe('CardtoPDFPlugin watermark', () => {
+  const CARD = '/cards/watermark.card';
+  const source = { type: 'path' as const, path: CARD, fileType: 'card' as const };
+  let engine: FakeRenderEngine;
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard(
+      CARD,
+      cardHtml('水印卡片', ['<p>一</p>', '<p>二</p>', '<p>三</p>']).replace(
+        '</head>',
+        '<style>[data-base-card-id] { break-before: page; }</style></head>'
+      )
+    );
+    engine = new FakeRenderEngine();
+    plugin = new CardtoPDFPlugin({ engine });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('draws a foreground watermark over the selected pages', async () => {
+    const result = await plugin.convert(source, { watermark: { text: '机密', selectable: true, pages: '2-' } });
+
+    expect(result.success).toBe(true);
+    const doc = await PDFDocument.load(result.data!);
+    expect(doc.getPages().map(drawingOrder)).toEqual([
+      ['content'],
+      ['content', 'watermark'],
+      ['content', 'watermark'],
+    ]);
+    // 水印单独排版为一页
+    expect(engine.pages[0]!.printedHtml.at(-1)).toContain('机密');
+  });
+
+  it('draws a background watermark beneath the page content', async () => {
+    const result = await plugin.convert(source, { watermark: { text: '草稿', selectable: true, layer: 'background' } });
+
+    const doc = await PDFDocument.load(result.data!);
+    expect(doc.getPages().map(drawingOrder)).toEqual([
+      ['watermark', 'content'],
+      ['watermark', 'content'],
+      ['watermark', 'content'],
+    ]);
+  });
+
+  it('rejects invalid page ranges', async () => {
+    const result = await plugin.convert(source, { watermark: { text: '机密', pages: 'first' } });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('first');
+  });
+});
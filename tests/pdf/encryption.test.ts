@@ -0,0 +1,315 @@
+import { createCipheriv, createDecipheriv, createHash } from 'crypto';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFString } from 'pdf-lib';
+import type { PDFObject, PDFRawStream, PDFRef } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { encryptPDF, PDFEncryptionError } from '../../src/pdf/encryption';
+import type { PDFEncryptionOptions } from '../../src/types';
+
+/**
+ * 密码填充串（ISO 32000-1 7.6.3.3）
+ */
+const PASSWORD_PADDING = Buffer.from('28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a', 'hex');
+
+const SECRET_STRING = 'Confidential string';
+const SECRET_STREAM = 'BT /F1 12 Tf (Confidential stream) Tj ET';
+
+/**
+ * 待加密的文档：一页，外加一个含字符串的字典和一个流
+ */
+async function createDocument(): Promise<{ data: Uint8Array; stringRef: PDFRef; streamRef: PDFRef }> {
+  const doc = await PDFDocument.create();
+  doc.addPage([200, 200]);
+  const stringRef = doc.context.register(
+    doc.context.obj({ Note: PDFString.of(SECRET_STRING), Nested: [PDFString.of(SECRET_STRING)] })
+  );
+  const streamRef = doc.context.register(doc.context.stream(SECRET_STREAM));
+  return { data: await doc.save({ useObjectStreams: false }), stringRef, streamRef };
+}
+
+/**
+ * 读取加密后的文档（不解密）及其加密字典
+ */
+async function loadEncrypted(data: Uint8Array): Promise<{ doc: PDFDocument; encrypt: PDFDict }> {
+  const doc = await PDFDocument.load(data, { ignoreEncryption: true });
+  return { doc, encrypt: doc.context.lookup(doc.context.trailerInfo.Encrypt, PDFDict) };
+}
+
+function bytesOf(dict: PDFDict, key: string): Buffer {
+  const value = dict.get(PDFName.of(key));
+  if (!(value instanceof PDFHexString || value instanceof PDFString)) {
+    throw new Error(`/${key} 不是字符串`);
+  }
+  return Buffer.from(value.asBytes());
+}
+
+/**
+ * 文件标识的第一部分（参与 R4 密钥计算）
+ */
+function fileIdOf(doc: PDFDocument): Buffer {
+  return Buffer.from(doc.context.lookup(doc.context.trailerInfo.ID, PDFArray).lookup(0, PDFHexString).asBytes());
+}
+
+function numberOf(dict: PDFDict, key: string): number {
+  return (dict.get(PDFName.of(key)) as PDFNumber).asNumber();
+}
+
+/**
+ * 取出对象中 /Note 与 /Nested[0] 两处字符串的密文
+ */
+function encryptedStrings(doc: PDFDocument, ref: PDFRef): Buffer[] {
+  const dict = doc.context.lookup(ref, PDFDict);
+  const strings: PDFObject[] = [dict.get(PDFName.of('Note'))!, dict.lookup(PDFName.of('Nested'), PDFArray).get(0)];
+  return strings.map((object) => Buffer.from((object as PDFHexString).asBytes()));
+}
+
+function encryptedStream(doc: PDFDocument, ref: PDFRef): Buffer {
+  return Buffer.from((doc.context.lookup(ref) as PDFRawStream).contents);
+}
+
+/**
+ * AES-CBC 解密：前 16 字节为 IV，PKCS#7 填充
+ */
+function aesDecrypt(algorithm: 'aes-128-cbc' | 'aes-256-cbc', key: Uint8Array, data: Buffer): string {
+  const decipher = createDecipheriv(algorithm, key, data.subarray(0, 16));
+  return Buffer.concat([decipher.update(data.subarray(16)), decipher.final()]).toString('latin1');
+}
+
+/**
+ * 权限标志中从 1 开始编号的第 n 位是否置位
+ */
+function bit(flags: number, n: number): boolean {
+  return (flags & (1 << (n - 1))) !== 0;
+}
+
+function md5(...parts: Uint8Array[]): Buffer {
+  return createHash('md5').update(Buffer.concat(parts)).digest();
+}
+
+function rc4(key: Uint8Array, data: Uint8Array): Buffer {
+  const s = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i]! + key[i % key.length]!) & 0xff;
+    [s[i], s[j]] = [s[j]!, s[i]!];
+  }
+  const output = Buffer.alloc(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]!) & 0xff;
+    [s[i], s[j]] = [s[j]!, s[i]!];
+    output[n] = data[n]! ^ s[(s[i]! + s[j]!) & 0xff]!;
+  }
+  return output;
+}
+
+function pad(password: string): Buffer {
+  const bytes = Buffer.from(password, 'latin1').subarray(0, 32);
+  return Buffer.concat([bytes, PASSWORD_PADDING.subarray(0, 32 - bytes.length)]);
+}
+
+/**
+ * R4 文件密钥（ISO 32000-1 算法 2）
+ */
+function r4FileKey(userPassword: string, owner: Buffer, permissions: number, fileId: Buffer): Buffer {
+  const p = Buffer.alloc(4);
+  p.writeInt32LE(permissions);
+  let key = md5(pad(userPassword), owner, p, fileId);
+  for (let i = 0; i < 50; i++) {
+    key = md5(key);
+  }
+  return key;
+}
+
+/**
+ * R6 密码散列（ISO 32000-2 算法 2.B）
+ */
+function r6Hash(password: string, salt: Buffer, userEntry: Buffer = Buffer.alloc(0)): Buffer {
+  const pwd = Buffer.from(password, 'utf8');
+  let k = createHash('sha256').update(Buffer.concat([pwd, salt, userEntry])).digest();
+  for (let round = 0; ; round++) {
+    const k1 = Buffer.concat(Array.from({ length: 64 }, () => Buffer.concat([pwd, k, userEntry])));
+    const cipher = createCipheriv('aes-128-cbc', k.subarray(0, 16), k.subarray(16, 32)).setAutoPadding(false);
+    const e = Buffer.concat([cipher.update(k1), cipher.final()]);
+    const remainder = Number(BigInt(`0x${e.subarray(0, 16).toString('hex')}`) % 3n);
+    k = createHash(['sha256', 'sha384', 'sha512'][remainder]!).update(e).digest();
+    if (round >= 63 && e[e.length - 1]! <= round - 31) {
+      return k.subarray(0, 32);
+    }
+  }
+}
+
+/**
+ * 零 IV、无填充的 AES-256 解密
+ */
+function aes256Raw(mode: 'aes-256-cbc' | 'aes-256-ecb', key: Uint8Array, data: Buffer): Buffer {
+  const decipher = createDecipheriv(mode, key, mode === 'aes-256-ecb' ? null : Buffer.alloc(16)).setAutoPadding(false);
+  return Buffer.concat([decipher.update(data), decipher.final()]);
+}
+
+const OPTIONS: PDFEncryptionOptions = {
+  userPassword: 'user-pass',
+  ownerPassword: 'owner-pass',
+  permissions: { print: false, copy: false },
+};
+
+describe('encryptPDF', () => {
+  describe('AES-128 (V4/R4)', () => {
+    it('writes a standard security handler dictionary with valid /O and /U', async () => {
+      const { data } = await createDocument();
+      const { doc, encrypt } = await loadEncrypted(await encryptPDF(data, { ...OPTIONS, algorithm: 'aes-128' }));
+
+      expect(encrypt.get(PDFName.of('Filter'))).toBe(PDFName.of('Standard'));
+      expect([numberOf(encrypt, 'V'), numberOf(encrypt, 'R'), numberOf(encrypt, 'Length')]).toEqual([4, 4, 128]);
+      const stdCF = encrypt.lookup(PDFName.of('CF'), PDFDict).lookup(PDFName.of('StdCF'), PDFDict);
+      expect(stdCF.get(PDFName.of('CFM'))).toBe(PDFName.of('AESV2'));
+
+      const owner = bytesOf(encrypt, 'O');
+      const user = bytesOf(encrypt, 'U');
+      const permissions = numberOf(encrypt, 'P');
+      const fileId = fileIdOf(doc);
+      expect(owner).toHaveLength(32);
+      expect(user).toHaveLength(32);
+      expect(fileId.length).toBeGreaterThan(0);
+
+      // 算法 7：以权限密码反向解出 /O，应得到填充后的打开密码
+      let ownerKey = md5(pad('owner-pass'));
+      for (let i = 0; i < 50; i++) {
+        ownerKey = md5(ownerKey);
+      }
+      let recovered = owner;
+      for (let i = 19; i >= 0; i--) {
+        recovered = rc4(ownerKey.map((byte) => byte ^ i), recovered);
+      }
+      expect(recovered).toEqual(pad('user-pass'));
+
+      // 算法 6：以打开密码重新计算 /U 的前 16 字节
+      const fileKey = r4FileKey('user-pass', owner, permissions, fileId);
+      let expected = rc4(fileKey, md5(PASSWORD_PADDING, fileId));
+      for (let i = 1; i <= 19; i++) {
+        expected = rc4(fileKey.map((byte) => byte ^ i), expected);
+      }
+      expect(user.subarray(0, 16)).toEqual(expected);
+    });
+
+    it('encrypts strings and streams with per-object keys', async () => {
+      const { data, stringRef, streamRef } = await createDocument();
+      const { doc, encrypt } = await loadEncrypted(await encryptPDF(data, { ...OPTIONS, algorithm: 'aes-128' }));
+      const fileKey = r4FileKey('user-pass', bytesOf(encrypt, 'O'), numberOf(encrypt, 'P'), fileIdOf(doc));
+
+      // 算法 1：对象密钥 = MD5(文件密钥 + 对象号低 3 字节 + 生成号低 2 字节 + "sAlT")
+      const objectKey = (ref: PDFRef): Buffer => {
+        const suffix = Buffer.from([
+          ref.objectNumber & 0xff,
+          (ref.objectNumber >> 8) & 0xff,
+          (ref.objectNumber >> 16) & 0xff,
+          ref.generationNumber & 0xff,
+          (ref.generationNumber >> 8) & 0xff,
+        ]);
+        return md5(fileKey, suffix, Buffer.from('sAlT', 'latin1'));
+      };
+
+      for (const ciphertext of encryptedStrings(doc, stringRef)) {
+        expect(ciphertext.toString('latin1')).not.toContain(SECRET_STRING);
+        expect(aesDecrypt('aes-128-cbc', objectKey(stringRef), ciphertext)).toBe(SECRET_STRING);
+      }
+      const stream = encryptedStream(doc, streamRef);
+      expect(stream.toString('latin1')).not.toContain(SECRET_STREAM);
+      expect(aesDecrypt('aes-128-cbc', objectKey(streamRef), stream)).toBe(SECRET_STREAM);
+    });
+  });
+
+  describe('AES-256 (V5/R6)', () => {
+    it('writes /O, /U, /OE, /UE and /Perms that unlock the same file key', async () => {
+      const { data } = await createDocument();
+      const { doc, encrypt } = await loadEncrypted(await encryptPDF(data, { ...OPTIONS, algorithm: 'aes-256' }));
+
+      expect([numberOf(encrypt, 'V'), numberOf(encrypt, 'R'), numberOf(encrypt, 'Length')]).toEqual([5, 6, 256]);
+      const stdCF = encrypt.lookup(PDFName.of('CF'), PDFDict).lookup(PDFName.of('StdCF'), PDFDict);
+      expect(stdCF.get(PDFName.of('CFM'))).toBe(PDFName.of('AESV3'));
+      expect(doc.catalog.lookup(PDFName.of('Extensions'), PDFDict).has(PDFName.of('ADBE'))).toBe(true);
+
+      const user = bytesOf(encrypt, 'U');
+      const owner = bytesOf(encrypt, 'O');
+      expect(user).toHaveLength(48);
+      expect(owner).toHaveLength(48);
+
+      // 算法 11、12：校验值 = 散列(密码, 校验盐)，所有者散列附加 48 字节的 /U
+      expect(r6Hash('user-pass', user.subarray(32, 40))).toEqual(user.subarray(0, 32));
+      expect(r6Hash('wrong', user.subarray(32, 40))).not.toEqual(user.subarray(0, 32));
+      expect(r6Hash('owner-pass', owner.subarray(32, 40), user)).toEqual(owner.subarray(0, 32));
+
+      // /UE 与 /OE 以密钥盐派生的密钥解出同一个文件密钥
+      const fromUser = aes256Raw('aes-256-cbc', r6Hash('user-pass', user.subarray(40, 48)), bytesOf(encrypt, 'UE'));
+      const ownerKey = r6Hash('owner-pass', owner.subarray(40, 48), user);
+      const fromOwner = aes256Raw('aes-256-cbc', ownerKey, bytesOf(encrypt, 'OE'));
+      expect(fromUser).toHaveLength(32);
+      expect(fromOwner).toEqual(fromUser);
+
+      // 算法 13：/Perms 解密后含 /P、0xffffffff 与 "Tadb"
+      const perms = aes256Raw('aes-256-ecb', fromUser, bytesOf(encrypt, 'Perms'));
+      expect(perms.readInt32LE(0)).toBe(numberOf(encrypt, 'P'));
+      expect(perms.readUInt32LE(4)).toBe(0xffffffff);
+      expect(perms.subarray(8, 12).toString('latin1')).toBe('Tadb');
+    });
+
+    it('encrypts strings and streams with the file key', async () => {
+      const { data, stringRef, streamRef } = await createDocument();
+      const { doc, encrypt } = await loadEncrypted(await encryptPDF(data, { ...OPTIONS, algorithm: 'aes-256' }));
+      const user = bytesOf(encrypt, 'U');
+      const fileKey = aes256Raw('aes-256-cbc', r6Hash('user-pass', user.subarray(40, 48)), bytesOf(encrypt, 'UE'));
+
+      for (const ciphertext of encryptedStrings(doc, stringRef)) {
+        expect(ciphertext.toString('latin1')).not.toContain(SECRET_STRING);
+        expect(aesDecrypt('aes-256-cbc', fileKey, ciphertext)).toBe(SECRET_STRING);
+      }
+      const stream = encryptedStream(doc, streamRef);
+      expect(stream.toString('latin1')).not.toContain(SECRET_STREAM);
+      expect(aesDecrypt('aes-256-cbc', fileKey, stream)).toBe(SECRET_STREAM);
+    });
+
+    it('accepts an empty open password', async () => {
+      const { data } = await createDocument();
+      const { encrypt } = await loadEncrypted(await encryptPDF(data, { ownerPassword: 'owner-pass' }));
+
+      expect(numberOf(encrypt, 'R')).toBe(6);
+      const user = bytesOf(encrypt, 'U');
+      expect(r6Hash('', user.subarray(32, 40))).toEqual(user.subarray(0, 32));
+    });
+  });
+
+  describe('permission flags', () => {
+    it.each(['aes-128', 'aes-256'] as const)('writes the requested permissions to /P (%s)', async (algorithm) => {
+      const { data } = await createDocument();
+      const { encrypt } = await loadEncrypted(await encryptPDF(data, { ...OPTIONS, algorithm }));
+      const flags = numberOf(encrypt, 'P');
+
+      // 第 3、12 位打印，第 5 位复制：已禁止
+      expect([bit(flags, 3), bit(flags, 12), bit(flags, 5)]).toEqual([false, false, false]);
+      // 第 4、11 位修改，第 6、9 位注释与表单，第 10 位辅助功能：未禁止
+      expect([bit(flags, 4), bit(flags, 11), bit(flags, 6), bit(flags, 9), bit(flags, 10)]).toEqual([
+        true,
+        true,
+        true,
+        true,
+        true,
+      ]);
+      // 保留位：第 1、2 位为 0，第 7、8 位及第 13-32 位为 1
+      expect([bit(flags, 1), bit(flags, 2)]).toEqual([false, false]);
+      expect(flags & 0xfffff0c0).toBe(0xfffff0c0 | 0);
+    });
+
+    it('allows everything when no permissions are restricted', async () => {
+      const { data } = await createDocument();
+      const { encrypt } = await loadEncrypted(await encryptPDF(data, { userPassword: 'user-pass' }));
+
+      // 除第 1、2 位外全部置位
+      expect(numberOf(encrypt, 'P')).toBe(0xfffffffc | 0);
+    });
+  });
+
+  it('refuses to encrypt a document twice', async () => {
+    const { data } = await createDocument();
+    const encrypted = await encryptPDF(data, OPTIONS);
+
+    await expect(encryptPDF(encrypted, OPTIONS)).rejects.toBeInstanceOf(PDFEncryptionError);
+  });
+});
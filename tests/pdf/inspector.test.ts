@@ -0,0 +1,257 @@
+import { degrees, PDFDocument, PDFName, PDFRef } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { inspectPDF } from '../../src/pdf/inspector';
+
+/**
+ * 生成三页不同尺寸的文档，第二页旋转 90 度
+ */
+async function createDocument(): Promise<PDFDocument> {
+  const doc = await PDFDocument.create();
+  doc.addPage([300, 400]);
+  doc.addPage([500, 200]).setRotation(degrees(90));
+  doc.addPage([612, 792]);
+  return doc;
+}
+
+/**
+ * 读取文件末尾 startxref 后的偏移
+ */
+function lastStartXRef(data: Uint8Array): number {
+  const text = Buffer.from(data).toString('latin1');
+  return Number(/startxref\s+(\d+)/.exec(text.slice(text.lastIndexOf('startxref')))![1]);
+}
+
+/**
+ * 生成交叉引用表的一项
+ */
+function tableEntry(offset: number, gen: number, kind: 'n' | 'f'): string {
+  return `${String(offset).padStart(10, '0')} ${String(gen).padStart(5, '0')} ${kind} \n`;
+}
+
+/**
+ * 增量更新的构造工具：按顺序追加对象并记录偏移
+ */
+class IncrementalUpdate {
+  private readonly _parts: Buffer[] = [];
+  readonly offsets = new Map<number, number>();
+
+  constructor(private readonly _base: Uint8Array) {}
+
+  get position(): number {
+    return this._base.length + this._parts.reduce((sum, part) => sum + part.length, 0);
+  }
+
+  append(text: string | Buffer): void {
+    this._parts.push(typeof text === 'string' ? Buffer.from(text, 'latin1') : text);
+  }
+
+  object(num: number, body: string | Buffer): void {
+    this.offsets.set(num, this.position);
+    this.append(`${num} 0 obj\n`);
+    this.append(body);
+    this.append('\nendobj\n');
+  }
+
+  /** 写入只含单项小节的交叉引用表与尾部字典 */
+  finish(entries: Array<[number, number | 'free']>, trailer: string): Uint8Array {
+    const xrefOffset = this.position;
+    let table = 'xref\n0 1\n' + tableEntry(0, 65535, 'f');
+    for (const [num, offset] of entries) {
+      table += `${num} 1\n` + (offset === 'free' ? tableEntry(0, 1, 'f') : tableEntry(offset, 0, 'n'));
+    }
+    this.append(`${table}trailer\n${trailer}\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Uint8Array(Buffer.concat([Buffer.from(this._base), ...this._parts]));
+  }
+}
+
+/**
+ * 读取文档的页面树引用、根对象与已保存文件的对象号上限（/Size）
+ */
+function structureOf(
+  doc: PDFDocument,
+  data: Uint8Array
+): { root: PDFRef; pages: PDFRef; kids: PDFRef[]; size: number } {
+  const text = Buffer.from(data).toString('latin1');
+  const sizes = Array.from(text.matchAll(/\/Size (\d+)/g), (match) => Number(match[1]));
+  return {
+    root: doc.context.trailerInfo.Root as PDFRef,
+    pages: doc.catalog.get(PDFName.of('Pages')) as PDFRef,
+    kids: doc.getPages().map((page) => page.ref),
+    size: Math.max(...sizes),
+  };
+}
+
+describe('inspectPDF', () => {
+  it('reads a classic cross-reference table', async () => {
+    const data = await (await createDocument()).save({ useObjectStreams: false });
+    const inspection = inspectPDF(data);
+
+    expect(inspection.pageCount).toBe(3);
+    expect(inspection.pages.map(({ width, height, rotate }) => [width, height, rotate])).toEqual([
+      [300, 400, 0],
+      [200, 500, 90],
+      [612, 792, 0],
+    ]);
+    expect(inspection.pages[1].mediaBox).toEqual([0, 0, 500, 200]);
+    expect(inspection).toMatchObject({
+      fileSize: data.byteLength,
+      xrefSections: 1,
+      incrementalUpdates: 0,
+      usesXRefStreams: false,
+      encrypted: false,
+    });
+    expect(inspection.objects.compressed).toBe(0);
+    expect(inspection.objects.objectStreams).toBe(0);
+    expect(inspection.objects.byType).toMatchObject({ Catalog: 1, Pages: 1, Page: 3 });
+  });
+
+  it('reads cross-reference streams and objects inside object streams', async () => {
+    const data = await (await createDocument()).save({ useObjectStreams: true });
+    const inspection = inspectPDF(data);
+
+    expect(inspection.usesXRefStreams).toBe(true);
+    expect(inspection.pageCount).toBe(3);
+    expect(inspection.pages[2]).toMatchObject({ width: 612, height: 792 });
+    expect(inspection.objects.objectStreams).toBeGreaterThan(0);
+    expect(inspection.objects.compressed).toBeGreaterThan(0);
+    expect(inspection.objects.unreadable).toBe(0);
+    expect(inspection.objects.byType).toMatchObject({ Catalog: 1, Pages: 1, Page: 3, XRef: 1 });
+  });
+
+  it('follows incremental updates and uses the newest object definitions', async () => {
+    const doc = await createDocument();
+    const base = await doc.save({ useObjectStreams: false });
+    const { root, pages, kids, size } = structureOf(doc, base);
+
+    const update = new IncrementalUpdate(base);
+    const added = size;
+    update.object(added, `<< /Type /Page /Parent ${pages.objectNumber} 0 R /MediaBox [0 0 200 100] >>`);
+    const allKids = [...kids.map((kid) => `${kid.objectNumber} 0 R`), `${added} 0 R`].join(' ');
+    update.object(pages.objectNumber, `<< /Type /Pages /Kids [${allKids}] /Count 4 >>`);
+    const data = update.finish(
+      [
+        [pages.objectNumber, update.offsets.get(pages.objectNumber)!],
+        [added, update.offsets.get(added)!],
+      ],
+      `<< /Size ${added + 1} /Root ${root.objectNumber} 0 R /Prev ${lastStartXRef(base)} >>`
+    );
+
+    const inspection = inspectPDF(data);
+    expect(inspection.xrefSections).toBe(2);
+    expect(inspection.incrementalUpdates).toBe(1);
+    expect(inspection.pageCount).toBe(4);
+    expect(inspection.pages[3]).toMatchObject({ width: 200, height: 100 });
+    expect(inspection.objects.byType.Pages).toBe(1);
+  });
+
+  it('does not resurrect objects freed by a later update', async () => {
+    const doc = await createDocument();
+    const base = await doc.save({ useObjectStreams: false });
+    const { root, pages, kids, size } = structureOf(doc, base);
+
+    const update = new IncrementalUpdate(base);
+    const remaining = kids.slice(0, 2).map((kid) => `${kid.objectNumber} 0 R`).join(' ');
+    update.object(pages.objectNumber, `<< /Type /Pages /Kids [${remaining}] /Count 2 >>`);
+    const data = update.finish(
+      [
+        [pages.objectNumber, update.offsets.get(pages.objectNumber)!],
+        [kids[2].objectNumber, 'free'],
+      ],
+      `<< /Size ${size} /Root ${root.objectNumber} 0 R /Prev ${lastStartXRef(base)} >>`
+    );
+
+    const inspection = inspectPDF(data);
+    expect(inspection.pageCount).toBe(2);
+    expect(inspection.objects.byType.Page).toBe(2);
+  });
+
+  it('appends an incremental update to a file that uses cross-reference streams', async () => {
+    const doc = await createDocument();
+    const base = await doc.save({ useObjectStreams: true });
+    const { root, pages, kids, size } = structureOf(doc, base);
+
+    const update = new IncrementalUpdate(base);
+    const added = size;
+    update.object(added, `<< /Type /Page /Parent ${pages.objectNumber} 0 R /MediaBox [0 0 144 144] >>`);
+    const allKids = [...kids.map((kid) => `${kid.objectNumber} 0 R`), `${added} 0 R`].join(' ');
+    update.object(pages.objectNumber, `<< /Type /Pages /Kids [${allKids}] /Count 4 >>`);
+    const data = update.finish(
+      [
+        [pages.objectNumber, update.offsets.get(pages.objectNumber)!],
+        [added, update.offsets.get(added)!],
+      ],
+      `<< /Size ${added + 1} /Root ${root.objectNumber} 0 R /Prev ${lastStartXRef(base)} >>`
+    );
+
+    const inspection = inspectPDF(data);
+    expect(inspection.usesXRefStreams).toBe(true);
+    expect(inspection.xrefSections).toBe(2);
+    expect(inspection.pageCount).toBe(4);
+    expect(inspection.pages[3]).toMatchObject({ width: 144, height: 144 });
+  });
+
+  it('prefers cross-reference table entries over /XRefStm entries in hybrid-reference files', async () => {
+    const doc = await createDocument();
+    const base = await doc.save({ useObjectStreams: false });
+    const { root, pages, kids, size } = structureOf(doc, base);
+    const baseText = Buffer.from(base).toString('latin1');
+    const stalePagesOffset = baseText.indexOf(`\n${pages.objectNumber} 0 obj`) + 1;
+
+    const update = new IncrementalUpdate(base);
+    const added = size;
+    const objectStream = size + 1;
+    const xrefStream = size + 2;
+
+    // 新页面只存在于对象流中
+    const header = `${added} 0 `;
+    const content = `${header}<< /Type /Page /Parent ${pages.objectNumber} 0 R /MediaBox [0 0 250 250] >>`;
+    update.object(
+      objectStream,
+      `<< /Type /ObjStm /N 1 /First ${header.length} /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+    const allKids = [...kids.map((kid) => `${kid.objectNumber} 0 R`), `${added} 0 R`].join(' ');
+    update.object(pages.objectNumber, `<< /Type /Pages /Kids [${allKids}] /Count 4 >>`);
+
+    // 附加引用流：登记压缩的新页面，同时给出页面树根的过期位置
+    const row = (type: number, field2: number, field3: number): Buffer => {
+      const bytes = Buffer.alloc(7);
+      bytes.writeUInt8(type, 0);
+      bytes.writeUInt32BE(field2, 1);
+      bytes.writeUInt16BE(field3, 5);
+      return bytes;
+    };
+    const rows = Buffer.concat([row(1, stalePagesOffset, 0), row(2, objectStream, 0)]);
+    update.object(
+      xrefStream,
+      Buffer.concat([
+        Buffer.from(
+          `<< /Type /XRef /Size ${xrefStream + 1} /W [1 4 2] /Index [${pages.objectNumber} 1 ${added} 1] ` +
+            `/Length ${rows.length} >>\nstream\n`,
+          'latin1'
+        ),
+        rows,
+        Buffer.from('\nendstream', 'latin1'),
+      ])
+    );
+
+    const data = update.finish(
+      [
+        [pages.objectNumber, update.offsets.get(pages.objectNumber)!],
+        [added, 'free'],
+        [objectStream, update.offsets.get(objectStream)!],
+      ],
+      `<< /Size ${xrefStream + 1} /Root ${root.objectNumber} 0 R /Prev ${lastStartXRef(base)} ` +
+        `/XRefStm ${update.offsets.get(xrefStream)} >>`
+    );
+
+    const inspection = inspectPDF(data);
+    expect(inspection.xrefSections).toBe(2);
+    expect(inspection.pageCount).toBe(4);
+    expect(inspection.pages[3]).toMatchObject({ width: 250, height: 250 });
+    expect(inspection.objects.compressed).toBe(1);
+  });
+
+  it('rejects data that is not a PDF', () => {
+    expect(() => inspectPDF(new TextEncoder().encode('not a pdf'))).toThrow('缺少文件头');
+  });
+});
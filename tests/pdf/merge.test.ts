@@ -0,0 +1,128 @@
+import { PDFDocument } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ErrorCode, clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { readOutline, summarizeOutline } from '../helpers/outline';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import { mergePDFDocuments } from '../../src/pdf/merge';
+import { PDFErrorCode } from '../../src/types';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+/**
+ * 生成卡片：每个基础卡片另起一页，`pages` 为各基础卡片占用的页数
+ */
+function bookCard(name: string, pages: number[]): string {
+  const body = pages
+    .map(
+      (count, index) =>
+        `<section data-base-card-id="${index + 1}" data-fake-pages="${count}"><h1>${name} ${index + 1}</h1></section>`
+    )
+    .join('');
+  return (
+    `<!DOCTYPE html><html><head><title>${name}</title>` +
+    `<style>[data-base-card-id] { break-before: page; }</style></head><body>${body}</body></html>`
+  );
+}
+
+const card = (path: string) => ({ type: 'path', path, fileType: 'card' }) as const;
+
+describe('mergePDFDocuments', () => {
+  it('concatenates documents and reports page offsets', async () => {
+    const part = async (count: number) => {
+      const doc = await PDFDocument.create();
+      for (let i = 0; i < count; i++) {
+        doc.addPage();
+      }
+      return doc.save();
+    };
+
+    const merged = await mergePDFDocuments([await part(2), await part(1), await part(3)]);
+
+    expect(merged.doc.getPageCount()).toBe(6);
+    expect(merged.pageOffsets).toEqual([0, 2, 3]);
+    expect(merged.pageCounts).toEqual([2, 1, 3]);
+  });
+});
+
+describe('CardtoPDFPlugin.convertBook', () => {
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard('/cards/intro.card', bookCard('序章', [2]));
+    registerCard('/cards/chapter.card', bookCard('第一章', [1, 2]));
+    plugin = new CardtoPDFPlugin({ engine: new FakeRenderEngine() });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('merges cards and records each chapter page range', async () => {
+    const result = await plugin.convertBook([card('/cards/intro.card'), card('/cards/chapter.card')]);
+
+    expect(result.success).toBe(true);
+    expect(result.pageCount).toBe(5);
+    expect((await PDFDocument.load(result.data!)).getPageCount()).toBe(5);
+    expect(result.chapters).toEqual([
+      { index: 0, success: true, title: '序章', startPage: 1, endPage: 2, pageCount: 2 },
+      { index: 1, success: true, title: '第一章', startPage: 3, endPage: 5, pageCount: 3 },
+    ]);
+  });
+
+  it('nests card bookmarks under chapter bookmarks at merged page indices', async () => {
+    const result = await plugin.convertBook([card('/cards/intro.card'), card('/cards/chapter.card')], {
+      generateOutline: true,
+    });
+
+    expect(summarizeOutline(readOutline(await PDFDocument.load(result.data!)))).toEqual([
+      ['序章', 0, [['序章 1', 0, []]]],
+      ['第一章', 2, [['第一章 1', 2, []], ['第一章 2', 3, []]]],
+    ]);
+  });
+
+  it('omits chapter bookmarks when chapterBookmarks is false', async () => {
+    const result = await plugin.convertBook([card('/cards/intro.card')], { chapterBookmarks: false });
+
+    expect(readOutline(await PDFDocument.load(result.data!))).toEqual([]);
+  });
+
+  it('skips failed cards and reports them in the chapter list', async () => {
+    const result = await plugin.convertBook([
+      card('/cards/intro.card'),
+      card('/cards/missing.card'),
+      card('/cards/chapter.card'),
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.pageCount).toBe(5);
+    expect(result.chapters.map(({ index, success, startPage }) => ({ index, success, startPage }))).toEqual([
+      { index: 0, success: true, startPage: 1 },
+      { index: 1, success: false, startPage: undefined },
+      { index: 2, success: true, startPage: 3 },
+    ]);
+    expect(result.chapters[1]!.error).toMatchObject({ code: ErrorCode.FILE_NOT_FOUND });
+    expect(result.warnings).toEqual([expect.stringMatching(/^\[2\/3\] 转换失败，已跳过：/)]);
+  });
+
+  it('stops at the first failed card when continueOnError is false', async () => {
+    const result = await plugin.convertBook(
+      [card('/cards/intro.card'), card('/cards/missing.card'), card('/cards/chapter.card')],
+      { continueOnError: false }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: ErrorCode.FILE_NOT_FOUND });
+    expect(result.data).toBeUndefined();
+    expect(result.chapters).toHaveLength(2);
+  });
+
+  it('fails when every card fails', async () => {
+    const result = await plugin.convertBook([card('/cards/missing.card')]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(PDFErrorCode.PDF_GENERATION_FAILED);
+    expect(result.chapters).toEqual([expect.objectContaining({ index: 0, success: false })]);
+  });
+});
@@ -0,0 +1,98 @@
+import { PDFDocument, PDFName, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+const CARD = '/cards/metadata.card';
+const source = { type: 'path' as const, path: CARD, fileType: 'card' as const };
+
+const CARD_CONFIG = {
+  metadata: {
+    card_id: 'card-1',
+    name: '春季旅行',
+    description: '三天两晚的行程',
+    author: '薯片',
+    created_at: '2024-03-01T08:00:00.000Z',
+    tags: ['旅行', '春天 出游'],
+    language: 'zh-CN',
+  },
+};
+
+/**
+ * 读取文档目录中的 XMP 元数据流
+ */
+function readXmp(doc: PDFDocument): string | undefined {
+  const stream = doc.context.lookup(doc.catalog.get(PDFName.of('Metadata')));
+  if (!(stream instanceof PDFRawStream)) {
+    return undefined;
+  }
+  return new TextDecoder().decode(decodePDFRawStream(stream).decode());
+}
+
+describe('CardtoPDFPlugin metadata', () => {
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard(
+      CARD,
+      '<!DOCTYPE html><html><head><title>页面标题</title>' +
+        `<script type="application/json" id="chips-card-config">${JSON.stringify(CARD_CONFIG)}</script>` +
+        '</head><body><p>正文</p></body></html>'
+    );
+    plugin = new CardtoPDFPlugin({ engine: new FakeRenderEngine() });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('fills the Info dictionary and XMP stream from the card metadata', async () => {
+    const result = await plugin.convert(source);
+
+    expect(result.success).toBe(true);
+    const doc = await PDFDocument.load(result.data!, { updateMetadata: false });
+    expect(doc.getTitle()).toBe('春季旅行');
+    expect(doc.getAuthor()).toBe('薯片');
+    expect(doc.getSubject()).toBe('三天两晚的行程');
+    expect(doc.getKeywords()).toBe('旅行, 春天 出游');
+    expect(doc.getCreator()).toMatch(/^CardtoPDFPlugin /);
+    expect(doc.getCreationDate()?.toISOString()).toBe('2024-03-01T08:00:00.000Z');
+
+    const xmp = readXmp(doc);
+    expect(xmp).toContain('<rdf:li xml:lang="x-default">春季旅行</rdf:li>');
+    expect(xmp).toContain('<rdf:li>薯片</rdf:li>');
+    expect(xmp).toContain('2024-03-01T08:00:00');
+  });
+
+  it('lets explicit fields override the card metadata', async () => {
+    const result = await plugin.convert(source, {
+      metadata: { title: '覆盖标题', keywords: ['甲'], creationDate: '2020-01-02T00:00:00Z' },
+    });
+
+    const doc = await PDFDocument.load(result.data!, { updateMetadata: false });
+    expect(doc.getTitle()).toBe('覆盖标题');
+    expect(doc.getAuthor()).toBe('薯片');
+    expect(doc.getKeywords()).toBe('甲');
+    expect(doc.getCreationDate()?.toISOString()).toBe('2020-01-02T00:00:00.000Z');
+    expect(readXmp(doc)).toContain('覆盖标题');
+  });
+
+  it('keeps the engine metadata when disabled', async () => {
+    const result = await plugin.convert(source, { metadata: false });
+
+    const doc = await PDFDocument.load(result.data!, { updateMetadata: false });
+    expect(doc.getTitle()).not.toBe('春季旅行');
+    expect(readXmp(doc)).toBeUndefined();
+  });
+
+  it('rejects invalid metadata dates', async () => {
+    const result = await plugin.convert(source, { metadata: { creationDate: 'not a date' } });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('creationDate');
+  });
+});
@@ -0,0 +1,139 @@
+import { PDFDocument, PDFName } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readOutline, summarizeOutline } from '../helpers/outline';
+import { clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import { collectNamedDestinations } from '../../src/pdf/destinations';
+import { buildOutlineTree, writeOutline } from '../../src/pdf/outline';
+import type { DocumentAnchor } from '../../src/html/anchors';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+const anchor = (id: string, level: number, kind: DocumentAnchor['kind'] = 'heading'): DocumentAnchor => ({
+  id,
+  title: id,
+  level,
+  kind,
+});
+
+describe('buildOutlineTree', () => {
+  it('nests anchors by level and attaches skipped levels to the nearest parent', () => {
+    const positions = new Map([
+      ['a', { pageIndex: 0, top: 800 }],
+      ['a1', { pageIndex: 0, top: 700 }],
+      ['a1x', { pageIndex: 1, top: 600 }],
+      ['b', { pageIndex: 2 }],
+      ['b1', { pageIndex: 2, top: 500 }],
+    ]);
+    const tree = buildOutlineTree(
+      [anchor('a', 1, 'base-card'), anchor('a1', 2), anchor('a1x', 4), anchor('b', 1, 'base-card'), anchor('b1', 3)],
+      positions
+    );
+
+    expect(tree).toEqual([
+      {
+        title: 'a',
+        pageIndex: 0,
+        top: 800,
+        children: [
+          { title: 'a1', pageIndex: 0, top: 700, children: [{ title: 'a1x', pageIndex: 1, top: 600, children: [] }] },
+        ],
+      },
+      { title: 'b', pageIndex: 2, top: undefined, children: [{ title: 'b1', pageIndex: 2, top: 500, children: [] }] },
+    ]);
+  });
+
+  it('skips anchors without a destination', () => {
+    const tree = buildOutlineTree([anchor('a', 1), anchor('missing', 2)], new Map([['a', { pageIndex: 0 }]]));
+
+    expect(tree).toEqual([{ title: 'a', pageIndex: 0, top: undefined, children: [] }]);
+  });
+});
+
+describe('writeOutline', () => {
+  it('writes bookmarks built from the named destinations', async () => {
+    const doc = await PDFDocument.create();
+    const pages = [doc.addPage(), doc.addPage(), doc.addPage()];
+    doc.catalog.set(
+      PDFName.of('Dests'),
+      doc.context.obj({
+        intro: [pages[0]!.ref, 'XYZ', 0, 780, null],
+        details: [pages[1]!.ref, 'XYZ', 0, 420, null],
+        appendix: [pages[2]!.ref, 'Fit'],
+      })
+    );
+    const anchors = [anchor('intro', 1), anchor('details', 2), anchor('appendix', 1)];
+
+    writeOutline(doc, buildOutlineTree(anchors, collectNamedDestinations(doc)));
+    const reloaded = await PDFDocument.load(await doc.save());
+
+    expect(readOutline(reloaded)).toEqual([
+      {
+        title: 'intro',
+        pageIndex: 0,
+        top: 780,
+        children: [{ title: 'details', pageIndex: 1, top: 420, children: [] }],
+      },
+      { title: 'appendix', pageIndex: 2, top: null, children: [] },
+    ]);
+    expect(reloaded.catalog.get(PDFName.of('PageMode'))).toBe(PDFName.of('UseOutlines'));
+  });
+
+  it('leaves the document untouched when there are no bookmarks', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+
+    writeOutline(doc, []);
+
+    expect(doc.catalog.get(PDFName.of('Outlines'))).toBeUndefined();
+  });
+});
+
+describe('CardtoPDFPlugin generateOutline', () => {
+  const CARD = '/cards/outline.card';
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    plugin = new CardtoPDFPlugin({ engine: new FakeRenderEngine() });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('bookmarks base cards and their headings on the pages they land on', async () => {
+    registerCard(
+      CARD,
+      '<!DOCTYPE html><html><head><title>书签</title>' +
+        '<style>[data-base-card-id] { break-before: page; }</style></head><body>' +
+        '<section data-base-card-id="a" data-fake-pages="2"><h1>第一章</h1><h2>第一节</h2><h6>细节</h6></section>' +
+        '<section data-base-card-id="b"><h1>第二章</h1><h2>第二节</h2></section>' +
+        '</body></html>'
+    );
+
+    const result = await plugin.convert(
+      { type: 'path', path: CARD, fileType: 'card' },
+      { generateOutline: true }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.pageCount).toBe(3);
+    const outline = readOutline(await PDFDocument.load(result.data!));
+    // 基础卡片以首个标题为书签标题，其中的 h6 后移为第 7 级仍然保留
+    expect(summarizeOutline(outline)).toEqual([
+      ['第一章', 0, [['第一节', 0, [['细节', 0, []]]]]],
+      ['第二章', 2, [['第二节', 2, []]]],
+    ]);
+    expect(outline[0]!.children[0]!.top).toBeLessThan(outline[0]!.top!);
+  });
+
+  it('does not write bookmarks by default', async () => {
+    registerCard(CARD, '<!DOCTYPE html><html><body><h1>标题</h1></body></html>');
+
+    const result = await plugin.convert({ type: 'path', path: CARD, fileType: 'card' });
+
+    expect(readOutline(await PDFDocument.load(result.data!))).toEqual([]);
+  });
+});
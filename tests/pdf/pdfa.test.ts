@@ -0,0 +1,91 @@
+import { PDFDocument, PDFName, PDFRawStream, StandardFonts } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cardHtml, clearCards, registerCard } from '../fakes/cardto-html-plugin';
+import { FakeRenderEngine } from '../fakes/engine';
+import { CardtoPDFPlugin } from '../../src/plugin';
+import { checkPDFAConformance, preparePDFA } from '../../src/pdf/pdfa';
+
+vi.mock('@chips/cardto-html-plugin', () => import('../fakes/cardto-html-plugin'));
+
+/**
+ * 保存后重新读取，使 pdf-lib 延迟写入的字体与脚本落入文档结构
+ */
+async function reload(doc: PDFDocument): Promise<PDFDocument> {
+  return PDFDocument.load(await doc.save({ useObjectStreams: false }), { updateMetadata: false });
+}
+
+describe('preparePDFA / checkPDFAConformance', () => {
+  it('removes document JavaScript and adds the output intent and file identifier', async () => {
+    const source = await PDFDocument.create();
+    source.addPage();
+    source.addJavaScript('main', 'app.alert("hi")');
+    const doc = await reload(source);
+
+    const rules = checkPDFAConformance(doc, 'pdfa-2b').map((violation) => violation.rule);
+    expect(rules).toEqual(expect.arrayContaining(['file-identifier', 'output-intent', 'xmp-metadata', 'javascript']));
+
+    const fixes = preparePDFA(doc, 'pdfa-2b');
+    expect(fixes).toEqual(['移除文档级 JavaScript', '添加 sRGB 输出意图', '添加文件标识（/ID）']);
+    // XMP 元数据由调用方写入，此处仍报告缺失
+    expect(checkPDFAConformance(doc, 'pdfa-2b').map((violation) => violation.rule)).toEqual(['xmp-metadata']);
+  });
+
+  it('reports fonts that are not embedded on the page that uses them', async () => {
+    const source = await PDFDocument.create();
+    source.addPage();
+    source.addPage().drawText('Hello', { font: await source.embedFont(StandardFonts.Helvetica) });
+    const doc = await reload(source);
+    preparePDFA(doc, 'pdfa-3b');
+
+    const violations = checkPDFAConformance(doc, 'pdfa-3b').filter((violation) => violation.rule !== 'xmp-metadata');
+
+    expect(violations).toEqual([expect.objectContaining({ rule: 'font-embedding', page: 2 })]);
+  });
+});
+
+describe('CardtoPDFPlugin conformance', () => {
+  const CARD = '/cards/archive.card';
+  const source = { type: 'path' as const, path: CARD, fileType: 'card' as const };
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard(CARD, cardHtml('归档卡片'));
+    plugin = new CardtoPDFPlugin({ engine: new FakeRenderEngine() });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('converts to PDF/A-2b and reports a passing self-check', async () => {
+    // PDF/A 要求 XMP 元数据，metadata: false 被忽略
+    const result = await plugin.convert(source, { conformance: 'pdfa-2b', metadata: false });
+
+    expect(result.success).toBe(true);
+    expect(result.conformance).toMatchObject({ level: 'pdfa-2b', passed: true, violations: [] });
+    expect(result.conformance!.fixes).toContain('添加 sRGB 输出意图');
+
+    const doc = await PDFDocument.load(result.data!, { updateMetadata: false });
+    const xmp = doc.context.lookup(doc.catalog.get(PDFName.of('Metadata')));
+    expect(xmp).toBeInstanceOf(PDFRawStream);
+    const text = new TextDecoder().decode((xmp as PDFRawStream).contents);
+    expect(text).toContain('<pdfaid:part>2</pdfaid:part>');
+    expect(text).toContain('<pdfaid:conformance>B</pdfaid:conformance>');
+    expect(doc.getTitle()).toBe('归档卡片');
+  });
+
+  it('omits the report when no conformance level is requested', async () => {
+    const result = await plugin.convert(source);
+
+    expect(result.success).toBe(true);
+    expect(result.conformance).toBeUndefined();
+  });
+
+  it('rejects unknown conformance levels', async () => {
+    const result = await plugin.convert(source, { conformance: 'pdfa-1a' as never });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('pdfa-1a');
+  });
+});
@@ -0,0 +1,484 @@
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JSDOM } from 'jsdom';
+import { PDFDocument } from 'pdf-lib';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cardHtml, clearCards, registerCard } from './fakes/cardto-html-plugin';
+import { FakeRenderEngine } from './fakes/engine';
+import { CardtoPDFPlugin } from '../src/plugin';
+import { PDFErrorCode } from '../src/types';
+import type { PDFProgressInfo } from '../src/types';
+
+vi.mock('@chips/cardto-html-plugin', () => import('./fakes/cardto-html-plugin'));
+
+const CARD = '/cards/demo.card';
+const source = { type: 'path', path: CARD, fileType: 'card' } as const;
+
+describe('CardtoPDFPlugin.convert', () => {
+  let engine: FakeRenderEngine;
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard(CARD, cardHtml('示例卡片', ['<h2>第一节</h2><p>正文</p>', '<p>第二张基础卡片</p>']));
+    engine = new FakeRenderEngine();
+    plugin = new CardtoPDFPlugin({ engine });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('renders the card through the engine and returns the PDF', async () => {
+    const result = await plugin.convert(source);
+
+    expect(result.success).toBe(true);
+    expect(result.pageCount).toBe(1);
+    expect(result.data).toBeInstanceOf(Uint8Array);
+    expect(new TextDecoder().decode(result.data!.subarray(0, 5))).toBe('%PDF-');
+
+    const [page] = engine.pages;
+    expect(page!.contents[0]).toContain('第二张基础卡片');
+    expect(page!.closed).toBe(true);
+  });
+
+  it('uses the appearance defaults for unspecified page settings', async () => {
+    await plugin.convert(source);
+
+    expect(engine.pages[0]!.viewports[0]).toEqual({ width: 794, height: 1123 });
+    expect(engine.pdfCalls[0]).toMatchObject({
+      format: 'A4',
+      landscape: false,
+      scale: 1,
+      margin: { top: '15mm', right: '15mm', bottom: '15mm', left: '15mm' },
+    });
+  });
+
+  it('passes page settings from the call options to the engine', async () => {
+    const result = await plugin.convert(source, {
+      format: 'letter',
+      orientation: 'landscape',
+      scale: 1.5,
+      margin: { top: '1mm', right: '2mm', bottom: '3mm', left: '4mm' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(engine.pdfCalls[0]).toMatchObject({
+      format: 'LETTER',
+      landscape: true,
+      scale: 1.5,
+      margin: { top: '1mm', right: '2mm', bottom: '3mm', left: '4mm' },
+    });
+  });
+
+  it('applies page settings from the plugin configuration below the call options', async () => {
+    const update = await plugin.updateConfig({
+      format: 'letter',
+      orientation: 'landscape',
+      scale: 1.5,
+      margin: { top: '1mm', right: '2mm', bottom: '3mm', left: '4mm' },
+    });
+    expect(update.valid).toBe(true);
+
+    await plugin.convert(source);
+    await plugin.convert(source, { format: 'a5', scale: 0.5 });
+
+    expect(engine.pdfCalls[0]).toMatchObject({
+      format: 'LETTER',
+      landscape: true,
+      scale: 1.5,
+      margin: { top: '1mm', right: '2mm', bottom: '3mm', left: '4mm' },
+    });
+    expect(engine.pages[1].pdfCalls[0]).toMatchObject({ format: 'A5', landscape: true, scale: 0.5 });
+  });
+
+  it('uses a custom paper size instead of the format', async () => {
+    const result = await plugin.convert(source, { width: '100mm', height: '150mm' });
+
+    expect(engine.pdfCalls[0]).toMatchObject({ width: '100mm', height: '150mm' });
+    expect(engine.pdfCalls[0]!.format).toBeUndefined();
+    const [page] = (await PDFDocument.load(result.data!)).getPages();
+    expect(page!.getWidth()).toBeCloseTo((100 * 72) / 25.4, 1);
+  });
+
+  it('does not add a cover page unless requested', async () => {
+    await plugin.convert(source);
+    expect(engine.pages[0]!.contents[0]).not.toContain('data-appearance=');
+
+    await plugin.convert(source, { cover: true });
+    expect(engine.pages[1]!.contents[0]).toContain('data-appearance=');
+  });
+
+  it('writes the PDF to outputPath', async () => {
+    const dir = await fs.promises.mkdtemp(join(tmpdir(), 'cardto-pdf-'));
+    try {
+      const outputPath = join(dir, 'nested', 'demo.pdf');
+      const result = await plugin.convert(source, { outputPath });
+
+      expect(result.success).toBe(true);
+      expect(result.outputPath).toBe(outputPath);
+      expect(result.data).toBeUndefined();
+      const written = await fs.promises.readFile(outputPath);
+      expect(written.length).toBe(result.fileSize);
+      expect((await PDFDocument.load(written)).getPageCount()).toBe(1);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports progress until completion', async () => {
+    const updates: PDFProgressInfo[] = [];
+    const result = await plugin.convert(source, { onProgress: (info) => updates.push(info) });
+
+    expect(updates.length).toBeGreaterThan(1);
+    expect(updates.every((info) => info.taskId === result.taskId)).toBe(true);
+    expect(updates[updates.length - 1]).toMatchObject({ status: 'completed', percent: 100 });
+  });
+
+  it('rejects invalid options without opening a page', async () => {
+    const result = await plugin.convert(source, { scale: 5 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(PDFErrorCode.INVALID_SCALE);
+    expect(engine.pages).toHaveLength(0);
+  });
+
+  it('returns the HTML conversion error when the card cannot be read', async () => {
+    const result = await plugin.convert({ ...source, path: '/cards/missing.card' });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain('missing.card');
+    expect(engine.pages).toHaveLength(0);
+  });
+
+  it('closes the page when loading fails', async () => {
+    const failing = new FakeRenderEngine({ loadError: new Error('net::ERR_ABORTED') });
+    const failingPlugin = new CardtoPDFPlugin({ engine: failing });
+    try {
+      const result = await failingPlugin.convert(source);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ code: PDFErrorCode.PDF_GENERATION_FAILED });
+      expect(failing.pages[0]!.closed).toBe(true);
+    } finally {
+      await failingPlugin.destroy();
+    }
+  });
+
+  it('reports a structure inspection failure as a warning instead of failing', async () => {
+    // 去掉 startxref 后结构检查无法定位交叉引用表
+    const corrupt = new FakeRenderEngine({
+      transformOutput: (data) => Buffer.from(Buffer.from(data).toString('latin1').replace('startxref', ''), 'latin1'),
+    });
+    const corruptPlugin = new CardtoPDFPlugin({ engine: corrupt });
+    try {
+      // 不写入元数据，引擎输出不经 pdf-lib 重新保存
+      const result = await corruptPlugin.convert(source, { metadata: false });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBeInstanceOf(Uint8Array);
+      expect(result.inspection).toBeUndefined();
+      expect(result.pageCount).toBeUndefined();
+      expect(result.warnings).toEqual([expect.stringContaining('PDF 结构检查失败')]);
+    } finally {
+      await corruptPlugin.destroy();
+    }
+  });
+
+  it('closes the engine when the plugin is destroyed', async () => {
+    await plugin.destroy();
+    expect(engine.closed).toBe(true);
+  });
+});
+
+/**
+ * 每个基础卡片另起一页；`data-fake-pages` 让第二张基础卡片占 3 页
+ */
+const BOOK_HTML =
+  '<!DOCTYPE html><html lang="zh-CN"><head><meta charset="utf-8"><title>示例卡片</title>' +
+  '<style>[data-base-card-id] { break-before: page; }</style></head><body>' +
+  '<section data-base-card-id="a"><h1>第一章</h1><h2>第一节</h2><h3>小节</h3></section>' +
+  '<section data-base-card-id="b" data-fake-pages="3"><h1>第二章</h1></section>' +
+  '<section data-base-card-id="c"><h1>第三章</h1></section>' +
+  '</body></html>';
+
+/**
+ * 读取打印时目录中的标题与页码
+ */
+function tocEntries(html: string): Array<[string, string]> {
+  const { document } = new JSDOM(html).window;
+  return Array.from(document.querySelectorAll('.chips-pdf-toc__entry')).map((entry) => [
+    entry.querySelector('.chips-pdf-toc__title')!.textContent!,
+    entry.querySelector('.chips-pdf-toc__page')!.textContent!,
+  ]);
+}
+
+describe('CardtoPDFPlugin table of contents', () => {
+  let engine: FakeRenderEngine;
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard(CARD, BOOK_HTML);
+    engine = new FakeRenderEngine();
+    plugin = new CardtoPDFPlugin({ engine });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('fills in measured page numbers on a second layout pass', async () => {
+    const result = await plugin.convert(source, { toc: true });
+
+    expect(result.success).toBe(true);
+    expect(result.pageCount).toBe(6);
+    const [page] = engine.pages;
+    expect(page!.pdfCalls).toHaveLength(2);
+    // 第一遍使用占位页码，第二遍回填实际页码
+    expect(tocEntries(page!.printedHtml[0]!)).toEqual([
+      ['第一章', '0'],
+      ['第一节', '0'],
+      ['第二章', '0'],
+      ['第三章', '0'],
+    ]);
+    expect(tocEntries(page!.printedHtml[1]!)).toEqual([
+      ['第一章', '2'],
+      ['第一节', '2'],
+      ['第二章', '3'],
+      ['第三章', '6'],
+    ]);
+  });
+
+  it('counts the cover page and honours maxDepth after the base-card shift', async () => {
+    await plugin.convert(source, { cover: true, toc: { maxDepth: 4 } });
+
+    const [page] = engine.pages;
+    expect(tocEntries(page!.printedHtml[1]!)).toEqual([
+      ['第一章', '3'],
+      ['第一节', '3'],
+      ['小节', '3'],
+      ['第二章', '4'],
+      ['第三章', '7'],
+    ]);
+  });
+
+  it('lists only base cards when includeHeadings is false', async () => {
+    await plugin.convert(source, { toc: { includeHeadings: false } });
+
+    const [page] = engine.pages;
+    expect(tocEntries(page!.printedHtml[1]!)).toEqual([
+      ['基础卡片 1', '2'],
+      ['基础卡片 2', '3'],
+      ['基础卡片 3', '6'],
+    ]);
+  });
+
+  it('renders once when the TOC is disabled', async () => {
+    await plugin.convert(source);
+
+    const [page] = engine.pages;
+    expect(page!.pdfCalls).toHaveLength(1);
+    expect(page!.printedHtml[0]).not.toContain('chips-pdf-toc');
+  });
+});
+
+describe('CardtoPDFPlugin cancellation', () => {
+  let engine: FakeRenderEngine;
+  let plugin: CardtoPDFPlugin;
+  let dir: string;
+  let outputPath: string;
+
+  beforeEach(async () => {
+    registerCard(CARD, cardHtml('示例卡片'));
+    // 打印耗时远长于 waitFor 的轮询间隔，留出在渲染期间取消的时间
+    engine = new FakeRenderEngine({ pdfDelay: 200 });
+    plugin = new CardtoPDFPlugin({ engine });
+    dir = await fs.promises.mkdtemp(join(tmpdir(), 'cardto-pdf-cancel-'));
+    outputPath = join(dir, 'out.pdf');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await plugin.destroy();
+    clearCards();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('stops before rendering when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await plugin.convert(source, { taskId: 'before', signal: controller.signal, outputPath });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(PDFErrorCode.TASK_CANCELLED);
+    expect(plugin.getTaskStatus('before')?.status).toBe('cancelled');
+    expect(engine.pages).toHaveLength(0);
+    expect(fs.existsSync(outputPath)).toBe(false);
+  });
+
+  it('cancels a task while the page is being printed', async () => {
+    const pending = plugin.convert(source, { taskId: 'render', outputPath });
+    await vi.waitFor(() => expect(engine.pdfCalls).toHaveLength(1));
+
+    const cancel = await plugin.cancelTask('render');
+    const result = await pending;
+
+    expect(cancel).toMatchObject({ taskId: 'render', cancelled: true, status: 'cancelled' });
+    expect(result.error?.code).toBe(PDFErrorCode.TASK_CANCELLED);
+    expect(plugin.getTaskStatus('render')).toMatchObject({ status: 'cancelled', result });
+    expect(engine.pages[0]!.closed).toBe(true);
+    expect(fs.existsSync(outputPath)).toBe(false);
+  });
+
+  it('cancels a task during post-processing', async () => {
+    const controller = new AbortController();
+    const load = PDFDocument.load.bind(PDFDocument);
+    // 书签写入前加载 PDF 时请求取消
+    vi.spyOn(PDFDocument, 'load').mockImplementation((...args) => {
+      controller.abort();
+      return load(...args);
+    });
+
+    const result = await plugin.convert(source, {
+      taskId: 'post',
+      signal: controller.signal,
+      generateOutline: true,
+      outputPath,
+    });
+
+    expect(result.error?.code).toBe(PDFErrorCode.TASK_CANCELLED);
+    expect(plugin.getTaskStatus('post')?.status).toBe('cancelled');
+    expect(fs.existsSync(outputPath)).toBe(false);
+  });
+
+  it('removes a partially written output file', async () => {
+    const controller = new AbortController();
+    const writeFile = fs.promises.writeFile;
+    // 写入一半时取消
+    vi.spyOn(fs.promises, 'writeFile').mockImplementation(async (file, data) => {
+      await writeFile(file, (data as Uint8Array).subarray(0, 100));
+      controller.abort();
+      throw new DOMException('The operation was aborted', 'AbortError');
+    });
+
+    const result = await plugin.convert(source, { taskId: 'write', signal: controller.signal, outputPath });
+
+    expect(result.error?.code).toBe(PDFErrorCode.TASK_CANCELLED);
+    expect(plugin.getTaskStatus('write')?.status).toBe('cancelled');
+    expect(fs.existsSync(outputPath)).toBe(false);
+  });
+
+  it('reports tasks that already finished as not cancelled', async () => {
+    await plugin.convert(source, { taskId: 'done' });
+
+    await expect(plugin.cancelTask('done')).resolves.toMatchObject({ cancelled: false, status: 'completed' });
+    await expect(plugin.cancelTask('unknown')).resolves.toMatchObject({ cancelled: false });
+  });
+});
+
+describe('CardtoPDFPlugin streaming', () => {
+  let engine: FakeRenderEngine;
+  let plugin: CardtoPDFPlugin;
+
+  beforeEach(() => {
+    registerCard(CARD, cardHtml('示例卡片'));
+    engine = new FakeRenderEngine();
+    plugin = new CardtoPDFPlugin({ engine });
+  });
+
+  afterEach(async () => {
+    await plugin.destroy();
+    clearCards();
+  });
+
+  it('streams the complete post-processed document in chunks', async () => {
+    const progress: PDFProgressInfo[] = [];
+    const { stream, result } = await plugin.convertToStream(source, {
+      chunkSize: 256,
+      onProgress: (info) => progress.push(info),
+    });
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    const outcome = await result;
+    const data = Buffer.concat(chunks);
+
+    expect(outcome).toMatchObject({ success: true, fileSize: data.byteLength, pageCount: 1 });
+    expect(outcome.data).toBeUndefined();
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.byteLength <= 256)).toBe(true);
+    // 元数据写入后的完整文件
+    expect((await PDFDocument.load(data, { updateMetadata: false })).getTitle()).toBe('示例卡片');
+    expect(progress.at(-1)).toMatchObject({ status: 'completed', bytesWritten: data.byteLength });
+  });
+
+  it('forwards the engine stream directly when no post-processing is needed', async () => {
+    const streaming = new FakeRenderEngine({ streamChunkSize: 100 });
+    const streamingPlugin = new CardtoPDFPlugin({ engine: streaming });
+    try {
+      const { stream, result } = await streamingPlugin.convertToWebStream(source, { metadata: false });
+
+      const chunks: Uint8Array[] = [];
+      const reader = stream.getReader();
+      for (let next = await reader.read(); !next.done; next = await reader.read()) {
+        chunks.push(next.value);
+      }
+      const outcome = await result;
+
+      expect(outcome).toMatchObject({ success: true, fileSize: Buffer.concat(chunks).byteLength });
+      // 直接转发时不读取结构信息
+      expect(outcome.inspection).toBeUndefined();
+      expect(chunks.every((chunk) => chunk.byteLength <= 100)).toBe(true);
+      expect((await PDFDocument.load(Buffer.concat(chunks))).getPageCount()).toBe(1);
+      expect(streaming.pages[0]!.closed).toBe(true);
+    } finally {
+      await streamingPlugin.destroy();
+    }
+  });
+
+  it('cancels the task and releases the page when the consumer stops reading', async () => {
+    const streaming = new FakeRenderEngine({ streamChunkSize: 64 });
+    const streamingPlugin = new CardtoPDFPlugin({ engine: streaming });
+    try {
+      const { taskId, stream, result } = await streamingPlugin.convertToWebStream(source, {
+        metadata: false,
+        chunkSize: 64,
+      });
+
+      const reader = stream.getReader();
+      await reader.read();
+      await reader.cancel();
+      const outcome = await result;
+
+      expect(outcome.success).toBe(false);
+      expect(outcome.error?.code).toBe(PDFErrorCode.TASK_CANCELLED);
+      expect(streamingPlugin.getTaskStatus(taskId)?.status).toBe('cancelled');
+      expect(streaming.pages[0]!.closed).toBe(true);
+    } finally {
+      await streamingPlugin.destroy();
+    }
+  });
+
+  it('ends the stream with an error when the task is cancelled', async () => {
+    const slow = new FakeRenderEngine({ pdfDelay: 200 });
+    const slowPlugin = new CardtoPDFPlugin({ engine: slow });
+    try {
+      const { taskId, stream, result } = await slowPlugin.convertToStream(source);
+      const consumed = stream.toArray();
+      await vi.waitFor(() => expect(slow.pdfCalls).toHaveLength(1));
+
+      await slowPlugin.cancelTask(taskId);
+
+      await expect(consumed).rejects.toThrow();
+      expect((await result).error?.code).toBe(PDFErrorCode.TASK_CANCELLED);
+      expect(slow.pages[0]!.closed).toBe(true);
+    } finally {
+      await slowPlugin.destroy();
+    }
+  });
+});